@@ -1,5 +1,6 @@
-import { ChangeTypeMapping } from './constants.js';
-import type { BumpType, ParsedCommit } from './types.js';
+import { gt, inc, type SemVer } from 'semver';
+import { DefaultConfig, TypeHierarchy } from './constants.js';
+import type { BumpType, Config, ParsedCommit } from './types.js';
 
 /**
  * Determines the appropriate semantic version bump type based on parsed commits.
@@ -11,6 +12,7 @@ import type { BumpType, ParsedCommit } from './types.js';
  * - Patch: bug fixes and other changes
  *
  * @param parsedCommits - array of parsed conventional commits to analyze
+ * @param changeTypes - the configured mapping of commit types to bump types
  * @returns the appropriate version bump type
  *
  * @example
@@ -22,7 +24,10 @@ import type { BumpType, ParsedCommit } from './types.js';
  * const bumpType = determineVersionBumpType(commits); // 'minor'
  * ```
  */
-const determineVersionBumpType = (parsedCommits: ParsedCommit[]): BumpType => {
+const determineVersionBumpType = (
+	parsedCommits: ParsedCommit[],
+	changeTypes: Config['changeTypes'] = DefaultConfig.changeTypes
+): BumpType => {
 	// If there are any breaking changes, it's a major bump
 	if (parsedCommits.some((commit) => commit.breaking)) {
 		return 'major';
@@ -32,14 +37,113 @@ const determineVersionBumpType = (parsedCommits: ParsedCommit[]): BumpType => {
 	let bumpType: BumpType = 'patch';
 
 	for (const commit of parsedCommits) {
+		// Explicit bumps (e.g. dependency updates) take precedence over the type mapping
+		if (commit.bump) {
+			bumpType = maxBumpType(bumpType, commit.bump);
+			continue;
+		}
 		// Upgrade bump type if needed (minor > patch)
-		if (ChangeTypeMapping[commit.type] === 'minor') {
-			bumpType = 'minor';
-			break;
+		if (changeTypes[commit.type] === 'minor') {
+			bumpType = maxBumpType(bumpType, 'minor');
 		}
 	}
 
 	return bumpType;
 };
 
-export { determineVersionBumpType };
+/**
+ * Returns the highest of two version bump types.
+ *
+ * @param a - the first bump type
+ * @param b - the second bump type
+ * @returns the bump type with the highest precedence
+ *
+ * @example
+ * ```typescript
+ * maxBumpType('patch', 'minor'); // 'minor'
+ * ```
+ */
+const maxBumpType = (a: BumpType, b: BumpType): BumpType =>
+	TypeHierarchy[b] > TypeHierarchy[a] ? b : a;
+
+/**
+ * Checks whether the pending release of a prerelease version already includes a bump.
+ *
+ * For example `2.0.0-beta.1` is a pending major release, so further major,
+ * minor or patch changes all ship with `2.0.0`, while `1.2.4-beta.1` still
+ * needs a new pre-version for minor changes.
+ *
+ * @param version - the prerelease version
+ * @param bumpType - the version bump type to check
+ * @returns true when the bump is covered by the pending release
+ */
+const isBumpCovered = (version: SemVer, bumpType: BumpType): boolean => {
+	if (bumpType === 'major') return version.minor === 0 && version.patch === 0;
+	if (bumpType === 'minor') return version.patch === 0;
+	return true;
+};
+
+/**
+ * Calculates the next version for a given version and bump type.
+ *
+ * Prereleases follow these rules:
+ * - a `prerelease` identifier enters (or switches to) that prerelease channel
+ * - without an identifier, a prerelease stays in its current channel
+ * - within a channel, the prerelease number is incremented while the pending
+ *   release already covers the bump (`2.0.0-beta.1` → `2.0.0-beta.2`), and a
+ *   new pre-version is started otherwise (`1.2.4-beta.1` + minor → `1.3.0-beta.0`)
+ * - `graduate` promotes a prerelease to its release (`2.0.0-rc.3` → `2.0.0`)
+ *
+ * @param currentVersion - the parsed current version
+ * @param bumpType - the version bump type to apply
+ * @param options - prerelease options
+ * @param options.prerelease - the prerelease identifier to release with (e.g., "alpha", "beta", "rc")
+ * @param options.graduate - promote the current prerelease to a regular release
+ * @returns the new version, or null if it could not be calculated
+ * @throws Error when switching to a prerelease channel that sorts before the current one
+ *
+ * @example
+ * ```typescript
+ * getNextVersion(parse('1.2.3') as SemVer, 'minor'); // '1.3.0'
+ * getNextVersion(parse('1.2.3') as SemVer, 'major', { prerelease: 'alpha' }); // '2.0.0-alpha.0'
+ * getNextVersion(parse('2.0.0-alpha.1') as SemVer, 'patch'); // '2.0.0-alpha.2'
+ * getNextVersion(parse('2.0.0-alpha.1') as SemVer, 'minor', { prerelease: 'beta' }); // '2.0.0-beta.0'
+ * getNextVersion(parse('2.0.0-rc.3') as SemVer, 'patch', { graduate: true }); // '2.0.0'
+ * ```
+ */
+const getNextVersion = (
+	currentVersion: SemVer,
+	bumpType: BumpType,
+	options: { prerelease?: string; graduate?: boolean } = {}
+): string | null => {
+	const { prerelease, graduate = false } = options;
+	const isPrerelease = currentVersion.prerelease.length > 0;
+
+	// semver only bumps a prerelease further when its release does not cover the bump
+	if (graduate || (!prerelease && !isPrerelease)) {
+		return inc(currentVersion, bumpType, false);
+	}
+
+	const currentId = currentVersion.prerelease[0];
+	const prereleaseId =
+		prerelease ?? (typeof currentId === 'string' ? currentId : undefined);
+
+	if (!isPrerelease || !isBumpCovered(currentVersion, bumpType)) {
+		const prereleaseMap = {
+			major: 'premajor',
+			minor: 'preminor',
+			patch: 'prepatch',
+		} as const;
+		return inc(currentVersion, prereleaseMap[bumpType], prereleaseId);
+	}
+
+	const newVersion = inc(currentVersion, 'prerelease', prereleaseId);
+	if (newVersion && !gt(newVersion, currentVersion)) {
+		throw new Error(
+			`Cannot switch prerelease ${currentVersion.version} to ${prereleaseId}: ${newVersion} would sort before it`
+		);
+	}
+	return newVersion;
+};
+
+export { determineVersionBumpType, getNextVersion, maxBumpType };
@@ -1,23 +1,121 @@
-import { readFileSync, statSync, writeFileSync } from 'node:fs';
+import { readFileSync, statSync } from 'node:fs';
 import { join } from 'node:path';
-import { ChangeTypeHeaderMapping } from './constants.js';
+import { writeFile } from './changes.js';
+import { getPullRequest } from './commits.js';
+import {
+	BreakingChangeKeywords,
+	BreakingChangesHeader,
+	ContributorsHeader,
+	DefaultConfig,
+} from './constants.js';
+import {
+	getIssueKeyPattern,
+	getIssueKeyUrl,
+	getRepositoryLinks,
+} from './links.js';
+import { renderTemplate } from './template.js';
 import type {
+	BreakingChangeContext,
+	ChangelogEntryContext,
 	ChangelogSections,
+	ChangelogTemplate,
+	CommitAuthor,
+	CommitReference,
+	Config,
+	ContributorContext,
+	ParsedCommit,
 	SectionsByType,
 	SectionsByWorkspace,
 	Workspace,
+	WorkspaceRelease,
 } from './types.js';
 
+/**
+ * Builds the URL of an issue or pull request.
+ *
+ * Cross-repository references point to the repository they name on the same
+ * host as the current repository.
+ *
+ * @param reference - the issue or pull request reference
+ * @param baseUrl - the base repository URL
+ * @param kind - whether the reference is an issue or a pull request
+ * @param config - the resolved configuration with the link style
+ * @returns the URL, empty without repository URL
+ */
+const getReferenceUrl = (
+	reference: CommitReference,
+	baseUrl: string,
+	kind: 'issue' | 'pullRequest',
+	config: Config
+): string =>
+	baseUrl
+		? getRepositoryLinks(baseUrl, config)[kind](
+				reference.number,
+				reference.repository
+			)
+		: '';
+
+/**
+ * Formats an issue or pull request reference as a Markdown link.
+ *
+ * @param reference - the issue or pull request reference
+ * @param baseUrl - the base repository URL
+ * @param kind - whether the reference is an issue or a pull request
+ * @param config - the resolved configuration with the link style
+ * @returns the linked reference (e.g. `[#12](https://github.com/user/repo/issues/12)`), plain without repository URL
+ */
+const formatReference = (
+	reference: CommitReference,
+	baseUrl: string,
+	kind: 'issue' | 'pullRequest',
+	config: Config
+): string => {
+	const text = `${reference.repository ?? ''}#${reference.number}`;
+	const url = getReferenceUrl(reference, baseUrl, kind, config);
+	return url ? `[${text}](${url})` : text;
+};
+
+/**
+ * Replaces the matches of a pattern outside the Markdown links of a text.
+ *
+ * @param text - the text to process
+ * @param pattern - the global regular expression to replace
+ * @param replacer - returns the replacement of a match
+ * @returns the text with the matches outside links replaced
+ */
+const replaceOutsideLinks = (
+	text: string,
+	pattern: RegExp,
+	replacer: (match: string, ...groups: (string | undefined)[]) => string
+): string =>
+	text
+		.split(/(\[[^\]]*\]\([^)]*\))/)
+		.map((part, index) =>
+			index % 2 === 0
+				? part.replace(pattern, (match, ...groups) =>
+						replacer(match, ...groups)
+					)
+				: part
+		)
+		.join('');
+
 /**
  * Converts commit subjects to include clickable links for issues and commits.
  *
- * Transforms GitHub issue references (#123) into clickable links and appends
+ * Transforms GitHub issue references (#123), including cross-repository
+ * references (owner/repo#123), into clickable links and appends
  * commit hash links when available. Enhances changelog readability by providing
- * direct navigation to related issues and commits.
+ * direct navigation to related issues and commits. Links follow the URL
+ * shapes of the forge hosting the repository, see {@link getRepositoryLinks}.
+ *
+ * Keys of the configured `issueTrackers` (e.g. `PAY-1234`) are linked to
+ * their tracker first, even without repository URL. Text already linked is
+ * left untouched.
  *
  * @param subject - the commit subject line to process
  * @param baseUrl - the base repository URL for generating links
  * @param commitHash - optional commit hash to include as a link
+ * @param config - the resolved configuration with the link style
  * @returns the subject with embedded markdown links
  *
  * @example
@@ -33,24 +131,254 @@ import type {
 const linkifyCommitReferences = (
 	subject: string,
 	baseUrl: string,
-	commitHash?: string
+	commitHash?: string,
+	config: Config = DefaultConfig
 ): string => {
-	if (!baseUrl) return subject;
-
 	let result = subject;
 
-	// Match GitHub issue/PR references like #123
-	result = result.replace(/#(\d+)/g, `[#$1](${baseUrl}/issues/$1)`);
+	// Match the keys of issue trackers like PAY-1234
+	for (const tracker of config.issueTrackers) {
+		result = replaceOutsideLinks(
+			result,
+			getIssueKeyPattern(tracker),
+			(key) => `[${key}](${getIssueKeyUrl(tracker, key)})`
+		);
+	}
+
+	if (!baseUrl) return result;
+
+	// Match GitHub issue/PR references like #123 or owner/repo#123
+	result = replaceOutsideLinks(
+		result,
+		/(?<![\w/.-])(?:([\w.-]+\/[\w.-]+))?#(\d+)\b/g,
+		(_, repository, number = '') =>
+			formatReference(
+				{ number: Number(number), ...(repository && { repository }) },
+				baseUrl,
+				'issue',
+				config
+			)
+	);
 
 	// Add commit hash link if provided
 	if (commitHash) {
 		const shortHash = commitHash.substring(0, 7);
-		result += ` ([${shortHash}](${baseUrl}/commit/${commitHash}))`;
+		const commitUrl = getRepositoryLinks(baseUrl, config).commit(commitHash);
+		result += ` ([${shortHash}](${commitUrl}))`;
 	}
 
 	return result;
 };
 
+/**
+ * Formats a commit author as their GitHub handle, or their name when unknown.
+ *
+ * Handles come from the `authorHandles` option, or from GitHub noreply email
+ * addresses (e.g. `12345+octocat@users.noreply.github.com`).
+ *
+ * @param author - the commit author
+ * @param config - the resolved configuration with the author handles
+ * @returns the handle prefixed with `@`, or the name of the author
+ */
+const formatAuthor = (author: CommitAuthor, config: Config): string => {
+	const email = author.email.toLowerCase();
+	const handle =
+		Object.entries(config.authorHandles).find(
+			([address]) => address.toLowerCase() === email
+		)?.[1] ??
+		email.match(/^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/)?.[1];
+	return handle ? `@${handle.replace(/^@/, '')}` : author.name || author.email;
+};
+
+/**
+ * Lists the contributors of a release in a section of their own.
+ *
+ * The section comes after every other section, and lists each contributor
+ * once with the `contributor` changelog template.
+ *
+ * @param sections - the ordered sections of the release
+ * @param contributors - the first-time contributors of the release
+ * @param config - the resolved configuration with the contributor template
+ * @returns the sections, with the contributors section when there are contributors
+ */
+const addContributorsSection = (
+	sections: SectionsByType,
+	contributors: ContributorContext[],
+	config: Config
+): SectionsByType => {
+	if (contributors.length === 0) {
+		return sections;
+	}
+	const unique = new Map(
+		contributors.map((contributor) => [
+			contributor.email.toLowerCase(),
+			contributor,
+		])
+	);
+	sections.set(
+		ContributorsHeader,
+		[...unique.values()]
+			.sort((a, b) => a.contributor.localeCompare(b.contributor, 'en'))
+			.map((contributor) =>
+				renderTemplate(config.changelogTemplates.contributor, contributor)
+			)
+	);
+	return sections;
+};
+
+/**
+ * Formats changelog sections grouped by type as Markdown.
+ *
+ * @param sections - the changelog lines grouped by section header
+ * @param config - the resolved configuration with the section header template
+ * @returns the formatted sections, each with its own heading
+ */
+const formatSections = (
+	sections: SectionsByType,
+	config: Config = DefaultConfig
+): string =>
+	Array.from(sections.entries())
+		.map(([title, lines]) => {
+			const header = renderTemplate(config.changelogTemplates.sectionHeader, {
+				title,
+			});
+			return `${header}\n\n${lines.join('\n')}\n`;
+		})
+		.join('\n');
+
+/**
+ * Compares changelog entries by scope, then by subject.
+ *
+ * @param a - the first entry
+ * @param b - the second entry
+ * @returns a negative number when `a` comes first, a positive number when `b` does
+ */
+const compareEntries = (
+	a: ChangelogEntryContext,
+	b: ChangelogEntryContext
+): number =>
+	a.scope.localeCompare(b.scope, 'en') ||
+	a.subject.localeCompare(b.subject, 'en');
+
+/**
+ * Renders the entries of a changelog section.
+ *
+ * Entries of the same commit attributed to several workspaces are merged into
+ * one entry listing all of them, entries are sorted by scope then subject,
+ * and identical lines are only kept once.
+ *
+ * @param entries - the entries of the section, in commit order
+ * @param template - the template rendering each entry
+ * @returns the rendered lines of the section
+ */
+const renderSectionEntries = <Context extends ChangelogEntryContext>(
+	entries: Context[],
+	template: ChangelogTemplate<Context>
+): string[] => {
+	const merged = new Map<string, Context>();
+	for (const entry of entries) {
+		const note = 'note' in entry ? entry.note : '';
+		const key = `${entry.hash}\0${entry.subject}\0${note}`;
+		const existing = merged.get(key);
+		if (!existing) {
+			merged.set(key, { ...entry });
+		} else if (
+			entry.workspace &&
+			!existing.workspace.split(', ').includes(entry.workspace)
+		) {
+			existing.workspace = [existing.workspace, entry.workspace]
+				.filter(Boolean)
+				.join(', ');
+		}
+	}
+	const lines = [...merged.values()]
+		.sort(compareEntries)
+		.map((entry) => renderTemplate(template, entry));
+	return [...new Set(lines)];
+};
+
+/**
+ * Lists the breaking changes of a commit, one per breaking change note.
+ *
+ * Commits marked as breaking with `type!:` but without note are listed with
+ * their subject, without its pull request suffix. Lines of multi-line notes
+ * after the first are re-indented so that their Markdown stays in the list
+ * item of the default template. Notes are linked like subjects, see
+ * {@link linkifyCommitReferences}.
+ *
+ * @param commit - the parsed commit
+ * @param entry - the changelog entry of the commit
+ * @param baseUrl - the base repository URL for generating links
+ * @param config - the resolved configuration with the link style and issue trackers
+ * @returns the breaking changes of the commit, empty if it is not breaking
+ */
+const getBreakingChanges = (
+	commit: ParsedCommit,
+	entry: ChangelogEntryContext,
+	baseUrl: string,
+	config: Config
+): BreakingChangeContext[] => {
+	if (!commit.breaking) {
+		return [];
+	}
+	const notes = commit.notes
+		.filter((note) => BreakingChangeKeywords.includes(note.title))
+		.map((note) => note.text.trim())
+		// The parser notes `type!:` headers with the subject, pull request suffix included
+		.filter((note) => note && getPullRequest(note).subject !== commit.subject)
+		.map((note) => linkifyCommitReferences(note, baseUrl, undefined, config));
+	return (notes.length > 0 ? notes : [entry.subject]).map((note) => ({
+		...entry,
+		note: note
+			.split('\n')
+			.map((line) => line.trimStart())
+			.map((line, index) => (index === 0 || !line ? line : `  ${line}`))
+			.join('\n'),
+	}));
+};
+
+/**
+ * Orders changelog sections by the configured section order.
+ *
+ * Sections missing from the order come last, sorted by header. The breaking
+ * changes section comes first unless the order lists it.
+ *
+ * @param sections - the entries grouped by section header
+ * @param breakingChanges - the breaking changes listed in their own section
+ * @param config - the resolved configuration with the section order and templates
+ * @returns the rendered sections in order
+ */
+const orderSections = (
+	sections: Map<string, ChangelogEntryContext[]>,
+	breakingChanges: BreakingChangeContext[],
+	config: Config
+): SectionsByType => {
+	const rank = (header: string): number => {
+		const index = config.sectionOrder.indexOf(header);
+		if (index === -1 && header === BreakingChangesHeader) return -1;
+		return index === -1 ? config.sectionOrder.length : index;
+	};
+	const headers = [...sections.keys()];
+	if (breakingChanges.length > 0 && !sections.has(BreakingChangesHeader)) {
+		headers.push(BreakingChangesHeader);
+	}
+	headers.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b, 'en'));
+	return new Map(
+		headers.map((header) => [
+			header,
+			header === BreakingChangesHeader && breakingChanges.length > 0
+				? renderSectionEntries(
+						breakingChanges,
+						config.changelogTemplates.breakingChange
+					)
+				: renderSectionEntries(
+						sections.get(header) ?? [],
+						config.changelogTemplates.entry
+					),
+		])
+	);
+};
+
 /**
  * Generates changelog sections from workspace commits.
  *
@@ -60,18 +388,40 @@ const linkifyCommitReferences = (
  *
  * For single-package repositories, omits package name prefixes from changelog
  * entries to reduce redundancy. For monorepos, includes package name prefixes
- * for clarity.
+ * for clarity. Entries are rendered with the `entry` changelog template.
+ *
+ * Breaking changes are also listed with their notes in a breaking changes
+ * section, rendered with the `breakingChange` changelog template.
+ *
+ * Entries credit the author and co-authors of their commit when
+ * `creditAuthors` is enabled. Contributors recorded as new on the commits
+ * (see {@link markNewContributors | `markNewContributors`}) are listed last
+ * in a contributors section, rendered with the `contributor` template.
+ *
+ * Sections follow the configured `sectionOrder` and their entries are sorted
+ * by scope then subject, so the output does not depend on the commit order.
+ * A commit affecting several workspaces is listed once in the main changelog.
  *
  * @param workspaces - record of all workspaces with their commits
  * @param baseUrl - the base repository URL for generating commit links
+ * @param config - the resolved configuration with changelog section headers, order and templates
  * @returns object containing main and workspace-specific changelog sections
  */
 const generateChangelogSections = (
 	workspaces: Record<string, Workspace>,
-	baseUrl: string
+	baseUrl: string,
+	config: Config = DefaultConfig
 ): ChangelogSections => {
-	const linesSectionsByType: SectionsByType = new Map();
-	const linesSectionsByWorkspace: SectionsByWorkspace = new Map();
+	const entriesByType = new Map<string, ChangelogEntryContext[]>();
+	const entriesByWorkspace = new Map<
+		string,
+		Map<string, ChangelogEntryContext[]>
+	>();
+	const breakingChanges: BreakingChangeContext[] = [];
+	const breakingChangesByWorkspace = new Map<string, BreakingChangeContext[]>();
+	const contributors: ContributorContext[] = [];
+	const contributorsByWorkspace = new Map<string, ContributorContext[]>();
+	const links = getRepositoryLinks(baseUrl, config);
 
 	// Detect if this is a single-package repository
 	const isSinglePackageRepo = Object.keys(workspaces).length === 1;
@@ -81,53 +431,121 @@ const generateChangelogSections = (
 			continue;
 		}
 		for (const commit of workspace.commits) {
-			const sectionHeader = ChangeTypeHeaderMapping[commit.type];
-			const linkedSubject = linkifyCommitReferences(
-				commit.subject,
-				baseUrl,
-				commit.hash
+			const sectionHeader =
+				config.changeTypeHeaders[commit.type] ?? commit.type;
+			const hash = commit.hash ?? '';
+			const commitUrl = baseUrl && hash ? links.commit(hash) : '';
+			const authors = [
+				...(commit.author ? [commit.author] : []),
+				...(commit.coAuthors ?? []),
+			].map((author) => formatAuthor(author, config));
+			const entry: ChangelogEntryContext = {
+				subject: linkifyCommitReferences(
+					commit.subject,
+					baseUrl,
+					undefined,
+					config
+				),
+				type: commit.type,
+				scope: commit.scope,
+				breaking: commit.breaking,
+				hash,
+				shortHash: hash.substring(0, 7),
+				commitUrl,
+				package: workspace.name,
+				workspace: '',
+				authors: config.creditAuthors ? [...new Set(authors)].join(', ') : '',
+				date: commit.date?.slice(0, 10) ?? '',
+				pr: commit.pr
+					? formatReference(commit.pr, baseUrl, 'pullRequest', config)
+					: '',
+				prUrl: commit.pr
+					? getReferenceUrl(commit.pr, baseUrl, 'pullRequest', config)
+					: '',
+				closes: (commit.closes ?? [])
+					.map((issue) => formatReference(issue, baseUrl, 'issue', config))
+					.join(', '),
+			};
+			const newContributors = (commit.newContributors ?? []).map(
+				(author): ContributorContext => ({
+					contributor: formatAuthor(author, config),
+					name: author.name,
+					email: author.email,
+					hash,
+					shortHash: hash.substring(0, 7),
+					commitUrl,
+				})
 			);
 
 			// Only add to main changelog if package is public
 			if (!workspace.isPrivate) {
-				if (!linesSectionsByType.has(sectionHeader)) {
-					linesSectionsByType.set(sectionHeader, []);
+				if (!entriesByType.has(sectionHeader)) {
+					entriesByType.set(sectionHeader, []);
 				}
 
 				// For single-package repos, omit package name prefix
 				// For monorepos, include package name prefix for clarity
-				const changelogEntry = isSinglePackageRepo
-					? `- ${linkedSubject}`
-					: `- **${workspace.shortName}** ${linkedSubject}`;
-
-				linesSectionsByType.get(sectionHeader)?.push(changelogEntry);
+				const mainEntry = {
+					...entry,
+					workspace: isSinglePackageRepo ? '' : workspace.shortName,
+				};
+				entriesByType.get(sectionHeader)?.push(mainEntry);
+				breakingChanges.push(
+					...getBreakingChanges(commit, mainEntry, baseUrl, config)
+				);
+				contributors.push(...newContributors);
 			}
 
 			// Track sections by workspace for workspace-specific changelogs (all packages)
-			if (!linesSectionsByWorkspace.has(workspace.shortName)) {
-				linesSectionsByWorkspace.set(workspace.shortName, new Map());
+			if (!entriesByWorkspace.has(workspace.shortName)) {
+				entriesByWorkspace.set(workspace.shortName, new Map());
 			}
-			const workspaceSections = linesSectionsByWorkspace.get(
-				workspace.shortName
-			);
+			const workspaceSections = entriesByWorkspace.get(workspace.shortName);
 			if (workspaceSections) {
 				if (!workspaceSections.has(sectionHeader)) {
 					workspaceSections.set(sectionHeader, []);
 				}
-				workspaceSections.get(sectionHeader)?.push(`- ${linkedSubject}`);
+				workspaceSections.get(sectionHeader)?.push(entry);
 			}
+			if (!breakingChangesByWorkspace.has(workspace.shortName)) {
+				breakingChangesByWorkspace.set(workspace.shortName, []);
+			}
+			breakingChangesByWorkspace
+				.get(workspace.shortName)
+				?.push(...getBreakingChanges(commit, entry, baseUrl, config));
+			contributorsByWorkspace.set(workspace.shortName, [
+				...(contributorsByWorkspace.get(workspace.shortName) ?? []),
+				...newContributors,
+			]);
 		}
 	}
 
-	const mainSections = Array.from(linesSectionsByType.entries())
-		.map(([header, lines]) => {
-			return `### ${header}\n\n${lines.join('\n')}\n`;
-		})
-		.join('\n');
+	const mainSections = formatSections(
+		addContributorsSection(
+			orderSections(entriesByType, breakingChanges, config),
+			contributors,
+			config
+		),
+		config
+	);
+	const workspaceSections: SectionsByWorkspace = new Map(
+		[...entriesByWorkspace].map(([shortName, sections]) => [
+			shortName,
+			addContributorsSection(
+				orderSections(
+					sections,
+					breakingChangesByWorkspace.get(shortName) ?? [],
+					config
+				),
+				contributorsByWorkspace.get(shortName) ?? [],
+				config
+			),
+		])
+	);
 
 	return {
 		mainSections,
-		workspaceSections: linesSectionsByWorkspace,
+		workspaceSections,
 	};
 };
 
@@ -157,12 +575,13 @@ const parseExistingChangelogHeader = (changelogPath: string): string => {
 /**
  * Generates a version header for changelog entries.
  *
- * Creates a standardized version header with the current date and a link
- * to the version comparison or release page.
+ * Renders the `versionHeader` changelog template with the current date and
+ * a link to the version comparison or release page.
  *
  * @param version - the version number
  * @param versionLink - the URL linking to the version comparison or release
- * @returns formatted version header with date
+ * @param config - the resolved configuration with the version header template
+ * @returns formatted version header with date, followed by a blank line
  *
  * @example
  * ```typescript
@@ -172,12 +591,18 @@ const parseExistingChangelogHeader = (changelogPath: string): string => {
  */
 const generateVersionHeader = (
 	version: string,
-	versionLink: string
+	versionLink: string,
+	config: Config = DefaultConfig
 ): string => {
 	const day = new Date().getDate().toString().padStart(2, '0');
 	const month = (new Date().getMonth() + 1).toString().padStart(2, '0');
 	const year = new Date().getFullYear();
-	return `## [${version}](${versionLink}) (${year}-${month}-${day})\n\n`;
+	const header = renderTemplate(config.changelogTemplates.versionHeader, {
+		version,
+		versionLink,
+		date: `${year}-${month}-${day}`,
+	});
+	return `${header}\n\n`;
 };
 
 /**
@@ -191,15 +616,17 @@ const generateVersionHeader = (
  * @param version - the version number
  * @param versionLink - the URL linking to the version comparison
  * @param sections - the formatted changelog sections content
+ * @param config - the resolved configuration with the version header template
  */
 const updateRootChangelog = (
 	changelogPath: string,
 	version: string,
 	versionLink: string,
-	sections: string
+	sections: string,
+	config: Config = DefaultConfig
 ): void => {
 	const header = parseExistingChangelogHeader(changelogPath);
-	const versionHeader = generateVersionHeader(version, versionLink);
+	const versionHeader = generateVersionHeader(version, versionLink, config);
 	const newChangelog = `${header}${versionHeader}`;
 
 	let existingChangelog = '';
@@ -212,13 +639,13 @@ const updateRootChangelog = (
 	}
 
 	const changelogContent = `${newChangelog}${sections}\n\n${existingChangelog.replace(header, '')}`;
-	writeFileSync(changelogPath, changelogContent, 'utf-8');
+	writeFile(changelogPath, changelogContent);
 };
 
 /**
  * Updates a workspace-specific changelog file.
  *
- * Updates the CHANGELOG.md file within a workspace directory with either
+ * Updates the changelog file within a workspace directory with either
  * specific changes for that workspace or a version bump notification.
  * Only processes workspaces that have existing changelog files.
  *
@@ -226,40 +653,39 @@ const updateRootChangelog = (
  * @param version - the version number
  * @param versionLink - the URL linking to the version comparison
  * @param workspaceSections - optional sections specific to this workspace
+ * @param config - the resolved configuration with the changelog file name and templates
+ * @returns the path of the updated changelog, or null if the workspace has none
  */
 const updateWorkspaceChangelog = (
 	workspacePath: string,
 	version: string,
 	versionLink: string,
-	workspaceSections: SectionsByType | undefined
-): void => {
-	const changelogPath = join(workspacePath, 'CHANGELOG.md');
+	workspaceSections: SectionsByType | undefined,
+	config: Config = DefaultConfig
+): string | null => {
+	const changelogPath = join(workspacePath, config.changelogFile);
 	try {
 		if (!statSync(changelogPath).isFile()) {
-			return;
+			return null;
 		}
 	} catch {
 		// File doesn't exist
-		return;
+		return null;
 	}
 
 	const header = parseExistingChangelogHeader(changelogPath);
-	const versionHeader = generateVersionHeader(version, versionLink);
+	const versionHeader = generateVersionHeader(version, versionLink, config);
 	const newChangelog = `${header}${versionHeader}`;
 
-	let changes = '**Note:** Version bump only for this package\n\n';
+	let changes = `${renderTemplate(config.changelogTemplates.versionBumpOnly, { version })}\n\n`;
 	if (workspaceSections) {
-		const workspaceSectionContent = Array.from(workspaceSections.entries())
-			.map(([sectionHeader, lines]) => {
-				return `### ${sectionHeader}\n\n${lines.join('\n')}\n`;
-			})
-			.join('\n');
-		changes = workspaceSectionContent;
+		changes = formatSections(workspaceSections, config);
 	}
 
 	const existingChangelog = readFileSync(changelogPath, 'utf-8');
 	const changelogContent = `${newChangelog}${changes}${existingChangelog.replace(header, '')}`;
-	writeFileSync(changelogPath, changelogContent, 'utf-8');
+	writeFile(changelogPath, changelogContent);
+	return changelogPath;
 };
 
 /**
@@ -275,6 +701,8 @@ const updateWorkspaceChangelog = (
  * @param version - the new version number
  * @param versionLink - the URL linking to the version comparison
  * @param baseUrl - the base repository URL for generating links
+ * @param config - the resolved configuration with section headers and changelog file name
+ * @returns the paths of all changelog files written
  *
  * @example
  * ```typescript
@@ -292,41 +720,237 @@ const updateChangelogs = (
 	workspaces: Record<string, Workspace>,
 	version: string,
 	versionLink: string,
-	baseUrl: string
-): void => {
+	baseUrl: string,
+	config: Config = DefaultConfig
+): string[] => {
 	const { mainSections, workspaceSections } = generateChangelogSections(
 		workspaces,
-		baseUrl
+		baseUrl,
+		config
 	);
 
 	// Update root changelog
-	const rootChangelogPath = join(rootPath, 'CHANGELOG.md');
-	updateRootChangelog(rootChangelogPath, version, versionLink, mainSections);
+	const rootChangelogPath = join(rootPath, config.changelogFile);
+	updateRootChangelog(
+		rootChangelogPath,
+		version,
+		versionLink,
+		mainSections,
+		config
+	);
+	const writtenFiles = [rootChangelogPath];
 
 	// Update workspace-specific changelogs
 	for (const workspace of Object.values(workspaces)) {
 		// Skip workspace changelog if it's the same as root (single-package repo)
-		const workspaceChangelogPath = join(workspace.path, 'CHANGELOG.md');
+		const workspaceChangelogPath = join(workspace.path, config.changelogFile);
 		if (workspaceChangelogPath === rootChangelogPath) {
 			continue;
 		}
 
 		const workspaceSection = workspaceSections.get(workspace.shortName);
-		updateWorkspaceChangelog(
+		const workspaceChangelog = updateWorkspaceChangelog(
 			workspace.path,
 			version,
 			versionLink,
-			workspaceSection
+			workspaceSection,
+			config
+		);
+		if (workspaceChangelog) {
+			writtenFiles.push(workspaceChangelog);
+		}
+	}
+
+	return writtenFiles;
+};
+
+/**
+ * Updates all changelog files for independently versioned workspaces.
+ *
+ * Each released workspace gets a version header with its own version and
+ * comparison link in its workspace-specific changelog. The root changelog
+ * receives one entry per released public workspace, headed by the package
+ * name and its new version. Workspaces without a release are left untouched.
+ *
+ * @param rootPath - the root path of the repository
+ * @param workspaces - record of all workspaces with their commits
+ * @param releases - new version and comparison link keyed by workspace short name
+ * @param baseUrl - the base repository URL for generating links
+ * @param config - the resolved configuration with section headers and changelog file name
+ * @returns the paths of all changelog files written
+ *
+ * @example
+ * ```typescript
+ * updateChangelogsIndependently('/path/to/repo', workspaces, {
+ *   core: {
+ *     version: '2.1.0',
+ *     versionLink: 'https://github.com/user/repo/compare/@scope/core@2.0.0...@scope/core@2.1.0',
+ *   },
+ * }, 'https://github.com/user/repo');
+ * ```
+ */
+const updateChangelogsIndependently = (
+	rootPath: string,
+	workspaces: Record<string, Workspace>,
+	releases: Record<string, WorkspaceRelease>,
+	baseUrl: string,
+	config: Config = DefaultConfig
+): string[] => {
+	const { workspaceSections } = generateChangelogSections(
+		workspaces,
+		baseUrl,
+		config
+	);
+	const rootChangelogPath = join(rootPath, config.changelogFile);
+
+	// Build one root changelog entry per released public workspace
+	const rootEntries: string[] = [];
+	const writtenFiles: string[] = [];
+	for (const workspace of Object.values(workspaces)) {
+		const release = releases[workspace.shortName];
+		if (!release) continue;
+
+		const sections = workspaceSections.get(workspace.shortName);
+		if (!workspace.isPrivate && sections) {
+			const versionHeader = generateVersionHeader(
+				`${workspace.name}@${release.version}`,
+				release.versionLink,
+				config
+			);
+			rootEntries.push(`${versionHeader}${formatSections(sections, config)}`);
+		}
+
+		// Skip workspace changelog if it's the same as root (single-package repo)
+		if (join(workspace.path, config.changelogFile) === rootChangelogPath) {
+			continue;
+		}
+
+		const workspaceChangelog = updateWorkspaceChangelog(
+			workspace.path,
+			release.version,
+			release.versionLink,
+			sections,
+			config
 		);
+		if (workspaceChangelog) {
+			writtenFiles.push(workspaceChangelog);
+		}
+	}
+
+	if (rootEntries.length === 0) {
+		return writtenFiles;
+	}
+
+	const header = parseExistingChangelogHeader(rootChangelogPath);
+	let existingChangelog = '';
+	try {
+		if (statSync(rootChangelogPath).isFile()) {
+			existingChangelog = readFileSync(rootChangelogPath, 'utf-8');
+		}
+	} catch {
+		// File doesn't exist, start with empty content
+	}
+
+	const changelogContent = `${header}${rootEntries.join('\n')}\n\n${existingChangelog.replace(header, '')}`;
+	writeFile(rootChangelogPath, changelogContent);
+	writtenFiles.unshift(rootChangelogPath);
+
+	return writtenFiles;
+};
+
+/**
+ * Generates the release notes of a new version.
+ *
+ * Release notes are the changelog sections of the version without any
+ * version header: the root changelog sections, or the sections of a single
+ * workspace when a workspace short name is provided.
+ *
+ * @param workspaces - record of all workspaces with their commits
+ * @param baseUrl - the base repository URL for generating links
+ * @param config - the resolved configuration with changelog section headers
+ * @param shortName - optional short name of the workspace to generate notes for
+ * @returns the release notes as Markdown
+ *
+ * @example
+ * ```typescript
+ * const notes = generateReleaseNotes(workspaces, 'https://github.com/user/repo');
+ * // Returns: "### Features\n\n- **core** add feature ([abc1234](...))\n"
+ * ```
+ */
+const generateReleaseNotes = (
+	workspaces: Record<string, Workspace>,
+	baseUrl: string,
+	config: Config = DefaultConfig,
+	shortName?: string
+): string => {
+	const { mainSections, workspaceSections } = generateChangelogSections(
+		workspaces,
+		baseUrl,
+		config
+	);
+	if (!shortName) {
+		return mainSections;
+	}
+	const sections = workspaceSections.get(shortName);
+	return sections ? formatSections(sections, config) : '';
+};
+
+/**
+ * Reads the notes of a version from a changelog file.
+ *
+ * The notes are the lines between the heading mentioning the version and
+ * the next heading of the same level, so they can annotate a tag created
+ * after the changelog was updated.
+ *
+ * @param changelogPath - path to the changelog file
+ * @param version - the version whose notes are read
+ * @returns the notes of the version, empty when the file or version is not found
+ *
+ * @example
+ * ```typescript
+ * getVersionNotes('/path/to/repo/CHANGELOG.md', '2.1.0');
+ * // Returns: "### Features\n\n- **core** add feature ([abc1234](...))\n"
+ * ```
+ */
+const getVersionNotes = (changelogPath: string, version: string): string => {
+	let lines: string[] = [];
+	try {
+		lines = readFileSync(changelogPath, 'utf-8').split('\n');
+	} catch {
+		// File doesn't exist, there are no notes
 	}
+	const escaped = version.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const versionPattern = new RegExp(
+		String.raw`(?<![\w.-])${escaped}(?![\w.-])`
+	);
+	const start = lines.findIndex(
+		(line) => /^#+ /.test(line) && versionPattern.test(line)
+	);
+	if (start === -1) return '';
+
+	const level = lines[start]?.match(/^#+/)?.[0].length ?? 0;
+	const end = lines.findIndex(
+		(line, index) =>
+			index > start &&
+			/^#+ /.test(line) &&
+			(line.match(/^#+/)?.[0].length ?? 0) <= level
+	);
+	const notes = lines
+		.slice(start + 1, end === -1 ? undefined : end)
+		.join('\n')
+		.trim();
+	return notes ? `${notes}\n` : '';
 };
 
 export {
 	updateChangelogs,
+	updateChangelogsIndependently,
+	generateReleaseNotes,
 	linkifyCommitReferences,
 	generateChangelogSections,
 	parseExistingChangelogHeader,
 	generateVersionHeader,
+	getVersionNotes,
 	updateRootChangelog,
 	updateWorkspaceChangelog,
 };
@@ -0,0 +1,129 @@
+import {
+	existsSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { relative } from 'node:path';
+import { colorizeDiff, createUnifiedDiff } from './diff.js';
+import type { FileChange } from './types.js';
+
+/**
+ * File changes recorded instead of written, keyed by path.
+ *
+ * `null` when no change set is being recorded and writes go straight to disk.
+ */
+let pendingChanges: Map<string, FileChange> | null = null;
+
+/**
+ * Starts recording file writes in memory instead of writing them to disk.
+ *
+ * The release computes every file change this way first, so that nothing is
+ * written when a step fails, see {@link endChangeSet | `endChangeSet`} and
+ * {@link applyChangeSet | `applyChangeSet`}.
+ */
+const startChangeSet = (): void => {
+	pendingChanges = new Map();
+};
+
+/**
+ * Stops recording file writes and returns the recorded changes.
+ *
+ * Subsequent writes go straight to disk again.
+ *
+ * @returns the recorded file changes in the order the files were first written
+ */
+const endChangeSet = (): FileChange[] => {
+	const changes = [...(pendingChanges?.values() ?? [])];
+	pendingChanges = null;
+	return changes;
+};
+
+/**
+ * Writes a file written by the release.
+ *
+ * While a change set is being recorded, the content is recorded in memory
+ * together with the content of the file on disk. Otherwise it is written to
+ * disk directly.
+ *
+ * @param path - the path of the file to write
+ * @param content - the new content of the file
+ */
+const writeFile = (path: string, content: string): void => {
+	if (pendingChanges) {
+		const original =
+			pendingChanges.get(path)?.original ??
+			(existsSync(path) ? readFileSync(path, 'utf-8') : null);
+		pendingChanges.set(path, { path, original, content });
+		return;
+	}
+	writeFileSync(path, content, 'utf-8');
+};
+
+/**
+ * Writes the files of a change set to disk.
+ *
+ * All files are first written next to their target and only then renamed
+ * over it, so a failing write leaves the working tree untouched. Files whose
+ * content does not change are skipped.
+ *
+ * @param changes - the file changes to apply
+ */
+const applyChangeSet = (changes: FileChange[]): void => {
+	const written = changes.filter(
+		({ original, content }) => original !== content
+	);
+	const tempPaths: string[] = [];
+	try {
+		for (const { path, content } of written) {
+			const tempPath = `${path}.bump-n-go.tmp`;
+			writeFileSync(tempPath, content, 'utf-8');
+			tempPaths.push(tempPath);
+		}
+	} catch (error) {
+		for (const tempPath of tempPaths) {
+			rmSync(tempPath, { force: true });
+		}
+		throw error;
+	}
+	for (const [index, { path }] of written.entries()) {
+		renameSync(tempPaths[index] as string, path);
+	}
+};
+
+/**
+ * Renders a change set as a unified diff, one file after the other.
+ *
+ * @param rootPath - the root path of the repository, file paths are shown relative to it
+ * @param changes - the file changes to render
+ * @param color - whether to colour the diff for terminal output
+ * @returns the unified diff of all changed files, empty when nothing changes
+ *
+ * @example
+ * ```typescript
+ * startChangeSet();
+ * bumpVersions('/path/to/repo', workspaces, '2.1.0');
+ * console.log(formatChangeSet('/path/to/repo', endChangeSet(), true));
+ * ```
+ */
+const formatChangeSet = (
+	rootPath: string,
+	changes: FileChange[],
+	color: boolean
+): string => {
+	const diff = changes
+		.map(({ path, original, content }) =>
+			createUnifiedDiff(relative(rootPath, path), original, content)
+		)
+		.join('');
+	return color ? colorizeDiff(diff) : diff;
+};
+
+export {
+	startChangeSet,
+	endChangeSet,
+	writeFile,
+	applyChangeSet,
+	formatChangeSet,
+};
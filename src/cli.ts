@@ -1,15 +1,318 @@
 #!/usr/bin/env node
 
 import { readFileSync } from 'node:fs';
-import { dirname, join } from 'node:path';
+import { dirname, join, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import meow from 'meow';
-import { processMonorepo } from './index.js';
+import { ExitCodes } from './constants.js';
+import {
+	lintCommits,
+	processMonorepo,
+	publishPackages,
+	tagRelease,
+	validateReleaseOptions,
+} from './index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const packagePath = join(__dirname, '..', 'package.json');
 const packageJson = JSON.parse(readFileSync(packagePath, 'utf-8'));
 
+/**
+ * Help text of the flags controlling which commits are analysed and how
+ * versions are bumped, shared by the commands computing a release.
+ */
+const bumpOptionsHelp = `
+	  --type, -t        Force a specific version bump type (major, minor, patch)
+	  --prerelease, -p  Release a prerelease with the given identifier (alpha, beta, rc)
+	  --graduate        Promote the current prerelease to a regular release
+	  --independent, -i Version each changed workspace independently
+	  --from            Analyse the commits since the given ref instead of the last release tag
+	  --to              Analyse the commits up to the given ref instead of HEAD`;
+
+/**
+ * Help text of the flags accepted by every command.
+ */
+const globalOptionsHelp = `
+	Global Options
+	  --root            Run in the given directory instead of the current one
+	  --dry-run, -d     Preview changes without writing files
+	  --verbose, -v     Enable verbose logging
+	  --help, -h        Show help
+	  --version         Show version
+
+	Exit Codes
+	  0  Success
+	  1  The command failed, or a commit message is not valid
+	  2  Invalid command or flags
+	  3  No changes to release, publish or tag, when a command is given`;
+
+/**
+ * Flags accepted by every command.
+ */
+const globalFlags = ['root', 'dryRun', 'verbose', 'help'];
+
+/**
+ * Flags controlling which commits are analysed and how versions are bumped,
+ * described by {@link bumpOptionsHelp}.
+ */
+const bumpFlags = [
+	'type',
+	'prerelease',
+	'graduate',
+	'independent',
+	'from',
+	'to',
+] as const;
+
+/**
+ * A CLI command with its help text.
+ */
+type Command = {
+	/** One-line description, listed in the main help */
+	description: string;
+	/** Usage and options of the command */
+	help: string;
+	/** Flags of the command besides the {@link globalFlags}, other flags are rejected */
+	flags: readonly (keyof typeof cli.flags)[];
+	/** Runs the command, resolving to whether it made changes */
+	run: (flags: typeof cli.flags) => Promise<boolean>;
+};
+
+/**
+ * Commands of the CLI keyed by name.
+ *
+ * Each command runs a part of the release on its own, reusing the same
+ * building blocks as the full release.
+ */
+const commands: Record<string, Command> = {
+	release: {
+		description:
+			'Update changelogs and bump versions, then optionally commit, tag and release (default)',
+		help: `
+	Usage
+	  $ bump-n-go release [options]
+
+	Options${bumpOptionsHelp}
+	  --commit, -c      Commit the files changed by the release
+	  --tag             Commit the release and create an annotated git tag
+	  --release         Tag the release, push it and create the forge release (GitHub, GitLab, Gitea)
+	  --json            Print the release plan as JSON to stdout
+	  --release-notes   Write the release notes to the given file
+${globalOptionsHelp}
+
+	Examples
+	  $ bump-n-go release --prerelease beta
+	  $ bump-n-go release --commit --tag
+	  $ GITHUB_TOKEN=... bump-n-go release --release
+`,
+		flags: [...bumpFlags, 'commit', 'tag', 'release', 'json', 'releaseNotes'],
+		run: (flags) =>
+			processMonorepo({
+				root: resolve(flags.root ?? '.'),
+				dryRun: flags.dryRun,
+				type: flags.type,
+				verbose: flags.verbose,
+				// Only override the configuration when the flag is passed
+				independent: flags.independent || undefined,
+				commit: flags.commit,
+				tag: flags.tag,
+				release: flags.release,
+				json: flags.json,
+				prerelease: flags.prerelease,
+				graduate: flags.graduate,
+				from: flags.from,
+				to: flags.to,
+				releaseNotes: flags.releaseNotes,
+			}),
+	},
+	plan: {
+		description: 'Print the release plan as JSON without writing files',
+		help: `
+	Usage
+	  $ bump-n-go plan [options]
+
+	Options${bumpOptionsHelp}
+${globalOptionsHelp}
+
+	Examples
+	  $ bump-n-go plan
+	  $ bump-n-go plan --prerelease rc | jq .newVersion
+`,
+		flags: bumpFlags,
+		run: (flags) =>
+			processMonorepo({
+				root: resolve(flags.root ?? '.'),
+				dryRun: true,
+				json: true,
+				type: flags.type,
+				verbose: flags.verbose,
+				independent: flags.independent || undefined,
+				prerelease: flags.prerelease,
+				graduate: flags.graduate,
+				from: flags.from,
+				to: flags.to,
+			}),
+	},
+	changelog: {
+		description:
+			'Update the changelogs of the next release without bumping versions',
+		help: `
+	Usage
+	  $ bump-n-go changelog [options]
+
+	Options${bumpOptionsHelp}
+	  --json            Print the release plan as JSON to stdout
+${globalOptionsHelp}
+
+	Examples
+	  $ bump-n-go changelog
+	  $ bump-n-go changelog --dry-run
+	  $ bump-n-go changelog --from v1.0.0 --to v1.1.0
+`,
+		flags: [...bumpFlags, 'json'],
+		run: (flags) =>
+			processMonorepo({
+				root: resolve(flags.root ?? '.'),
+				dryRun: flags.dryRun,
+				json: flags.json,
+				type: flags.type,
+				verbose: flags.verbose,
+				independent: flags.independent || undefined,
+				prerelease: flags.prerelease,
+				graduate: flags.graduate,
+				from: flags.from,
+				to: flags.to,
+				only: 'changelog',
+			}),
+	},
+	version: {
+		description:
+			'Bump the versions of the next release without updating changelogs',
+		help: `
+	Usage
+	  $ bump-n-go version [options]
+
+	Options${bumpOptionsHelp}
+	  --json            Print the release plan as JSON to stdout
+${globalOptionsHelp}
+
+	Examples
+	  $ bump-n-go version
+	  $ bump-n-go version --type minor --dry-run
+`,
+		flags: [...bumpFlags, 'json'],
+		run: (flags) =>
+			processMonorepo({
+				root: resolve(flags.root ?? '.'),
+				dryRun: flags.dryRun,
+				json: flags.json,
+				type: flags.type,
+				verbose: flags.verbose,
+				independent: flags.independent || undefined,
+				prerelease: flags.prerelease,
+				graduate: flags.graduate,
+				from: flags.from,
+				to: flags.to,
+				only: 'version',
+			}),
+	},
+	tag: {
+		description:
+			'Commit and tag the current versions, e.g. after the changelog and version commands',
+		help: `
+	Usage
+	  $ bump-n-go tag [options]
+
+	Options
+	  --independent, -i Tag the version of each workspace with the package tag format
+${globalOptionsHelp}
+
+	Examples
+	  $ bump-n-go changelog && bump-n-go version && bump-n-go tag
+	  $ bump-n-go tag --independent --dry-run
+`,
+		flags: ['independent'],
+		run: (flags) =>
+			tagRelease({
+				root: resolve(flags.root ?? '.'),
+				independent: flags.independent || undefined,
+				dryRun: flags.dryRun,
+				verbose: flags.verbose,
+			}),
+	},
+	publish: {
+		description:
+			'Publish the workspaces whose version is not on the registry yet',
+		help: `
+	Usage
+	  $ bump-n-go publish [options]
+
+	Options
+	  --registry        Publish to the given registry URL
+	  --dist-tag        Publish with the given dist-tag instead of latest or next
+${globalOptionsHelp}
+
+	Examples
+	  $ bump-n-go publish
+	  $ bump-n-go publish --registry http://localhost:4873 --dist-tag legacy
+`,
+		flags: ['registry', 'distTag'],
+		run: async (flags) => {
+			const { published } = await publishPackages({
+				root: resolve(flags.root ?? '.'),
+				registry: flags.registry,
+				distTag: flags.distTag,
+				dryRun: flags.dryRun,
+				verbose: flags.verbose,
+			});
+			return published.length > 0;
+		},
+	},
+	lint: {
+		description:
+			'Check commit messages or pull request titles against the conventional commit format',
+		help: `
+	Usage
+	  $ bump-n-go lint [options]
+	  $ echo "<message>" | bump-n-go lint
+
+	Options
+	  --file            Lint the message in the given file (e.g. .git/COMMIT_EDITMSG)
+	  --from            Lint the commits since the given ref
+	  --to              Lint the commits up to the given ref instead of HEAD
+${globalOptionsHelp}
+
+	Examples
+	  $ bump-n-go lint --file .git/COMMIT_EDITMSG
+	  $ bump-n-go lint --from origin/main
+	  $ echo "$PR_TITLE" | bump-n-go lint
+`,
+		flags: ['file', 'from', 'to'],
+		run: async (flags) => {
+			const isRange = flags.from !== undefined || flags.to !== undefined;
+			const results = await lintCommits({
+				root: resolve(flags.root ?? '.'),
+				file: flags.file && resolve(flags.file),
+				from: flags.from,
+				to: flags.to,
+				// Without a file or range, the message is piped in (e.g. a pull request title)
+				message:
+					flags.file || isRange || process.stdin.isTTY
+						? undefined
+						: readFileSync(0, 'utf-8'),
+				verbose: flags.verbose,
+			});
+			const invalid = results.filter(({ problems }) => problems.length > 0);
+			if (invalid.length > 0) {
+				throw new Error(
+					`${invalid.length} of ${results.length} commit messages do not follow the conventional commit format`
+				);
+			}
+			return true;
+		},
+	},
+};
+
 /**
  * CLI interface for bump-n-go using meow.
  *
@@ -20,61 +323,205 @@ const packageJson = JSON.parse(readFileSync(packagePath, 'utf-8'));
 const cli = meow(
 	`
 	Usage
-	  $ bump-n-go [options]
+	  $ bump-n-go [command] [options]
 
-	Options
-	  --dry-run, -d     Preview changes without writing files
-	  --type, -t        Force a specific version bump type (major, minor, patch)
-	  --verbose, -v     Enable verbose logging
-	  --help, -h        Show help
-	  --version         Show version
+	Commands
+${Object.entries(commands)
+	.map(([name, { description }]) => `	  ${name.padEnd(18)}${description}`)
+	.join('\n')}
+
+	Run bump-n-go <command> --help for the options of a command
+${globalOptionsHelp}
 
 	Examples
 	  $ bump-n-go
 	  $ bump-n-go --dry-run
-	  $ bump-n-go --type minor
-	  $ bump-n-go --verbose --dry-run
+	  $ bump-n-go plan
+	  $ bump-n-go changelog
+	  $ bump-n-go version --type minor
+	  $ bump-n-go tag
+	  $ bump-n-go release --commit --tag
+	  $ bump-n-go publish --registry http://localhost:4873
+	  $ bump-n-go lint --file .git/COMMIT_EDITMSG
 `,
 	{
 		importMeta: import.meta,
 		description: packageJson.description,
+		// Leave flags that are not passed unset, so that they can be checked against the command
+		booleanDefault: undefined,
 		flags: {
 			dryRun: {
 				type: 'boolean',
 				shortFlag: 'd',
-				default: false,
 			},
 			type: {
 				type: 'string',
 				shortFlag: 't',
 			},
+			prerelease: {
+				type: 'string',
+				shortFlag: 'p',
+			},
+			graduate: {
+				type: 'boolean',
+			},
 			verbose: {
 				type: 'boolean',
 				shortFlag: 'v',
-				default: false,
+			},
+			independent: {
+				type: 'boolean',
+				shortFlag: 'i',
+			},
+			commit: {
+				type: 'boolean',
+				shortFlag: 'c',
+			},
+			tag: {
+				type: 'boolean',
+			},
+			release: {
+				type: 'boolean',
+			},
+			json: {
+				type: 'boolean',
+			},
+			releaseNotes: {
+				type: 'string',
+			},
+			registry: {
+				type: 'string',
+			},
+			root: {
+				type: 'string',
+			},
+			from: {
+				type: 'string',
+			},
+			to: {
+				type: 'string',
+			},
+			distTag: {
+				type: 'string',
+			},
+			file: {
+				type: 'string',
+			},
+			help: {
+				type: 'boolean',
+				shortFlag: 'h',
 			},
 		},
 	}
 );
 
 /**
- * Main CLI execution function.
+ * Formats a flag name as written on the command line.
  *
- * Processes command-line arguments and executes the monorepo processing
- * with the provided options. Uses the current working directory as the
- * root directory for the monorepo.
+ * @param flag - the camel-cased flag name parsed by meow
+ * @returns the flag with its dashes, e.g. `--dry-run`
  */
-const main = async (): Promise<void> => {
+const formatFlag = (flag: string): string =>
+	flag.length === 1
+		? `-${flag}`
+		: `--${flag.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+
+/**
+ * Checks the flags passed to a command before running it.
+ *
+ * Flags that the command does not accept are rejected rather than ignored,
+ * as are string flags without a value and invalid release option values.
+ *
+ * @param name - the name of the command
+ * @param command - the command to run
+ * @param flags - the flags parsed by meow, unset when not passed
+ * @returns the description of the first problem found, undefined when the flags are valid
+ */
+const getUsageError = (
+	name: string,
+	command: Command,
+	flags: typeof cli.flags
+): string | undefined => {
+	const passed = Object.entries(flags).filter(
+		([, value]) => value !== undefined
+	);
+	const unsupported = passed
+		.map(([flag]) => flag)
+		.filter(
+			(flag) =>
+				!globalFlags.includes(flag) &&
+				!(command.flags as readonly string[]).includes(flag)
+		);
+	if (unsupported.length > 0) {
+		return `${unsupported.map(formatFlag).join(', ')} cannot be used with the ${name} command`;
+	}
+	const missing = passed.find(([, value]) => value === '');
+	if (missing) {
+		return `${formatFlag(missing[0])} requires a value`;
+	}
 	try {
-		await processMonorepo({
-			root: process.cwd(),
-			dryRun: cli.flags.dryRun,
-			type: cli.flags.type,
-			verbose: cli.flags.verbose,
+		validateReleaseOptions({
+			type: flags.type,
+			prerelease: flags.prerelease,
+			graduate: flags.graduate,
+			to: flags.to,
+			commit: flags.commit || flags.tag || flags.release,
 		});
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+	return undefined;
+};
+
+/**
+ * Main CLI execution function.
+ *
+ * Runs the command given as first argument with the provided options, or
+ * the full release when no command is given. Uses the `--root` directory,
+ * or the current working directory, as the root directory for the monorepo.
+ *
+ * Flags the command does not accept and invalid flag values exit with
+ * {@link ExitCodes | `ExitCodes.usage`} before anything runs. Commands exit
+ * with {@link ExitCodes | `ExitCodes.noChanges`} when there is
+ * nothing to release, publish or tag, so CI can tell it from a failure. Without a
+ * command, the release exits successfully in that case, as it always did.
+ *
+ * @returns the exit code of the command
+ */
+const main = async (): Promise<number> => {
+	const [name = 'release'] = cli.input;
+	const command = Object.hasOwn(commands, name) ? commands[name] : undefined;
+	if (!command) {
+		console.error(`Unknown command: ${name}`);
+		cli.showHelp(ExitCodes.usage);
+		return ExitCodes.usage;
+	}
+	if (cli.flags.help) {
+		meow(command.help, {
+			importMeta: import.meta,
+			description: command.description,
+			argv: [],
+		}).showHelp(ExitCodes.success);
+		return ExitCodes.success;
+	}
+
+	const usageError = getUsageError(name, command, cli.flags);
+	if (usageError) {
+		console.error(`Error: ${usageError}`);
+		console.error(
+			`Run bump-n-go ${name} --help for the options of the command`
+		);
+		return ExitCodes.usage;
+	}
+
+	try {
+		const changed = await command.run(cli.flags);
+		return changed || cli.input.length === 0
+			? ExitCodes.success
+			: ExitCodes.noChanges;
 	} catch (error) {
 		console.error('Error:', error instanceof Error ? error.message : error);
-		process.exit(1);
+		return ExitCodes.error;
 	}
 };
 
@@ -85,10 +532,15 @@ if (
 	import.meta.url === `file://${scriptPath}` ||
 	scriptPath.endsWith('bump-n-go')
 ) {
-	main().catch((error) => {
-		console.error('Unhandled error:', error);
-		process.exit(1);
-	});
+	main()
+		.then((exitCode) => {
+			// Let pending output (e.g. a piped JSON plan) flush before exiting
+			process.exitCode = exitCode;
+		})
+		.catch((error) => {
+			console.error('Unhandled error:', error);
+			process.exit(ExitCodes.error);
+		});
 }
 
 export { cli, main };
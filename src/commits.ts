@@ -1,8 +1,23 @@
 import { relative } from 'node:path';
 import { CommitParser } from 'conventional-commits-parser';
-import { ChangeTypeMapping } from './constants.js';
+import {
+	BreakingChangeKeywords,
+	ClosingKeywords,
+	DefaultConfig,
+	GeneratedCommitPatterns,
+} from './constants.js';
 import { getChangedFiles, getFileDiff } from './git.js';
-import type { RawCommit, Workspace } from './types.js';
+import { getIssueKeyPattern } from './links.js';
+import type {
+	CommitAttributor,
+	CommitAuthor,
+	CommitReference,
+	Config,
+	IssueTracker,
+	RawCommit,
+	VersionBumpCommit,
+	Workspace,
+} from './types.js';
 
 /**
  * Parser instance for conventional commits.
@@ -14,17 +29,20 @@ const parser = new CommitParser({
 	headerPattern: /^(\w*)(?:\(([^)]*)\))?: (.*)$/,
 	headerCorrespondence: ['type', 'scope', 'subject'],
 	breakingHeaderPattern: /^(\w*)(?:\(([^)]*)\))?!: (.*)$/,
-	noteKeywords: ['BREAKING CHANGE', 'BREAKING CHANGES'],
+	noteKeywords: BreakingChangeKeywords,
 });
 
 /**
  * Checks if a commit type is valid according to the change type mapping.
  *
  * @param type - the commit type to validate
+ * @param changeTypes - the configured change type mapping
  * @returns true if the type is allowed, false otherwise
  */
-const isAllowedType = (type: string): type is keyof typeof ChangeTypeMapping =>
-	Object.keys(ChangeTypeMapping).includes(type);
+const isAllowedType = (
+	type: string,
+	changeTypes: Config['changeTypes'] = DefaultConfig.changeTypes
+): boolean => Object.keys(changeTypes).includes(type);
 
 /**
  * Determines if a commit is a Dependabot group commit.
@@ -47,10 +65,16 @@ const isDependabotGroupCommit = (subject: string, scope: string): boolean =>
  *
  * @param type - the commit type
  * @param subject - the commit subject line
+ * @param versionBumpCommit - the configured release commit type and subject prefix
  * @returns true if this is a version bump commit that should be excluded
  */
-const isVersionBumpCommit = (type: string, subject: string): boolean =>
-	type === 'chore' && subject.trim().startsWith('bump version');
+const isVersionBumpCommit = (
+	type: string,
+	subject: string,
+	versionBumpCommit: VersionBumpCommit = DefaultConfig.versionBumpCommit
+): boolean =>
+	type === versionBumpCommit.type &&
+	subject.trim().startsWith(versionBumpCommit.subjectPrefix);
 
 /**
  * Analyzes a git diff to determine if production dependencies were changed.
@@ -171,18 +195,384 @@ const getAffectedWorkspacesFromChangedFiles = (
 	return affectedWorkspaces;
 };
 
+/**
+ * Resolves a conventional commit scope to workspaces.
+ *
+ * Scopes listed in the scope alias table resolve to the workspaces they are
+ * mapped to, an alias mapped to an empty list ignores the scope. Other scopes
+ * match the workspace with the same short name.
+ *
+ * @param scope - the commit scope
+ * @param workspaces - record of all workspaces keyed by short name
+ * @param scopeAliases - the configured scope alias table
+ * @returns the workspaces matching the scope, empty when none does
+ *
+ * @example
+ * ```typescript
+ * getScopeWorkspaces('api', workspaces, { api: ['server', 'client'] });
+ * // [workspaces.server, workspaces.client]
+ * ```
+ */
+const getScopeWorkspaces = (
+	scope: string | null | undefined,
+	workspaces: Record<string, Workspace>,
+	scopeAliases: Config['scopeAliases'] = DefaultConfig.scopeAliases
+): Workspace[] => {
+	if (!scope) return [];
+	const alias = scopeAliases[scope];
+	const shortNames = alias === undefined ? [scope] : [alias].flat();
+	return shortNames
+		.map((shortName) => workspaces[shortName])
+		.filter((workspace) => workspace !== undefined);
+};
+
+/**
+ * Finds the workspaces whose directory contains any of the changed files.
+ *
+ * Files inside nested workspaces belong to the innermost workspace only, and
+ * files outside every workspace directory (e.g. the root package.json) are
+ * ignored.
+ *
+ * @param changedFiles - file paths relative to the repository root
+ * @param workspaces - record of all workspaces
+ * @param rootPath - the root path of the repository
+ * @returns the touched workspaces, in workspace order
+ */
+const getWorkspacesByChangedFiles = (
+	changedFiles: string[],
+	workspaces: Record<string, Workspace>,
+	rootPath: string
+): Workspace[] => {
+	// Deepest directories first, so nested workspaces win over their parents
+	const directories = Object.values(workspaces)
+		.map((workspace) => ({
+			workspace,
+			directory: relative(rootPath, workspace.path),
+		}))
+		.filter(({ directory }) => directory !== '')
+		.sort((a, b) => b.directory.length - a.directory.length);
+
+	const touched = new Set<Workspace>();
+	for (const file of changedFiles) {
+		const match = directories.find(({ directory }) =>
+			file.startsWith(`${directory}/`)
+		);
+		if (match) touched.add(match.workspace);
+	}
+
+	return Object.values(workspaces).filter((workspace) =>
+		touched.has(workspace)
+	);
+};
+
+/**
+ * Attributes a commit to the workspaces matching its scope or scope alias.
+ */
+const attributeByScope: CommitAttributor = (commit, workspaces, _, config) =>
+	getScopeWorkspaces(commit.scope, workspaces, config.scopeAliases);
+
+/**
+ * Attributes a commit to every workspace whose directory it touched.
+ *
+ * The scope is used as a fallback for commits that touch no workspace, or
+ * takes precedence over the changed files when `scopeOverride` is enabled.
+ */
+const attributeByPath: CommitAttributor = (
+	commit,
+	workspaces,
+	rootPath,
+	config
+) => {
+	const scoped = attributeByScope(commit, workspaces, rootPath, config);
+	if (config.scopeOverride && scoped.length > 0) {
+		return scoped;
+	}
+
+	const touched = commit.hash
+		? getWorkspacesByChangedFiles(
+				commit.files ?? getChangedFiles(rootPath, commit.hash),
+				workspaces,
+				rootPath
+			)
+		: [];
+	return touched.length > 0 ? touched : scoped;
+};
+
+/**
+ * Extracts the co-authors of a commit from its `Co-authored-by` trailers.
+ *
+ * @param body - the commit body
+ * @returns the co-authors, in trailer order
+ *
+ * @example
+ * ```typescript
+ * getCoAuthors('Details\n\nCo-authored-by: Jane Doe <jane@example.com>');
+ * // [{ name: 'Jane Doe', email: 'jane@example.com' }]
+ * ```
+ */
+const getCoAuthors = (body: string): CommitAuthor[] =>
+	[
+		...body.matchAll(/^Co-authored-by:[ \t]*(.*?)[ \t]*<([^>\n]+)>[ \t]*$/gim),
+	].map(([, name = '', email = '']) => ({ name, email }));
+
+/**
+ * Pattern of an issue or pull request reference, capturing the optional
+ * `owner/repo` of cross-repository references and the number.
+ */
+const referencePattern = String.raw`(?:([\w.-]+/[\w.-]+))?#(\d+)`;
+
+/**
+ * Creates a reference from the captures of {@link referencePattern}.
+ *
+ * @param repository - the captured `owner/repo`, if any
+ * @param number - the captured number
+ * @returns the reference
+ */
+const toReference = (
+	repository: string | undefined,
+	number: string
+): CommitReference => ({
+	number: Number(number),
+	...(repository && { repository }),
+});
+
+/**
+ * Extracts the pull request of a squash merge from the end of a commit subject.
+ *
+ * Forges append the pull request to the subject of squash merges, e.g.
+ * `add dark mode (#1234)`. The reference is removed from the subject so that
+ * it can be linked to the pull request rather than to an issue.
+ *
+ * @param subject - the commit subject
+ * @returns the subject without the trailing reference, and the pull request if any
+ *
+ * @example
+ * ```typescript
+ * getPullRequest('add dark mode (#1234)');
+ * // { subject: 'add dark mode', pr: { number: 1234 } }
+ * getPullRequest('sync fork (owner/repo#12)');
+ * // { subject: 'sync fork', pr: { number: 12, repository: 'owner/repo' } }
+ * ```
+ */
+const getPullRequest = (
+	subject: string
+): { subject: string; pr?: CommitReference } => {
+	const match = subject.match(
+		new RegExp(String.raw`\s*\(${referencePattern}\)$`)
+	);
+	if (!match) return { subject };
+	return {
+		subject: subject.slice(0, match.index),
+		pr: toReference(match[1], match[2] ?? ''),
+	};
+};
+
+/**
+ * Extracts the issues closed by a commit from its body.
+ *
+ * Issues are closed by a reference following one of the {@link ClosingKeywords}
+ * (e.g. `Fixes #55` or `Closes owner/repo#12`), regardless of case.
+ *
+ * @param body - the commit body
+ * @returns the closed issues, each listed once in body order
+ *
+ * @example
+ * ```typescript
+ * getClosedIssues('Closes #55\nFixes owner/repo#12');
+ * // [{ number: 55 }, { number: 12, repository: 'owner/repo' }]
+ * ```
+ */
+const getClosedIssues = (body: string): CommitReference[] => {
+	const pattern = new RegExp(
+		String.raw`\b(?:${ClosingKeywords.join('|')}):?\s+${referencePattern}\b`,
+		'gi'
+	);
+	const issues = new Map<string, CommitReference>();
+	for (const [, repository, number = ''] of body.matchAll(pattern)) {
+		issues.set(
+			`${repository ?? ''}#${number}`,
+			toReference(repository, number)
+		);
+	}
+	return [...issues.values()];
+};
+
+/**
+ * Extracts the keys of issue trackers referenced in a text.
+ *
+ * @param text - the text to search, e.g. the commit subject and body
+ * @param issueTrackers - the configured issue trackers
+ * @returns the issue keys, each listed once in tracker then text order
+ *
+ * @example
+ * ```typescript
+ * getIssueKeys('fix rounding (PAY-1234)', [
+ *   { pattern: '[A-Z]+-\\d+', url: 'https://jira.example.com/browse/{key}' },
+ * ]);
+ * // ['PAY-1234']
+ * ```
+ */
+const getIssueKeys = (
+	text: string,
+	issueTrackers: IssueTracker[]
+): string[] => [
+	...new Set(
+		issueTrackers.flatMap((tracker) =>
+			[...text.matchAll(getIssueKeyPattern(tracker))].map(([key]) => key)
+		)
+	),
+];
+
+/**
+ * Checks a commit message against the conventional commit format bump-n-go releases from.
+ *
+ * The message is parsed with the same parser as {@link parseCommits}, so
+ * that a commit passing the lint is never dropped from the changelog for
+ * its format. The type must be one of the configured change or skipped
+ * types. In monorepos attributing commits by scope, the scope must also
+ * match a workspace short name, a scope alias or `deps`. Merge, revert and
+ * autosquash commits generated by git are not checked.
+ *
+ * @param message - the full commit message, or a pull request title
+ * @param workspaces - record of all workspaces keyed by short name
+ * @param rootPath - the root path of the repository
+ * @param config - the resolved configuration with the allowed types and the attribution settings
+ * @returns the problems found, empty when the message is valid
+ *
+ * @example
+ * ```typescript
+ * lintCommitMessage('feat(cor): add option', workspaces, '/path/to/repo');
+ * // ['Scope "cor" is not a workspace or scope alias, use one of core, utils, deps']
+ * ```
+ */
+const lintCommitMessage = (
+	message: string,
+	workspaces: Record<string, Workspace>,
+	rootPath: string,
+	config: Config = DefaultConfig
+): string[] => {
+	const header = message.trim().split('\n')[0]?.trim() ?? '';
+	if (!header) return ['Commit message is empty'];
+	if (GeneratedCommitPatterns.some((pattern) => pattern.test(header))) {
+		return [];
+	}
+
+	const { type, scope, subject } = parser.parse(message.trim());
+	if (!type) {
+		return [
+			`Header "${header}" does not follow the "type(scope): subject" format`,
+		];
+	}
+
+	const problems: string[] = [];
+	const types = [
+		...new Set([...Object.keys(config.changeTypes), ...config.skippedTypes]),
+	];
+	if (!types.includes(type)) {
+		problems.push(
+			`Type "${type}" is not allowed, use one of ${types.join(', ')}`
+		);
+	}
+
+	// Scopes are free-form when they do not decide which workspaces a commit belongs to
+	const workspaceEntries = Object.values(workspaces);
+	const isSinglePackageRepo =
+		workspaceEntries.length === 1 && workspaceEntries[0]?.path === rootPath;
+	if (scope && !isSinglePackageRepo && config.commitAttribution === 'scope') {
+		const scopes = [
+			...new Set([
+				...Object.keys(workspaces),
+				...Object.keys(config.scopeAliases),
+				'deps',
+			]),
+		];
+		if (!scopes.includes(scope)) {
+			problems.push(
+				`Scope "${scope}" is not a workspace or scope alias, use one of ${scopes.join(', ')}`
+			);
+		}
+	}
+
+	if (!getPullRequest(subject ?? '').subject.trim()) {
+		problems.push('Subject is empty');
+	}
+	return problems;
+};
+
+/**
+ * Marks the commits of the release with which authors contribute for the first time.
+ *
+ * A contributor is new when neither their author nor co-author email address
+ * appears in the history before the release. Each new contributor is
+ * recorded on their earliest commit of the release, in the `newContributors`
+ * field of every workspace the commit is attributed to.
+ *
+ * @param workspaces - record of all workspaces with their commits
+ * @param knownEmails - the lowercased email addresses of the previous contributors
+ */
+const markNewContributors = (
+	workspaces: Record<string, Workspace>,
+	knownEmails: Set<string>
+): void => {
+	const commits = Object.values(workspaces).flatMap(
+		(workspace) => workspace.commits
+	);
+	// The first commit of each new contributor keyed by lowercased email
+	const firstCommits = new Map<
+		string,
+		{ author: CommitAuthor; hash: string; time: number }
+	>();
+	for (const commit of commits) {
+		if (!commit.hash) continue;
+		const time = commit.date ? Date.parse(commit.date) : 0;
+		const authors = [
+			...(commit.author ? [commit.author] : []),
+			...(commit.coAuthors ?? []),
+		];
+		for (const author of authors) {
+			const email = author.email.toLowerCase();
+			if (knownEmails.has(email)) continue;
+			const first = firstCommits.get(email);
+			if (!first || time < first.time) {
+				firstCommits.set(email, { author, hash: commit.hash, time });
+			}
+		}
+	}
+
+	for (const commit of commits) {
+		const newContributors = [...firstCommits.values()]
+			.filter(({ hash }) => hash === commit.hash)
+			.map(({ author }) => author);
+		if (newContributors.length > 0) {
+			commit.newContributors = newContributors;
+		}
+	}
+};
+
+/**
+ * Strategies attributing commits to workspaces, keyed by the `commitAttribution` option.
+ */
+const CommitAttributors: Record<Config['commitAttribution'], CommitAttributor> =
+	{
+		scope: attributeByScope,
+		path: attributeByPath,
+	};
+
 /**
  * Parses raw commits and associates them with affected workspaces.
  *
  * Processes conventional commits to extract metadata and determine which
  * workspaces are affected by each commit. Handles both direct workspace
- * commits (scoped to a specific package) and dependency updates. For
+ * commits and dependency updates. Direct commits are attributed by the
+ * strategy selected with the `commitAttribution` option: by scope (the
+ * default) or by the paths of the files they changed. For
  * single-package repos (where root package is the only workspace), assigns
  * all valid commits to the root workspace.
  *
  * @param commits - array of raw commit data from git
  * @param workspaces - record of all workspaces in the monorepo
  * @param rootPath - the root path of the monorepo
+ * @param config - the resolved configuration with allowed and skipped commit types and the attribution settings
  * @returns object containing updated workspaces and change detection flag
  *
  * @example
@@ -197,7 +587,8 @@ const getAffectedWorkspacesFromChangedFiles = (
 const parseCommits = (
 	commits: RawCommit[],
 	workspaces: Record<string, Workspace>,
-	rootPath: string
+	rootPath: string,
+	config: Config = DefaultConfig
 ): {
 	workspaces: Record<string, Workspace>;
 	workspaceChanged: boolean;
@@ -212,22 +603,42 @@ const parseCommits = (
 
 	for (const commit of commits) {
 		const r = parser.parse(`${commit.subject}\n\n${commit.body}`);
-		const { subject, type, scope, notes } = r;
+		const { type, scope, notes } = r;
+		const { subject, pr } = getPullRequest(r.subject ?? '');
+		// `type!:` headers without a footer get a note with the subject from the parser
+		const breaking = notes.some((note) =>
+			BreakingChangeKeywords.includes(note.title)
+		);
 
-		if (!subject || !type || !isAllowedType(type)) {
+		if (!subject || !type || !isAllowedType(type, config.changeTypes)) {
 			continue;
 		}
 
 		// Skip types that don't affect end-user functionality
-		if (['ci', 'style', 'docs', 'test'].includes(type)) {
+		if (config.skippedTypes.includes(type)) {
 			continue;
 		}
 
 		// Skip version bump commits as they should not trigger additional version bumps
-		if (isVersionBumpCommit(type, subject)) {
+		if (isVersionBumpCommit(type, subject, config.versionBumpCommit)) {
 			continue;
 		}
 
+		const coAuthors = getCoAuthors(commit.body);
+		const closes = getClosedIssues(commit.body);
+		const issueKeys = getIssueKeys(
+			`${subject}\n\n${commit.body}`,
+			config.issueTrackers
+		);
+		const details = {
+			author: commit.author,
+			date: commit.date,
+			coAuthors: coAuthors.length > 0 ? coAuthors : undefined,
+			pr,
+			closes: closes.length > 0 ? closes : undefined,
+			issueKeys: issueKeys.length > 0 ? issueKeys : undefined,
+		};
+
 		// For single-package repos, assign all valid commits to the root workspace
 		if (isSinglePackageRepo && rootWorkspace) {
 			rootWorkspace.changed = true;
@@ -236,29 +647,34 @@ const parseCommits = (
 				type,
 				scope: scope || rootWorkspace.shortName,
 				notes,
-				breaking: notes.some((note) => note.title === 'BREAKING CHANGE'),
+				breaking,
 				hash: commit.hash,
+				...details,
 			});
 			workspaceChanged = true;
 			continue;
 		}
 
-		// For multi-package repos, require scope to match workspace
-		if (!scope) {
-			continue;
-		}
-
-		// Find matching package for scoped commits
-		const pkg = workspaces[scope];
-		if (pkg) {
+		// Dependency updates are attributed by the dependencies they change below
+		const attributor =
+			scope === 'deps'
+				? attributeByScope
+				: CommitAttributors[config.commitAttribution];
+		for (const pkg of attributor(
+			{ hash: commit.hash, scope, files: commit.files },
+			workspaces,
+			rootPath,
+			config
+		)) {
 			pkg.changed = true;
 			pkg.commits.push({
 				subject,
 				type,
-				scope,
+				scope: scope || pkg.shortName,
 				notes,
-				breaking: notes.some((note) => note.title === 'BREAKING CHANGE'),
+				breaking,
 				hash: commit.hash,
+				...details,
 			});
 
 			workspaceChanged = true;
@@ -268,7 +684,8 @@ const parseCommits = (
 		if (scope === 'deps') {
 			if (isDependabotGroupCommit(subject, scope) && commit.hash) {
 				// Handle group commits using git diff analysis
-				const changedFiles = getChangedFiles(rootPath, commit.hash);
+				const changedFiles =
+					commit.files ?? getChangedFiles(rootPath, commit.hash);
 				const affectedWorkspaces = getAffectedWorkspacesFromChangedFiles(
 					changedFiles,
 					workspaces,
@@ -284,8 +701,9 @@ const parseCommits = (
 							type,
 							scope,
 							notes,
-							breaking: notes.some((note) => note.title === 'BREAKING CHANGE'),
+							breaking,
 							hash: commit.hash,
+							...details,
 						});
 						workspaceChanged = true;
 					}
@@ -302,10 +720,9 @@ const parseCommits = (
 								type,
 								scope,
 								notes,
-								breaking: notes.some(
-									(note) => note.title === 'BREAKING CHANGE'
-								),
+								breaking,
 								hash: commit.hash,
+								...details,
 							});
 							workspaceChanged = true;
 							break;
@@ -321,6 +738,15 @@ const parseCommits = (
 
 export {
 	parseCommits,
+	getCoAuthors,
+	getPullRequest,
+	getClosedIssues,
+	getIssueKeys,
+	lintCommitMessage,
+	markNewContributors,
+	CommitAttributors,
+	getScopeWorkspaces,
+	getWorkspacesByChangedFiles,
 	isAllowedType,
 	isDependabotGroupCommit,
 	hasProductionDependencyChanges,
@@ -0,0 +1,404 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+	ChangelogTemplateVariables,
+	ConfigFileNames,
+	DefaultConfig,
+	TypeHierarchy,
+} from './constants.js';
+import { ForgeApis } from './forge.js';
+import { LinkBuilders } from './links.js';
+import { logger } from './logger.js';
+import { getUnknownPlaceholders } from './template.js';
+import type { ChangelogTemplates, Config, UserConfig } from './types.js';
+
+/**
+ * Checks if a value is a plain object (not null and not an array).
+ *
+ * @param value - the value to check
+ * @returns true if the value is a plain object
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks if a value is an array of strings.
+ *
+ * @param value - the value to check
+ * @returns true if the value is an array containing only strings
+ */
+const isStringArray = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Checks if a string is a valid regular expression.
+ *
+ * @param pattern - the regular expression source
+ * @returns true if the pattern compiles
+ */
+const isValidPattern = (pattern: string): boolean => {
+	try {
+		new RegExp(pattern);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Validators for each configuration key.
+ *
+ * Each validator returns a list of human-readable problems for the value,
+ * or an empty list when the value is valid.
+ */
+const configValidators: {
+	[Key in keyof Config]: (value: unknown) => string[];
+} = {
+	changeTypes: (value) => {
+		if (!isPlainObject(value)) {
+			return ['"changeTypes" must be an object mapping commit types to bumps'];
+		}
+		const bumpTypes = Object.keys(TypeHierarchy);
+		return Object.entries(value)
+			.filter(([, bump]) => !bumpTypes.includes(bump as string))
+			.map(
+				([type, bump]) =>
+					`"changeTypes.${type}" must be one of ${bumpTypes.join(', ')} (got ${JSON.stringify(bump)})`
+			);
+	},
+	changeTypeHeaders: (value) => {
+		if (!isPlainObject(value)) {
+			return [
+				'"changeTypeHeaders" must be an object mapping commit types to section headers',
+			];
+		}
+		return Object.entries(value)
+			.filter(([, header]) => typeof header !== 'string' || header === '')
+			.map(
+				([type]) => `"changeTypeHeaders.${type}" must be a non-empty string`
+			);
+	},
+	skippedTypes: (value) =>
+		isStringArray(value) ? [] : ['"skippedTypes" must be an array of strings'],
+	versionBumpCommit: (value) =>
+		isPlainObject(value) &&
+		typeof value.type === 'string' &&
+		typeof value.subjectPrefix === 'string'
+			? []
+			: [
+					'"versionBumpCommit" must be an object with string "type" and "subjectPrefix"',
+				],
+	releaseCommitMessage: (value) =>
+		typeof value === 'string' && value.trim() !== ''
+			? []
+			: ['"releaseCommitMessage" must be a non-empty string'],
+	tagFormat: (value) =>
+		typeof value === 'string' && value.includes('{version}')
+			? []
+			: ['"tagFormat" must be a string containing {version}'],
+	packageTagFormat: (value) =>
+		typeof value === 'string' &&
+		value.includes('{name}') &&
+		value.includes('{version}')
+			? []
+			: ['"packageTagFormat" must be a string containing {name} and {version}'],
+	changelogFile: (value) =>
+		typeof value === 'string' && value !== ''
+			? []
+			: ['"changelogFile" must be a non-empty string'],
+	dependencyTypes: (value) =>
+		isStringArray(value)
+			? []
+			: ['"dependencyTypes" must be an array of strings'],
+	independent: (value) =>
+		typeof value === 'boolean' ? [] : ['"independent" must be a boolean'],
+	dependencyPropagationBump: (value) => {
+		const bumpTypes = [...Object.keys(TypeHierarchy), 'none'];
+		return bumpTypes.includes(value as string)
+			? []
+			: [
+					`"dependencyPropagationBump" must be one of ${bumpTypes.join(', ')} (got ${JSON.stringify(value)})`,
+				];
+	},
+	workspaceProtocol: (value) =>
+		value === 'keep' || value === 'resolve'
+			? []
+			: [
+					`"workspaceProtocol" must be one of keep, resolve (got ${JSON.stringify(value)})`,
+				],
+	commitAttribution: (value) =>
+		value === 'scope' || value === 'path'
+			? []
+			: [
+					`"commitAttribution" must be one of scope, path (got ${JSON.stringify(value)})`,
+				],
+	scopeOverride: (value) =>
+		typeof value === 'boolean' ? [] : ['"scopeOverride" must be a boolean'],
+	scopeAliases: (value) => {
+		if (!isPlainObject(value)) {
+			return [
+				'"scopeAliases" must be an object mapping scopes to workspace short names',
+			];
+		}
+		return Object.entries(value)
+			.filter(([, alias]) => typeof alias !== 'string' && !isStringArray(alias))
+			.map(
+				([scope]) =>
+					`"scopeAliases.${scope}" must be a workspace short name or an array of them`
+			);
+	},
+	sectionOrder: (value) =>
+		isStringArray(value) ? [] : ['"sectionOrder" must be an array of strings'],
+	changelogTemplates: (value) => {
+		if (!isPlainObject(value)) {
+			return [
+				'"changelogTemplates" must be an object mapping template names to templates',
+			];
+		}
+		return Object.entries(value).flatMap(([name, template]) => {
+			const variables =
+				ChangelogTemplateVariables[name as keyof ChangelogTemplates];
+			if (!variables) {
+				return [
+					`"changelogTemplates.${name}" is not a template (valid templates are: ${Object.keys(ChangelogTemplateVariables).join(', ')})`,
+				];
+			}
+			if (typeof template === 'function') {
+				return [];
+			}
+			if (typeof template !== 'string') {
+				return [
+					`"changelogTemplates.${name}" must be a string or a render function`,
+				];
+			}
+			return getUnknownPlaceholders(template, variables).map(
+				(placeholder) =>
+					`"changelogTemplates.${name}" uses unknown placeholder {{${placeholder}}} (available: ${variables.join(', ')})`
+			);
+		});
+	},
+	forge: (value) =>
+		Object.keys(ForgeApis).includes(value as string)
+			? []
+			: [
+					`"forge" must be one of ${Object.keys(ForgeApis).join(', ')} (got ${JSON.stringify(value)})`,
+				],
+	forgeApiUrl: (value) =>
+		typeof value === 'string' && (value === '' || URL.canParse(value))
+			? []
+			: ['"forgeApiUrl" must be a URL'],
+	linkStyle: (value) => {
+		const styles = ['auto', ...Object.keys(LinkBuilders)];
+		return styles.includes(value as string)
+			? []
+			: [
+					`"linkStyle" must be one of ${styles.join(', ')} (got ${JSON.stringify(value)})`,
+				];
+	},
+	issueTrackers: (value) => {
+		if (!Array.isArray(value)) {
+			return [
+				'"issueTrackers" must be an array of objects with "pattern" and "url"',
+			];
+		}
+		return value.flatMap((tracker, index) => {
+			if (!isPlainObject(tracker)) {
+				return [
+					`"issueTrackers[${index}]" must be an object with "pattern" and "url"`,
+				];
+			}
+			const errors: string[] = [];
+			if (
+				typeof tracker.pattern !== 'string' ||
+				tracker.pattern === '' ||
+				!isValidPattern(tracker.pattern)
+			) {
+				errors.push(
+					`"issueTrackers[${index}].pattern" must be a regular expression`
+				);
+			}
+			if (typeof tracker.url !== 'string' || !tracker.url.includes('{key}')) {
+				errors.push(
+					`"issueTrackers[${index}].url" must be a string containing {key}`
+				);
+			}
+			return errors;
+		});
+	},
+	creditAuthors: (value) =>
+		typeof value === 'boolean' ? [] : ['"creditAuthors" must be a boolean'],
+	newContributors: (value) =>
+		typeof value === 'boolean' ? [] : ['"newContributors" must be a boolean'],
+	authorHandles: (value) => {
+		if (!isPlainObject(value)) {
+			return [
+				'"authorHandles" must be an object mapping email addresses to GitHub handles',
+			];
+		}
+		return Object.entries(value)
+			.filter(([, handle]) => typeof handle !== 'string' || handle === '')
+			.map(([email]) => `"authorHandles.${email}" must be a non-empty string`);
+	},
+};
+
+/**
+ * Validates user-provided configuration.
+ *
+ * Collects every problem found instead of stopping at the first one, so that
+ * all of them can be reported at once.
+ *
+ * @param input - the raw configuration value
+ * @param source - description of where the configuration was loaded from, used in error messages
+ * @returns the validated user configuration
+ * @throws Error listing every problem when the configuration is invalid
+ *
+ * @example
+ * ```typescript
+ * validateConfig({ tagFormat: 'release-{version}' }, 'bump-n-go.config.json');
+ * ```
+ */
+const validateConfig = (input: unknown, source: string): UserConfig => {
+	if (!isPlainObject(input)) {
+		throw new Error(
+			`Invalid configuration in ${source}: expected an object but got ${Array.isArray(input) ? 'an array' : typeof input}`
+		);
+	}
+
+	const problems: string[] = [];
+	for (const [key, value] of Object.entries(input)) {
+		const validator = configValidators[key as keyof Config];
+		if (!validator) {
+			problems.push(
+				`unknown option "${key}" (valid options are: ${Object.keys(configValidators).join(', ')})`
+			);
+			continue;
+		}
+		problems.push(...validator(value));
+	}
+
+	if (problems.length > 0) {
+		throw new Error(
+			`Invalid configuration in ${source}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`
+		);
+	}
+
+	return input as UserConfig;
+};
+
+/**
+ * Merges user configuration with the defaults.
+ *
+ * Type mappings and changelog templates are merged key by key so that
+ * custom types and templates can be added without repeating the defaults,
+ * while all other options replace the default value. Every change type must
+ * have a changelog section header.
+ *
+ * @param userConfig - the validated user configuration
+ * @param source - description of where the configuration was loaded from, used in error messages
+ * @returns the resolved configuration
+ * @throws Error when a change type has no changelog section header
+ */
+const resolveConfig = (userConfig: UserConfig, source: string): Config => {
+	const config: Config = {
+		...DefaultConfig,
+		...userConfig,
+		changeTypes: {
+			...DefaultConfig.changeTypes,
+			...userConfig.changeTypes,
+		},
+		changeTypeHeaders: {
+			...DefaultConfig.changeTypeHeaders,
+			...userConfig.changeTypeHeaders,
+		},
+		changelogTemplates: {
+			...DefaultConfig.changelogTemplates,
+			...userConfig.changelogTemplates,
+		},
+	};
+
+	const missingHeaders = Object.keys(config.changeTypes).filter(
+		(type) => !config.changeTypeHeaders[type]
+	);
+	if (missingHeaders.length > 0) {
+		throw new Error(
+			`Invalid configuration in ${source}: missing "changeTypeHeaders" entry for commit types ${missingHeaders.join(', ')}`
+		);
+	}
+
+	return config;
+};
+
+/**
+ * Reads the raw configuration from a configuration file.
+ *
+ * JSON files are parsed directly, while JavaScript and TypeScript modules are
+ * imported and their default export is used.
+ *
+ * @param configPath - the absolute path to the configuration file
+ * @param fileName - the configuration file name, used in error messages
+ * @returns the raw configuration value
+ * @throws Error when the file cannot be parsed or imported
+ */
+const readConfigFile = async (
+	configPath: string,
+	fileName: string
+): Promise<unknown> => {
+	try {
+		if (fileName.endsWith('.json')) {
+			return JSON.parse(readFileSync(configPath, 'utf-8'));
+		}
+		const module = await import(pathToFileURL(configPath).href);
+		return module.default;
+	} catch (error) {
+		throw new Error(
+			`Failed to load configuration from ${fileName}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+};
+
+/**
+ * Loads the project configuration for a repository.
+ *
+ * Looks for a `bump-n-go.config.{json,js,mjs,ts}` file in the repository root
+ * first, then for a `bumpNGo` key in the root package.json. The configuration
+ * found is validated and merged with the defaults; when none is found the
+ * defaults are returned.
+ *
+ * @param root - the root directory of the repository
+ * @returns the resolved configuration
+ * @throws Error when the configuration cannot be loaded or is invalid
+ *
+ * @example
+ * ```typescript
+ * const config = await loadConfig('/path/to/repo');
+ * console.log(config.tagFormat); // 'v{version}'
+ * ```
+ */
+const loadConfig = async (root: string): Promise<Config> => {
+	for (const fileName of ConfigFileNames) {
+		const configPath = join(root, fileName);
+		if (!existsSync(configPath)) continue;
+
+		logger.debug(`Loading configuration from ${fileName}`);
+		const userConfig = validateConfig(
+			await readConfigFile(configPath, fileName),
+			fileName
+		);
+		return resolveConfig(userConfig, fileName);
+	}
+
+	const rootPkgPath = join(root, 'package.json');
+	const rootPkg = existsSync(rootPkgPath)
+		? JSON.parse(readFileSync(rootPkgPath, 'utf-8'))
+		: {};
+	if (rootPkg.bumpNGo !== undefined) {
+		const source = 'the "bumpNGo" key of package.json';
+		logger.debug(`Loading configuration from ${source}`);
+		return resolveConfig(validateConfig(rootPkg.bumpNGo, source), source);
+	}
+
+	return DefaultConfig;
+};
+
+export { loadConfig, validateConfig, resolveConfig };
@@ -1,3 +1,5 @@
+import type { ChangelogTemplates, Config } from './types.js';
+
 /**
  * Maps conventional commit types to their corresponding semantic version bump type.
  *
@@ -52,4 +54,239 @@ const TypeHierarchy = {
 	patch: 1,
 } as const;
 
-export { ChangeTypeMapping, ChangeTypeHeaderMapping, TypeHierarchy };
+/**
+ * Keywords closing the issues referenced after them in a commit body, as recognised by GitHub.
+ */
+const ClosingKeywords = [
+	'close',
+	'closes',
+	'closed',
+	'fix',
+	'fixes',
+	'fixed',
+	'resolve',
+	'resolves',
+	'resolved',
+];
+
+/**
+ * Commit message footer keywords introducing a breaking change note.
+ */
+const BreakingChangeKeywords = [
+	'BREAKING CHANGE',
+	'BREAKING CHANGES',
+	'BREAKING-CHANGE',
+];
+
+/**
+ * Header of the changelog section listing breaking changes and their notes.
+ */
+const BreakingChangesHeader = '⚠ BREAKING CHANGES';
+
+/**
+ * Default changelog templates, producing the changelog format of previous releases.
+ */
+const DefaultChangelogTemplates: ChangelogTemplates = {
+	versionHeader: '## [{{version}}]({{versionLink}}) ({{date}})',
+	sectionHeader: '### {{title}}',
+	entry:
+		'- {{#workspace}}**{{workspace}}** {{/workspace}}{{subject}}{{#pr}} ({{pr}}){{/pr}}{{#commitUrl}} ([{{shortHash}}]({{commitUrl}})){{/commitUrl}}{{#closes}}, closes {{closes}}{{/closes}}{{#authors}} by {{authors}}{{/authors}}',
+	versionBumpOnly: '**Note:** Version bump only for this package',
+	breakingChange: '- {{#workspace}}**{{workspace}}** {{/workspace}}{{note}}',
+	contributor:
+		'- {{contributor}} made their first contribution{{#commitUrl}} in [{{shortHash}}]({{commitUrl}}){{/commitUrl}}',
+};
+
+/**
+ * Placeholders available to each changelog template.
+ */
+const ChangelogTemplateVariables: Record<keyof ChangelogTemplates, string[]> = {
+	versionHeader: ['version', 'versionLink', 'date'],
+	sectionHeader: ['title'],
+	entry: [
+		'subject',
+		'type',
+		'scope',
+		'breaking',
+		'hash',
+		'shortHash',
+		'commitUrl',
+		'package',
+		'workspace',
+		'authors',
+		'date',
+		'pr',
+		'prUrl',
+		'closes',
+	],
+	versionBumpOnly: ['version'],
+	breakingChange: [
+		'note',
+		'subject',
+		'type',
+		'scope',
+		'breaking',
+		'hash',
+		'shortHash',
+		'commitUrl',
+		'package',
+		'workspace',
+		'authors',
+		'date',
+		'pr',
+		'prUrl',
+		'closes',
+	],
+	contributor: [
+		'contributor',
+		'name',
+		'email',
+		'hash',
+		'shortHash',
+		'commitUrl',
+	],
+};
+
+/**
+ * Default configuration used when no configuration is provided.
+ *
+ * User configuration is merged on top of these values, see `loadConfig`.
+ */
+const DefaultConfig: Config = {
+	changeTypes: { ...ChangeTypeMapping },
+	changeTypeHeaders: { ...ChangeTypeHeaderMapping },
+	skippedTypes: ['ci', 'style', 'docs', 'test'],
+	versionBumpCommit: { type: 'chore', subjectPrefix: 'bump version' },
+	releaseCommitMessage: 'chore: bump version to {version}',
+	tagFormat: 'v{version}',
+	packageTagFormat: '{name}@{version}',
+	changelogFile: 'CHANGELOG.md',
+	dependencyTypes: ['dependencies', 'devDependencies', 'peerDependencies'],
+	independent: false,
+	dependencyPropagationBump: 'patch',
+	workspaceProtocol: 'keep',
+	commitAttribution: 'scope',
+	scopeOverride: false,
+	scopeAliases: {},
+	sectionOrder: [
+		BreakingChangesHeader,
+		'Features',
+		'Improvements',
+		'Bug Fixes',
+		'Documentation',
+		'Maintenance',
+		'Tests',
+		'Build System',
+		'Continuous Integration',
+	],
+	changelogTemplates: { ...DefaultChangelogTemplates },
+	forge: 'github',
+	forgeApiUrl: '',
+	linkStyle: 'auto',
+	issueTrackers: [],
+	creditAuthors: false,
+	newContributors: false,
+	authorHandles: {},
+};
+
+/**
+ * File names searched, in order, for the project configuration in the repository root.
+ *
+ * When none exists, the `bumpNGo` key of the root package.json is used instead.
+ */
+const ConfigFileNames = [
+	'bump-n-go.config.json',
+	'bump-n-go.config.js',
+	'bump-n-go.config.mjs',
+	'bump-n-go.config.ts',
+] as const;
+
+/**
+ * ANSI escape sequences used to colour dry run diffs.
+ */
+const DiffColors = {
+	bold: '\x1b[1m',
+	red: '\x1b[31m',
+	green: '\x1b[32m',
+	cyan: '\x1b[36m',
+	reset: '\x1b[0m',
+} as const;
+
+/**
+ * Markers delimiting commits in the `git log` output parsed by `getCommitsSinceTag`.
+ *
+ * ASCII record and unit separators never appear in commit messages, unlike
+ * textual markers.
+ */
+const CommitLogFormat = {
+	start: '\x1e',
+	end: '\x1f',
+	/** Separates the hash, author name, email and date on the first line of a commit, written `%x00` in the format */
+	field: '\x00',
+} as const;
+
+/**
+ * Header of the changelog section listing the first-time contributors of a release.
+ */
+const ContributorsHeader = 'Contributors';
+
+/**
+ * Headers of the commit messages generated by git (merges, reverts and
+ * autosquash commits), which are not linted.
+ */
+const GeneratedCommitPatterns = [
+	/^Merge /,
+	/^Revert "/,
+	/^(?:fixup|squash|amend)! /,
+];
+
+/**
+ * Line of the commit message file below which `git commit --verbose` appends the diff.
+ */
+const CommitMessageScissors =
+	'# ------------------------ >8 ------------------------';
+
+/**
+ * Registry packages are published to when no registry is configured.
+ */
+const DefaultRegistryUrl = 'https://registry.npmjs.org';
+
+/**
+ * Dist-tags packages are published with, depending on whether their version is a prerelease.
+ */
+const DefaultDistTags = {
+	stable: 'latest',
+	prerelease: 'next',
+} as const;
+
+/**
+ * Exit codes of the CLI, so that CI can tell a run without changes from a failure.
+ */
+const ExitCodes = {
+	success: 0,
+	error: 1,
+	/** Invalid command or flags, also used by meow when showing the help */
+	usage: 2,
+	noChanges: 3,
+} as const;
+
+export {
+	ChangeTypeMapping,
+	ChangeTypeHeaderMapping,
+	TypeHierarchy,
+	DefaultConfig,
+	ConfigFileNames,
+	DiffColors,
+	CommitLogFormat,
+	DefaultChangelogTemplates,
+	ChangelogTemplateVariables,
+	BreakingChangeKeywords,
+	ClosingKeywords,
+	BreakingChangesHeader,
+	ContributorsHeader,
+	DefaultRegistryUrl,
+	DefaultDistTags,
+	ExitCodes,
+	GeneratedCommitPatterns,
+	CommitMessageScissors,
+};
@@ -0,0 +1,197 @@
+import { DiffColors } from './constants.js';
+import type { DiffLine } from './types.js';
+
+/**
+ * Splits file content into lines, ignoring the trailing newline.
+ *
+ * @param content - the file content, or null for a file that does not exist
+ * @returns the lines of the file
+ */
+const splitLines = (content: string | null): string[] => {
+	if (!content) return [];
+	const lines = content.split('\n');
+	if (lines.at(-1) === '') lines.pop();
+	return lines;
+};
+
+/**
+ * Computes the shortest line edit script between two files.
+ *
+ * Uses the Myers difference algorithm, which runs in O((N + M) * D) time
+ * where D is the number of changed lines. Release edits only touch a few
+ * lines of large files like lockfiles, so this stays fast.
+ *
+ * @param original - the lines of the original file
+ * @param content - the lines of the new file
+ * @returns every line of both files, marked as unchanged, removed or added
+ *
+ * @example
+ * ```typescript
+ * diffLines(['a', 'b'], ['a', 'c']);
+ * // [
+ * //   { type: ' ', line: 'a' },
+ * //   { type: '-', line: 'b' },
+ * //   { type: '+', line: 'c' },
+ * // ]
+ * ```
+ */
+const diffLines = (original: string[], content: string[]): DiffLine[] => {
+	const n = original.length;
+	const m = content.length;
+	const offset = n + m + 1;
+	// Furthest reaching x on each diagonal k = x - y, indexed by k + offset
+	const v = new Array<number>(2 * offset + 1).fill(0);
+	// Diagonals -d - 1..d + 1 of v before each step d, for backtracking
+	const trace: number[][] = [];
+
+	search: for (let d = 0; d <= n + m; d++) {
+		trace.push(v.slice(offset - d - 1, offset + d + 2));
+		for (let k = -d; k <= d; k += 2) {
+			const down =
+				k === -d ||
+				(k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0));
+			let x = down ? (v[offset + k + 1] ?? 0) : (v[offset + k - 1] ?? 0) + 1;
+			let y = x - k;
+			while (x < n && y < m && original[x] === content[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) break search;
+		}
+	}
+
+	// Walk the trace backwards from the end of both files
+	const lines: DiffLine[] = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const snapshot = trace[d] as number[];
+		const at = (k: number): number => snapshot[k + d + 1] ?? 0;
+		const k = x - y;
+		const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+		const previousK = down ? k + 1 : k - 1;
+		const previousX = at(previousK);
+		const previousY = previousX - previousK;
+		while (x > previousX && y > previousY) {
+			lines.push({ type: ' ', line: original[--x] as string });
+			y--;
+		}
+		if (d > 0) {
+			if (down) {
+				lines.push({ type: '+', line: content[--y] as string });
+			} else {
+				lines.push({ type: '-', line: original[--x] as string });
+			}
+		}
+	}
+
+	return lines.reverse();
+};
+
+/**
+ * Creates a unified diff between the original and new content of a file.
+ *
+ * Changes are grouped into hunks with the given number of context lines,
+ * merging hunks whose context overlaps, like `git diff` does.
+ *
+ * @param path - the path of the file shown in the diff header
+ * @param original - the original content, or null when the file is created
+ * @param content - the new content of the file
+ * @param context - the number of unchanged lines shown around each change
+ * @returns the unified diff, or an empty string when the content is unchanged
+ *
+ * @example
+ * ```typescript
+ * createUnifiedDiff('package.json', '{\n  "version": "1.0.0"\n}\n', '{\n  "version": "1.1.0"\n}\n');
+ * // --- a/package.json
+ * // +++ b/package.json
+ * // @@ -1,3 +1,3 @@
+ * //  {
+ * // -  "version": "1.0.0"
+ * // +  "version": "1.1.0"
+ * //  }
+ * ```
+ */
+const createUnifiedDiff = (
+	path: string,
+	original: string | null,
+	content: string,
+	context = 3
+): string => {
+	if (original === content) return '';
+
+	const lines = diffLines(splitLines(original), splitLines(content));
+	const changes = lines.flatMap((line, index) =>
+		line.type === ' ' ? [] : [index]
+	);
+	if (changes.length === 0) return '';
+
+	// Group changed lines whose context overlaps into hunks of [start, end)
+	const ranges: [number, number][] = [];
+	for (const index of changes) {
+		const start = Math.max(0, index - context);
+		const end = Math.min(lines.length, index + context + 1);
+		const last = ranges.at(-1);
+		if (last && start <= last[1]) {
+			last[1] = end;
+		} else {
+			ranges.push([start, end]);
+		}
+	}
+
+	const output = [
+		original === null ? '--- /dev/null' : `--- a/${path}`,
+		`+++ b/${path}`,
+	];
+	let originalLine = 0;
+	let contentLine = 0;
+	let position = 0;
+	for (const [start, end] of ranges) {
+		// Count the lines of both files before the hunk
+		for (; position < start; position++) {
+			if (lines[position]?.type !== '+') originalLine++;
+			if (lines[position]?.type !== '-') contentLine++;
+		}
+		const hunk = lines.slice(start, end);
+		const originalCount = hunk.filter(({ type }) => type !== '+').length;
+		const contentCount = hunk.filter(({ type }) => type !== '-').length;
+		output.push(
+			`@@ -${originalCount ? originalLine + 1 : originalLine},${originalCount} +${contentCount ? contentLine + 1 : contentLine},${contentCount} @@`,
+			...hunk.map(({ type, line }) => `${type}${line}`)
+		);
+		for (; position < end; position++) {
+			if (lines[position]?.type !== '+') originalLine++;
+			if (lines[position]?.type !== '-') contentLine++;
+		}
+	}
+
+	return `${output.join('\n')}\n`;
+};
+
+/**
+ * Colours a unified diff for terminal output.
+ *
+ * File headers are bold, hunk headers cyan, removed lines red and added lines green.
+ *
+ * @param diff - the unified diff to colour
+ * @returns the diff with ANSI colour codes
+ */
+const colorizeDiff = (diff: string): string =>
+	diff
+		.split('\n')
+		.map((line) => {
+			if (line.startsWith('--- ') || line.startsWith('+++ ')) {
+				return `${DiffColors.bold}${line}${DiffColors.reset}`;
+			}
+			if (line.startsWith('@@'))
+				return `${DiffColors.cyan}${line}${DiffColors.reset}`;
+			if (line.startsWith('-'))
+				return `${DiffColors.red}${line}${DiffColors.reset}`;
+			if (line.startsWith('+'))
+				return `${DiffColors.green}${line}${DiffColors.reset}`;
+			return line;
+		})
+		.join('\n');
+
+export { diffLines, createUnifiedDiff, colorizeDiff };
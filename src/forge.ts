@@ -0,0 +1,251 @@
+import { prerelease } from 'semver';
+import type {
+	Config,
+	Forge,
+	ForgeApi,
+	ForgeClientOptions,
+	ForgeRelease,
+	ForgeReleaseResult,
+} from './types.js';
+
+/**
+ * Release API of GitHub, also used by GitHub Enterprise Server.
+ *
+ * @see https://docs.github.com/en/rest/releases/releases
+ */
+const githubApi: ForgeApi = {
+	tokenVariables: ['GITHUB_TOKEN', 'GH_TOKEN'],
+	defaultApiUrl: (origin) =>
+		origin === 'https://github.com'
+			? 'https://api.github.com'
+			: `${origin}/api/v3`,
+	headers: (token) => ({
+		Accept: 'application/vnd.github+json',
+		Authorization: `Bearer ${token}`,
+		'X-GitHub-Api-Version': '2022-11-28',
+	}),
+	releasePath: (repository, tag) =>
+		`/repos/${repository}/releases/tags/${encodeURIComponent(tag)}`,
+	createPath: (repository) => `/repos/${repository}/releases`,
+	updateRequest: (repository, release) => ({
+		method: 'PATCH',
+		path: `/repos/${repository}/releases/${release.id}`,
+	}),
+	toPayload: (release, isPrerelease) => ({
+		tag_name: release.tag,
+		name: release.tag,
+		body: release.notes,
+		prerelease: isPrerelease,
+	}),
+	fromResponse: (data) => ({
+		id: String(data.id),
+		name: String(data.name ?? ''),
+		notes: String(data.body ?? ''),
+		prerelease: Boolean(data.prerelease),
+		url: String(data.html_url ?? ''),
+	}),
+};
+
+/**
+ * Release API of GitLab, which has no prerelease flag.
+ *
+ * @see https://docs.gitlab.com/api/releases/
+ */
+const gitlabApi: ForgeApi = {
+	tokenVariables: ['GITLAB_TOKEN'],
+	defaultApiUrl: (origin) => `${origin}/api/v4`,
+	headers: (token) => ({ 'PRIVATE-TOKEN': token }),
+	releasePath: (repository, tag) =>
+		`/projects/${encodeURIComponent(repository)}/releases/${encodeURIComponent(tag)}`,
+	createPath: (repository) =>
+		`/projects/${encodeURIComponent(repository)}/releases`,
+	updateRequest: (repository, release) => ({
+		method: 'PUT',
+		path: `/projects/${encodeURIComponent(repository)}/releases/${encodeURIComponent(release.id)}`,
+	}),
+	toPayload: (release) => ({
+		tag_name: release.tag,
+		name: release.tag,
+		description: release.notes,
+	}),
+	fromResponse: (data) => ({
+		id: String(data.tag_name),
+		name: String(data.name ?? ''),
+		notes: String(data.description ?? ''),
+		url: String((data._links as Record<string, unknown>)?.self ?? ''),
+	}),
+};
+
+/**
+ * Release API of Gitea, also used by Forgejo.
+ *
+ * @see https://gitea.com/api/swagger#/repository/repoCreateRelease
+ */
+const giteaApi: ForgeApi = {
+	...githubApi,
+	tokenVariables: ['GITEA_TOKEN'],
+	defaultApiUrl: (origin) => `${origin}/api/v1`,
+	headers: (token) => ({ Authorization: `token ${token}` }),
+};
+
+/**
+ * Release APIs of the supported forges.
+ */
+const ForgeApis: Record<Forge, ForgeApi> = {
+	github: githubApi,
+	gitlab: gitlabApi,
+	gitea: giteaApi,
+};
+
+/**
+ * Resolves the settings of the forge API client from the configuration.
+ *
+ * The repository path and the default API URL are derived from the
+ * repository URL, the token is read from the environment variables of the
+ * forge (e.g. `GITHUB_TOKEN`).
+ *
+ * @param config - the resolved configuration with the forge and its API URL
+ * @param repositoryUrl - the web URL of the repository (e.g. `https://github.com/owner/repo`)
+ * @param env - the environment variables to read the token from
+ * @returns the forge API client settings
+ * @throws Error when the repository URL is missing or invalid, or no token is set
+ *
+ * @example
+ * ```typescript
+ * getForgeClientOptions(DefaultConfig, 'https://github.com/owner/repo');
+ * // { forge: 'github', apiUrl: 'https://api.github.com', repository: 'owner/repo', token: '...' }
+ * ```
+ */
+const getForgeClientOptions = (
+	config: Pick<Config, 'forge' | 'forgeApiUrl'>,
+	repositoryUrl: string,
+	env: NodeJS.ProcessEnv = process.env
+): ForgeClientOptions => {
+	const api = ForgeApis[config.forge];
+	let url: URL;
+	try {
+		url = new URL(repositoryUrl);
+	} catch {
+		throw new Error(
+			`Cannot create ${config.forge} releases without a valid repository URL in package.json (got ${JSON.stringify(repositoryUrl)})`
+		);
+	}
+	const token = api.tokenVariables
+		.map((variable) => env[variable])
+		.find(Boolean);
+	if (!token) {
+		throw new Error(
+			`Cannot create ${config.forge} releases without a token, set ${api.tokenVariables.join(' or ')}`
+		);
+	}
+	return {
+		forge: config.forge,
+		apiUrl: (config.forgeApiUrl || api.defaultApiUrl(url.origin)).replace(
+			/\/+$/,
+			''
+		),
+		repository: url.pathname.replace(/^\/+|\/+$/g, ''),
+		token,
+	};
+};
+
+/**
+ * Sends a JSON request to the forge API.
+ *
+ * @param options - the forge API client settings
+ * @param method - the HTTP method
+ * @param path - the path of the endpoint, relative to the API base URL
+ * @param body - the request body, serialised as JSON
+ * @returns the response body, or null when the resource does not exist
+ * @throws Error when the forge responds with an error status
+ */
+const sendRequest = async (
+	options: ForgeClientOptions,
+	method: string,
+	path: string,
+	body?: Record<string, unknown>
+): Promise<Record<string, unknown> | null> => {
+	const response = await fetch(`${options.apiUrl}${path}`, {
+		method,
+		headers: {
+			...ForgeApis[options.forge].headers(options.token),
+			'Content-Type': 'application/json',
+		},
+		body: body ? JSON.stringify(body) : undefined,
+	});
+	if (response.status === 404 && method === 'GET') {
+		return null;
+	}
+	const text = await response.text();
+	if (!response.ok) {
+		throw new Error(
+			`${method} ${path} failed with ${response.status} ${response.statusText}${text ? `: ${text}` : ''}`
+		);
+	}
+	return text ? JSON.parse(text) : {};
+};
+
+/**
+ * Creates the release of a tag on the forge, or updates it when it exists.
+ *
+ * Reruns are idempotent: a release that already has the same name, notes and
+ * prerelease flag is left untouched. Releases of prerelease versions (e.g.
+ * `1.0.0-beta.0`) are marked as prereleases on forges supporting it.
+ *
+ * @param release - the release tag, version and notes
+ * @param options - the forge API client settings
+ * @returns whether the release was created, updated or unchanged, with its URL
+ * @throws Error when a request to the forge fails
+ *
+ * @example
+ * ```typescript
+ * await publishRelease(
+ *   { tag: 'v1.1.0', version: '1.1.0', notes: '### Features\n\n- add feature\n' },
+ *   getForgeClientOptions(config, 'https://github.com/owner/repo')
+ * );
+ * // { action: 'created', url: 'https://github.com/owner/repo/releases/tag/v1.1.0' }
+ * ```
+ */
+const publishRelease = async (
+	release: ForgeRelease,
+	options: ForgeClientOptions
+): Promise<ForgeReleaseResult> => {
+	const api = ForgeApis[options.forge];
+	const isPrerelease = prerelease(release.version) !== null;
+	const payload = api.toPayload(release, isPrerelease);
+	try {
+		const response = await sendRequest(
+			options,
+			'GET',
+			api.releasePath(options.repository, release.tag)
+		);
+		if (!response) {
+			const created = await sendRequest(
+				options,
+				'POST',
+				api.createPath(options.repository),
+				payload
+			);
+			return { action: 'created', url: api.fromResponse(created ?? {}).url };
+		}
+
+		const existing = api.fromResponse(response);
+		if (
+			existing.name === release.tag &&
+			existing.notes === release.notes &&
+			(existing.prerelease === undefined ||
+				existing.prerelease === isPrerelease)
+		) {
+			return { action: 'unchanged', url: existing.url };
+		}
+		const { method, path } = api.updateRequest(options.repository, existing);
+		const updated = await sendRequest(options, method, path, payload);
+		return { action: 'updated', url: api.fromResponse(updated ?? {}).url };
+	} catch (error) {
+		throw new Error(
+			`Failed to publish ${options.forge} release ${release.tag}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+};
+
+export { ForgeApis, getForgeClientOptions, publishRelease };
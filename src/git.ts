@@ -1,35 +1,45 @@
-import { execSync } from 'node:child_process';
+import { execFileSync, spawn } from 'node:child_process';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { CommitLogFormat } from './constants.js';
 import { logger } from './logger.js';
 import type { RawCommit } from './types.js';
 
 /**
- * Gets the last git tag in the repository.
+ * Gets the git tags reachable from a ref, the current HEAD by default.
+ *
+ * Tags of releases on other branches are not included, so that a release
+ * always starts from a tag in its own history.
  *
  * @param cwd - the working directory to execute git commands in
- * @returns the last tag or null if no tags exist
+ * @param ref - the ref the tags must be reachable from
+ * @returns the tag names, empty array if there are none or unable to retrieve
  */
-const getLastTag = (cwd: string): string | null => {
+const getTags = (cwd: string, ref = 'HEAD'): string[] => {
 	try {
-		return execSync('git describe --tags --abbrev=0', { cwd })
+		return execFileSync('git', ['tag', '--merged', ref], { cwd })
 			.toString()
-			.trim();
+			.split('\n')
+			.map((tag) => tag.trim())
+			.filter((tag) => tag !== '');
 	} catch (error) {
 		logger.error(
-			`No git tags found in ${cwd}: ${error instanceof Error ? error.message : String(error)}`
+			`Failed to get tags in ${cwd}: ${error instanceof Error ? error.message : String(error)}`
 		);
-		return null;
+		return [];
 	}
 };
 
 /**
- * Gets the first commit hash in the repository.
+ * Gets the first commit hash in the history of a ref, the current HEAD by default.
  *
  * @param cwd - the working directory to execute git commands in
+ * @param ref - the ref whose history is searched
  * @returns the first commit hash or null if unable to retrieve
  */
-const getFirstCommit = (cwd: string): string | null => {
+const getFirstCommit = (cwd: string, ref = 'HEAD'): string | null => {
 	try {
-		return execSync('git rev-list --max-parents=0 HEAD', { cwd })
+		return execFileSync('git', ['rev-list', '--max-parents=0', ref], { cwd })
 			.toString()
 			.trim();
 	} catch (error) {
@@ -40,24 +50,57 @@ const getFirstCommit = (cwd: string): string | null => {
 	}
 };
 
+/**
+ * Changed files of commits keyed by commit hash.
+ *
+ * Filled by {@link getCommitsSinceTag | `getCommitsSinceTag`} and
+ * {@link getChangedFiles | `getChangedFiles`}, so that the files of a commit
+ * are only retrieved once.
+ */
+const changedFilesCache = new Map<string, string[]>();
+
+/**
+ * File diffs of commits keyed by commit hash, then by file path.
+ */
+const fileDiffCache = new Map<string, Map<string, string>>();
+
+/**
+ * Clears the cached changed files and diffs of commits.
+ *
+ * Only needed by long-running processes where the history can be rewritten.
+ */
+const clearGitCache = (): void => {
+	changedFilesCache.clear();
+	fileDiffCache.clear();
+};
+
 /**
  * Gets the list of files changed in a specific commit.
  *
+ * Results are cached, and files listed by {@link getCommitsSinceTag | `getCommitsSinceTag`}
+ * are returned without running git again.
+ *
  * @param cwd - the working directory to execute git commands in
  * @param commitHash - the commit hash to analyze
  * @returns array of changed file paths, empty array if unable to retrieve
  */
 const getChangedFiles = (cwd: string, commitHash: string): string[] => {
+	const cached = changedFilesCache.get(commitHash);
+	if (cached) return cached;
+
 	try {
-		const output = execSync(
-			`git show --name-only --pretty=format: ${commitHash}`,
+		const output = execFileSync(
+			'git',
+			['show', '--name-only', '--pretty=format:', commitHash],
 			{ cwd }
 		)
 			.toString()
 			.trim();
 
 		// Filter out empty lines and return file paths
-		return output.split('\n').filter((line) => line.trim() !== '');
+		const files = output.split('\n').filter((line) => line.trim() !== '');
+		changedFilesCache.set(commitHash, files);
+		return files;
 	} catch (error) {
 		logger.error(
 			`Failed to get changed files for commit ${commitHash} in ${cwd}: ${error instanceof Error ? error.message : String(error)}`
@@ -66,9 +109,34 @@ const getChangedFiles = (cwd: string, commitHash: string): string[] => {
 	}
 };
 
+/**
+ * Splits the output of `git show` for several files into the diff of each file.
+ *
+ * @param output - the output of `git show` limited to the given files
+ * @param filePaths - the paths of the files included in the output
+ * @returns the diff of each file, empty for files without changes in the output
+ */
+const splitDiffByFile = (
+	output: string,
+	filePaths: string[]
+): Map<string, string> => {
+	const diffs = new Map(filePaths.map((filePath) => [filePath, '']));
+	for (const section of output.split(/^(?=diff --git )/m)) {
+		const filePath = filePaths.find((path) =>
+			section.startsWith(`diff --git a/${path} `)
+		);
+		if (filePath) diffs.set(filePath, section);
+	}
+	return diffs;
+};
+
 /**
  * Gets the diff for a specific file in a commit.
  *
+ * The diffs of all files of the commit with the same file name (e.g. every
+ * package.json changed by a dependency update) are retrieved with the same
+ * git call and cached, so that a commit is only inspected once.
+ *
  * @param cwd - the working directory to execute git commands in
  * @param commitHash - the commit hash to analyze
  * @param filePath - the path to the file to get diff for
@@ -79,12 +147,36 @@ const getFileDiff = (
 	commitHash: string,
 	filePath: string
 ): string => {
+	const cached = fileDiffCache.get(commitHash) ?? new Map<string, string>();
+	const cachedDiff = cached.get(filePath);
+	if (cachedDiff !== undefined) return cachedDiff;
+
+	const fileName = filePath.split('/').at(-1);
+	const filePaths = [
+		filePath,
+		...(changedFilesCache.get(commitHash) ?? []).filter(
+			(file) =>
+				file !== filePath &&
+				file.split('/').at(-1) === fileName &&
+				!cached.has(file)
+		),
+	];
+
 	try {
-		const output = execSync(`git show ${commitHash} -- "${filePath}"`, {
-			cwd,
-		}).toString();
+		const output = execFileSync(
+			'git',
+			['show', commitHash, '--', ...filePaths],
+			{
+				cwd,
+			}
+		).toString();
 
-		return output;
+		const diffs =
+			filePaths.length === 1
+				? new Map([[filePath, output]])
+				: splitDiffByFile(output, filePaths);
+		fileDiffCache.set(commitHash, new Map([...cached, ...diffs]));
+		return diffs.get(filePath) ?? '';
 	} catch (error) {
 		logger.error(
 			`Failed to get file diff for ${filePath} in commit ${commitHash} at ${cwd}: ${error instanceof Error ? error.message : String(error)}`
@@ -94,35 +186,118 @@ const getFileDiff = (
 };
 
 /**
- * Gets all commits since a specific tag or from the beginning if no tag provided.
+ * Parses the output of `git log --name-status` in the {@link CommitLogFormat} format, line by line.
  *
- * @param cwd - the working directory to execute git commands in
- * @param tag - the tag to start from, or null to get all commits
- * @returns array of raw commit objects
+ * Commits are yielded as soon as they are complete, so that large histories
+ * are never buffered as a whole. Renamed files are listed with both their old
+ * and new path. The author and date follow the hash on the first line of a
+ * commit, separated by NUL characters.
+ *
+ * @param lines - the lines of the git log output
+ * @returns the commits with their changed files, in log order
  */
-const getCommitsSinceTag = (cwd: string, tag: string | null): RawCommit[] => {
-	const format = '%H%n%s%n%b%n==END==';
-	const range = tag ? `${tag}..HEAD` : '';
+const parseCommitLog = async function* (
+	lines: AsyncIterable<string>
+): AsyncGenerator<RawCommit> {
+	let commit: RawCommit | undefined;
+	let body: string[] = [];
+	let state: 'subject' | 'body' | 'files' = 'files';
 
-	try {
-		const output = execSync(`git log ${range} --pretty=format:"${format}"`, {
-			cwd,
-		}).toString();
+	for await (const line of lines) {
+		if (line.startsWith(CommitLogFormat.start)) {
+			if (commit) yield commit;
+			const [hash, name, email, date] = line
+				.slice(CommitLogFormat.start.length)
+				.split(CommitLogFormat.field);
+			commit = {
+				hash,
+				subject: undefined,
+				body: '',
+				files: [],
+				...(email !== undefined && {
+					author: { name: name ?? '', email },
+					date,
+				}),
+			};
+			body = [];
+			state = 'subject';
+			continue;
+		}
+		// Skip anything before the first commit
+		if (!commit) continue;
 
-		const commits = [];
-		const commitChunks = output.split('==END==\n');
+		if (state === 'subject') {
+			commit.subject = line;
+			state = 'body';
+		} else if (state === 'body') {
+			if (line === CommitLogFormat.end) {
+				commit.body = body.join('\n').trim();
+				state = 'files';
+			} else {
+				body.push(line);
+			}
+		} else if (line.trim() !== '') {
+			// Name status lines: <status>\t<path>, or <status>\t<old path>\t<new path>
+			const [status = '', ...paths] = line.split('\t');
+			commit.files?.push(...(status.startsWith('C') ? paths.slice(1) : paths));
+		}
+	}
 
-		for (const chunk of commitChunks) {
-			if (!chunk.trim()) continue;
+	if (commit) yield commit;
+};
 
-			const lines = chunk.split('\n');
-			const hash = lines[0];
-			const subject = lines[1];
-			const body = lines.slice(2).join('\n').trim();
+/**
+ * Gets all commits since a specific tag or from the beginning if no tag provided.
+ *
+ * Commits and their changed files are read with a single `git log` process
+ * whose output is parsed as a stream. The changed files are cached for
+ * {@link getChangedFiles | `getChangedFiles`}.
+ *
+ * @param cwd - the working directory to execute git commands in
+ * @param tag - the tag (or any other ref) to start from, or null to get all commits
+ * @param to - the ref to get the commits up to, the current HEAD by default
+ * @returns array of raw commit objects with their changed files
+ */
+const getCommitsSinceTag = async (
+	cwd: string,
+	tag: string | null,
+	to = 'HEAD'
+): Promise<RawCommit[]> => {
+	const { start, end } = CommitLogFormat;
+	const args = [
+		'-c',
+		'core.quotePath=false',
+		'log',
+		tag ? `${tag}..${to}` : to,
+		'--name-status',
+		`--pretty=format:${start}%H%x00%an%x00%ae%x00%aI%n%s%n%b%n${end}`,
+	];
+
+	try {
+		const child = spawn('git', args, { cwd });
+		const stderr: string[] = [];
+		child.stderr.on('data', (chunk) => stderr.push(String(chunk)));
+		const exit = new Promise<number | null | Error>((resolve) => {
+			child.once('error', resolve);
+			child.once('close', resolve);
+		});
 
-			commits.push({ hash, subject, body });
+		const commits: RawCommit[] = [];
+		const lines = createInterface({ input: child.stdout, crlfDelay: Infinity });
+		for await (const commit of parseCommitLog(lines)) {
+			commits.push(commit);
+			if (commit.hash && commit.files) {
+				changedFilesCache.set(commit.hash, commit.files);
+			}
 		}
 
+		const result = await exit;
+		if (result instanceof Error) throw result;
+		if (result !== 0) {
+			throw new Error(
+				stderr.join('').trim() || `git exited with code ${result}`
+			);
+		}
 		return commits;
 	} catch (error) {
 		const rangeDesc = tag ? `since tag ${tag}` : 'from beginning';
@@ -133,10 +308,196 @@ const getCommitsSinceTag = (cwd: string, tag: string | null): RawCommit[] => {
 	}
 };
 
+/**
+ * Gets the email addresses of the authors and co-authors of the commits reachable from a ref.
+ *
+ * Co-authors are read from the `Co-authored-by` trailers. Addresses are
+ * lowercased, so that they can be compared regardless of case.
+ *
+ * @param cwd - the working directory to execute git commands in
+ * @param ref - the ref whose history is searched, or null for an empty history
+ * @returns the email addresses, empty if unable to retrieve
+ */
+const getAuthorEmails = (cwd: string, ref: string | null): Set<string> => {
+	if (!ref) return new Set();
+	try {
+		const output = execFileSync(
+			'git',
+			['log', ref, '--format=%ae%n%(trailers:key=Co-authored-by,valueonly)'],
+			{ cwd, maxBuffer: 256 * 1024 * 1024 }
+		).toString();
+		return new Set(
+			output
+				.split('\n')
+				.map((line) => (line.match(/<([^>]+)>/)?.[1] ?? line).trim())
+				.filter(Boolean)
+				.map((email) => email.toLowerCase())
+		);
+	} catch (error) {
+		logger.error(
+			`Failed to get authors of ${ref} in ${cwd}: ${error instanceof Error ? error.message : String(error)}`
+		);
+		return new Set();
+	}
+};
+
+/**
+ * Checks whether a ref (tag, branch or commit hash) resolves to a commit.
+ *
+ * @param cwd - the working directory to execute git commands in
+ * @param ref - the ref to check
+ * @returns true if the ref exists and points to a commit
+ */
+const isValidRef = (cwd: string, ref: string): boolean => {
+	try {
+		execFileSync(
+			'git',
+			['rev-parse', '--verify', '--quiet', `${ref}^{commit}`],
+			{
+				cwd,
+				stdio: 'ignore',
+			}
+		);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Checks whether the working tree has no uncommitted or untracked changes.
+ *
+ * @param cwd - the working directory to execute git commands in
+ * @returns true if the working tree is clean
+ */
+const isWorkingTreeClean = (cwd: string): boolean =>
+	execFileSync('git', ['status', '--porcelain'], { cwd }).toString().trim() ===
+	'';
+
+/**
+ * Gets the files with uncommitted changes, staged or not, including untracked files.
+ *
+ * @param cwd - the working directory to execute git commands in
+ * @returns the absolute paths of the changed files, the new path of renamed files
+ */
+const getUncommittedFiles = (cwd: string): string[] => {
+	const topLevel = execFileSync('git', ['rev-parse', '--show-toplevel'], {
+		cwd,
+	})
+		.toString()
+		.trim();
+	const entries = execFileSync(
+		'git',
+		['status', '--porcelain', '-z', '--untracked-files=all'],
+		{ cwd }
+	)
+		.toString()
+		.split('\0');
+	const files: string[] = [];
+	for (let index = 0; index < entries.length; index++) {
+		const entry = entries[index] ?? '';
+		if (entry === '') continue;
+		// Entries are `XY <path>`, renames and copies are followed by their original path
+		files.push(join(topLevel, entry.slice(3)));
+		if (/^[RC]/.test(entry)) index++;
+	}
+	return files;
+};
+
+/**
+ * Stages the given files and creates a commit with them.
+ *
+ * Only the provided files are staged, so unrelated changes are never included
+ * in the commit. The message is passed through stdin to preserve it verbatim.
+ *
+ * @param cwd - the working directory to execute git commands in
+ * @param files - the paths of the files to stage
+ * @param message - the commit message
+ * @throws Error when staging or committing fails
+ */
+const createCommit = (cwd: string, files: string[], message: string): void => {
+	try {
+		execFileSync('git', ['add', '--', ...files], { cwd });
+		execFileSync('git', ['commit', '--file=-'], { cwd, input: message });
+	} catch (error) {
+		throw new Error(
+			`Failed to create commit in ${cwd}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+};
+
+/**
+ * Creates an annotated tag on the current HEAD.
+ *
+ * The message is kept verbatim so that Markdown headings (lines starting
+ * with `#`) in release notes are not stripped as comments.
+ *
+ * @param cwd - the working directory to execute git commands in
+ * @param tag - the name of the tag
+ * @param message - the tag annotation message
+ * @throws Error when the tag cannot be created (e.g. it already exists)
+ */
+const createAnnotatedTag = (
+	cwd: string,
+	tag: string,
+	message: string
+): void => {
+	try {
+		execFileSync(
+			'git',
+			['tag', '--annotate', tag, '--cleanup=verbatim', '--file=-'],
+			{ cwd, input: message }
+		);
+	} catch (error) {
+		throw new Error(
+			`Failed to create tag ${tag} in ${cwd}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+};
+
+/**
+ * Pushes the current branch and the given tags to the `origin` remote.
+ *
+ * The push is atomic, so the branch and tags are either all updated or none
+ * of them is.
+ *
+ * @param cwd - the working directory to execute git commands in
+ * @param tags - the names of the tags to push
+ * @throws Error when the push is rejected or the remote is unreachable
+ */
+const pushRelease = (cwd: string, tags: string[]): void => {
+	try {
+		execFileSync(
+			'git',
+			[
+				'push',
+				'--atomic',
+				'origin',
+				'HEAD',
+				...tags.map((tag) => `refs/tags/${tag}`),
+			],
+			{ cwd }
+		);
+	} catch (error) {
+		throw new Error(
+			`Failed to push release in ${cwd}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+};
+
 export {
-	getLastTag,
+	isValidRef,
+	isWorkingTreeClean,
+	getUncommittedFiles,
+	createCommit,
+	createAnnotatedTag,
+	pushRelease,
+	getTags,
 	getFirstCommit,
+	getAuthorEmails,
 	getChangedFiles,
 	getFileDiff,
 	getCommitsSinceTag,
+	parseCommitLog,
+	clearGitCache,
 };
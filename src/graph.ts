@@ -0,0 +1,164 @@
+import { DefaultConfig } from './constants.js';
+import type {
+	Config,
+	DependencyGraph,
+	ParsedCommit,
+	Workspace,
+} from './types.js';
+
+/**
+ * Builds the dependency graph between the workspaces of a repository.
+ *
+ * Edges are derived from the dependencies of each workspace that refer to
+ * another workspace of the repository, in the same dependency fields whose
+ * ranges are updated when bumping versions. Workspaces are then sorted
+ * topologically so that every workspace comes after all of the workspaces
+ * it depends on.
+ *
+ * @param workspaces - record of all workspaces keyed by short name
+ * @param dependencyTypes - the dependency fields linking workspaces (e.g. `peerDependencies`)
+ * @returns the dependency graph with its topological order
+ * @throws Error when workspaces depend on each other in a cycle
+ *
+ * @example
+ * ```typescript
+ * const graph = buildDependencyGraph(readWorkspaces('/path/to/repo'));
+ * graph.order; // ['core', 'utils', 'cli']
+ * graph.dependents.get('core'); // ['utils']
+ * ```
+ */
+const buildDependencyGraph = (
+	workspaces: Record<string, Workspace>,
+	dependencyTypes: string[] = DefaultConfig.dependencyTypes
+): DependencyGraph => {
+	const shortNamesByName = new Map(
+		Object.values(workspaces).map((workspace) => [
+			workspace.name,
+			workspace.shortName,
+		])
+	);
+
+	const dependencies = new Map<string, string[]>();
+	const dependents = new Map<string, string[]>();
+	for (const workspace of Object.values(workspaces)) {
+		dependents.set(
+			workspace.shortName,
+			dependents.get(workspace.shortName) ?? []
+		);
+		const workspaceDependencies: string[] = [];
+		const dependencyNames = new Set(
+			dependencyTypes.flatMap(
+				(dependencyType) => workspace.dependenciesByType[dependencyType] ?? []
+			)
+		);
+		for (const dependencyName of dependencyNames) {
+			const dependency = shortNamesByName.get(dependencyName);
+			if (!dependency || dependency === workspace.shortName) continue;
+			workspaceDependencies.push(dependency);
+			dependents.set(dependency, [
+				...(dependents.get(dependency) ?? []),
+				workspace.shortName,
+			]);
+		}
+		dependencies.set(workspace.shortName, workspaceDependencies);
+	}
+
+	// Depth-first topological sort, tracking the current path to report cycles
+	const order: string[] = [];
+	const visited = new Set<string>();
+	const path: string[] = [];
+	const visit = (shortName: string): void => {
+		if (visited.has(shortName)) return;
+		const cycleStart = path.indexOf(shortName);
+		if (cycleStart !== -1) {
+			const cycle = [...path.slice(cycleStart), shortName].map(
+				(name) => workspaces[name]?.name ?? name
+			);
+			throw new Error(
+				`Circular dependency detected between workspaces: ${cycle.join(' -> ')}`
+			);
+		}
+		path.push(shortName);
+		for (const dependency of dependencies.get(shortName) ?? []) {
+			visit(dependency);
+		}
+		path.pop();
+		visited.add(shortName);
+		order.push(shortName);
+	};
+	for (const shortName of dependencies.keys()) {
+		visit(shortName);
+	}
+
+	return { dependencies, dependents, order };
+};
+
+/**
+ * Finds the workspaces affected by changes to the workspaces they depend on.
+ *
+ * Changes propagate transitively: a workspace depending on a workspace that
+ * is affected by a dependency change is affected as well.
+ *
+ * @param workspaces - record of all workspaces with their change flags
+ * @param graph - the dependency graph of the workspaces
+ * @returns short names of the changed dependencies keyed by affected workspace, in topological order
+ */
+const getPropagatedChanges = (
+	workspaces: Record<string, Workspace>,
+	graph: DependencyGraph
+): Map<string, string[]> => {
+	const propagated = new Map<string, string[]>();
+	const changed = new Set(
+		Object.values(workspaces)
+			.filter((workspace) => workspace.changed)
+			.map((workspace) => workspace.shortName)
+	);
+
+	for (const shortName of graph.order) {
+		const changedDependencies = (
+			graph.dependencies.get(shortName) ?? []
+		).filter((dependency) => changed.has(dependency));
+		if (changedDependencies.length === 0) continue;
+		propagated.set(shortName, changedDependencies);
+		changed.add(shortName);
+	}
+
+	return propagated;
+};
+
+/**
+ * Records dependency updates on a workspace as synthetic changelog entries.
+ *
+ * Marks the workspace as changed and adds one "updated dependency" entry per
+ * updated dependency, bumping the workspace by the configured propagation
+ * level. Does nothing when propagation is disabled.
+ *
+ * @param workspace - the workspace depending on the updated workspaces
+ * @param updates - the package names and new versions of the updated dependencies
+ * @param config - the resolved configuration with the propagation bump level
+ */
+const addDependencyUpdates = (
+	workspace: Workspace,
+	updates: { name: string; version: string }[],
+	config: Config
+): void => {
+	const bump = config.dependencyPropagationBump;
+	if (bump === 'none' || updates.length === 0) {
+		return;
+	}
+
+	workspace.changed = true;
+	for (const { name, version } of updates) {
+		const commit: ParsedCommit = {
+			subject: `updated dependency ${name} to ${version}`,
+			type: 'chore',
+			scope: 'deps',
+			breaking: false,
+			notes: [],
+			bump,
+		};
+		workspace.commits.push(commit);
+	}
+};
+
+export { buildDependencyGraph, getPropagatedChanges, addDependencyUpdates };
@@ -1,13 +1,66 @@
-import { appendFileSync, readFileSync } from 'node:fs';
-import { join } from 'node:path';
-import { inc, parse, type SemVer } from 'semver';
-import { determineVersionBumpType } from './bump.js';
-import { updateChangelogs } from './changelog.js';
-import { parseCommits } from './commits.js';
+import { randomUUID } from 'node:crypto';
+import { appendFileSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { parse, type SemVer } from 'semver';
+import {
+	determineVersionBumpType,
+	getNextVersion,
+	maxBumpType,
+} from './bump.js';
+import {
+	generateReleaseNotes,
+	generateVersionHeader,
+	getVersionNotes,
+	updateChangelogs,
+	updateChangelogsIndependently,
+} from './changelog.js';
+import {
+	applyChangeSet,
+	endChangeSet,
+	formatChangeSet,
+	startChangeSet,
+} from './changes.js';
+import { markNewContributors, parseCommits } from './commits.js';
+import { loadConfig } from './config.js';
 import { TypeHierarchy } from './constants.js';
-import { getCommitsSinceTag, getFirstCommit, getLastTag } from './git.js';
+import { getForgeClientOptions, publishRelease } from './forge.js';
+import {
+	createAnnotatedTag,
+	createCommit,
+	getAuthorEmails,
+	getCommitsSinceTag,
+	getFirstCommit,
+	getTags,
+	getUncommittedFiles,
+	isValidRef,
+	isWorkingTreeClean,
+	pushRelease,
+} from './git.js';
+import {
+	addDependencyUpdates,
+	buildDependencyGraph,
+	getPropagatedChanges,
+} from './graph.js';
+import { getRepositoryLinks, normalizeRepositoryUrl } from './links.js';
+import { lintCommits } from './lint.js';
+import { LockfileUpdaters } from './lockfile.js';
 import { configureLogger, logger } from './logger.js';
-import type { BumpType } from './types.js';
+import { publishPackages } from './publish.js';
+import { findLastTag, formatTag, parseTag } from './tags.js';
+import type {
+	BumpType,
+	Config,
+	DependencyGraph,
+	FileChange,
+	ForgeClientOptions,
+	ForgeRelease,
+	ReleasePlan,
+	ReleasePlanCommit,
+	ReleaseStep,
+	RepositoryLinks,
+	Workspace,
+	WorkspaceRelease,
+} from './types.js';
 import { bumpVersions } from './version.js';
 import { readWorkspaces } from './workspace.js';
 
@@ -20,6 +73,640 @@ process.removeAllListeners('warning').on('warning', (err) => {
 });
 /* c8 ignore stop */
 
+/**
+ * Derives the base repository URL used for changelog links from the root package.json.
+ *
+ * The `repository` field can be an object with a `url` or a string, and is
+ * normalised with {@link normalizeRepositoryUrl}.
+ *
+ * @param root - the root directory of the repository
+ * @returns the web URL of the repository, empty when unknown
+ */
+const getBaseUrl = (root: string): string => {
+	const rootPkgPath = join(root, 'package.json');
+	const rootPkg = JSON.parse(readFileSync(rootPkgPath, 'utf-8'));
+	const repository = rootPkg.repository;
+	const repoUrl =
+		typeof repository === 'string' ? repository : repository?.url || '';
+	return normalizeRepositoryUrl(repoUrl);
+};
+
+/**
+ * Finds the last release tag and the tag the release starts from.
+ *
+ * Graduating a prerelease releases every change since the last regular
+ * release, so the release then starts from the last tag without prerelease.
+ *
+ * @param tags - the tags reachable from HEAD
+ * @param format - the tag format of releases
+ * @param graduate - whether the release promotes prereleases to regular releases
+ * @param name - the package name, for per-package tags
+ * @returns the last release tag with its version, and the tag the release starts from
+ */
+const getReleaseBase = (
+	tags: string[],
+	format: string,
+	graduate: boolean,
+	name?: string
+): {
+	lastTag: string | null;
+	lastTagVersion: SemVer | null;
+	baseTag: string | null;
+} => {
+	const lastTag = findLastTag(tags, format, { name });
+	const lastTagVersion = lastTag ? parseTag(lastTag, format, name) : null;
+	let baseTag = lastTag;
+	if (graduate && lastTagVersion?.prerelease.length) {
+		baseTag = findLastTag(tags, format, { name, stable: true });
+		logger.info(
+			`Graduating ${lastTag} with all changes since ${baseTag ?? 'the first commit'}`
+		);
+	}
+	return { lastTag, lastTagVersion, baseTag };
+};
+
+/**
+ * Builds the link comparing a new release with the tag it starts from.
+ *
+ * Without a previous tag the release is compared with the first commit, or
+ * links to the release itself when the first commit is unknown. When the
+ * release is analysed up to another ref than HEAD, the comparison ends at
+ * that ref since the new tag will not point to it.
+ *
+ * @param root - the root directory of the repository
+ * @param links - the link builders of the repository
+ * @param baseTag - the tag (or ref) the release starts from, or null for the first release
+ * @param newTag - the tag of the new release
+ * @param to - the ref the release is analysed up to, when not HEAD
+ * @returns the URL linking to the version comparison or release
+ */
+const getVersionLink = (
+	root: string,
+	links: RepositoryLinks,
+	baseTag: string | null,
+	newTag: string,
+	to?: string
+): string => {
+	const end = to ?? newTag;
+	if (baseTag) {
+		return links.compare(baseTag, end);
+	}
+	const firstCommit = getFirstCommit(root, to);
+	return firstCommit ? links.compare(firstCommit, end) : links.release(newTag);
+};
+
+/**
+ * Attributes the commits of each workspace since its own last release tag.
+ *
+ * Workspaces released from the same tag share a single pass over the history.
+ * When `newContributors` is enabled, the contributors of each group are new
+ * relative to the history of its own tag.
+ *
+ * @param root - the root directory of the repository
+ * @param workspaces - record of all workspaces
+ * @param baseTags - the tag each workspace is released from keyed by short name, null for the first release
+ * @param config - the resolved configuration
+ * @param to - the ref to attribute the commits up to, the current HEAD by default
+ * @returns the workspaces with their commits, and whether any workspace changed
+ */
+const parseWorkspaceCommits = async (
+	root: string,
+	workspaces: Record<string, Workspace>,
+	baseTags: Record<string, string | null>,
+	config: Config,
+	to?: string
+): Promise<{
+	workspaces: Record<string, Workspace>;
+	workspaceChanged: boolean;
+}> => {
+	const groups = new Map<string | null, Record<string, Workspace>>();
+	for (const [shortName, workspace] of Object.entries(workspaces)) {
+		const baseTag = baseTags[shortName] ?? null;
+		groups.set(baseTag, { ...groups.get(baseTag), [shortName]: workspace });
+	}
+
+	const result: Record<string, Workspace> = {};
+	let workspaceChanged = false;
+	for (const [baseTag, group] of groups) {
+		const commits = await getCommitsSinceTag(root, baseTag, to);
+		logger.debug(
+			`Found ${commits.length} commits since ${baseTag ?? 'the first commit'} for ${Object.keys(group).join(', ')}`
+		);
+		const parsed = parseCommits(commits, group, root, config);
+		if (config.newContributors) {
+			markNewContributors(parsed.workspaces, getAuthorEmails(root, baseTag));
+		}
+		Object.assign(result, parsed.workspaces);
+		workspaceChanged ||= parsed.workspaceChanged;
+	}
+	return { workspaces: result, workspaceChanged };
+};
+
+/**
+ * Options controlling how a release is applied.
+ */
+type ReleaseOptions = {
+	/** When true, shows what would be done without making changes */
+	dryRun: boolean;
+	/** Whether to create the release commit */
+	commit: boolean;
+	/** Whether to create annotated tags for the release */
+	tag: boolean;
+	/** Whether to print the release plan as JSON */
+	json: boolean;
+	/** The prerelease identifier to release with */
+	prerelease?: string;
+	/** Whether to promote prereleases to regular releases */
+	graduate: boolean;
+	/** Optional override for the version bump type */
+	type?: BumpType;
+	/** The file to write the release notes to */
+	releaseNotes?: string;
+	/** The forge API client settings, set when releases are created on the forge */
+	forge?: ForgeClientOptions;
+	/** The only step of the release to run, both the changelog and version steps run when unset */
+	only?: ReleaseStep;
+	/** The ref the release is analysed up to, when not HEAD */
+	to?: string;
+};
+
+/**
+ * Checks that the release options are valid and can be combined.
+ *
+ * The checks do not depend on the repository, so that the CLI can tell
+ * invalid flags from failed releases before running anything.
+ *
+ * @param options - the release options to check
+ * @param options.type - the version bump type override
+ * @param options.prerelease - the prerelease identifier
+ * @param options.graduate - whether prereleases are promoted to regular releases
+ * @param options.to - the ref the release is analysed up to
+ * @param options.commit - whether the release is committed, tagged or released
+ * @throws Error when the version bump type or the prerelease identifier is invalid
+ * @throws Error when a prerelease identifier is combined with graduating, or `to` with committing
+ */
+const validateReleaseOptions = (options: {
+	type?: string;
+	prerelease?: string;
+	graduate?: boolean;
+	to?: string;
+	commit?: boolean;
+}): void => {
+	const { type, prerelease, graduate, to, commit } = options;
+	if (type && !Object.keys(TypeHierarchy).includes(type)) {
+		throw new Error(
+			`Invalid type provided: ${type}. Valid types are: ${Object.keys(
+				TypeHierarchy
+			).join(', ')}`
+		);
+	}
+
+	if (prerelease !== undefined && !/^[0-9A-Za-z-]+$/.test(prerelease)) {
+		throw new Error(
+			`Invalid prerelease identifier provided: ${prerelease}. Identifiers may only contain alphanumerics and hyphens`
+		);
+	}
+
+	if (prerelease && graduate) {
+		throw new Error(
+			'A prerelease identifier cannot be provided when graduating a prerelease'
+		);
+	}
+
+	// The release commit and tags are created on HEAD, which is not what was analysed
+	if (to && commit) {
+		throw new Error(
+			'--to cannot be combined with --commit, --tag or --release, which apply to HEAD'
+		);
+	}
+};
+
+/**
+ * Lists the commits of the release, including synthetic dependency updates.
+ *
+ * Commits affecting several workspaces are listed once with all of them.
+ *
+ * @param workspaces - record of all workspaces with their commits
+ * @returns the commits in the order they were found
+ */
+const getPlanCommits = (
+	workspaces: Record<string, Workspace>
+): ReleasePlanCommit[] => {
+	const commits = new Map<string, ReleasePlanCommit>();
+	for (const workspace of Object.values(workspaces)) {
+		for (const commit of workspace.commits) {
+			const key = commit.hash ?? `${workspace.shortName}:${commit.subject}`;
+			const planCommit = commits.get(key) ?? {
+				hash: commit.hash,
+				subject: commit.subject,
+				type: commit.type,
+				scope: commit.scope,
+				breaking: commit.breaking,
+				workspaces: [],
+				pr: commit.pr,
+				closes: commit.closes,
+				issueKeys: commit.issueKeys,
+			};
+			planCommit.workspaces.push(workspace.name);
+			commits.set(key, planCommit);
+		}
+	}
+	return [...commits.values()];
+};
+
+/**
+ * Lists the issue tracker keys referenced by the commits of the release.
+ *
+ * @param workspaces - record of all workspaces with their commits
+ * @returns the issue keys, each listed once
+ */
+const getReleaseIssueKeys = (
+	workspaces: Record<string, Workspace>
+): string[] => [
+	...new Set(
+		Object.values(workspaces).flatMap((workspace) =>
+			workspace.commits.flatMap((commit) => commit.issueKeys ?? [])
+		)
+	),
+];
+
+/**
+ * Writes the issue tracker keys of the release to the `issue_keys` output of
+ * GitHub Actions as a JSON array, when issue trackers are configured and
+ * `GITHUB_OUTPUT` is set.
+ *
+ * @param workspaces - record of all workspaces with their commits
+ * @param config - the resolved configuration with the issue trackers
+ */
+const writeIssueKeysOutput = (
+	workspaces: Record<string, Workspace>,
+	config: Config
+): void => {
+	if (process.env.GITHUB_OUTPUT && config.issueTrackers.length > 0) {
+		appendFileSync(
+			process.env.GITHUB_OUTPUT,
+			`issue_keys=${JSON.stringify(getReleaseIssueKeys(workspaces))}\n`
+		);
+	}
+};
+
+/**
+ * Completes the release plan with the commits and workspaces and prints it to stdout as JSON.
+ *
+ * @param plan - the release plan to print
+ * @param workspaces - record of all workspaces with their commits
+ * @param bumps - the version bump of each changed workspace keyed by short name
+ * @param newVersions - the new version of each released workspace keyed by short name
+ */
+const printReleasePlan = (
+	plan: ReleasePlan,
+	workspaces: Record<string, Workspace>,
+	bumps: Record<string, BumpType>,
+	newVersions: Record<string, string>
+): void => {
+	plan.commits = getPlanCommits(workspaces);
+	plan.issueKeys = getReleaseIssueKeys(workspaces);
+	plan.workspaces = Object.values(workspaces).map((workspace) => ({
+		name: workspace.name,
+		path: workspace.path,
+		private: workspace.isPrivate,
+		changed: workspace.changed,
+		bump: bumps[workspace.shortName] ?? null,
+		currentVersion: workspace.version,
+		newVersion: newVersions[workspace.shortName] ?? null,
+	}));
+	plan.newVersions = Object.fromEntries(
+		Object.entries(newVersions).map(([shortName, version]) => [
+			workspaces[shortName]?.name,
+			version,
+		])
+	);
+	console.log(JSON.stringify(plan, null, 2));
+};
+
+/**
+ * Writes the file changes of the release, or prints them as a diff in dry run mode.
+ *
+ * The diff is coloured when stdout is a terminal and `NO_COLOR` is not set.
+ * Nothing is printed when the release plan is printed as JSON instead.
+ *
+ * @param root - the root directory of the repository
+ * @param changes - the file changes computed for the release
+ * @param options - the release options
+ */
+const writeReleaseChanges = (
+	root: string,
+	changes: FileChange[],
+	options: Pick<ReleaseOptions, 'dryRun' | 'json'>
+): void => {
+	if (!options.dryRun) {
+		applyChangeSet(changes);
+		return;
+	}
+	if (options.json) return;
+
+	const diff = formatChangeSet(
+		root,
+		changes,
+		Boolean(process.stdout.isTTY) && !process.env.NO_COLOR
+	);
+	if (diff) {
+		console.log(diff.trimEnd());
+	} else {
+		logger.info('No files would change');
+	}
+};
+
+/**
+ * Outputs the release notes, the body of the GitHub or GitLab release.
+ *
+ * The notes are written to the release notes file when one is provided, and
+ * to the `release_notes` output of GitHub Actions when `GITHUB_OUTPUT` is set.
+ * The multi-line output uses a random heredoc delimiter, so that the notes
+ * cannot end the value early. The file is not written in dry run mode.
+ *
+ * @param notes - the release notes as Markdown
+ * @param options - the release options
+ */
+const writeReleaseNotes = (
+	notes: string,
+	options: Pick<ReleaseOptions, 'dryRun' | 'releaseNotes'>
+): void => {
+	if (options.releaseNotes) {
+		if (options.dryRun) {
+			logger.info(`Release notes would be written to ${options.releaseNotes}`);
+		} else {
+			writeFileSync(options.releaseNotes, notes);
+			logger.info(`Wrote release notes to ${options.releaseNotes}`);
+		}
+	}
+	if (process.env.GITHUB_OUTPUT) {
+		const delimiter = `ghadelimiter_${randomUUID()}`;
+		appendFileSync(
+			process.env.GITHUB_OUTPUT,
+			`release_notes<<${delimiter}\n${notes.trimEnd()}\n${delimiter}\n`
+		);
+	}
+};
+
+/**
+ * Creates the release commit followed by the annotated release tags.
+ *
+ * Only the files written by the release are staged, and the commit is
+ * skipped when there are none, e.g. when tagging versions committed
+ * earlier. Each tag is annotated with its name followed by the release notes.
+ *
+ * @param root - the root directory of the repository
+ * @param files - the paths of the files written by the release
+ * @param version - the version used in the release commit message
+ * @param tags - the names and release notes of the tags to create, empty to skip tagging
+ * @param config - the resolved configuration with the commit message template
+ */
+const commitRelease = (
+	root: string,
+	files: string[],
+	version: string,
+	tags: { name: string; notes: string }[],
+	config: Config
+): void => {
+	if (files.length > 0) {
+		const message = config.releaseCommitMessage.replaceAll(
+			'{version}',
+			version
+		);
+		createCommit(root, files, message);
+		logger.info(`Created release commit: ${message}`);
+	}
+
+	for (const { name, notes } of tags) {
+		createAnnotatedTag(root, name, `${name}\n\n${notes}`);
+		logger.info(`Created tag ${name}`);
+	}
+};
+
+/**
+ * Pushes the release and creates a release on the forge for each release tag.
+ *
+ * The forge needs the tags to create releases from them, so the current
+ * branch and the tags are pushed first. Existing releases are updated.
+ *
+ * @param root - the root directory of the repository
+ * @param releases - the tags, versions and release notes of the releases
+ * @param forge - the forge API client settings
+ */
+const createForgeReleases = async (
+	root: string,
+	releases: ForgeRelease[],
+	forge: ForgeClientOptions
+): Promise<void> => {
+	const tags = releases.map(({ tag }) => tag);
+	pushRelease(root, tags);
+	logger.info(`Pushed ${tags.join(', ')}`);
+
+	for (const release of releases) {
+		const { action, url } = await publishRelease(release, forge);
+		const outcome = {
+			created: 'Created',
+			updated: 'Updated',
+			unchanged: 'Kept up-to-date',
+		}[action];
+		logger.info(`${outcome} ${forge.forge} release ${release.tag}: ${url}`);
+	}
+};
+
+/**
+ * Releases each changed workspace with its own version.
+ *
+ * Every changed workspace is bumped from its own package.json version based
+ * on its own commits (or the provided bump type). Unchanged workspaces are
+ * neither bumped nor written, and changelog headers and comparison links
+ * follow the per-package versions using the `packageTagFormat` tags.
+ *
+ * Workspaces are released in dependency order: a workspace depending on a
+ * released workspace gets an "updated dependency" entry and is bumped by at
+ * least the configured propagation level, which in turn releases its own
+ * dependents.
+ *
+ * When committing, the release commit message lists the tag of every
+ * released package and one tag is created per released workspace, as well as
+ * one forge release when releases are created.
+ *
+ * @param root - the root directory of the repository
+ * @param workspaces - record of all workspaces with their commits
+ * @param graph - the dependency graph of the workspaces
+ * @param baseTags - the tag each workspace is released from keyed by short name, null for its first release
+ * @param config - the resolved configuration
+ * @param options - the release options, the bump type applies to every changed workspace
+ * @param plan - the release plan, completed and printed when `options.json` is set
+ * @returns whether any workspace was released
+ */
+const releaseWorkspacesIndependently = async (
+	root: string,
+	workspaces: Record<string, Workspace>,
+	graph: DependencyGraph,
+	baseTags: Record<string, string | null>,
+	config: Config,
+	options: ReleaseOptions,
+	plan: ReleasePlan
+): Promise<boolean> => {
+	const { dryRun, type, json, prerelease, graduate, only } = options;
+	const bumps: Record<string, BumpType> = {};
+	const newVersions: Record<string, string> = {};
+	for (const shortName of graph.order) {
+		const workspace = workspaces[shortName] as Workspace;
+		// Dependencies come first in the graph order, so their new versions are known
+		addDependencyUpdates(
+			workspace,
+			(graph.dependencies.get(shortName) ?? [])
+				.filter((dependency) => newVersions[dependency])
+				.map((dependency) => ({
+					name: workspaces[dependency]?.name as string,
+					version: newVersions[dependency] as string,
+				})),
+			config
+		);
+		if (!workspace.changed) {
+			continue;
+		}
+		const bumpType =
+			type ?? determineVersionBumpType(workspace.commits, config.changeTypes);
+		const currentVersion =
+			parse(workspace.version) || (parse('0.0.0') as SemVer);
+		const newVersion = getNextVersion(currentVersion, bumpType, {
+			prerelease,
+			graduate,
+		});
+		/* c8 ignore start */
+		if (!newVersion) {
+			logger.error(`Failed to generate new version for ${workspace.name}`);
+			return false;
+		}
+		/* c8 ignore stop */
+		logger.info(
+			`New version for ${workspace.name}: ${newVersion} (${bumpType})`
+		);
+		bumps[workspace.shortName] = bumpType;
+		newVersions[workspace.shortName] = newVersion;
+	}
+
+	if (Object.keys(newVersions).length === 0) {
+		logger.info('No changed workspaces to release; skipping version bump');
+		if (json) printReleasePlan(plan, workspaces, bumps, newVersions);
+		return false;
+	}
+
+	if (process.env.GITHUB_OUTPUT) {
+		const packageVersions = Object.fromEntries(
+			Object.entries(newVersions).map(([shortName, version]) => [
+				workspaces[shortName]?.name,
+				version,
+			])
+		);
+		appendFileSync(
+			process.env.GITHUB_OUTPUT,
+			`new_versions=${JSON.stringify(packageVersions)}\n`
+		);
+	}
+	writeIssueKeysOutput(workspaces, config);
+
+	if (dryRun) {
+		logger.info('Dry run enabled, no changes will be made');
+	}
+
+	// Generate version comparison links between per-package tags
+	const baseUrl = getBaseUrl(root);
+	const links = getRepositoryLinks(baseUrl, config);
+	const newTags: Record<string, string> = {};
+	const releases: Record<string, WorkspaceRelease> = {};
+	for (const [shortName, version] of Object.entries(newVersions)) {
+		const workspace = workspaces[shortName] as Workspace;
+		newTags[shortName] = formatTag(
+			config.packageTagFormat,
+			version,
+			workspace.name
+		);
+		releases[shortName] = {
+			version,
+			versionLink: getVersionLink(
+				root,
+				links,
+				baseTags[shortName] ?? null,
+				newTags[shortName],
+				options.to
+			),
+		};
+	}
+
+	// Compute every file change in memory first, so nothing is written if a step fails
+	let changelogFiles: string[] = [];
+	let versionFiles: string[] = [];
+	let changes: FileChange[];
+	startChangeSet();
+	try {
+		if (only !== 'version') {
+			changelogFiles = updateChangelogsIndependently(
+				root,
+				workspaces,
+				releases,
+				baseUrl,
+				config
+			);
+			logger.info(dryRun ? 'Would update changelogs' : 'Updated changelogs');
+		}
+
+		if (only !== 'changelog') {
+			versionFiles = bumpVersions(root, workspaces, newVersions, config);
+			const count = Object.keys(newVersions).length;
+			logger.info(
+				dryRun
+					? `Would bump versions of ${count} changed workspaces`
+					: `Bumped versions of ${count} changed workspaces`
+			);
+		}
+	} finally {
+		changes = endChangeSet();
+	}
+	writeReleaseChanges(root, changes, options);
+
+	// The notes of each package are headed by its name and version
+	const notes = Object.entries(releases)
+		.map(
+			([shortName, { version, versionLink }]) =>
+				`${generateVersionHeader(`${workspaces[shortName]?.name}@${version}`, versionLink, config)}${generateReleaseNotes(workspaces, baseUrl, config, shortName)}`
+		)
+		.join('\n');
+	writeReleaseNotes(notes, options);
+
+	if (json) {
+		plan.files = [...changelogFiles, ...versionFiles];
+		plan.changelog = notes;
+		printReleasePlan(plan, workspaces, bumps, newVersions);
+	}
+
+	if (options.commit && !dryRun) {
+		const tags = Object.entries(newVersions).map(([shortName, version]) => ({
+			name: newTags[shortName] as string,
+			version,
+			notes: generateReleaseNotes(workspaces, baseUrl, config, shortName),
+		}));
+		commitRelease(
+			root,
+			[...changelogFiles, ...versionFiles],
+			tags.map(({ name }) => name).join(', '),
+			options.tag ? tags : [],
+			config
+		);
+		if (options.forge) {
+			await createForgeReleases(
+				root,
+				tags.map(({ name, version, notes }) => ({ tag: name, version, notes })),
+				options.forge
+			);
+		}
+	}
+	return true;
+};
+
 /**
  * Main function that processes a repository for changelog generation and version bumping.
  *
@@ -33,11 +720,35 @@ process.removeAllListeners('warning').on('warning', (err) => {
  * Supports both monorepos with multiple workspaces and single-package repositories.
  * For single-package repos, treats the root package as the sole workspace.
  *
+ * By default all packages share one version (fixed mode). In independent mode,
+ * each changed workspace gets its own version bump and only changed packages
+ * are written.
+ *
+ * Behaviour can be customised through a configuration file or the `bumpNGo`
+ * key of the root package.json, see {@link loadConfig | `loadConfig`}.
+ *
  * @param options - configuration options for the repository processing
  * @param options.root - the root directory of the repository
- * @param options.dryRun - when true, shows what would be done without making changes
+ * @param options.dryRun - when true, prints a unified diff of every file the release would change instead of writing it
  * @param options.type - optional override for version bump type (major, minor, patch)
  * @param options.verbose - enables detailed debug logging
+ * @param options.independent - version each changed workspace independently, overrides the `independent` configuration option
+ * @param options.commit - create the release commit with the files written by the release
+ * @param options.tag - create an annotated release tag, implies `commit`
+ * @param options.release - push the release and create a release on the forge for each release tag, implies `tag`
+ * @param options.json - print the release plan as JSON to stdout, logs are written to stderr; combined with `dryRun` the plan lists the files that would be written
+ * @param options.prerelease - release a prerelease with this identifier (e.g. `beta`), entering or switching the prerelease channel
+ * @param options.graduate - promote the current prerelease to a regular release; in fixed mode its changelog covers every change since the last regular release
+ * @param options.releaseNotes - write the release notes, the changelog sections of the release without file header, to this file
+ * @param options.only - run only the `changelog` step (update changelogs) or the `version` step (bump versions) of the release
+ * @param options.from - the ref to analyse commits from instead of the last release tag, e.g. to backfill a changelog
+ * @param options.to - the ref to analyse commits up to instead of HEAD, e.g. a hotfix branch; cannot be combined with `commit`, `tag` or `release`
+ * @returns whether a release was made, false when there are no changes to release
+ * @throws Error when the version bump type, the prerelease identifier or the prerelease options are invalid
+ * @throws Error when `from` or `to` is not a valid git ref, or `to` is combined with committing
+ * @throws Error when committing or tagging is requested on a dirty working tree
+ * @throws Error when creating forge releases without repository URL or token, or when the forge request fails
+ * @throws Error when switching to a prerelease channel that sorts before the current one
  *
  * @example
  * ```typescript
@@ -60,73 +771,216 @@ const processMonorepo = async (options: {
 	dryRun?: boolean;
 	type?: string;
 	verbose?: boolean;
-}): Promise<void> => {
-	const { root, dryRun = false, type, verbose = false } = options;
-	configureLogger(verbose);
+	independent?: boolean;
+	commit?: boolean;
+	tag?: boolean;
+	release?: boolean;
+	json?: boolean;
+	prerelease?: string;
+	graduate?: boolean;
+	releaseNotes?: string;
+	only?: ReleaseStep;
+	from?: string;
+	to?: string;
+}): Promise<boolean> => {
+	const {
+		root,
+		dryRun = false,
+		type,
+		verbose = false,
+		release = false,
+		json = false,
+		prerelease,
+		graduate = false,
+		releaseNotes,
+		only,
+		from,
+		to,
+	} = options;
+	const tag = options.tag || release;
+	const commit = options.commit || tag;
+	configureLogger(verbose, json);
 
-	if (type && !Object.keys(TypeHierarchy).includes(type)) {
-		logger.error(
-			`Invalid type provided: ${type}. Valid types are: ${Object.keys(
-				TypeHierarchy
-			).join(', ')}`
+	const config = await loadConfig(root);
+	const independent = options.independent ?? config.independent;
+
+	validateReleaseOptions({ type, prerelease, graduate, to, commit });
+
+	for (const ref of [from, to]) {
+		if (ref && !isValidRef(root, ref)) {
+			throw new Error(`Unknown git ref: ${ref}`);
+		}
+	}
+
+	// Refuse to commit on top of unrelated changes, checked before any file is written
+	if (commit && !dryRun && !isWorkingTreeClean(root)) {
+		throw new Error(
+			'Working tree has uncommitted changes; commit or stash them before using --commit or --tag'
 		);
-		return;
 	}
 
-	// Get the last tag
-	const lastTag = getLastTag(root);
-	logger.debug(`Last tag: ${lastTag}`);
+	// Resolve the forge token before any file is written
+	const forge =
+		release && !dryRun
+			? getForgeClientOptions(config, getBaseUrl(root))
+			: undefined;
 
-	// Get commits since the last tag or since the beginning
-	const commits = getCommitsSinceTag(root, lastTag);
-	logger.debug(`Found ${commits.length} commits`);
+	// Get the tags reachable from the end of the range, only those matching the tag format are releases
+	const tags = getTags(root, to);
 
 	// Get workspaces
 	const workspaces = readWorkspaces(root);
 	logger.debug(`Found ${Object.keys(workspaces).length} workspaces`);
 
-	// Parse commits and map to workspaces
-	const { workspaceChanged, workspaces: workspacesWithCommits } = parseCommits(
-		commits,
-		workspaces,
-		root
-	);
+	// Sort workspaces by their dependencies, failing early on circular dependencies
+	const graph = buildDependencyGraph(workspaces, config.dependencyTypes);
+	logger.debug(`Workspace release order: ${graph.order.join(', ')}`);
+
+	// Get the last release tag of the repository, each workspace has its own in independent mode
+	const releaseBase = independent
+		? { lastTag: null, lastTagVersion: null, baseTag: null }
+		: getReleaseBase(tags, config.tagFormat, graduate);
+	const { lastTag, lastTagVersion } = releaseBase;
+	logger.debug(`Last tag: ${lastTag}`);
+	// An explicit range start replaces the release base tags
+	const baseTag = from ?? releaseBase.baseTag;
+	// Workspaces without a package tag yet, e.g. after switching from fixed versioning, start from the last repository release
+	const repositoryBaseTag =
+		independent && !from
+			? getReleaseBase(tags, config.tagFormat, graduate).baseTag
+			: null;
+	const baseTags: Record<string, string | null> = independent
+		? Object.fromEntries(
+				Object.values(workspaces).map(({ shortName, name }) => [
+					shortName,
+					from ??
+						getReleaseBase(tags, config.packageTagFormat, graduate, name)
+							.baseTag ??
+						repositoryBaseTag,
+				])
+			)
+		: {};
+	if (from || to) {
+		logger.info(
+			`Analysing commits from ${from ?? 'the last release'} to ${to ?? 'HEAD'}`
+		);
+	}
+
+	const plan: ReleasePlan = {
+		dryRun,
+		independent,
+		lastTag,
+		bump: null,
+		newVersion: null,
+		newVersions: {},
+		commits: [],
+		workspaces: [],
+		files: [],
+		changelog: '',
+		issueKeys: [],
+	};
+
+	// Parse commits since the last tag (or since the beginning) and map them to workspaces
+	let workspaceChanged: boolean;
+	let workspacesWithCommits: Record<string, Workspace>;
+	if (independent) {
+		({ workspaceChanged, workspaces: workspacesWithCommits } =
+			await parseWorkspaceCommits(root, workspaces, baseTags, config, to));
+	} else {
+		const commits = await getCommitsSinceTag(root, baseTag, to);
+		logger.debug(`Found ${commits.length} commits`);
+		({ workspaceChanged, workspaces: workspacesWithCommits } = parseCommits(
+			commits,
+			workspaces,
+			root,
+			config
+		));
+		if (config.newContributors) {
+			markNewContributors(
+				workspacesWithCommits,
+				getAuthorEmails(root, baseTag)
+			);
+		}
+	}
 
 	if (!workspaceChanged && !type) {
 		logger.info(
 			'No changes detected in workspaces and no version bump type provided; skipping version bump'
 		);
-		return;
+		if (json) printReleasePlan(plan, workspacesWithCommits, {}, {});
+		return false;
+	}
+
+	if (independent) {
+		return releaseWorkspacesIndependently(
+			root,
+			workspacesWithCommits,
+			graph,
+			baseTags,
+			config,
+			{
+				dryRun,
+				commit,
+				tag,
+				json,
+				prerelease,
+				graduate,
+				type: type as BumpType | undefined,
+				releaseNotes,
+				forge,
+				only,
+				to,
+			},
+			plan
+		);
 	}
 
-	// TODO: release drafter output could be generated here
+	// Workspaces depending on changed workspaces are released with them
+	const propagatedChanges =
+		config.dependencyPropagationBump === 'none'
+			? new Map<string, string[]>()
+			: getPropagatedChanges(workspacesWithCommits, graph);
 
 	let bumpType: BumpType;
+	const bumps: Record<string, BumpType> = {};
 	// If a version bump type is provided, use it
 	if (type) {
 		bumpType = type as BumpType;
 		logger.info(`Version bump type provided: ${bumpType}`);
 	} else {
 		// Otherwise, determine the version bump type based on parsed commits
-		let maxBumpType = 'patch' as BumpType;
+		let highestBumpType = 'patch' as BumpType;
 		for (const workspace of Object.values(workspacesWithCommits)) {
 			if (!workspace.changed) {
 				continue;
 			}
-			const bumpType = determineVersionBumpType(workspace.commits);
-			if (TypeHierarchy[bumpType] > TypeHierarchy[maxBumpType]) {
-				maxBumpType = bumpType;
-			}
+			bumps[workspace.shortName] = determineVersionBumpType(
+				workspace.commits,
+				config.changeTypes
+			);
+			highestBumpType = maxBumpType(
+				highestBumpType,
+				bumps[workspace.shortName] as BumpType
+			);
+		}
+		if (
+			propagatedChanges.size > 0 &&
+			config.dependencyPropagationBump !== 'none'
+		) {
+			highestBumpType = maxBumpType(
+				highestBumpType,
+				config.dependencyPropagationBump
+			);
 		}
-		logger.info(`Determined version bump type: ${maxBumpType}`);
-		bumpType = maxBumpType;
+		logger.info(`Determined version bump type: ${highestBumpType}`);
+		bumpType = highestBumpType;
 	}
 
 	// Parse current version and check if it's a prerelease
 	let currentVersion: SemVer;
 	if (lastTag) {
-		// Use git tag version if available
-		currentVersion = parse(lastTag) as SemVer;
+		// Use git tag version if available, without the configured tag prefix
+		currentVersion = lastTagVersion as SemVer;
 	} else {
 		// Fall back to package.json version when no tags exist
 		const rootPkgPath = join(root, 'package.json');
@@ -136,30 +990,20 @@ const processMonorepo = async (options: {
 		logger.debug(`Using package.json version as baseline: ${pkgVersion}`);
 	}
 
-	const isPrerelease = currentVersion.prerelease.length > 0;
-
-	let newVersion: string | null;
-	if (isPrerelease) {
-		// Preserve prerelease identifier (e.g., "alpha", "beta")
-		const prereleaseId = currentVersion.prerelease[0] as string;
-		const prereleaseMap = {
-			major: 'premajor',
-			minor: 'preminor',
-			patch: 'prepatch',
-		} as const;
-		newVersion = inc(
-			currentVersion,
-			prereleaseMap[bumpType],
-			prereleaseId,
-			false
+	if (graduate && currentVersion.prerelease.length === 0) {
+		logger.warn(
+			`${currentVersion.version} is not a prerelease; releasing a regular version`
 		);
-	} else {
-		newVersion = inc(currentVersion, bumpType, false);
 	}
+
+	const newVersion = getNextVersion(currentVersion, bumpType, {
+		prerelease,
+		graduate,
+	});
 	/* c8 ignore start */
 	if (!newVersion) {
 		logger.error('Failed to generate new version');
-		return;
+		return false;
 	}
 	/* c8 ignore stop */
 	logger.info(`New version: ${newVersion}`);
@@ -167,42 +1011,241 @@ const processMonorepo = async (options: {
 	if (process.env.GITHUB_OUTPUT) {
 		appendFileSync(process.env.GITHUB_OUTPUT, `new_version=${newVersion}\n`);
 	}
+	writeIssueKeysOutput(workspacesWithCommits, config);
+
+	plan.bump = bumpType;
+	plan.newVersion = newVersion;
 
 	if (dryRun) {
 		logger.info('Dry run enabled, no changes will be made');
-		return;
+	}
+
+	// Record dependency updates on the dependents of changed workspaces
+	for (const [shortName, dependencies] of propagatedChanges) {
+		addDependencyUpdates(
+			workspacesWithCommits[shortName] as Workspace,
+			dependencies.map((dependency) => ({
+				name: workspacesWithCommits[dependency]?.name as string,
+				version: newVersion,
+			})),
+			config
+		);
 	}
 
 	// Get repository information for changelog links
-	const rootPkgPath = join(root, 'package.json');
-	const rootPkg = JSON.parse(readFileSync(rootPkgPath, 'utf-8'));
-	const repoUrl = rootPkg.repository?.url || '';
-	const baseUrl = repoUrl.replace(/^git\+|\.git$/g, '');
+	const baseUrl = getBaseUrl(root);
 
 	// Generate version comparison link
-	let versionLink: string;
-	if (lastTag) {
-		versionLink = `${baseUrl}/compare/${lastTag}...v${newVersion}`;
+	const newTag = formatTag(config.tagFormat, newVersion);
+	const versionLink = getVersionLink(
+		root,
+		getRepositoryLinks(baseUrl, config),
+		baseTag,
+		newTag,
+		to
+	);
+
+	// Compute every file change in memory first, so nothing is written if a step fails
+	let changelogFiles: string[] = [];
+	let versionFiles: string[] = [];
+	let changes: FileChange[];
+	startChangeSet();
+	try {
+		// Update changelogs
+		if (only !== 'version') {
+			changelogFiles = updateChangelogs(
+				root,
+				workspacesWithCommits,
+				newVersion,
+				versionLink,
+				baseUrl,
+				config
+			);
+			logger.info(dryRun ? 'Would update changelogs' : 'Updated changelogs');
+		}
+
+		// Bump package versions
+		if (only !== 'changelog') {
+			versionFiles = bumpVersions(
+				root,
+				workspacesWithCommits,
+				newVersion,
+				config
+			);
+			logger.info(
+				dryRun
+					? `Would bump all package versions to ${newVersion}`
+					: `Bumped all package versions to ${newVersion}`
+			);
+		}
+	} finally {
+		changes = endChangeSet();
+	}
+	writeReleaseChanges(root, changes, { dryRun, json });
+
+	const notes = generateReleaseNotes(workspacesWithCommits, baseUrl, config);
+	writeReleaseNotes(notes, { dryRun, releaseNotes });
+
+	if (json) {
+		plan.files = [...changelogFiles, ...versionFiles];
+		plan.changelog = `${generateVersionHeader(newVersion, versionLink, config)}${notes}`;
+		printReleasePlan(
+			plan,
+			workspacesWithCommits,
+			bumps,
+			Object.fromEntries(
+				Object.keys(workspacesWithCommits).map((shortName) => [
+					shortName,
+					newVersion,
+				])
+			)
+		);
+	}
+
+	if (commit && !dryRun) {
+		commitRelease(
+			root,
+			[...changelogFiles, ...versionFiles],
+			newVersion,
+			tag
+				? [
+						{
+							name: newTag,
+							notes,
+						},
+					]
+				: [],
+			config
+		);
+		if (forge) {
+			await createForgeReleases(
+				root,
+				[{ tag: newTag, version: newVersion, notes }],
+				forge
+			);
+		}
+	}
+	return true;
+};
+
+/**
+ * Commits and tags the current versions of a repository.
+ *
+ * Completes a release prepared with the `changelog` and `version` steps
+ * without running them again. The changelogs, package.json files and
+ * lockfiles changed since the last commit are committed with the release
+ * commit message, then each version without a release tag is tagged, with
+ * its changelog notes as tag message.
+ *
+ * In fixed mode every workspace must have the same version, tagged with the
+ * `tagFormat`. In independent mode each workspace whose `packageTagFormat`
+ * tag does not exist yet is tagged.
+ *
+ * @param options - configuration options for tagging
+ * @param options.root - the root directory of the repository
+ * @param options.independent - tag the version of each workspace, overrides the `independent` configuration option
+ * @param options.dryRun - log the commit and tags that would be created without creating them
+ * @param options.verbose - enable verbose logging
+ * @returns whether a version was tagged, false when every version is already tagged
+ * @throws Error when other files than the release files have uncommitted changes
+ * @throws Error when the workspaces of a fixed release have different versions
+ *
+ * @example
+ * ```typescript
+ * await processMonorepo({ root: '/path/to/monorepo', only: 'changelog' });
+ * await processMonorepo({ root: '/path/to/monorepo', only: 'version' });
+ * await tagRelease({ root: '/path/to/monorepo' });
+ * ```
+ */
+const tagRelease = async (options: {
+	root: string;
+	independent?: boolean;
+	dryRun?: boolean;
+	verbose?: boolean;
+}): Promise<boolean> => {
+	const { root, dryRun = false, verbose = false } = options;
+	configureLogger(verbose);
+	const config = await loadConfig(root);
+	const independent = options.independent ?? config.independent;
+	const workspaces = Object.values(readWorkspaces(root)).filter(
+		({ version }) => version
+	);
+
+	let versions: { tag: string; version: string; changelogPath: string }[];
+	if (independent) {
+		versions = workspaces.map((workspace) => ({
+			tag: formatTag(
+				config.packageTagFormat,
+				workspace.version,
+				workspace.name
+			),
+			version: workspace.version,
+			changelogPath: join(workspace.path, config.changelogFile),
+		}));
 	} else {
-		const firstCommit = getFirstCommit(root);
-		versionLink = firstCommit
-			? `${baseUrl}/compare/${firstCommit}...v${newVersion}`
-			: `${baseUrl}/releases/tag/v${newVersion}`;
+		const [version, ...others] = [
+			...new Set(workspaces.map(({ version }) => version)),
+		];
+		if (!version || others.length > 0) {
+			throw new Error(
+				`Cannot tag a fixed release of workspaces with different versions (${[version, ...others].join(', ')}); use --independent to tag each workspace`
+			);
+		}
+		versions = [
+			{
+				tag: formatTag(config.tagFormat, version),
+				version,
+				changelogPath: join(root, config.changelogFile),
+			},
+		];
 	}
 
-	// Update changelogs
-	updateChangelogs(
-		root,
-		workspacesWithCommits,
-		newVersion,
-		versionLink,
-		baseUrl
+	const existingTags = new Set(getTags(root));
+	const tags = versions
+		.filter(({ tag }) => !existingTags.has(tag))
+		.map(({ tag, version, changelogPath }) => ({
+			name: tag,
+			notes: getVersionNotes(changelogPath, version),
+		}));
+	if (tags.length === 0) {
+		logger.info('Every version is already tagged');
+		return false;
+	}
+
+	// Only the files the release steps write are committed
+	const releaseFileNames = new Set([
+		config.changelogFile,
+		'package.json',
+		...Object.values(LockfileUpdaters).map(({ fileName }) => fileName),
+	]);
+	const files = getUncommittedFiles(root);
+	const otherFiles = files.filter(
+		(file) => !releaseFileNames.has(basename(file))
 	);
-	logger.info('Updated changelogs');
+	if (otherFiles.length > 0) {
+		throw new Error(
+			`Working tree has uncommitted changes besides the release files (${otherFiles.join(', ')}); commit or stash them before tagging`
+		);
+	}
 
-	// Bump package versions
-	bumpVersions(root, workspacesWithCommits, newVersion);
-	logger.info(`Bumped all package versions to ${newVersion}`);
+	const commitVersion = independent
+		? tags.map(({ name }) => name).join(', ')
+		: (versions[0]?.version as string);
+	if (dryRun) {
+		if (files.length > 0) {
+			logger.info(`Would commit ${files.length} release files`);
+		}
+		logger.info(`Would create ${tags.map(({ name }) => name).join(', ')}`);
+		return true;
+	}
+	commitRelease(root, files, commitVersion, tags, config);
+	return true;
 };
 
-export { processMonorepo };
+export {
+	processMonorepo,
+	publishPackages,
+	lintCommits,
+	tagRelease,
+	validateReleaseOptions,
+};
@@ -0,0 +1,251 @@
+import type {
+	Config,
+	IssueTracker,
+	LinkStyle,
+	RepositoryLinks,
+} from './types.js';
+
+/**
+ * Hosts of the `github:`, `gitlab:` and `bitbucket:` shorthands of the npm `repository` field.
+ */
+const shorthandHosts: Record<string, string> = {
+	github: 'github.com',
+	gitlab: 'gitlab.com',
+	bitbucket: 'bitbucket.org',
+};
+
+/**
+ * Normalises a repository URL from a package.json to the web URL of the repository.
+ *
+ * Supports HTTPS, SSH and `git://` URLs with or without `git+` prefix and
+ * `.git` suffix, SCP-like SSH URLs (`git@github.com:owner/repo.git`), Azure
+ * DevOps SSH URLs, and the npm shorthands (`github:owner/repo`,
+ * `gitlab:group/repo`, `bitbucket:owner/repo` and `owner/repo`).
+ *
+ * @param url - the repository URL or shorthand
+ * @returns the web URL of the repository without trailing slash, empty when the URL cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * normalizeRepositoryUrl('git+ssh://git@github.com/owner/repo.git');
+ * // 'https://github.com/owner/repo'
+ * normalizeRepositoryUrl('gitlab:group/repo');
+ * // 'https://gitlab.com/group/repo'
+ * ```
+ */
+const normalizeRepositoryUrl = (url: string): string => {
+	const value = url.trim().replace(/^git\+/, '');
+	if (/^[\w.-]+\/[\w.-]+$/.test(value)) {
+		return `https://github.com/${value.replace(/\.git$/, '')}`;
+	}
+	const shorthand = value.match(/^(github|gitlab|bitbucket):(?!\/\/)(.+)$/);
+	if (shorthand) {
+		const [, host = '', path = ''] = shorthand;
+		return `https://${shorthandHosts[host]}/${path.replace(/\.git$|\/+$/g, '')}`;
+	}
+	const azure = value.match(
+		/^(?:ssh:\/\/)?[^@\s/]+@(?:ssh\.dev\.azure\.com|vs-ssh\.visualstudio\.com)[:/]v3\/([^/]+)\/([^/]+)\/([^/]+?)\/?$/
+	);
+	if (azure) {
+		const [, organization, project, repository] = azure;
+		return `https://dev.azure.com/${organization}/${project}/_git/${repository}`;
+	}
+
+	// SCP-like SSH URLs have no protocol and separate the path with a colon
+	const scp = value.match(/^[^@\s/]+@([^:\s/]+):\/?(.+)$/);
+	const candidate = scp ? `ssh://${scp[1]}/${scp[2]}` : value;
+	if (!URL.canParse(candidate)) return '';
+	const parsed = new URL(candidate);
+	if (!parsed.hostname) return '';
+	const isWeb = parsed.protocol === 'http:' || parsed.protocol === 'https:';
+	// SSH and git ports do not serve the web interface
+	const host = isWeb ? parsed.host : parsed.hostname;
+	const path = parsed.pathname.replace(/\/+$/, '').replace(/\.git$/, '');
+	return `${parsed.protocol === 'http:' ? 'http' : 'https'}://${host}${path}`;
+};
+
+/**
+ * Returns the URL of a repository on the same host, or the repository itself.
+ *
+ * @param baseUrl - the web URL of the repository
+ * @param repository - the path of another repository (e.g. `owner/repo`)
+ * @returns the web URL of the given repository, or the base URL without repository
+ */
+const getRepositoryUrl = (baseUrl: string, repository?: string): string =>
+	baseUrl && repository ? `${new URL(baseUrl).origin}/${repository}` : baseUrl;
+
+/**
+ * Returns the Azure DevOps version descriptor of a ref, a commit for full hashes and a tag otherwise.
+ *
+ * @param ref - the commit hash or tag
+ * @returns the version descriptor (e.g. `GTv1.0.0`)
+ */
+const getAzureVersion = (ref: string): string =>
+	/^[0-9a-f]{40}$/i.test(ref) ? `GC${ref}` : `GT${encodeURIComponent(ref)}`;
+
+/**
+ * Link builders of GitHub, also used by GitHub Enterprise Server.
+ */
+const githubLinks = (baseUrl: string): RepositoryLinks => ({
+	issue: (number, repository) =>
+		`${getRepositoryUrl(baseUrl, repository)}/issues/${number}`,
+	pullRequest: (number, repository) =>
+		`${getRepositoryUrl(baseUrl, repository)}/pull/${number}`,
+	commit: (hash) => `${baseUrl}/commit/${hash}`,
+	compare: (from, to) => `${baseUrl}/compare/${from}...${to}`,
+	release: (tag) => `${baseUrl}/releases/tag/${tag}`,
+});
+
+/**
+ * Link builders of GitLab, where pull requests are merge requests.
+ */
+const gitlabLinks = (baseUrl: string): RepositoryLinks => ({
+	issue: (number, repository) =>
+		`${getRepositoryUrl(baseUrl, repository)}/-/issues/${number}`,
+	pullRequest: (number, repository) =>
+		`${getRepositoryUrl(baseUrl, repository)}/-/merge_requests/${number}`,
+	commit: (hash) => `${baseUrl}/-/commit/${hash}`,
+	compare: (from, to) => `${baseUrl}/-/compare/${from}...${to}`,
+	release: (tag) => `${baseUrl}/-/releases/${tag}`,
+});
+
+/**
+ * Link builders of Bitbucket Cloud, which has no releases so links to the source at the tag.
+ */
+const bitbucketLinks = (baseUrl: string): RepositoryLinks => ({
+	issue: (number, repository) =>
+		`${getRepositoryUrl(baseUrl, repository)}/issues/${number}`,
+	pullRequest: (number, repository) =>
+		`${getRepositoryUrl(baseUrl, repository)}/pull-requests/${number}`,
+	commit: (hash) => `${baseUrl}/commits/${hash}`,
+	compare: (from, to) => `${baseUrl}/branches/compare/${to}%0D${from}`,
+	release: (tag) => `${baseUrl}/src/${tag}`,
+});
+
+/**
+ * Link builders of Gitea, also used by Forgejo and Codeberg.
+ */
+const giteaLinks = (baseUrl: string): RepositoryLinks => ({
+	...githubLinks(baseUrl),
+	pullRequest: (number, repository) =>
+		`${getRepositoryUrl(baseUrl, repository)}/pulls/${number}`,
+});
+
+/**
+ * Link builders of Azure DevOps, where issues are work items of the project.
+ */
+const azureLinks = (baseUrl: string): RepositoryLinks => ({
+	issue: (number) =>
+		`${baseUrl.replace(/\/_git\/[^/]+$/, '')}/_workitems/edit/${number}`,
+	pullRequest: (number, repository) =>
+		`${getRepositoryUrl(baseUrl, repository)}/pullrequest/${number}`,
+	commit: (hash) => `${baseUrl}/commit/${hash}`,
+	compare: (from, to) =>
+		`${baseUrl}/branchCompare?baseVersion=${getAzureVersion(from)}&targetVersion=${getAzureVersion(to)}`,
+	release: (tag) => `${baseUrl}?version=${getAzureVersion(tag)}`,
+});
+
+/**
+ * Link builders of the supported forges, keyed by the `linkStyle` option.
+ */
+const LinkBuilders: Record<LinkStyle, (baseUrl: string) => RepositoryLinks> = {
+	github: githubLinks,
+	gitlab: gitlabLinks,
+	bitbucket: bitbucketLinks,
+	gitea: giteaLinks,
+	azure: azureLinks,
+};
+
+/**
+ * Hosts of the public instances of each forge, and patterns matching the usual names of self-hosted ones.
+ */
+const linkStyleHosts: [RegExp, LinkStyle][] = [
+	[/(^|\.)github\.com$/, 'github'],
+	[/(^|\.)bitbucket\.org$/, 'bitbucket'],
+	[/(^|\.)(dev\.azure\.com|visualstudio\.com)$/, 'azure'],
+	[/(^|\.)(codeberg\.org|gitea\.com)$|(^|\.)(gitea|forgejo)\./, 'gitea'],
+	[/(^|\.)gitlab\./, 'gitlab'],
+];
+
+/**
+ * Determines the forge whose URL shapes the links of a repository follow.
+ *
+ * With the `auto` link style, the forge is detected from the repository
+ * host, and defaults to the forge releases are created on.
+ *
+ * @param baseUrl - the web URL of the repository
+ * @param config - the resolved configuration with the link style and forge
+ * @returns the link style of the repository
+ *
+ * @example
+ * ```typescript
+ * getLinkStyle('https://gitlab.example.com/group/repo', DefaultConfig);
+ * // 'gitlab'
+ * ```
+ */
+const getLinkStyle = (
+	baseUrl: string,
+	config: Pick<Config, 'linkStyle' | 'forge'>
+): LinkStyle => {
+	if (config.linkStyle !== 'auto') return config.linkStyle;
+	const hostname = URL.canParse(baseUrl) ? new URL(baseUrl).hostname : '';
+	return (
+		linkStyleHosts.find(([pattern]) => pattern.test(hostname))?.[1] ??
+		config.forge
+	);
+};
+
+/**
+ * Creates the link builders of a repository.
+ *
+ * @param baseUrl - the web URL of the repository
+ * @param config - the resolved configuration with the link style and forge
+ * @returns the builders of the issue, pull request, commit, compare and release URLs
+ *
+ * @example
+ * ```typescript
+ * getRepositoryLinks('https://gitlab.com/group/repo', DefaultConfig).pullRequest(12);
+ * // 'https://gitlab.com/group/repo/-/merge_requests/12'
+ * ```
+ */
+const getRepositoryLinks = (
+	baseUrl: string,
+	config: Pick<Config, 'linkStyle' | 'forge'>
+): RepositoryLinks => LinkBuilders[getLinkStyle(baseUrl, config)](baseUrl);
+
+/**
+ * Creates the regular expression matching the keys of an issue tracker.
+ *
+ * Keys are matched as whole words, so that `[A-Z]+-\d+` matches `PAY-1234`
+ * but not the end of `XPAY-1234-2`.
+ *
+ * @param tracker - the issue tracker
+ * @returns the global regular expression matching the keys
+ */
+const getIssueKeyPattern = (tracker: IssueTracker): RegExp =>
+	new RegExp(String.raw`(?<![\w-])(?:${tracker.pattern})(?![\w-])`, 'g');
+
+/**
+ * Builds the URL of an issue of an issue tracker.
+ *
+ * @param tracker - the issue tracker
+ * @param key - the issue key
+ * @returns the URL of the issue
+ *
+ * @example
+ * ```typescript
+ * getIssueKeyUrl({ pattern: '[A-Z]+-\\d+', url: 'https://jira.example.com/browse/{key}' }, 'PAY-1234');
+ * // 'https://jira.example.com/browse/PAY-1234'
+ * ```
+ */
+const getIssueKeyUrl = (tracker: IssueTracker, key: string): string =>
+	tracker.url.replaceAll('{key}', key);
+
+export {
+	normalizeRepositoryUrl,
+	getIssueKeyPattern,
+	getIssueKeyUrl,
+	getLinkStyle,
+	getRepositoryLinks,
+	LinkBuilders,
+};
@@ -0,0 +1,111 @@
+import { readFileSync } from 'node:fs';
+import { lintCommitMessage } from './commits.js';
+import { loadConfig } from './config.js';
+import { CommitMessageScissors } from './constants.js';
+import { getCommitsSinceTag, isValidRef } from './git.js';
+import { configureLogger, logger } from './logger.js';
+import type { CommitLintResult } from './types.js';
+import { readWorkspaces } from './workspace.js';
+
+/**
+ * Removes the comments git adds to the message of a commit being edited.
+ *
+ * Lines starting with `#` are removed, and so is everything below the
+ * scissors line added by `git commit --verbose`.
+ *
+ * @param message - the message as written in the commit message file
+ * @returns the message as it will be committed
+ */
+const stripCommitComments = (message: string): string =>
+	(message.split(`\n${CommitMessageScissors}`)[0] ?? '')
+		.split('\n')
+		.filter((line) => !line.startsWith('#'))
+		.join('\n');
+
+/**
+ * Lints commit messages against the conventional commit format bump-n-go releases from.
+ *
+ * Messages are checked with the configuration and workspaces of the
+ * repository, see {@link lintCommitMessage | `lintCommitMessage`}. The
+ * message is read from the given file (e.g. `.git/COMMIT_EDITMSG` in a
+ * `commit-msg` hook), from the commits of a range when `from` or `to` is
+ * given, or is the given text (e.g. a pull request title). The problems
+ * of each invalid message are logged.
+ *
+ * @param options - configuration options for linting
+ * @param options.root - the root directory of the repository
+ * @param options.message - the message to lint
+ * @param options.file - the path of a file containing the message to lint
+ * @param options.from - lint the commits since this ref
+ * @param options.to - lint the commits up to this ref instead of HEAD
+ * @param options.verbose - enable verbose logging
+ * @returns the result of each message, in log order for commit ranges
+ * @throws Error when there is no message to lint, the file cannot be read or a ref is unknown
+ *
+ * @example
+ * ```typescript
+ * const results = await lintCommits({
+ *   root: '/path/to/monorepo',
+ *   file: '.git/COMMIT_EDITMSG',
+ * });
+ * // [{ header: 'feat(cor): add option', problems: ['Scope "cor" is not a workspace or scope alias, use one of core, utils, deps'] }]
+ * ```
+ */
+const lintCommits = async (options: {
+	root: string;
+	message?: string;
+	file?: string;
+	from?: string;
+	to?: string;
+	verbose?: boolean;
+}): Promise<CommitLintResult[]> => {
+	const { root, file, from, to, verbose = false } = options;
+	configureLogger(verbose);
+	const config = await loadConfig(root);
+	const workspaces = readWorkspaces(root);
+
+	let messages: { message: string; hash?: string }[];
+	if (file !== undefined) {
+		messages = [{ message: stripCommitComments(readFileSync(file, 'utf-8')) }];
+	} else if (from !== undefined || to !== undefined) {
+		for (const ref of [from, to]) {
+			if (ref && !isValidRef(root, ref)) {
+				throw new Error(`Unknown git ref: ${ref}`);
+			}
+		}
+		const commits = await getCommitsSinceTag(root, from ?? null, to);
+		messages = commits.map((commit) => ({
+			message: `${commit.subject ?? ''}\n\n${commit.body}`,
+			hash: commit.hash,
+		}));
+	} else if (options.message !== undefined) {
+		messages = [{ message: stripCommitComments(options.message) }];
+	} else {
+		throw new Error(
+			'No commit message to lint, pass it on stdin, with --file or as a range with --from and --to'
+		);
+	}
+
+	const results = messages.map(({ message, hash }) => ({
+		header: message.trim().split('\n')[0]?.trim() ?? '',
+		...(hash && { hash }),
+		problems: lintCommitMessage(message, workspaces, root, config),
+	}));
+	for (const { header, hash, problems } of results) {
+		const commit = hash ? ` (${hash.slice(0, 7)})` : '';
+		if (problems.length === 0) {
+			logger.debug(`✔ ${header}${commit}`);
+			continue;
+		}
+		logger.error(`✖ ${header || '(empty message)'}${commit}`);
+		for (const problem of problems) {
+			logger.error(`  - ${problem}`);
+		}
+	}
+	if (results.length === 0) {
+		logger.info('No commit messages to lint');
+	}
+	return results;
+};
+
+export { lintCommits };
@@ -0,0 +1,451 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { writeFile } from './changes.js';
+import type {
+	LockfileUpdateContext,
+	LockfileUpdater,
+	PackageManager,
+	Workspace,
+} from './types.js';
+
+/**
+ * Removes the surrounding single or double quotes of a YAML scalar.
+ *
+ * @param value - the raw scalar value
+ * @returns the unquoted value
+ */
+const unquote = (value: string): string =>
+	value.replace(/^(['"])(.*)\1$/, '$2');
+
+/**
+ * Wraps a value in the same quotes as the original raw value.
+ *
+ * @param rawValue - the original raw value, possibly quoted
+ * @param value - the new unquoted value
+ * @returns the new value with the original quoting style
+ */
+const requote = (rawValue: string, value: string): string => {
+	const quote = rawValue.match(/^['"]/)?.[0] ?? '';
+	return `${quote}${value}${quote}`;
+};
+
+/**
+ * Updates the workspace versions and dependency ranges of a package-lock.json file.
+ *
+ * Workspace entries of the `packages` field are matched by package name, the
+ * version of the root package (empty path) is left untouched. npm records
+ * the ranges of the package.json of each workspace in its entry, so the
+ * intra-project ranges of the updated workspaces are updated like in their
+ * package.json.
+ *
+ * @param content - the content of the package-lock.json file
+ * @param context - the updated workspaces, their new versions and dependency ranges
+ * @returns the updated content, or null if nothing changed
+ */
+const updateNpmLockfile = (
+	content: string,
+	context: LockfileUpdateContext
+): string | null => {
+	const lockfile = JSON.parse(content);
+	let updated = false;
+
+	// Update package references in the lockfile
+	if (lockfile.packages) {
+		for (const [pkgPath, pkgInfo] of Object.entries(lockfile.packages)) {
+			if (typeof pkgInfo !== 'object' || !pkgInfo || !('name' in pkgInfo))
+				continue;
+
+			// The root package has an empty path
+			if (context.workspacePaths.has(pkgPath || '.')) {
+				for (const depType of context.dependencyTypes) {
+					const dependencies = (pkgInfo as Record<string, unknown>)[depType];
+					if (typeof dependencies !== 'object' || !dependencies) continue;
+					for (const [depName, currentRange] of Object.entries(dependencies)) {
+						if (typeof currentRange !== 'string') continue;
+						const newRange = context.updateRange(depName, currentRange);
+						if (newRange === null || newRange === currentRange) continue;
+						(dependencies as Record<string, string>)[depName] = newRange;
+						updated = true;
+					}
+				}
+			}
+
+			// Skip the version of the root package
+			if (pkgPath === '') continue;
+
+			const packageVersion =
+				context.versions[(pkgInfo as { name: string }).name];
+			if (packageVersion && 'version' in pkgInfo) {
+				(pkgInfo as { version: string }).version = packageVersion;
+				updated = true;
+			}
+		}
+	}
+
+	return updated ? `${JSON.stringify(lockfile, null, 2)}\n` : null;
+};
+
+/**
+ * Updates the intra-project dependency specifiers of pnpm-lock.yaml importers.
+ *
+ * pnpm records the range of each dependency of a workspace (an importer) as
+ * its `specifier`, which must match the range in the workspace package.json.
+ * Only the lockfile format of pnpm 8 and later (v6+) is supported.
+ *
+ * @param content - the content of the pnpm-lock.yaml file
+ * @param context - the updated workspaces and their dependency ranges
+ * @returns the updated content, or null if nothing changed
+ */
+const updatePnpmLockfile = (
+	content: string,
+	context: LockfileUpdateContext
+): string | null => {
+	const lines = content.split('\n');
+	let inImporters = false;
+	let importer: string | undefined;
+	let depType: string | undefined;
+	let depName: string | undefined;
+	let updated = false;
+
+	for (const [index, line] of lines.entries()) {
+		const match = line.match(/^( *)('[^']*'|"[^"]*"|[^\s:][^:]*):(?: (.*))?$/);
+		if (!match) continue;
+		const [, indentation = '', rawKey = '', rawValue] = match;
+		const key = unquote(rawKey);
+
+		// Importers are nested as importer > dependency type > dependency > specifier
+		switch (indentation.length) {
+			case 0:
+				inImporters = key === 'importers';
+				break;
+			case 2:
+				importer = key;
+				break;
+			case 4:
+				depType = key;
+				break;
+			case 6:
+				depName = key;
+				break;
+			case 8: {
+				if (!inImporters || key !== 'specifier' || rawValue === undefined)
+					break;
+				if (
+					!importer ||
+					!context.workspacePaths.has(importer) ||
+					!depType ||
+					!context.dependencyTypes.includes(depType) ||
+					!depName
+				)
+					break;
+
+				const currentRange = unquote(rawValue);
+				const newRange = context.updateRange(depName, currentRange);
+				if (newRange === null || newRange === currentRange) break;
+
+				lines[index] =
+					`${indentation}specifier: ${requote(rawValue, newRange)}`;
+				updated = true;
+				break;
+			}
+		}
+	}
+
+	return updated ? lines.join('\n') : null;
+};
+
+/**
+ * Updates the intra-project dependency ranges of a Yarn Berry yarn.lock file.
+ *
+ * Workspace entries are identified by their `<name>@workspace:<path>`
+ * resolution. The ranges in the `dependencies` and `peerDependencies` of the
+ * updated workspaces are rewritten, keeping the `npm:` protocol Yarn adds to
+ * semver ranges, and the descriptors of the entry keys (e.g.
+ * `"@scope/core@npm:^1.0.0, @scope/core@workspace:packages/core":`) follow
+ * the new ranges. Descriptors still used by other entries, e.g. a workspace
+ * that was not updated, are kept next to the new ones so that they keep
+ * resolving. Workspace versions are not recorded by Yarn (they are always
+ * `0.0.0-use.local`).
+ *
+ * @param content - the content of the yarn.lock file
+ * @param context - the updated workspaces and their dependency ranges
+ * @returns the updated content, or null if nothing changed
+ */
+const updateYarnLockfile = (
+	content: string,
+	context: LockfileUpdateContext
+): string | null => {
+	const lines = content.split('\n');
+	const descriptorUpdates = new Map<string, string>();
+	const usedDescriptors = new Set<string>();
+	const entryKeyIndexes: number[] = [];
+	let inUpdatedWorkspace = false;
+	let inDependencies = false;
+
+	// Rewrite the dependency ranges of the updated workspaces
+	for (const [index, line] of lines.entries()) {
+		if (line.trim() === '' || line.startsWith('#')) continue;
+		if (!line.startsWith(' ')) {
+			entryKeyIndexes.push(index);
+			inUpdatedWorkspace = false;
+			inDependencies = false;
+			continue;
+		}
+
+		const match = line.match(/^( +)("[^"]*"|[^\s:]+):(?: (.*))?$/);
+		if (!match) continue;
+		const [, indentation = '', rawKey = '', rawValue] = match;
+		const key = unquote(rawKey);
+
+		if (indentation.length === 2) {
+			inDependencies = key === 'dependencies' || key === 'peerDependencies';
+			const workspacePath =
+				key === 'resolution' && rawValue
+					? unquote(rawValue).match(/@workspace:(.+)$/)?.[1]
+					: undefined;
+			if (workspacePath !== undefined) {
+				inUpdatedWorkspace = context.workspacePaths.has(workspacePath);
+			}
+			continue;
+		}
+
+		if (indentation.length !== 4 || !inDependencies || rawValue === undefined)
+			continue;
+
+		const lockRange = unquote(rawValue);
+		const currentRange = lockRange.replace(/^npm:/, '');
+		const newRange = inUpdatedWorkspace
+			? context.updateRange(key, currentRange)
+			: null;
+		if (newRange === null || newRange === currentRange) {
+			usedDescriptors.add(`${key}@${lockRange}`);
+			continue;
+		}
+
+		const newLockRange = newRange.startsWith('workspace:')
+			? newRange
+			: `npm:${newRange}`;
+		lines[index] =
+			`${indentation}${rawKey}: ${requote(rawValue, newLockRange)}`;
+		descriptorUpdates.set(`${key}@${lockRange}`, `${key}@${newLockRange}`);
+	}
+
+	if (descriptorUpdates.size === 0) {
+		return null;
+	}
+
+	// Point the entry keys to the new descriptors, keeping the ones still in use
+	for (const index of entryKeyIndexes) {
+		const line = lines[index] as string;
+		const rawKey = line.replace(/:$/, '');
+		const descriptors = unquote(rawKey)
+			.split(', ')
+			.flatMap((descriptor) => {
+				const newDescriptor = descriptorUpdates.get(descriptor);
+				if (!newDescriptor) return [descriptor];
+				return usedDescriptors.has(descriptor)
+					? [descriptor, newDescriptor]
+					: [newDescriptor];
+			});
+		lines[index] = `${requote(rawKey, [...new Set(descriptors)].join(', '))}:`;
+	}
+
+	return lines.join('\n');
+};
+
+/**
+ * Updates the workspace entries of a Bun bun.lock text lockfile.
+ *
+ * Bun records the version and the dependency ranges of each workspace under
+ * the `workspaces` field, keyed by path (empty for the root). The versions and
+ * intra-project dependency ranges of the updated workspaces are rewritten in
+ * place, preserving the JSONC formatting (e.g. trailing commas) of the file.
+ *
+ * @param content - the content of the bun.lock file
+ * @param context - the updated workspaces, their new versions and dependency ranges
+ * @returns the updated content, or null if nothing changed
+ */
+const updateBunLockfile = (
+	content: string,
+	context: LockfileUpdateContext
+): string | null => {
+	const lines = content.split('\n');
+	let inWorkspaces = false;
+	let workspacePath: string | undefined;
+	let workspaceName: string | undefined;
+	let depType: string | undefined;
+	let updated = false;
+
+	for (const [index, line] of lines.entries()) {
+		const match = line.match(/^( *)"([^"]*)": (.*?)(,?)$/);
+		if (!match) continue;
+		const [, indentation = '', key = '', rawValue = '', comma = ''] = match;
+
+		// Workspaces are nested as workspace path > field > dependency
+		switch (indentation.length) {
+			case 2:
+				inWorkspaces = key === 'workspaces';
+				break;
+			case 4:
+				workspacePath = key === '' ? '.' : key;
+				workspaceName = undefined;
+				break;
+			case 6: {
+				depType = key;
+				if (!inWorkspaces || !rawValue.startsWith('"')) break;
+				if (key === 'name') {
+					workspaceName = unquote(rawValue);
+					break;
+				}
+				const newVersion = workspaceName && context.versions[workspaceName];
+				if (
+					key !== 'version' ||
+					!workspacePath ||
+					!context.workspacePaths.has(workspacePath) ||
+					!newVersion ||
+					unquote(rawValue) === newVersion
+				)
+					break;
+				lines[index] = `${indentation}"version": "${newVersion}"${comma}`;
+				updated = true;
+				break;
+			}
+			case 8: {
+				if (
+					!inWorkspaces ||
+					!workspacePath ||
+					!context.workspacePaths.has(workspacePath) ||
+					!depType ||
+					!context.dependencyTypes.includes(depType)
+				)
+					break;
+				const currentRange = unquote(rawValue);
+				const newRange = context.updateRange(key, currentRange);
+				if (newRange === null || newRange === currentRange) break;
+				lines[index] = `${indentation}"${key}": "${newRange}"${comma}`;
+				updated = true;
+				break;
+			}
+		}
+	}
+
+	return updated ? lines.join('\n') : null;
+};
+
+/**
+ * Lockfile updaters of the supported package managers.
+ *
+ * Each updater is a pure transformation of the lockfile content, so that
+ * supporting a new package manager only requires adding an entry here. The
+ * order of the entries is used when detecting the package manager from the
+ * lockfiles present in the repository.
+ */
+const LockfileUpdaters: Record<PackageManager, LockfileUpdater> = {
+	npm: { fileName: 'package-lock.json', update: updateNpmLockfile },
+	pnpm: { fileName: 'pnpm-lock.yaml', update: updatePnpmLockfile },
+	yarn: { fileName: 'yarn.lock', update: updateYarnLockfile },
+	bun: { fileName: 'bun.lock', update: updateBunLockfile },
+};
+
+/**
+ * Detects the package manager of a repository.
+ *
+ * The lockfile present in the repository root decides. When there are
+ * several lockfiles, or none, the `packageManager` field of the root
+ * package.json (e.g. `pnpm@9.1.0`) is used instead, falling back to the first
+ * lockfile found.
+ *
+ * @param rootPath - the root path of the repository
+ * @returns the detected package manager, or null if it could not be detected
+ *
+ * @example
+ * ```typescript
+ * detectPackageManager('/path/to/repo'); // 'pnpm'
+ * ```
+ */
+const detectPackageManager = (rootPath: string): PackageManager | null => {
+	const packageManagers = Object.keys(LockfileUpdaters) as PackageManager[];
+	const lockfileManagers = packageManagers.filter((packageManager) =>
+		existsSync(join(rootPath, LockfileUpdaters[packageManager].fileName))
+	);
+	if (lockfileManagers.length === 1) {
+		return lockfileManagers[0] as PackageManager;
+	}
+
+	const rootPkgPath = join(rootPath, 'package.json');
+	if (existsSync(rootPkgPath)) {
+		const { packageManager } = JSON.parse(readFileSync(rootPkgPath, 'utf-8'));
+		const name =
+			typeof packageManager === 'string'
+				? packageManager.split('@')[0]
+				: undefined;
+		if (packageManagers.includes(name as PackageManager)) {
+			return name as PackageManager;
+		}
+	}
+
+	return lockfileManagers[0] ?? null;
+};
+
+/**
+ * Updates the lockfile of a repository after its workspaces were bumped.
+ *
+ * Detects the package manager, see {@link detectPackageManager | `detectPackageManager`},
+ * and applies the matching lockfile updater to the workspace entries of the
+ * updated workspaces. The lockfile is only written when it changed.
+ *
+ * @param rootPath - the root path of the repository
+ * @param updatedWorkspaces - the workspaces whose package.json files were updated
+ * @param versions - the new versions of the updated workspaces keyed by package name
+ * @param updateRange - computes the new range of an intra-project dependency, null to leave it untouched
+ * @param dependencyTypes - the dependency fields updated in the package.json files
+ * @returns the path of the lockfile if it was updated, null otherwise
+ */
+const updateLockfile = (
+	rootPath: string,
+	updatedWorkspaces: Workspace[],
+	versions: Record<string, string>,
+	updateRange: LockfileUpdateContext['updateRange'],
+	dependencyTypes: string[]
+): string | null => {
+	const packageManager = detectPackageManager(rootPath);
+	if (!packageManager) return null;
+
+	const { fileName, update } = LockfileUpdaters[packageManager];
+	const lockPath = join(rootPath, fileName);
+	if (!existsSync(lockPath)) return null;
+
+	// Lockfiles key workspaces by their path relative to the root, `.` for the root itself
+	const workspacePaths = new Set(
+		updatedWorkspaces.map((workspace) =>
+			workspace.path === rootPath
+				? '.'
+				: workspace.path.slice(rootPath.length + 1).replaceAll('\\', '/')
+		)
+	);
+
+	const content = readFileSync(lockPath, 'utf-8');
+	const updatedContent = update(content, {
+		workspacePaths,
+		versions,
+		updateRange,
+		dependencyTypes,
+	});
+
+	// Only write if we made updates
+	if (updatedContent === null || updatedContent === content) {
+		return null;
+	}
+	writeFile(lockPath, updatedContent);
+	return lockPath;
+};
+
+export {
+	LockfileUpdaters,
+	detectPackageManager,
+	updateLockfile,
+	updateNpmLockfile,
+	updatePnpmLockfile,
+	updateYarnLockfile,
+	updateBunLockfile,
+};
@@ -2,14 +2,17 @@
  * Logger configuration state
  */
 let isVerbose = false;
+let useStderr = false;
 
 /**
  * Configures the global logger settings.
  *
  * @param verbose - enables debug logging when true
+ * @param stderr - writes debug and info messages to stderr when true, keeping stdout free for machine-readable output
  */
-const configureLogger = (verbose: boolean): void => {
+const configureLogger = (verbose: boolean, stderr = false): void => {
 	isVerbose = verbose;
+	useStderr = stderr;
 };
 
 /**
@@ -26,7 +29,7 @@ const logger = {
 	 */
 	debug: (message: string): void => {
 		if (isVerbose) {
-			console.debug(message);
+			(useStderr ? console.error : console.debug)(message);
 		}
 	},
 	/**
@@ -35,7 +38,7 @@ const logger = {
 	 * @param message - the info message to log
 	 */
 	info: (message: string): void => {
-		console.info(message);
+		(useStderr ? console.error : console.info)(message);
 	},
 	/**
 	 * Logs error messages.
@@ -0,0 +1,343 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { prerelease } from 'semver';
+import { loadConfig } from './config.js';
+import { DefaultDistTags, DefaultRegistryUrl } from './constants.js';
+import { buildDependencyGraph } from './graph.js';
+import { detectPackageManager } from './lockfile.js';
+import { configureLogger, logger } from './logger.js';
+import type { PackageManager, PublishResult, Workspace } from './types.js';
+import { readWorkspaces } from './workspace.js';
+
+/**
+ * Commands publishing a workspace with each package manager.
+ *
+ * pnpm, Yarn and Bun replace `workspace:` ranges with the version of the
+ * workspace they refer to in the published manifest, npm does not. Yarn
+ * reads the registry from its configuration, set through the environment.
+ * Commands are run without a shell, so registries and dist-tags are passed
+ * verbatim.
+ */
+const PublishCommands: Record<
+	PackageManager,
+	(
+		registry: string,
+		distTag: string
+	) => { file: string; args: string[]; env?: Record<string, string> }
+> = {
+	npm: (registry, distTag) => ({
+		file: 'npm',
+		args: ['publish', '--registry', registry, '--tag', distTag],
+	}),
+	pnpm: (registry, distTag) => ({
+		file: 'pnpm',
+		args: ['publish', '--registry', registry, '--tag', distTag],
+	}),
+	yarn: (registry, distTag) => ({
+		file: 'yarn',
+		args: ['npm', 'publish', '--tag', distTag],
+		env: { YARN_NPM_PUBLISH_REGISTRY: registry },
+	}),
+	bun: (registry, distTag) => ({
+		file: 'bun',
+		args: ['publish', '--registry', registry, '--tag', distTag],
+	}),
+};
+
+/**
+ * Dependency fields installed along with a published package.
+ */
+const publishedDependencyTypes = [
+	'dependencies',
+	'peerDependencies',
+	'optionalDependencies',
+];
+
+/**
+ * Lists the dependencies of a workspace that use the `workspace:` protocol.
+ *
+ * @param workspace - the workspace to check
+ * @returns the dependencies with their range (e.g. `@scope/core@workspace:^`), empty when there are none
+ */
+const getWorkspaceRanges = (workspace: Workspace): string[] => {
+	const pkg = JSON.parse(
+		readFileSync(join(workspace.path, 'package.json'), 'utf-8')
+	);
+	return publishedDependencyTypes.flatMap((dependencyType) =>
+		Object.entries<string>(pkg[dependencyType] ?? {})
+			.filter(([, range]) => range.startsWith('workspace:'))
+			.map(([name, range]) => `${name}@${range}`)
+	);
+};
+
+/**
+ * Reads the credentials of a registry from the npm configuration.
+ *
+ * Credentials are read like npm does: from the `.npmrc` of the repository,
+ * then from the user configuration (`npm_config_userconfig`, `~/.npmrc` by
+ * default), keyed by the registry URL without protocol, e.g.
+ * `//registry.npmjs.org/:_authToken=${NPM_TOKEN}`. Environment variables
+ * in values are expanded.
+ *
+ * @param root - the root directory of the repository
+ * @param registry - the registry URL
+ * @param env - the environment variables
+ * @returns the `Authorization` header of the registry, undefined when no credentials are configured
+ *
+ * @example
+ * ```typescript
+ * // .npmrc: //npm.pkg.github.com/:_authToken=${NODE_AUTH_TOKEN}
+ * getRegistryAuthorization('/path/to/repo', 'https://npm.pkg.github.com', { NODE_AUTH_TOKEN: 'secret' });
+ * // 'Bearer secret'
+ * ```
+ */
+const getRegistryAuthorization = (
+	root: string,
+	registry: string,
+	env: Record<string, string | undefined> = process.env
+): string | undefined => {
+	const settings = new Map<string, string>();
+	// The settings of the repository take precedence over the user settings
+	for (const npmrcPath of [
+		env.npm_config_userconfig || join(homedir(), '.npmrc'),
+		join(root, '.npmrc'),
+	]) {
+		if (!existsSync(npmrcPath)) continue;
+		for (const line of readFileSync(npmrcPath, 'utf-8').split(/\r?\n/)) {
+			const match = line.match(/^\s*([^#;\s][^=]*?)\s*=\s*(.*?)\s*$/);
+			if (!match) continue;
+			const [, key = '', value = ''] = match;
+			settings.set(
+				key,
+				value
+					.replace(/^(['"])(.*)\1$/, '$2')
+					.replace(/\$\{([^}]+)\}/g, (_, name: string) => env[name] ?? '')
+			);
+		}
+	}
+
+	// Credentials of the most specific registry path apply
+	const { host, pathname } = new URL(registry);
+	const segments = `${host}${pathname}`.replace(/\/+$/, '').split('/');
+	for (let length = segments.length; length > 0; length--) {
+		const prefix = `//${segments.slice(0, length).join('/')}/:`;
+		const token = settings.get(`${prefix}_authToken`);
+		if (token) return `Bearer ${token}`;
+		const auth = settings.get(`${prefix}_auth`);
+		if (auth) return `Basic ${auth}`;
+	}
+	return undefined;
+};
+
+/**
+ * Fetches the versions of a package published on an npm registry.
+ *
+ * @param name - the full package name (e.g. `@scope/core`)
+ * @param registry - the registry URL, without trailing slash
+ * @param authorization - the `Authorization` header of the registry, for private registries and packages
+ * @returns the published versions, empty when the package was never published
+ * @throws Error when the registry responds with an error status other than 404
+ *
+ * @example
+ * ```typescript
+ * await getPublishedVersions('@scope/core', 'https://registry.npmjs.org');
+ * // ['1.0.0', '1.1.0']
+ * ```
+ */
+const getPublishedVersions = async (
+	name: string,
+	registry: string,
+	authorization?: string
+): Promise<string[]> => {
+	const response = await fetch(`${registry}/${name.replace('/', '%2F')}`, {
+		headers: {
+			Accept: 'application/vnd.npm.install-v1+json',
+			...(authorization && { Authorization: authorization }),
+		},
+	});
+	if (response.status === 404) {
+		return [];
+	}
+	if (!response.ok) {
+		throw new Error(
+			`Failed to get published versions of ${name} from ${registry}: ${response.status} ${response.statusText}`
+		);
+	}
+	const data = (await response.json()) as { versions?: object };
+	return Object.keys(data.versions ?? {});
+};
+
+/**
+ * Determines the dist-tag a version is published with.
+ *
+ * @param version - the version to publish
+ * @param distTag - the dist-tag requested by the user, if any
+ * @returns the requested dist-tag, otherwise `next` for prereleases and `latest` for regular versions
+ *
+ * @example
+ * ```typescript
+ * getDistTag('1.0.0'); // 'latest'
+ * getDistTag('2.0.0-beta.1'); // 'next'
+ * getDistTag('1.0.0', 'legacy'); // 'legacy'
+ * ```
+ */
+const getDistTag = (version: string, distTag?: string): string => {
+	if (distTag) return distTag;
+	return prerelease(version) === null
+		? DefaultDistTags.stable
+		: DefaultDistTags.prerelease;
+};
+
+/**
+ * Publishes a workspace to an npm registry with the package manager of the repository.
+ *
+ * @param workspace - the workspace to publish
+ * @param registry - the registry URL
+ * @param distTag - the dist-tag to publish the version with
+ * @param packageManager - the package manager publishing the workspace
+ * @throws Error when the publish command fails
+ */
+const publishWorkspace = (
+	workspace: Workspace,
+	registry: string,
+	distTag: string,
+	packageManager: PackageManager
+): void => {
+	const { file, args, env } = PublishCommands[packageManager](
+		registry,
+		distTag
+	);
+	try {
+		execFileSync(file, args, {
+			cwd: workspace.path,
+			stdio: 'pipe',
+			...(env && { env: { ...process.env, ...env } }),
+		});
+	} catch (error) {
+		throw new Error(
+			`Failed to publish ${workspace.name}@${workspace.version}: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+};
+
+/**
+ * Publishes the changed workspaces of a repository to an npm registry.
+ *
+ * A workspace is changed when its current version is not yet on the
+ * registry, so reruns after a partial failure only publish what is left.
+ * Private workspaces are never published. Workspaces are published in
+ * dependency order, so dependencies are always available on the registry
+ * before the workspaces depending on them. Only the dependency fields that
+ * are installed with a package and bumped on release (`dependencyTypes`)
+ * order workspaces, so cycles through devDependencies do not block publishing.
+ *
+ * The registry defaults to the `npm_config_registry` environment variable,
+ * which npm sets from `.npmrc` when running scripts, then to the public npm
+ * registry. Its credentials are read from the npm configuration, see
+ * {@link getRegistryAuthorization | `getRegistryAuthorization`}.
+ *
+ * Workspaces are published with the package manager of the repository:
+ * pnpm, Yarn and Bun replace `workspace:` dependency ranges when publishing.
+ * With npm, publishing is refused while such ranges remain, since the
+ * published packages could not be installed.
+ *
+ * @param options - configuration options for publishing
+ * @param options.root - the root directory of the repository
+ * @param options.registry - the URL of the registry to publish to
+ * @param options.distTag - the dist-tag to publish with, instead of `latest` or `next` for prereleases
+ * @param options.dryRun - log the packages that would be published without publishing them
+ * @param options.verbose - enable verbose logging
+ * @returns the packages published and skipped
+ * @throws Error when publishing with npm workspaces that have `workspace:` dependency ranges
+ * @throws Error when the registry cannot be queried or a package fails to publish
+ *
+ * @example
+ * ```typescript
+ * await publishPackages({
+ *   root: '/path/to/monorepo',
+ *   registry: 'http://localhost:4873',
+ * });
+ * // { published: ['@scope/core@1.1.0', '@scope/cli@1.1.0'], skipped: ['@scope/utils@1.0.0'] }
+ * ```
+ */
+const publishPackages = async (options: {
+	root: string;
+	registry?: string;
+	distTag?: string;
+	dryRun?: boolean;
+	verbose?: boolean;
+}): Promise<PublishResult> => {
+	const { root, distTag, dryRun = false, verbose = false } = options;
+	configureLogger(verbose);
+	const registry = (
+		options.registry ||
+		process.env.npm_config_registry ||
+		DefaultRegistryUrl
+	).replace(/\/+$/, '');
+
+	const authorization = getRegistryAuthorization(root, registry);
+	const packageManager = detectPackageManager(root) ?? 'npm';
+
+	const workspaces = readWorkspaces(root);
+	// Refuse before publishing anything, so that a release is never half published
+	if (packageManager === 'npm') {
+		const ranges = Object.values(workspaces)
+			.filter((workspace) => !workspace.isPrivate)
+			.flatMap(getWorkspaceRanges);
+		if (ranges.length > 0) {
+			throw new Error(
+				`Cannot publish with npm while dependencies use the workspace: protocol (${ranges.join(', ')}); publish with pnpm, Yarn or Bun, or set "workspaceProtocol" to "resolve"`
+			);
+		}
+	}
+
+	const config = await loadConfig(root);
+	const { order } = buildDependencyGraph(
+		workspaces,
+		config.dependencyTypes.filter((dependencyType) =>
+			publishedDependencyTypes.includes(dependencyType)
+		)
+	);
+	const result: PublishResult = { published: [], skipped: [] };
+	for (const shortName of order) {
+		const workspace = workspaces[shortName];
+		if (!workspace || workspace.isPrivate) {
+			logger.debug(`Skipping private workspace ${shortName}`);
+			continue;
+		}
+		const spec = `${workspace.name}@${workspace.version}`;
+		const versions = await getPublishedVersions(
+			workspace.name,
+			registry,
+			authorization
+		);
+		if (versions.includes(workspace.version)) {
+			logger.info(`Skipping ${spec}, already published to ${registry}`);
+			result.skipped.push(spec);
+			continue;
+		}
+
+		const tag = getDistTag(workspace.version, distTag);
+		if (dryRun) {
+			logger.info(`Would publish ${spec} to ${registry} with tag ${tag}`);
+		} else {
+			publishWorkspace(workspace, registry, tag, packageManager);
+			logger.info(`Published ${spec} to ${registry} with tag ${tag}`);
+		}
+		result.published.push(spec);
+	}
+
+	if (result.published.length === 0) {
+		logger.info('No packages to publish');
+	}
+	return result;
+};
+
+export {
+	getPublishedVersions,
+	getRegistryAuthorization,
+	getDistTag,
+	publishPackages,
+};
@@ -0,0 +1,93 @@
+import { parse, rcompare, type SemVer } from 'semver';
+
+/**
+ * Escapes a string so that it matches literally in a regular expression.
+ *
+ * @param value - the string to escape
+ * @returns the escaped string
+ */
+const escapeRegExp = (value: string): string =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Formats a git tag name from a tag format.
+ *
+ * @param format - the tag format, `{version}` and `{name}` are replaced
+ * @param version - the version of the release
+ * @param name - the package name, for per-package tags
+ * @returns the tag name
+ *
+ * @example
+ * ```typescript
+ * formatTag('v{version}', '1.2.0'); // 'v1.2.0'
+ * formatTag('{name}@{version}', '1.2.0', '@scope/core'); // '@scope/core@1.2.0'
+ * ```
+ */
+const formatTag = (format: string, version: string, name = ''): string =>
+	format.replaceAll('{name}', name).replaceAll('{version}', version);
+
+/**
+ * Extracts the version of a git tag created with a tag format.
+ *
+ * @param tag - the tag name
+ * @param format - the tag format the tag should match
+ * @param name - the package name, for per-package tags
+ * @returns the version of the tag, or null when the tag does not match the format or its version is not valid semver
+ *
+ * @example
+ * ```typescript
+ * parseTag('v1.2.0', 'v{version}')?.version; // '1.2.0'
+ * parseTag('docs-2024', 'v{version}'); // null
+ * parseTag('@scope/core@1.2.0', '{name}@{version}', '@scope/ui'); // null
+ * ```
+ */
+const parseTag = (tag: string, format: string, name = ''): SemVer | null => {
+	const pattern = format
+		.split('{version}')
+		.map((part) => escapeRegExp(formatTag(part, '', name)))
+		.join('(.+)');
+	const match = new RegExp(`^${pattern}$`).exec(tag);
+	if (!match) return null;
+
+	const versions = match.slice(1);
+	// A format may repeat {version}, every occurrence must be the same
+	if (versions.some((version) => version !== versions[0])) return null;
+	return parse(versions[0]);
+};
+
+/**
+ * Finds the tag of the latest release among the given tags.
+ *
+ * Only tags matching the tag format with a valid semver version are
+ * considered, unrelated tags (e.g. `docs-2024`) are ignored. The latest
+ * release is the one with the highest version.
+ *
+ * @param tags - the tag names to search
+ * @param format - the tag format of releases
+ * @param options - the search options
+ * @param options.name - the package name, to find the latest release of a package with per-package tags
+ * @param options.stable - whether to skip prerelease versions
+ * @returns the latest release tag, or null when no tag matches
+ *
+ * @example
+ * ```typescript
+ * findLastTag(['v1.0.0', 'v1.1.0-rc.0', 'docs-2024'], 'v{version}'); // 'v1.1.0-rc.0'
+ * findLastTag(['v1.0.0', 'v1.1.0-rc.0'], 'v{version}', { stable: true }); // 'v1.0.0'
+ * ```
+ */
+const findLastTag = (
+	tags: string[],
+	format: string,
+	options: { name?: string; stable?: boolean } = {}
+): string | null => {
+	const { name, stable = false } = options;
+	const releases = tags.flatMap((tag) => {
+		const version = parseTag(tag, format, name);
+		if (!version || (stable && version.prerelease.length > 0)) return [];
+		return [{ tag, version }];
+	});
+	releases.sort((a, b) => rcompare(a.version, b.version));
+	return releases[0]?.tag ?? null;
+};
+
+export { formatTag, parseTag, findLastTag };
@@ -0,0 +1,72 @@
+import type { ChangelogTemplate } from './types.js';
+
+/**
+ * Matches `{{#name}}...{{/name}}` and `{{^name}}...{{/name}}` sections.
+ */
+const sectionPattern = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+
+/**
+ * Matches `{{name}}` placeholders.
+ */
+const placeholderPattern = /\{\{(\w+)\}\}/g;
+
+/**
+ * Renders a changelog template with the given values.
+ *
+ * String templates replace `{{name}}` with the value of `name`. The content
+ * of a `{{#name}}...{{/name}}` section is only rendered when the value is
+ * truthy, and the content of a `{{^name}}...{{/name}}` section only when it
+ * is falsy. Function templates are called with the values.
+ *
+ * @param template - the template to render
+ * @param context - the values available to the template
+ * @returns the rendered template
+ *
+ * @example
+ * ```typescript
+ * renderTemplate('{{#scope}}**{{scope}}:** {{/scope}}{{subject}}', {
+ *   scope: 'core',
+ *   subject: 'add feature',
+ * });
+ * // Returns: "**core:** add feature"
+ * ```
+ */
+const renderTemplate = <Context extends object>(
+	template: ChangelogTemplate<Context>,
+	context: Context
+): string => {
+	if (typeof template === 'function') {
+		return template(context);
+	}
+	const values = context as Record<string, unknown>;
+	return template
+		.replace(
+			sectionPattern,
+			(_, kind: string, name: string, content: string) =>
+				Boolean(values[name]) === (kind === '#')
+					? renderTemplate(content, context)
+					: ''
+		)
+		.replace(placeholderPattern, (_, name: string) =>
+			String(values[name] ?? '')
+		);
+};
+
+/**
+ * Lists the placeholders of a string template that are not available to it.
+ *
+ * @param template - the string template to check
+ * @param variables - the names of the available placeholders
+ * @returns the unknown placeholder names, in order of appearance
+ */
+const getUnknownPlaceholders = (
+	template: string,
+	variables: string[]
+): string[] => {
+	const names = [...template.matchAll(/\{\{[#^/]?(\w+)\}\}/g)].map(
+		([, name]) => name as string
+	);
+	return [...new Set(names)].filter((name) => !variables.includes(name));
+};
+
+export { renderTemplate, getUnknownPlaceholders };
@@ -1,4 +1,22 @@
-import type { ChangeTypeMapping } from './constants.js';
+/**
+ * Author or co-author of a commit.
+ */
+type CommitAuthor = {
+	/** The name of the author */
+	name: string;
+	/** The email address of the author */
+	email: string;
+};
+
+/**
+ * Reference to an issue or pull request, e.g. `#12` or `owner/repo#12`.
+ */
+type CommitReference = {
+	/** The number of the issue or pull request */
+	number: number;
+	/** The `owner/repo` of cross-repository references, absent for the current repository */
+	repository?: string;
+};
 
 /**
  * Raw commit data as retrieved from git log.
@@ -10,12 +28,20 @@ type RawCommit = {
 	subject: string | undefined;
 	/** The commit body/description */
 	body: string;
+	/** The paths of the files changed by the commit, when retrieved with the commit */
+	files?: string[];
+	/** The author of the commit, when retrieved with the commit */
+	author?: CommitAuthor;
+	/** The author date of the commit in strict ISO 8601 format, when retrieved with the commit */
+	date?: string;
 };
 
 /**
- * Valid commit types based on conventional commits.
+ * Commit type based on conventional commits.
+ *
+ * Valid types are the keys of the configured `changeTypes` mapping.
  */
-type CommitType = keyof typeof ChangeTypeMapping;
+type CommitType = string;
 
 /**
  * Parsed conventional commit with extracted metadata.
@@ -33,6 +59,22 @@ type ParsedCommit = {
 	notes: { title: string; text: string }[];
 	/** The commit hash (optional) */
 	hash?: string;
+	/** Explicit version bump overriding the type mapping, used by synthetic entries (optional) */
+	bump?: BumpType;
+	/** The author of the commit (optional) */
+	author?: CommitAuthor;
+	/** The author date of the commit in strict ISO 8601 format (optional) */
+	date?: string;
+	/** The co-authors listed in `Co-authored-by` trailers (optional) */
+	coAuthors?: CommitAuthor[];
+	/** The authors and co-authors contributing for the first time with this commit (optional) */
+	newContributors?: CommitAuthor[];
+	/** The pull request of a squash merge, from the trailing `(#1234)` of the subject (optional) */
+	pr?: CommitReference;
+	/** The issues closed by the commit with `Fixes`, `Closes` or `Resolves` in its body (optional) */
+	closes?: CommitReference[];
+	/** The issue tracker keys referenced in the subject or body (optional) */
+	issueKeys?: string[];
 };
 
 /**
@@ -53,10 +95,73 @@ type Workspace = {
 	commits: ParsedCommit[];
 	/** Names of dependencies this workspace depends on */
 	dependencyNames: string[];
+	/** Names of the packages of each dependency field of the package.json, keyed by field (e.g. `peerDependencies`) */
+	dependenciesByType: Record<string, string[]>;
 	/** Whether this is a private package */
 	isPrivate: boolean;
 };
 
+/**
+ * Dependency graph between the workspaces of a repository.
+ */
+type DependencyGraph = {
+	/** Short names of the workspaces each workspace depends on, keyed by short name */
+	dependencies: Map<string, string[]>;
+	/** Short names of the workspaces depending on each workspace, keyed by short name */
+	dependents: Map<string, string[]>;
+	/** Workspace short names sorted so that dependencies come before their dependents */
+	order: string[];
+};
+
+/**
+ * Package managers whose lockfiles are supported.
+ */
+type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+/**
+ * Information passed to lockfile updaters about the bumped workspaces.
+ */
+type LockfileUpdateContext = {
+	/** Paths of the updated workspaces relative to the repository root, `.` for the root */
+	workspacePaths: Set<string>;
+	/** New versions of the updated workspaces keyed by package name */
+	versions: Record<string, string>;
+	/** Computes the new range of an intra-project dependency, or null to leave it untouched */
+	updateRange: (dependencyName: string, currentRange: string) => string | null;
+	/** Dependency fields updated in the package.json files */
+	dependencyTypes: string[];
+};
+
+/**
+ * Updates the workspace entries of the lockfile of a package manager.
+ */
+type LockfileUpdater = {
+	/** The lockfile name in the repository root */
+	fileName: string;
+	/** Returns the updated lockfile content, or null if nothing changed */
+	update: (content: string, context: LockfileUpdateContext) => string | null;
+};
+
+/**
+ * Attributes a commit, identified by its hash and scope, to the workspaces it affects.
+ */
+type CommitAttributor = (
+	commit: { hash?: string; scope?: string | null; files?: string[] },
+	workspaces: Record<string, Workspace>,
+	rootPath: string,
+	config: Config
+) => Workspace[];
+
+/**
+ * New version and comparison link of a workspace released independently.
+ */
+type WorkspaceRelease = {
+	/** The new version of the workspace */
+	version: string;
+	/** The URL linking to the version comparison or release */
+	versionLink: string;
+};
+
 /**
  * Semantic version bump types.
  */
@@ -82,13 +187,473 @@ type ChangelogSections = {
 	workspaceSections: SectionsByWorkspace;
 };
 
+/**
+ * Commit listed in a release plan.
+ */
+type ReleasePlanCommit = {
+	/** The commit hash, absent for synthetic entries such as dependency updates */
+	hash?: string;
+	/** The commit subject/title */
+	subject: string;
+	/** The conventional commit type */
+	type: CommitType;
+	/** The scope of the change */
+	scope: string;
+	/** Whether this is a breaking change */
+	breaking: boolean;
+	/** Names of the workspaces the commit belongs to */
+	workspaces: string[];
+	/** The pull request of a squash merge */
+	pr?: CommitReference;
+	/** The issues closed by the commit */
+	closes?: CommitReference[];
+	/** The issue tracker keys referenced by the commit */
+	issueKeys?: string[];
+};
+
+/**
+ * Workspace listed in a release plan.
+ */
+type ReleasePlanWorkspace = {
+	/** The full package name */
+	name: string;
+	/** The file system path to the workspace */
+	path: string;
+	/** Whether this is a private package */
+	private: boolean;
+	/** Whether this workspace has changes */
+	changed: boolean;
+	/** The version bump triggered by the workspace changes, null when unchanged */
+	bump: BumpType | null;
+	/** The current version of the package */
+	currentVersion: string;
+	/** The version the package is released with, null when it is not released */
+	newVersion: string | null;
+};
+
+/**
+ * Machine-readable description of a release, printed by `--json`.
+ */
+type ReleasePlan = {
+	/** Whether the release was planned without writing any file */
+	dryRun: boolean;
+	/** Whether each changed workspace is versioned independently */
+	independent: boolean;
+	/** The last release tag, null when the repository has none or in independent mode where each workspace has its own */
+	lastTag: string | null;
+	/** The version bump applied to all packages, null in independent mode or when nothing is released */
+	bump: BumpType | null;
+	/** The version shared by all packages, null in independent mode or when nothing is released */
+	newVersion: string | null;
+	/** The new version of each released package keyed by package name */
+	newVersions: Record<string, string>;
+	/** The commits included in the release */
+	commits: ReleasePlanCommit[];
+	/** All workspaces of the repository */
+	workspaces: ReleasePlanWorkspace[];
+	/** The paths of the files written by the release */
+	files: string[];
+	/** The changelog entry of the release */
+	changelog: string;
+	/** The issue tracker keys referenced by the commits of the release */
+	issueKeys: string[];
+};
+
+/**
+ * A file written by the release, recorded in a change set before being applied.
+ */
+type FileChange = {
+	/** The absolute path of the file */
+	path: string;
+	/** The content of the file before the release, null when the file is created */
+	original: string | null;
+	/** The content of the file after the release */
+	content: string;
+};
+
+/**
+ * A line of a diff between two files.
+ */
+type DiffLine = {
+	/** Whether the line is unchanged (` `), removed (`-`) or added (`+`) */
+	type: ' ' | '-' | '+';
+	/** The content of the line, without line break */
+	line: string;
+};
+
+/**
+ * Issue tracker whose keys are linked in changelogs (e.g. Jira or Linear).
+ */
+type IssueTracker = {
+	/** Regular expression matching the issue keys as whole words (e.g. `[A-Z]+-\d+`) */
+	pattern: string;
+	/** URL of an issue, where `{key}` is replaced with the issue key */
+	url: string;
+};
+
+/**
+ * Forges whose URL shapes changelog links can follow.
+ */
+type LinkStyle = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'azure';
+
+/**
+ * Builds the web URLs of a repository on a forge.
+ */
+type RepositoryLinks = {
+	/** Returns the URL of an issue, of another repository on the same host when given (e.g. `owner/repo`) */
+	issue: (number: number, repository?: string) => string;
+	/** Returns the URL of a pull (or merge) request, of another repository on the same host when given */
+	pullRequest: (number: number, repository?: string) => string;
+	/** Returns the URL of a commit */
+	commit: (hash: string) => string;
+	/** Returns the URL comparing two refs */
+	compare: (from: string, to: string) => string;
+	/** Returns the URL of the release of a tag */
+	release: (tag: string) => string;
+};
+
+/**
+ * Forges whose release API can be used to create releases.
+ */
+type Forge = 'github' | 'gitlab' | 'gitea';
+
+/**
+ * A release to create on a forge for a release tag.
+ */
+type ForgeRelease = {
+	/** The name of the release tag, also used as release name */
+	tag: string;
+	/** The released version, prerelease versions are marked as prereleases */
+	version: string;
+	/** The release notes as Markdown */
+	notes: string;
+};
+
+/**
+ * Connection settings of the forge API client.
+ */
+type ForgeClientOptions = {
+	/** The forge hosting the repository */
+	forge: Forge;
+	/** The base URL of the forge API, without trailing slash */
+	apiUrl: string;
+	/** The path of the repository on the forge (e.g. `owner/repo`) */
+	repository: string;
+	/** The token authenticating API requests */
+	token: string;
+};
+
+/**
+ * A release as returned by a forge API.
+ */
+type ForgeReleaseData = {
+	/** The identifier used to update the release */
+	id: string;
+	/** The name of the release */
+	name: string;
+	/** The release notes */
+	notes: string;
+	/** Whether the release is marked as prerelease, undefined when the forge has no such flag */
+	prerelease?: boolean;
+	/** The URL of the release page */
+	url: string;
+};
+
+/**
+ * Maps releases to and from the release API of a forge.
+ */
+type ForgeApi = {
+	/** Environment variables searched, in order, for the API token */
+	tokenVariables: string[];
+	/** Returns the API base URL of a forge instance from its web URL (e.g. `https://gitlab.com`) */
+	defaultApiUrl: (origin: string) => string;
+	/** Returns the headers authenticating a request */
+	headers: (token: string) => Record<string, string>;
+	/** Returns the path of the release of a tag */
+	releasePath: (repository: string, tag: string) => string;
+	/** Returns the path releases are created at */
+	createPath: (repository: string) => string;
+	/** Returns the method and path updating an existing release */
+	updateRequest: (
+		repository: string,
+		release: ForgeReleaseData
+	) => { method: 'PATCH' | 'PUT'; path: string };
+	/** Returns the request body creating or updating a release */
+	toPayload: (
+		release: ForgeRelease,
+		prerelease: boolean
+	) => Record<string, unknown>;
+	/** Reads a release from a response body */
+	fromResponse: (data: Record<string, unknown>) => ForgeReleaseData;
+};
+
+/**
+ * Outcome of publishing a release on a forge.
+ */
+type ForgeReleaseResult = {
+	/** Whether the release was created, updated, or already up to date */
+	action: 'created' | 'updated' | 'unchanged';
+	/** The URL of the release page */
+	url: string;
+};
+
+/**
+ * A step of the release, run on its own by the `changelog` and `version` commands.
+ */
+type ReleaseStep = 'changelog' | 'version';
+
+/**
+ * Outcome of publishing the workspaces of a repository to an npm registry.
+ */
+type PublishResult = {
+	/** The `name@version` of the packages published, in publish order */
+	published: string[];
+	/** The `name@version` of the packages skipped because they are already on the registry */
+	skipped: string[];
+};
+
+/**
+ * Outcome of linting a commit message.
+ */
+type CommitLintResult = {
+	/** The first line of the message */
+	header: string;
+	/** The hash of the commit, when linting a commit range */
+	hash?: string;
+	/** The problems found, empty when the message is valid */
+	problems: string[];
+};
+
+/**
+ * Values available to the changelog version header template.
+ */
+type VersionHeaderContext = {
+	/** The released version, `<name>@<version>` for packages released independently */
+	version: string;
+	/** The URL linking to the version comparison or release */
+	versionLink: string;
+	/** The release date as `YYYY-MM-DD` */
+	date: string;
+};
+
+/**
+ * Values available to the changelog section header template.
+ */
+type SectionHeaderContext = {
+	/** The section header configured for the commit type */
+	title: string;
+};
+
+/**
+ * Values available to the changelog entry template.
+ */
+type ChangelogEntryContext = {
+	/** The commit subject, with issue references linked */
+	subject: string;
+	/** The conventional commit type */
+	type: string;
+	/** The scope of the change */
+	scope: string;
+	/** Whether this is a breaking change */
+	breaking: boolean;
+	/** The commit hash, empty for synthetic entries such as dependency updates */
+	hash: string;
+	/** The abbreviated commit hash */
+	shortHash: string;
+	/** The URL of the commit, empty without commit hash or repository URL */
+	commitUrl: string;
+	/** The full name of the package the entry belongs to */
+	package: string;
+	/** The short name of the workspace, only set in the root changelog of monorepos */
+	workspace: string;
+	/** The author and co-authors as GitHub handles or names, only set when `creditAuthors` is enabled */
+	authors: string;
+	/** The author date of the commit (`YYYY-MM-DD`), empty for synthetic entries */
+	date: string;
+	/** The pull request of a squash merge, linked when the repository URL is known */
+	pr: string;
+	/** The URL of the pull request, empty without pull request or repository URL */
+	prUrl: string;
+	/** The issues closed by the commit, linked and comma-separated */
+	closes: string;
+};
+
+/**
+ * Values available to the template of first-time contributors.
+ */
+type ContributorContext = {
+	/** The GitHub handle of the contributor (e.g. `@octocat`), or their name */
+	contributor: string;
+	/** The name of the contributor */
+	name: string;
+	/** The email address of the contributor */
+	email: string;
+	/** The hash of the first commit of the contributor */
+	hash: string;
+	/** The abbreviated commit hash */
+	shortHash: string;
+	/** The URL of the commit, empty without repository URL */
+	commitUrl: string;
+};
+
+/**
+ * Values available to the breaking change template, one per breaking change note.
+ */
+type BreakingChangeContext = ChangelogEntryContext & {
+	/** The text of the note, the commit subject when the commit has none; lines after the first are indented to stay in a list item */
+	note: string;
+};
+
+/**
+ * Values available to the template of workspaces released without changes of their own.
+ */
+type VersionBumpOnlyContext = {
+	/** The released version */
+	version: string;
+};
+
+/**
+ * A changelog template: a string with `{{placeholder}}` values and
+ * `{{#placeholder}}...{{/placeholder}}` sections, or a render function.
+ */
+type ChangelogTemplate<Context> = string | ((context: Context) => string);
+
+/**
+ * Templates rendering the Markdown of changelog entries.
+ */
+type ChangelogTemplates = {
+	/** Heading of a release, followed by a blank line */
+	versionHeader: ChangelogTemplate<VersionHeaderContext>;
+	/** Heading of the section of a commit type, followed by a blank line */
+	sectionHeader: ChangelogTemplate<SectionHeaderContext>;
+	/** A line listing a change */
+	entry: ChangelogTemplate<ChangelogEntryContext>;
+	/** Note of workspace changelogs for releases without changes of the workspace, followed by a blank line */
+	versionBumpOnly: ChangelogTemplate<VersionBumpOnlyContext>;
+	/** A line listing a breaking change with its note */
+	breakingChange: ChangelogTemplate<BreakingChangeContext>;
+	/** A line listing a first-time contributor */
+	contributor: ChangelogTemplate<ContributorContext>;
+};
+
+/**
+ * Release commit detection settings.
+ */
+type VersionBumpCommit = {
+	/** The conventional commit type of release commits */
+	type: string;
+	/** The subject prefix of release commits */
+	subjectPrefix: string;
+};
+
+/**
+ * Resolved bump-n-go configuration.
+ *
+ * Loaded from a `bump-n-go.config.*` file or the `bumpNGo` key of the root
+ * package.json and merged with the defaults.
+ */
+type Config = {
+	/** Maps commit types to the version bump they trigger */
+	changeTypes: Record<string, BumpType>;
+	/** Maps commit types to their changelog section header */
+	changeTypeHeaders: Record<string, string>;
+	/** Commit types excluded from version bumps and changelogs */
+	skippedTypes: string[];
+	/** Release commits excluded from version bumps and changelogs */
+	versionBumpCommit: VersionBumpCommit;
+	/** Template of the release commit message, `{version}` is replaced with the new version */
+	releaseCommitMessage: string;
+	/** Git tag name of releases, `{version}` is replaced with the version */
+	tagFormat: string;
+	/** Git tag name of workspace releases in independent mode, `{name}` is replaced with the package name */
+	packageTagFormat: string;
+	/** File name of root and workspace changelogs */
+	changelogFile: string;
+	/** Dependency fields updated when bumping intra-project dependencies */
+	dependencyTypes: string[];
+	/** Whether each changed workspace is versioned independently */
+	independent: boolean;
+	/** Version bump applied to workspaces whose workspace dependencies are released, or `none` to disable propagation */
+	dependencyPropagationBump: BumpType | 'none';
+	/** Whether `workspace:` protocol aliases (`workspace:^`) are kept or resolved to concrete ranges */
+	workspaceProtocol: 'keep' | 'resolve';
+	/** Whether commits are attributed to workspaces by their scope or by the paths of the files they changed */
+	commitAttribution: 'scope' | 'path';
+	/** Whether a scope matching a workspace takes precedence over changed paths, instead of being a fallback */
+	scopeOverride: boolean;
+	/** Maps commit scopes to the short names of the workspaces they refer to */
+	scopeAliases: Record<string, string | string[]>;
+	/** Changelog section headers in the order sections are listed, unlisted sections come last */
+	sectionOrder: string[];
+	/** Templates rendering changelog headers and entries */
+	changelogTemplates: ChangelogTemplates;
+	/** The forge releases are created on */
+	forge: Forge;
+	/** The base URL of the forge API, empty to derive it from the repository URL */
+	forgeApiUrl: string;
+	/** The forge whose URL shapes changelog links follow, `auto` to detect it from the repository URL */
+	linkStyle: LinkStyle | 'auto';
+	/** Issue trackers whose keys are linked in changelog entries and breaking change notes */
+	issueTrackers: IssueTracker[];
+	/** Whether changelog entries credit the author and co-authors of their commit */
+	creditAuthors: boolean;
+	/** Whether changelogs list the first-time contributors of the release */
+	newContributors: boolean;
+	/** Maps author email addresses to GitHub handles, without `@` */
+	authorHandles: Record<string, string>;
+};
+
+/**
+ * User-provided configuration, merged with the defaults to form a {@link Config}.
+ */
+type UserConfig = Partial<Omit<Config, 'changelogTemplates'>> & {
+	/** Templates rendering changelog headers and entries, merged with the defaults */
+	changelogTemplates?: Partial<ChangelogTemplates>;
+};
+
 export type {
+	Config,
+	UserConfig,
+	VersionBumpCommit,
+	CommitAuthor,
+	CommitReference,
 	RawCommit,
 	ParsedCommit,
 	Workspace,
+	DependencyGraph,
+	PackageManager,
+	LockfileUpdateContext,
+	LockfileUpdater,
+	CommitAttributor,
+	WorkspaceRelease,
+	Forge,
+	IssueTracker,
+	LinkStyle,
+	RepositoryLinks,
+	ForgeRelease,
+	ForgeClientOptions,
+	ForgeReleaseData,
+	ForgeApi,
+	ForgeReleaseResult,
+	PublishResult,
+	CommitLintResult,
+	ReleaseStep,
 	CommitType,
 	BumpType,
 	SectionsByType,
 	SectionsByWorkspace,
 	ChangelogSections,
+	ReleasePlan,
+	ReleasePlanCommit,
+	ReleasePlanWorkspace,
+	FileChange,
+	DiffLine,
+	ChangelogTemplate,
+	ChangelogTemplates,
+	VersionHeaderContext,
+	SectionHeaderContext,
+	ChangelogEntryContext,
+	BreakingChangeContext,
+	ContributorContext,
+	VersionBumpOnlyContext,
 };
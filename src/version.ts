@@ -1,6 +1,9 @@
-import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { existsSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
-import type { Workspace } from './types.js';
+import { writeFile } from './changes.js';
+import { DefaultConfig } from './constants.js';
+import { updateLockfile } from './lockfile.js';
+import type { Config, Workspace } from './types.js';
 
 /**
  * Detects the indentation style and trailing newline from original file content.
@@ -64,25 +67,80 @@ const preserveVersionRange = (
 	return `${operator}${newVersion}`;
 };
 
+/**
+ * Computes the new range of an intra-project dependency.
+ *
+ * Regular ranges keep their operator. With the `workspace:` protocol, the
+ * `workspace:*`, `workspace:^` and `workspace:~` aliases always follow the
+ * workspace version and are left untouched unless `workspaceProtocol` is set
+ * to `resolve`, in which case they are replaced with the concrete range that
+ * pnpm would publish. Local file references are never changed.
+ *
+ * @param currentRange - the current dependency range
+ * @param newVersion - the new version of the dependency
+ * @param config - the resolved configuration with the `workspace:` protocol handling
+ * @returns the new range, or null if the range must be left untouched
+ *
+ * @example
+ * ```typescript
+ * updateDependencyRange('^1.0.0', '2.1.0'); // '^2.1.0'
+ * updateDependencyRange('workspace:^', '2.1.0'); // null
+ * updateDependencyRange('workspace:^1.0.0', '2.1.0'); // 'workspace:^2.1.0'
+ * updateDependencyRange('workspace:^', '2.1.0', { ...config, workspaceProtocol: 'resolve' }); // '^2.1.0'
+ * ```
+ */
+const updateDependencyRange = (
+	currentRange: string,
+	newVersion: string,
+	config: Config = DefaultConfig
+): string | null => {
+	// Skip file: dependencies (local file references)
+	if (currentRange.startsWith('file:')) {
+		return null;
+	}
+
+	if (!currentRange.startsWith('workspace:')) {
+		return preserveVersionRange(currentRange, newVersion);
+	}
+
+	const workspaceRange = currentRange.slice('workspace:'.length);
+	const isAlias = ['*', '^', '~'].includes(workspaceRange);
+	if (config.workspaceProtocol === 'resolve') {
+		return isAlias
+			? `${workspaceRange === '*' ? '' : workspaceRange}${newVersion}`
+			: preserveVersionRange(workspaceRange, newVersion);
+	}
+	return isAlias
+		? null
+		: `workspace:${preserveVersionRange(workspaceRange, newVersion)}`;
+};
+
 /**
  * Updates a workspace's package.json file with new version and dependency versions.
  *
  * Updates the package version and any intra-project dependencies to maintain
- * consistency across the repository. Preserves version range operators and
- * skips local file references. Works for both monorepo workspaces and
- * single-package repositories.
+ * consistency across the repository. Preserves version range operators,
+ * handles the `workspace:` protocol and skips local file references, see
+ * {@link updateDependencyRange | `updateDependencyRange`}. Works for both
+ * monorepo workspaces and single-package repositories.
  *
  * @param workspace - the workspace to update
  * @param newVersion - the new version to set
  * @param allWorkspaces - record of all workspaces for dependency resolution
+ * @param dependencyVersions - optional new versions keyed by package name to use
+ *   for intra-project dependencies; defaults to `newVersion` for every workspace
+ * @param config - the resolved configuration with the dependency fields to update and the `workspace:` protocol handling
+ * @returns the path of the updated package.json, or null if it doesn't exist
  */
 const updateWorkspacePackageJson = (
 	workspace: Workspace,
 	newVersion: string,
-	allWorkspaces: Record<string, Workspace>
-): void => {
+	allWorkspaces: Record<string, Workspace>,
+	dependencyVersions?: Record<string, string>,
+	config: Config = DefaultConfig
+): string | null => {
 	const pkgPath = join(workspace.path, 'package.json');
-	if (!existsSync(pkgPath)) return;
+	if (!existsSync(pkgPath)) return null;
 
 	const originalContent = readFileSync(pkgPath, 'utf-8');
 	const pkg = JSON.parse(originalContent);
@@ -94,31 +152,33 @@ const updateWorkspacePackageJson = (
 	pkg.version = newVersion;
 
 	// Update intra-project dependencies
-	const dependencyTypes = [
-		'dependencies',
-		'devDependencies',
-		'peerDependencies',
-	] as const;
-
-	for (const depType of dependencyTypes) {
+	for (const depType of config.dependencyTypes) {
 		if (!pkg[depType]) continue;
 
 		for (const [depName, currentRange] of Object.entries(pkg[depType])) {
-			// Skip file: dependencies (local file references)
-			if (
-				typeof currentRange === 'string' &&
-				currentRange.startsWith('file:')
-			) {
-				continue;
-			}
-
 			// Check if this dependency is one of our workspace packages
 			const matchingWorkspace = Object.values(allWorkspaces).find(
 				(ws) => ws.name === depName
 			);
 
-			if (matchingWorkspace && typeof currentRange === 'string') {
-				pkg[depType][depName] = preserveVersionRange(currentRange, newVersion);
+			// When explicit versions are provided, only update the listed packages
+			const dependencyVersion = dependencyVersions
+				? dependencyVersions[depName]
+				: newVersion;
+
+			if (
+				matchingWorkspace &&
+				dependencyVersion &&
+				typeof currentRange === 'string'
+			) {
+				const newRange = updateDependencyRange(
+					currentRange,
+					dependencyVersion,
+					config
+				);
+				if (newRange !== null) {
+					pkg[depType][depName] = newRange;
+				}
 			}
 		}
 	}
@@ -126,95 +186,94 @@ const updateWorkspacePackageJson = (
 	// Write back with preserved formatting
 	const jsonContent = JSON.stringify(pkg, null, indent);
 	const finalContent = hasTrailingNewline ? `${jsonContent}\n` : jsonContent;
-	writeFileSync(pkgPath, finalContent, 'utf-8');
-};
-
-/**
- * Updates the package-lock.json file with new workspace versions.
- *
- * Scans the lockfile for workspace packages and updates their version
- * references to maintain consistency with the new version.
- *
- * @param rootPath - the root path of the monorepo
- * @param newVersion - the new version to set
- * @param allWorkspaces - record of all workspaces for name resolution
- */
-const updatePackageLock = (
-	rootPath: string,
-	newVersion: string,
-	allWorkspaces: Record<string, Workspace>
-): void => {
-	const lockPath = join(rootPath, 'package-lock.json');
-	if (!existsSync(lockPath)) return;
-
-	const lockfile = JSON.parse(readFileSync(lockPath, 'utf-8'));
-	let updated = false;
-
-	// Create a set of workspace names for faster lookup
-	const workspaceNames = new Set(
-		Object.values(allWorkspaces).map((ws) => ws.name)
-	);
-
-	// Update package references in the lockfile
-	if (lockfile.packages) {
-		for (const [pkgPath, pkgInfo] of Object.entries(lockfile.packages)) {
-			if (typeof pkgInfo !== 'object' || !pkgInfo || !('name' in pkgInfo))
-				continue;
-
-			const packageName = (pkgInfo as { name: string }).name;
-
-			// Skip root package (empty string path)
-			if (pkgPath === '') continue;
-
-			// Check if this package is one of our workspaces by name
-			if (workspaceNames.has(packageName) && 'version' in pkgInfo) {
-				(pkgInfo as { version: string }).version = newVersion;
-				updated = true;
-			}
-		}
-	}
-
-	// Only write if we made updates
-	if (updated) {
-		writeFileSync(lockPath, `${JSON.stringify(lockfile, null, 2)}\n`, 'utf-8');
-	}
+	writeFile(pkgPath, finalContent);
+	return pkgPath;
 };
 
 /**
  * Bumps versions across all workspace packages and updates the lockfile.
  *
  * Orchestrates the version update process by updating all workspace
- * package.json files and the root package-lock.json file to maintain
- * consistency across the repository. Works for both monorepos and
+ * package.json files and the lockfile of the detected package manager (npm,
+ * pnpm, Yarn Berry or Bun) to maintain consistency across the repository. Works for both monorepos and
  * single-package repositories.
  *
+ * In independent mode, `newVersion` is a record of new versions keyed by
+ * workspace short name: only the listed workspaces are written, and
+ * intra-project dependencies on them are updated to their own new version.
+ *
  * @param rootPath - the root path of the repository
  * @param workspaces - record of all workspaces to update
- * @param newVersion - the new version to set across all packages
+ * @param newVersion - the new version to set across all packages, or new versions keyed by workspace short name
+ * @param config - the resolved configuration with the dependency fields to update and the `workspace:` protocol handling
+ * @returns the paths of all package.json files and lockfiles written
  *
  * @example
  * ```typescript
  * bumpVersions('/path/to/repo', workspaces, '2.1.0');
+ *
+ * // Independent versioning
+ * bumpVersions('/path/to/repo', workspaces, { core: '2.1.0', utils: '1.0.4' });
  * ```
  */
 const bumpVersions = (
 	rootPath: string,
 	workspaces: Record<string, Workspace>,
-	newVersion: string
-): void => {
-	// Update all workspace package.json files
-	for (const workspace of Object.values(workspaces)) {
-		updateWorkspacePackageJson(workspace, newVersion, workspaces);
+	newVersion: string | Record<string, string>,
+	config: Config = DefaultConfig
+): string[] => {
+	const writtenFiles: (string | null)[] = [];
+
+	// Map new versions to package names for dependency and lockfile resolution
+	const updatedWorkspaces = Object.values(workspaces).filter(
+		(workspace) =>
+			typeof newVersion === 'string' || newVersion[workspace.shortName]
+	);
+	const packageVersions: Record<string, string> = Object.fromEntries(
+		updatedWorkspaces.map((workspace) => [
+			workspace.name,
+			typeof newVersion === 'string'
+				? newVersion
+				: (newVersion[workspace.shortName] as string),
+		])
+	);
+
+	// Update only the package.json files of released workspaces
+	for (const workspace of updatedWorkspaces) {
+		writtenFiles.push(
+			updateWorkspacePackageJson(
+				workspace,
+				packageVersions[workspace.name] as string,
+				workspaces,
+				// In fixed mode every intra-project dependency gets the new version
+				typeof newVersion === 'string' ? undefined : packageVersions,
+				config
+			)
+		);
 	}
 
-	// Update package-lock.json
-	updatePackageLock(rootPath, newVersion, workspaces);
+	// Update the lockfile of the detected package manager
+	writtenFiles.push(
+		updateLockfile(
+			rootPath,
+			updatedWorkspaces,
+			packageVersions,
+			(dependencyName, currentRange) => {
+				const dependencyVersion = packageVersions[dependencyName];
+				return dependencyVersion
+					? updateDependencyRange(currentRange, dependencyVersion, config)
+					: null;
+			},
+			config.dependencyTypes
+		)
+	);
+	return writtenFiles.filter((file) => file !== null);
 };
 
 export {
 	bumpVersions,
 	detectFormatting,
 	preserveVersionRange,
+	updateDependencyRange,
 	updateWorkspacePackageJson,
-	updatePackageLock,
 };
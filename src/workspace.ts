@@ -3,12 +3,112 @@ import { join } from 'node:path';
 import type { Workspace } from './types.js';
 
 /**
- * Reads and parses all workspaces defined in the root package.json.
+ * Lists the packages of each dependency field of a package.json.
  *
- * Discovers workspaces using npm workspaces configuration, reads each
- * workspace's package.json, and extracts relevant metadata including
- * dependencies, version, and privacy settings. If no workspaces are
- * defined, treats the root package as a single workspace.
+ * @param pkg - the parsed package.json
+ * @returns the package names keyed by dependency field (e.g. `peerDependencies`)
+ *
+ * @example
+ * ```typescript
+ * getDependenciesByType({ dependencies: { '@scope/core': '^1.0.0' }, devDependencies: { vitest: '^3.0.0' } });
+ * // Returns: { dependencies: ['@scope/core'], devDependencies: ['vitest'] }
+ * ```
+ */
+const getDependenciesByType = (
+	pkg: Record<string, unknown>
+): Record<string, string[]> =>
+	Object.fromEntries(
+		Object.entries(pkg)
+			.filter(
+				([field, value]) =>
+					/^(d|\w+D)ependencies$/.test(field) &&
+					typeof value === 'object' &&
+					value !== null &&
+					!Array.isArray(value)
+			)
+			.map(([field, value]) => [field, Object.keys(value as object)])
+	);
+
+/**
+ * Parses the package patterns of a pnpm-workspace.yaml file.
+ *
+ * Supports both the block (`- 'packages/*'`) and flow (`['packages/*']`)
+ * sequence styles of the `packages` key; other keys are ignored.
+ *
+ * @param content - the content of the pnpm-workspace.yaml file
+ * @returns the package patterns, including `!` negation patterns
+ *
+ * @example
+ * ```typescript
+ * parsePnpmWorkspacePatterns("packages:\n  - 'packages/*'\n  - '!packages/internal'\n");
+ * // Returns: ['packages/*', '!packages/internal']
+ * ```
+ */
+const parsePnpmWorkspacePatterns = (content: string): string[] => {
+	const unquote = (value: string): string =>
+		value.trim().replace(/^(['"])(.*)\1$/, '$2');
+	const patterns: string[] = [];
+	let inPackages = false;
+
+	for (const line of content.split('\n')) {
+		const trimmed = line.replace(/\s+#.*$/, '').trim();
+		if (trimmed === '' || trimmed.startsWith('#')) continue;
+
+		// Top-level keys start a new section
+		if (!/^\s/.test(line) && !trimmed.startsWith('-')) {
+			const flowMatch = trimmed.match(/^packages:\s*\[(.*)\]$/);
+			if (flowMatch?.[1]) {
+				patterns.push(...flowMatch[1].split(',').map(unquote).filter(Boolean));
+			}
+			inPackages = trimmed === 'packages:';
+			continue;
+		}
+
+		if (inPackages && trimmed.startsWith('-')) {
+			patterns.push(unquote(trimmed.slice(1)));
+		}
+	}
+
+	return patterns;
+};
+
+/**
+ * Reads the workspace patterns of a repository.
+ *
+ * Uses the `workspaces` field of the root package.json (array or object
+ * format) and falls back to the `packages` of a pnpm-workspace.yaml file.
+ *
+ * @param root - the root directory of the repository
+ * @param rootPkg - the parsed root package.json
+ * @returns the workspace patterns, including `!` negation patterns
+ */
+const readWorkspacePatterns = (
+	root: string,
+	rootPkg: { workspaces?: string[] | { packages?: string[] } }
+): string[] => {
+	const workspaces = rootPkg.workspaces || [];
+
+	// Handle both array format and object format for workspaces
+	if (Array.isArray(workspaces)) {
+		if (workspaces.length > 0) return workspaces;
+	} else if (workspaces.packages) {
+		return workspaces.packages;
+	}
+
+	const pnpmWorkspacePath = join(root, 'pnpm-workspace.yaml');
+	if (!existsSync(pnpmWorkspacePath)) return [];
+	return parsePnpmWorkspacePatterns(readFileSync(pnpmWorkspacePath, 'utf-8'));
+};
+
+/**
+ * Reads and parses all workspaces defined in the repository.
+ *
+ * Discovers workspaces using npm workspaces configuration or, when the root
+ * package.json defines none, a pnpm-workspace.yaml file. Directories matching
+ * a `!` negation pattern are excluded. Reads each workspace's package.json,
+ * and extracts relevant metadata including dependencies, version, and
+ * privacy settings. If no workspaces are defined, treats the root package as
+ * a single workspace.
  *
  * @param root - the root directory of the monorepo or single-package repo
  * @returns record of workspace data keyed by short name
@@ -24,20 +124,19 @@ const readWorkspaces = (root: string): Record<string, Workspace> => {
 	const rootPkgPath = join(root, 'package.json');
 	const rootPkg = JSON.parse(readFileSync(rootPkgPath, 'utf-8'));
 
-	const workspaces = rootPkg.workspaces || [];
-	let patterns: string[] = [];
-
-	// Handle both array format and object format for workspaces
-	if (Array.isArray(workspaces)) {
-		patterns = workspaces;
-	} else if (workspaces.packages) {
-		patterns = workspaces.packages;
-	}
+	const patterns = readWorkspacePatterns(root, rootPkg);
 
 	const packageDirs: string[] = [];
+	const excludedDirs = new Set<string>();
 
 	// Find all matching package directories using glob patterns
 	for (const pattern of patterns) {
+		if (pattern.startsWith('!')) {
+			for (const match of globSync(pattern.slice(1), { cwd: root })) {
+				excludedDirs.add(match);
+			}
+			continue;
+		}
 		const matches = globSync(pattern, { cwd: root });
 		packageDirs.push(...matches);
 	}
@@ -45,6 +144,7 @@ const readWorkspaces = (root: string): Record<string, Workspace> => {
 	// Read package.json from each directory and build workspace data
 	const workspacesData: Record<string, Workspace> = {};
 	for (const dir of packageDirs) {
+		if (excludedDirs.has(dir)) continue;
 		const pkgPath = join(root, dir, 'package.json');
 		if (existsSync(pkgPath)) {
 			const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
@@ -61,6 +161,7 @@ const readWorkspaces = (root: string): Record<string, Workspace> => {
 				changed: false,
 				commits: [],
 				dependencyNames,
+				dependenciesByType: getDependenciesByType(pkg),
 				isPrivate,
 			};
 		}
@@ -81,6 +182,7 @@ const readWorkspaces = (root: string): Record<string, Workspace> => {
 			changed: false,
 			commits: [],
 			dependencyNames,
+			dependenciesByType: getDependenciesByType(rootPkg),
 			isPrivate,
 		};
 	}
@@ -88,4 +190,4 @@ const readWorkspaces = (root: string): Record<string, Workspace> => {
 	return workspacesData;
 };
 
-export { readWorkspaces };
+export { readWorkspaces, parsePnpmWorkspacePatterns };
@@ -88,4 +88,24 @@ describe('determineVersionBumpType', () => {
 			expect(determineVersionBumpType([])).toBe('patch');
 		});
 	});
+
+	describe('explicit bumps', () => {
+		it('uses the explicit bump of synthetic commits', () => {
+			const commits = [
+				commit('fix'),
+				{ ...commit('chore'), bump: 'minor' as const },
+			];
+
+			expect(determineVersionBumpType(commits)).toBe('minor');
+		});
+
+		it('keeps the type mapping when it is higher than the explicit bump', () => {
+			const commits = [
+				commit('feat'),
+				{ ...commit('chore'), bump: 'patch' as const },
+			];
+
+			expect(determineVersionBumpType(commits)).toBe('minor');
+		});
+	});
 });
@@ -0,0 +1,90 @@
+import { parse, type SemVer } from 'semver';
+import { describe, expect, it } from 'vitest';
+import { getNextVersion } from '../../src/bump.js';
+
+describe('getNextVersion', () => {
+	it.each([
+		{ version: '1.2.3', bumpType: 'major', expected: '2.0.0' },
+		{ version: '1.2.3', bumpType: 'minor', expected: '1.3.0' },
+		{ version: '1.2.3', bumpType: 'patch', expected: '1.2.4' },
+	] as const)(
+		'bumps $version with $bumpType to $expected',
+		({ version, bumpType, expected }) => {
+			expect(getNextVersion(parse(version) as SemVer, bumpType)).toBe(expected);
+		}
+	);
+
+	it.each([
+		{ version: '1.2.3-alpha.1', bumpType: 'major', expected: '2.0.0-alpha.0' },
+		{ version: '1.2.3-beta.2', bumpType: 'minor', expected: '1.3.0-beta.0' },
+		{ version: '1.2.3-rc.0', bumpType: 'patch', expected: '1.2.3-rc.1' },
+		{ version: '2.0.0-beta.1', bumpType: 'major', expected: '2.0.0-beta.2' },
+		{ version: '2.0.0-beta.1', bumpType: 'minor', expected: '2.0.0-beta.2' },
+		{ version: '1.3.0-beta.1', bumpType: 'major', expected: '2.0.0-beta.0' },
+	] as const)(
+		'stays in the prerelease channel of $version with $bumpType',
+		({ version, bumpType, expected }) => {
+			expect(getNextVersion(parse(version) as SemVer, bumpType)).toBe(expected);
+		}
+	);
+
+	it.each([
+		{
+			version: '1.2.3',
+			bumpType: 'major',
+			id: 'alpha',
+			expected: '2.0.0-alpha.0',
+		},
+		{ version: '1.2.3', bumpType: 'patch', id: 'rc', expected: '1.2.4-rc.0' },
+		{
+			version: '2.0.0-alpha.3',
+			bumpType: 'minor',
+			id: 'beta',
+			expected: '2.0.0-beta.0',
+		},
+		{
+			version: '2.0.0-beta.2',
+			bumpType: 'patch',
+			id: 'beta',
+			expected: '2.0.0-beta.3',
+		},
+		{
+			version: '1.2.4-beta.2',
+			bumpType: 'minor',
+			id: 'rc',
+			expected: '1.3.0-rc.0',
+		},
+	] as const)(
+		'releases $version with $bumpType in the $id channel',
+		({ version, bumpType, id, expected }) => {
+			expect(
+				getNextVersion(parse(version) as SemVer, bumpType, { prerelease: id })
+			).toBe(expected);
+		}
+	);
+
+	it('refuses to switch to a channel that sorts before the current one', () => {
+		// Act & Assess
+		expect(() =>
+			getNextVersion(parse('2.0.0-rc.3') as SemVer, 'patch', {
+				prerelease: 'alpha',
+			})
+		).toThrow(
+			'Cannot switch prerelease 2.0.0-rc.3 to alpha: 2.0.0-alpha.0 would sort before it'
+		);
+	});
+
+	it.each([
+		{ version: '2.0.0-rc.3', bumpType: 'major', expected: '2.0.0' },
+		{ version: '2.0.0-rc.3', bumpType: 'patch', expected: '2.0.0' },
+		{ version: '1.2.4-rc.1', bumpType: 'minor', expected: '1.3.0' },
+		{ version: '1.2.3', bumpType: 'patch', expected: '1.2.4' },
+	] as const)(
+		'graduates $version with $bumpType to $expected',
+		({ version, bumpType, expected }) => {
+			expect(
+				getNextVersion(parse(version) as SemVer, bumpType, { graduate: true })
+			).toBe(expected);
+		}
+	);
+});
@@ -1,5 +1,6 @@
-import { expect, it } from 'vitest';
+import { describe, expect, it } from 'vitest';
 import { generateChangelogSections } from '../../src/changelog.js';
+import { DefaultConfig } from '../../src/constants.js';
 import type { Workspace } from '../../src/types.js';
 
 it('generates sections for public packages only in main changelog', () => {
@@ -21,6 +22,7 @@ it('generates sections for public packages only in main changelog', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const privateWorkspace: Workspace = {
@@ -40,6 +42,7 @@ it('generates sections for public packages only in main changelog', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: true,
 	};
 	const workspaces = {
@@ -79,6 +82,7 @@ it('includes all packages in workspace sections', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const privateWorkspace: Workspace = {
@@ -98,6 +102,7 @@ it('includes all packages in workspace sections', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: true,
 	};
 	const workspaces = {
@@ -144,6 +149,7 @@ it('skips unchanged workspaces', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const unchangedWorkspace: Workspace = {
@@ -154,6 +160,7 @@ it('skips unchanged workspaces', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = {
@@ -204,6 +211,7 @@ it('groups commits by type correctly', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'test-package': workspace };
@@ -251,6 +259,7 @@ it('handles commits without hash', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'test-package': workspace };
@@ -291,6 +300,7 @@ it('omits package name prefix in single-package repository', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'single-package': workspace };
@@ -330,6 +340,7 @@ it('includes package name prefix in monorepo with multiple packages', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -349,6 +360,7 @@ it('includes package name prefix in monorepo with multiple packages', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = {
@@ -370,3 +382,667 @@ it('includes package name prefix in monorepo with multiple packages', () => {
 		'- **package-2** Fix bug in package 2 ([def5678](https://github.com/user/repo/commit/def5678))'
 	);
 });
+
+it('uses the configured section headers', () => {
+	// Prepare
+	const workspace: Workspace = {
+		name: 'my-package',
+		shortName: 'my-package',
+		path: '/test',
+		version: '1.0.0',
+		changed: true,
+		commits: [
+			{
+				subject: 'patch vulnerability',
+				type: 'security',
+				scope: '',
+				breaking: false,
+				notes: [],
+			},
+			{
+				subject: 'add feature',
+				type: 'feat',
+				scope: '',
+				breaking: false,
+				notes: [],
+			},
+		],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	};
+	const config = {
+		...DefaultConfig,
+		changeTypeHeaders: {
+			...DefaultConfig.changeTypeHeaders,
+			feat: 'New Stuff',
+			security: 'Security',
+		},
+	};
+
+	// Act
+	const result = generateChangelogSections(
+		{ 'my-package': workspace },
+		'',
+		config
+	);
+
+	// Assess
+	expect(result.mainSections).toBe(
+		'### New Stuff\n\n- add feature\n\n### Security\n\n- patch vulnerability\n'
+	);
+});
+
+it('renders entries and section headers with the configured templates', () => {
+	// Prepare
+	const workspace: Workspace = {
+		name: '@scope/core',
+		shortName: 'core',
+		path: '/test/packages/core',
+		version: '1.0.0',
+		changed: true,
+		commits: [
+			{
+				subject: 'add feature',
+				type: 'feat',
+				scope: 'api',
+				breaking: true,
+				notes: [],
+				hash: 'abc1234def',
+			},
+		],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	};
+	const config = {
+		...DefaultConfig,
+		changelogTemplates: {
+			...DefaultConfig.changelogTemplates,
+			sectionHeader: '#### {{title}}',
+			entry:
+				'* {{package}}/{{scope}}: {{subject}}{{#breaking}} (BREAKING){{/breaking}} [{{shortHash}}]',
+		},
+	};
+
+	// Act
+	const result = generateChangelogSections(
+		{ core: workspace, other: { ...workspace, changed: false } },
+		'https://github.com/user/repo',
+		config
+	);
+
+	// Assess
+	expect(result.mainSections).toBe(
+		'#### ⚠ BREAKING CHANGES\n\n- **core** add feature\n\n#### Features\n\n* @scope/core/api: add feature (BREAKING) [abc1234]\n'
+	);
+	expect(result.workspaceSections.get('core')).toEqual(
+		new Map([
+			['⚠ BREAKING CHANGES', ['- add feature']],
+			['Features', ['* @scope/core/api: add feature (BREAKING) [abc1234]']],
+		])
+	);
+});
+
+describe('ordering and de-duplication', () => {
+	const createWorkspace = (
+		shortName: string,
+		commits: Workspace['commits']
+	): Workspace => ({
+		name: `@scope/${shortName}`,
+		shortName,
+		path: `/test/packages/${shortName}`,
+		version: '1.0.0',
+		changed: true,
+		commits,
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	});
+	const commit = (
+		type: string,
+		scope: string,
+		subject: string,
+		hash?: string
+	): Workspace['commits'][number] => ({
+		subject,
+		type,
+		scope,
+		breaking: false,
+		notes: [],
+		hash,
+	});
+
+	it('lists sections in the configured order regardless of commit order', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				commit('perf', 'core', 'speed up parser'),
+				commit('fix', 'core', 'handle empty input'),
+				commit('chore', 'core', 'update tooling'),
+				commit('feat', 'core', 'add option'),
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect([...(result.workspaceSections.get('core')?.keys() ?? [])]).toEqual([
+			'Features',
+			'Improvements',
+			'Bug Fixes',
+			'Maintenance',
+		]);
+	});
+
+	it('uses the configured section order', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				commit('feat', 'core', 'add option'),
+				commit('fix', 'core', 'handle empty input'),
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '', {
+			...DefaultConfig,
+			sectionOrder: ['Bug Fixes'],
+		});
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### Bug Fixes\n\n- handle empty input\n\n### Features\n\n- add option\n'
+		);
+	});
+
+	it('sorts entries by scope then subject', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				commit('feat', 'ui', 'add theme'),
+				commit('feat', 'api', 'add endpoint'),
+				commit('feat', 'ui', 'add button'),
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(result.workspaceSections.get('core')?.get('Features')).toEqual([
+			'- add endpoint',
+			'- add button',
+			'- add theme',
+		]);
+	});
+
+	it('lists a commit affecting several workspaces once in the main changelog', () => {
+		// Prepare
+		const dependencyUpdate = commit(
+			'chore',
+			'deps',
+			'bump lodash from 4.17.20 to 4.17.21',
+			'abc1234'
+		);
+		const workspaces = {
+			core: createWorkspace('core', [dependencyUpdate]),
+			ui: createWorkspace('ui', [dependencyUpdate]),
+		};
+
+		// Act
+		const result = generateChangelogSections(
+			workspaces,
+			'https://github.com/user/repo'
+		);
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### Maintenance\n\n- **core, ui** bump lodash from 4.17.20 to 4.17.21 ([abc1234](https://github.com/user/repo/commit/abc1234))\n'
+		);
+		expect(result.workspaceSections.get('ui')?.get('Maintenance')).toHaveLength(
+			1
+		);
+	});
+
+	it('keeps identical entries only once', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				commit('fix', 'core', 'handle empty input', 'abc1234'),
+				commit('fix', 'core', 'handle empty input', 'def5678'),
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(result.mainSections).toBe('### Bug Fixes\n\n- handle empty input\n');
+	});
+});
+
+describe('breaking changes', () => {
+	const createWorkspace = (
+		shortName: string,
+		commits: Workspace['commits']
+	): Workspace => ({
+		name: `@scope/${shortName}`,
+		shortName,
+		path: `/test/packages/${shortName}`,
+		version: '1.0.0',
+		changed: true,
+		commits,
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	});
+
+	it('lists breaking changes with their notes in the first section', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				{
+					subject: 'handle empty input',
+					type: 'fix',
+					scope: 'core',
+					breaking: false,
+					notes: [],
+					hash: 'def5678',
+				},
+				{
+					subject: 'rename option',
+					type: 'feat',
+					scope: 'core',
+					breaking: true,
+					notes: [{ title: 'BREAKING CHANGE', text: 'Rename `foo` to `bar`.' }],
+					hash: 'abc1234',
+				},
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(result.workspaceSections.get('core')).toEqual(
+			new Map([
+				['⚠ BREAKING CHANGES', ['- Rename `foo` to `bar`.']],
+				['Features', ['- rename option']],
+				['Bug Fixes', ['- handle empty input']],
+			])
+		);
+	});
+
+	it('keeps the Markdown of multi-line notes in the list item', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				{
+					subject: 'drop callbacks',
+					type: 'feat',
+					scope: 'core',
+					breaking: true,
+					notes: [
+						{
+							title: 'BREAKING CHANGES',
+							text: 'Callbacks are removed, use promises:\n\n```js\nawait run();\n```',
+						},
+					],
+					hash: 'abc1234',
+				},
+			]),
+			ui: createWorkspace('ui', []),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### ⚠ BREAKING CHANGES\n\n- **core** Callbacks are removed, use promises:\n\n  ```js\n  await run();\n  ```\n\n### Features\n\n- **core** drop callbacks\n'
+		);
+	});
+
+	it('lists breaking commits without note with their subject', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				{
+					subject: 'drop support for Node.js 18',
+					type: 'feat',
+					scope: 'core',
+					breaking: true,
+					notes: [],
+					hash: 'abc1234',
+				},
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(
+			result.workspaceSections.get('core')?.get('⚠ BREAKING CHANGES')
+		).toEqual(['- drop support for Node.js 18']);
+	});
+
+	it('lists breaking headers noted by the parser without their pull request', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				{
+					subject: 'drop support for Node.js 18',
+					type: 'feat',
+					scope: 'core',
+					breaking: true,
+					notes: [
+						{
+							title: 'BREAKING CHANGE',
+							text: 'drop support for Node.js 18 (#12)',
+						},
+					],
+					hash: 'abc1234',
+					pr: { number: 12 },
+				},
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(
+			workspaces,
+			'https://github.com/user/repo'
+		);
+
+		// Assess
+		expect(
+			result.workspaceSections.get('core')?.get('⚠ BREAKING CHANGES')
+		).toEqual(['- drop support for Node.js 18']);
+	});
+
+	it('re-indents the indented lines of multi-line notes once', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				{
+					subject: 'drop callbacks',
+					type: 'feat',
+					scope: 'core',
+					breaking: true,
+					notes: [
+						{
+							title: 'BREAKING CHANGE',
+							text: 'Callbacks are removed,\n  use promises instead.',
+						},
+					],
+					hash: 'abc1234',
+				},
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(
+			result.workspaceSections.get('core')?.get('⚠ BREAKING CHANGES')
+		).toEqual(['- Callbacks are removed,\n  use promises instead.']);
+	});
+
+	it('lists a breaking change affecting several workspaces once in the main changelog', () => {
+		// Prepare
+		const breakingCommit = {
+			subject: 'require Node.js 20',
+			type: 'build',
+			scope: 'deps',
+			breaking: true,
+			notes: [{ title: 'BREAKING CHANGE', text: 'Node.js 20 is required.' }],
+			hash: 'abc1234',
+		};
+		const workspaces = {
+			core: createWorkspace('core', [breakingCommit]),
+			ui: createWorkspace('ui', [breakingCommit]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(result.mainSections).toContain(
+			'### ⚠ BREAKING CHANGES\n\n- **core, ui** Node.js 20 is required.\n'
+		);
+		expect(
+			result.workspaceSections.get('ui')?.get('⚠ BREAKING CHANGES')
+		).toEqual(['- Node.js 20 is required.']);
+	});
+
+	it('renders breaking changes with the configured template and order', () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', [
+				{
+					subject: 'rename option',
+					type: 'feat',
+					scope: 'core',
+					breaking: true,
+					notes: [{ title: 'BREAKING CHANGE', text: 'Rename `foo`.' }],
+					hash: 'abc1234',
+				},
+			]),
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '', {
+			...DefaultConfig,
+			sectionOrder: ['Features', '⚠ BREAKING CHANGES'],
+			changelogTemplates: {
+				...DefaultConfig.changelogTemplates,
+				breakingChange: '* {{scope}}: {{note}} ({{subject}})',
+			},
+		});
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### Features\n\n- rename option\n\n### ⚠ BREAKING CHANGES\n\n* core: Rename `foo`. (rename option)\n'
+		);
+	});
+});
+
+describe('authors and contributors', () => {
+	const createWorkspace = (
+		shortName: string,
+		commits: Workspace['commits']
+	): Workspace => ({
+		name: `@scope/${shortName}`,
+		shortName,
+		path: `/test/packages/${shortName}`,
+		version: '1.0.0',
+		changed: true,
+		commits,
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	});
+
+	const commit = {
+		subject: 'add option',
+		type: 'feat',
+		scope: 'core',
+		breaking: false,
+		notes: [],
+		hash: 'abc1234def',
+		author: { name: 'Jane Doe', email: 'jane@example.com' },
+		date: '2024-05-01T10:00:00+02:00',
+		coAuthors: [
+			{ name: 'Octo Cat', email: '12345+octocat@users.noreply.github.com' },
+			{ name: 'John Smith', email: 'john@example.com' },
+		],
+	};
+
+	it('does not credit authors by default', () => {
+		// Prepare
+		const workspaces = { core: createWorkspace('core', [commit]) };
+
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(result.mainSections).toBe('### Features\n\n- add option\n');
+	});
+
+	it('credits the author and co-authors with their GitHub handles when known', () => {
+		// Prepare
+		const workspaces = { core: createWorkspace('core', [commit]) };
+
+		// Act
+		const result = generateChangelogSections(workspaces, '', {
+			...DefaultConfig,
+			creditAuthors: true,
+			authorHandles: { 'JANE@example.com': '@janedoe' },
+		});
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### Features\n\n- add option by @janedoe, @octocat, John Smith\n'
+		);
+	});
+
+	it('exposes the commit date to the entry template', () => {
+		// Prepare
+		const workspaces = { core: createWorkspace('core', [commit]) };
+
+		// Act
+		const result = generateChangelogSections(workspaces, '', {
+			...DefaultConfig,
+			changelogTemplates: {
+				...DefaultConfig.changelogTemplates,
+				entry: '- {{subject}} ({{date}})',
+			},
+		});
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### Features\n\n- add option (2024-05-01)\n'
+		);
+	});
+
+	it('lists the new contributors last, once per release', () => {
+		// Prepare
+		const newContributors = [commit.author];
+		const workspaces = {
+			core: createWorkspace('core', [{ ...commit, newContributors }]),
+			utils: createWorkspace('utils', [{ ...commit, newContributors }]),
+		};
+
+		// Act
+		const result = generateChangelogSections(
+			workspaces,
+			'https://github.com/owner/repo'
+		);
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### Features\n\n- **core, utils** add option ([abc1234](https://github.com/owner/repo/commit/abc1234def))\n\n### Contributors\n\n- Jane Doe made their first contribution in [abc1234](https://github.com/owner/repo/commit/abc1234def)\n'
+		);
+		expect(result.workspaceSections.get('utils')?.get('Contributors')).toEqual([
+			'- Jane Doe made their first contribution in [abc1234](https://github.com/owner/repo/commit/abc1234def)',
+		]);
+	});
+});
+
+describe('pull requests and closed issues', () => {
+	const workspaces: Record<string, Workspace> = {
+		core: {
+			name: '@scope/core',
+			shortName: 'core',
+			path: '/test',
+			version: '1.0.0',
+			changed: true,
+			commits: [
+				{
+					subject: 'add dark mode',
+					type: 'feat',
+					scope: 'core',
+					breaking: false,
+					notes: [],
+					hash: 'abc1234def',
+					pr: { number: 1234 },
+					closes: [{ number: 55 }, { number: 12, repository: 'owner/other' }],
+				},
+			],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+	};
+
+	it('links the pull request and the closed issues', () => {
+		// Act
+		const result = generateChangelogSections(
+			workspaces,
+			'https://github.com/owner/repo'
+		);
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### Features\n\n- add dark mode ([#1234](https://github.com/owner/repo/pull/1234)) ([abc1234](https://github.com/owner/repo/commit/abc1234def)), closes [#55](https://github.com/owner/repo/issues/55), [owner/other#12](https://github.com/owner/other/issues/12)\n'
+		);
+	});
+
+	it('lists the references without links when the repository URL is unknown', () => {
+		// Act
+		const result = generateChangelogSections(workspaces, '');
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### Features\n\n- add dark mode (#1234), closes #55, owner/other#12\n'
+		);
+	});
+});
+
+describe('issue tracker keys', () => {
+	it('links the keys in subjects and breaking change notes', () => {
+		// Prepare
+		const workspaces: Record<string, Workspace> = {
+			core: {
+				name: '@scope/core',
+				shortName: 'core',
+				path: '/test',
+				version: '1.0.0',
+				changed: true,
+				commits: [
+					{
+						subject: 'drop legacy rounding PAY-1234',
+						type: 'feat',
+						scope: 'core',
+						breaking: true,
+						notes: [
+							{
+								title: 'BREAKING CHANGE',
+								text: 'Amounts are rounded, see PAY-99',
+							},
+						],
+					},
+				],
+				dependencyNames: [],
+				dependenciesByType: {},
+				isPrivate: false,
+			},
+		};
+
+		// Act
+		const result = generateChangelogSections(workspaces, '', {
+			...DefaultConfig,
+			issueTrackers: [
+				{ pattern: 'PAY-\\d+', url: 'https://jira.example.com/browse/{key}' },
+			],
+		});
+
+		// Assess
+		expect(result.mainSections).toBe(
+			'### ⚠ BREAKING CHANGES\n\n- Amounts are rounded, see [PAY-99](https://jira.example.com/browse/PAY-99)\n\n### Features\n\n- drop legacy rounding [PAY-1234](https://jira.example.com/browse/PAY-1234)\n'
+		);
+	});
+});
@@ -0,0 +1,52 @@
+import { expect, it } from 'vitest';
+import { generateReleaseNotes } from '../../src/changelog.js';
+import type { Workspace } from '../../src/types.js';
+
+const workspaces: Record<string, Workspace> = {
+	core: {
+		name: '@scope/core',
+		shortName: 'core',
+		path: '/test/packages/core',
+		version: '1.0.0',
+		changed: true,
+		commits: [
+			{
+				subject: 'add feature',
+				type: 'feat',
+				scope: 'core',
+				breaking: false,
+				notes: [],
+			},
+		],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	},
+	utils: {
+		name: '@scope/utils',
+		shortName: 'utils',
+		path: '/test/packages/utils',
+		version: '1.0.0',
+		changed: false,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	},
+};
+
+it('returns the root changelog sections without a version header', () => {
+	expect(generateReleaseNotes(workspaces, '')).toBe(
+		'### Features\n\n- **core** add feature\n'
+	);
+});
+
+it('returns the sections of a single workspace', () => {
+	expect(generateReleaseNotes(workspaces, '', undefined, 'core')).toBe(
+		'### Features\n\n- add feature\n'
+	);
+});
+
+it('returns empty notes for a workspace without changes', () => {
+	expect(generateReleaseNotes(workspaces, '', undefined, 'utils')).toBe('');
+});
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, expect, it, vi } from 'vitest';
 import { generateVersionHeader } from '../../src/changelog.js';
+import { DefaultConfig } from '../../src/constants.js';
 
 beforeEach(() => {
 	// Mock Date to ensure consistent test results
@@ -110,3 +111,21 @@ it('handles year boundary correctly', () => {
 		'## [4.0.0](https://github.com/user/repo/releases/tag/v4.0.0) (2025-01-01)\n\n'
 	);
 });
+
+it('renders the configured version header template', () => {
+	// Prepare
+	const config = {
+		...DefaultConfig,
+		changelogTemplates: {
+			...DefaultConfig.changelogTemplates,
+			versionHeader: ({ version, date }: { version: string; date: string }) =>
+				`## ${version} — ${date}`,
+		},
+	};
+
+	// Act
+	const result = generateVersionHeader('1.0.0', '', config);
+
+	// Assess
+	expect(result).toBe('## 1.0.0 — 2024-03-15\n\n');
+});
@@ -0,0 +1,56 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { getVersionNotes } from '../../src/changelog.js';
+
+const mocks = vi.hoisted(() => ({
+	readFileSync: vi.fn(),
+}));
+
+vi.mock('node:fs', async (importOriginal) => ({
+	...(await importOriginal<typeof import('node:fs')>()),
+	readFileSync: mocks.readFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+	mocks.readFileSync.mockReturnValue(
+		[
+			'# Changelog',
+			'',
+			'## [1.10.0](https://github.com/user/repo/compare/v1.1.0...v1.10.0) (2024-02-01)',
+			'',
+			'### Features',
+			'',
+			'- add option',
+			'',
+			'## [1.1.0](https://github.com/user/repo/compare/v1.0.0...v1.1.0) (2024-01-15)',
+			'',
+			'### Bug Fixes',
+			'',
+			'- fix bug',
+			'',
+		].join('\n')
+	);
+});
+
+it('returns the notes under the heading of the version', () => {
+	// Act & Assess
+	expect(getVersionNotes('/test/CHANGELOG.md', '1.10.0')).toBe(
+		'### Features\n\n- add option\n'
+	);
+	expect(getVersionNotes('/test/CHANGELOG.md', '1.1.0')).toBe(
+		'### Bug Fixes\n\n- fix bug\n'
+	);
+	expect(mocks.readFileSync).toHaveBeenCalledWith(
+		'/test/CHANGELOG.md',
+		'utf-8'
+	);
+});
+
+it('returns no notes when the version or the file is missing', () => {
+	// Act & Assess
+	expect(getVersionNotes('/test/CHANGELOG.md', '1.0.0')).toBe('');
+	mocks.readFileSync.mockImplementation(() => {
+		throw new Error('ENOENT');
+	});
+	expect(getVersionNotes('/test/CHANGELOG.md', '1.1.0')).toBe('');
+});
@@ -1,5 +1,6 @@
 import { expect, it } from 'vitest';
 import { linkifyCommitReferences } from '../../src/changelog.js';
+import { DefaultConfig } from '../../src/constants.js';
 
 it('returns subject unchanged when no baseUrl provided', () => {
 	// Prepare
@@ -98,3 +99,88 @@ it('handles short commit hash correctly', () => {
 		'Short commit ([abc123](https://github.com/user/repo/commit/abc123))'
 	);
 });
+
+it('links cross-repository references to the repository they name', () => {
+	// Prepare
+	const subject = 'Port fix from owner/other-repo#42 for #7';
+	const baseUrl = 'https://github.com/user/repo';
+
+	// Act
+	const result = linkifyCommitReferences(subject, baseUrl);
+
+	// Assess
+	expect(result).toBe(
+		'Port fix from [owner/other-repo#42](https://github.com/owner/other-repo/issues/42) for [#7](https://github.com/user/repo/issues/7)'
+	);
+});
+
+it('builds the links of the forge hosting the repository', () => {
+	// Prepare
+	const subject = 'Fix issue #123';
+	const baseUrl = 'https://gitlab.com/group/repo';
+	const commitHash = 'abc1234567890def';
+
+	// Act
+	const result = linkifyCommitReferences(subject, baseUrl, commitHash);
+
+	// Assess
+	expect(result).toBe(
+		'Fix issue [#123](https://gitlab.com/group/repo/-/issues/123) ([abc1234](https://gitlab.com/group/repo/-/commit/abc1234567890def))'
+	);
+});
+
+it('links the keys of the configured issue trackers', () => {
+	// Prepare
+	const config = {
+		...DefaultConfig,
+		issueTrackers: [
+			{ pattern: '[A-Z]+-\\d+', url: 'https://jira.example.com/browse/{key}' },
+		],
+	};
+
+	// Act
+	const linked = linkifyCommitReferences(
+		'Fix rounding PAY-1234 for #12',
+		'https://github.com/user/repo',
+		undefined,
+		config
+	);
+	const withoutRepository = linkifyCommitReferences(
+		'Fix rounding PAY-1234',
+		'',
+		undefined,
+		config
+	);
+
+	// Assess
+	expect(linked).toBe(
+		'Fix rounding [PAY-1234](https://jira.example.com/browse/PAY-1234) for [#12](https://github.com/user/repo/issues/12)'
+	);
+	expect(withoutRepository).toBe(
+		'Fix rounding [PAY-1234](https://jira.example.com/browse/PAY-1234)'
+	);
+});
+
+it('leaves references inside existing links untouched', () => {
+	// Prepare
+	const subject = 'Follow [PAY-1 #3](https://example.com/PAY-1#3) for PAY-2';
+	const config = {
+		...DefaultConfig,
+		issueTrackers: [
+			{ pattern: 'PAY-\\d+', url: 'https://jira.example.com/browse/{key}' },
+		],
+	};
+
+	// Act
+	const result = linkifyCommitReferences(
+		subject,
+		'https://github.com/user/repo',
+		undefined,
+		config
+	);
+
+	// Assess
+	expect(result).toBe(
+		'Follow [PAY-1 #3](https://example.com/PAY-1#3) for [PAY-2](https://jira.example.com/browse/PAY-2)'
+	);
+});
@@ -49,6 +49,7 @@ it('updates both root and workspace changelogs', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'test-package': workspace };
@@ -126,6 +127,7 @@ it('excludes private packages from root changelog', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const privateWorkspace: Workspace = {
@@ -144,6 +146,7 @@ it('excludes private packages from root changelog', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: true,
 	};
 	const workspaces = {
@@ -209,6 +212,7 @@ it('includes private packages in their workspace changelogs', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: true,
 	};
 	const workspaces = {
@@ -265,6 +269,7 @@ it('handles multiple workspaces with different commit types', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -283,6 +288,7 @@ it('handles multiple workspaces with different commit types', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'package-a': workspace1, 'package-b': workspace2 };
@@ -320,6 +326,7 @@ it('handles workspaces with no changes', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'unchanged-package': workspace };
@@ -386,6 +393,7 @@ it('handles single-package repos without duplicating changelog', () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'single-package': workspace };
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+import { updateChangelogsIndependently } from '../../src/changelog.js';
+import type { Workspace } from '../../src/types.js';
+
+const mocks = vi.hoisted(() => ({
+	readFileSync: vi.fn(),
+	writeFileSync: vi.fn(),
+	statSync: vi.fn(),
+	join: vi.fn(),
+}));
+
+vi.mock('node:fs', () => ({
+	readFileSync: mocks.readFileSync,
+	writeFileSync: mocks.writeFileSync,
+	statSync: mocks.statSync,
+}));
+
+vi.mock('node:path', () => ({
+	join: mocks.join,
+}));
+
+const createWorkspace = (overrides: Partial<Workspace>): Workspace => ({
+	name: '@scope/core',
+	shortName: 'core',
+	path: '/test/packages/core',
+	version: '1.0.0',
+	changed: true,
+	commits: [
+		{
+			subject: 'add new feature',
+			type: 'feat',
+			scope: 'core',
+			breaking: false,
+			notes: [],
+			hash: 'abc1234',
+		},
+	],
+	dependencyNames: [],
+	dependenciesByType: {},
+	isPrivate: false,
+	...overrides,
+});
+
+beforeEach(() => {
+	vi.clearAllMocks();
+	vi.useFakeTimers();
+	vi.setSystemTime(new Date('2024-03-15'));
+	mocks.join.mockImplementation((...parts: string[]) => parts.join('/'));
+	mocks.statSync.mockReturnValue({ isFile: () => true });
+	mocks.readFileSync.mockReturnValue('# Changelog\n\n');
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+it('writes per-package headers to root and workspace changelogs', () => {
+	// Prepare
+	const workspaces = {
+		core: createWorkspace({}),
+		utils: createWorkspace({
+			name: '@scope/utils',
+			shortName: 'utils',
+			path: '/test/packages/utils',
+			commits: [
+				{
+					subject: 'fix crash',
+					type: 'fix',
+					scope: 'utils',
+					breaking: false,
+					notes: [],
+					hash: 'def5678',
+				},
+			],
+		}),
+		untouched: createWorkspace({
+			name: '@scope/untouched',
+			shortName: 'untouched',
+			path: '/test/packages/untouched',
+			changed: false,
+			commits: [],
+		}),
+	};
+
+	// Act
+	const result = updateChangelogsIndependently(
+		'/test',
+		workspaces,
+		{
+			core: { version: '1.1.0', versionLink: 'https://link/core' },
+			utils: { version: '0.3.1', versionLink: 'https://link/utils' },
+		},
+		''
+	);
+
+	// Assess
+	expect(result).toEqual([
+		'/test/CHANGELOG.md',
+		'/test/packages/core/CHANGELOG.md',
+		'/test/packages/utils/CHANGELOG.md',
+	]);
+	expect(mocks.writeFileSync).toHaveBeenCalledTimes(3);
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/CHANGELOG.md',
+		'# Changelog\n\n## [@scope/core@1.1.0](https://link/core) (2024-03-15)\n\n### Features\n\n- add new feature\n\n## [@scope/utils@0.3.1](https://link/utils) (2024-03-15)\n\n### Bug Fixes\n\n- fix crash\n\n\n',
+		'utf-8'
+	);
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/packages/core/CHANGELOG.md',
+		'# Changelog\n\n## [1.1.0](https://link/core) (2024-03-15)\n\n### Features\n\n- add new feature\n',
+		'utf-8'
+	);
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/packages/utils/CHANGELOG.md',
+		'# Changelog\n\n## [0.3.1](https://link/utils) (2024-03-15)\n\n### Bug Fixes\n\n- fix crash\n',
+		'utf-8'
+	);
+});
+
+it('excludes private workspaces from the root changelog', () => {
+	// Prepare
+	const workspaces = {
+		internal: createWorkspace({
+			name: 'internal',
+			shortName: 'internal',
+			path: '/test/packages/internal',
+			isPrivate: true,
+		}),
+	};
+
+	// Act
+	updateChangelogsIndependently(
+		'/test',
+		workspaces,
+		{ internal: { version: '1.0.1', versionLink: 'https://link/internal' } },
+		''
+	);
+
+	// Assess
+	expect(mocks.writeFileSync).toHaveBeenCalledTimes(1);
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/packages/internal/CHANGELOG.md',
+		expect.stringContaining('## [1.0.1](https://link/internal)'),
+		'utf-8'
+	);
+});
+
+it('writes only the root changelog for single-package repos', () => {
+	// Prepare
+	const workspaces = {
+		core: createWorkspace({ path: '/test' }),
+	};
+	mocks.statSync.mockImplementation(() => {
+		throw new Error('ENOENT');
+	});
+
+	// Act
+	updateChangelogsIndependently(
+		'/test',
+		workspaces,
+		{ core: { version: '1.1.0', versionLink: 'https://link/core' } },
+		''
+	);
+
+	// Assess
+	expect(mocks.writeFileSync).toHaveBeenCalledTimes(1);
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/CHANGELOG.md',
+		'# Changelog\n\n## [@scope/core@1.1.0](https://link/core) (2024-03-15)\n\n### Features\n\n- add new feature\n\n\n',
+		'utf-8'
+	);
+});
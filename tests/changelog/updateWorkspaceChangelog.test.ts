@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, expect, it, vi } from 'vitest';
 import { updateWorkspaceChangelog } from '../../src/changelog.js';
+import { DefaultConfig } from '../../src/constants.js';
 
 const mocks = vi.hoisted(() => ({
 	readFileSync: vi.fn(),
@@ -240,3 +241,34 @@ it('handles single section with multiple entries', () => {
 		'utf-8'
 	);
 });
+
+it('renders the configured version bump note template', () => {
+	// Prepare
+	const config = {
+		...DefaultConfig,
+		changelogTemplates: {
+			...DefaultConfig.changelogTemplates,
+			versionHeader: '## {{version}}',
+			versionBumpOnly: '_No changes in {{version}}_',
+		},
+	};
+	mocks.join.mockReturnValue('/test/packages/workspace-h/CHANGELOG.md');
+	mocks.statSync.mockReturnValue({ isFile: () => true });
+	mocks.readFileSync.mockReturnValue('# Changelog\n\n');
+
+	// Act
+	updateWorkspaceChangelog(
+		'/test/packages/workspace-h',
+		'1.2.0',
+		'',
+		undefined,
+		config
+	);
+
+	// Assess
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/packages/workspace-h/CHANGELOG.md',
+		'# Changelog\n\n## 1.2.0\n\n_No changes in 1.2.0_\n\n',
+		'utf-8'
+	);
+});
@@ -0,0 +1,59 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { applyChangeSet } from '../../src/changes.js';
+
+const mocks = vi.hoisted(() => ({
+	writeFileSync: vi.fn(),
+	renameSync: vi.fn(),
+	rmSync: vi.fn(),
+}));
+
+vi.mock('node:fs', () => ({
+	writeFileSync: mocks.writeFileSync,
+	renameSync: mocks.renameSync,
+	rmSync: mocks.rmSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('writes every changed file through a temporary file', () => {
+	// Act
+	applyChangeSet([
+		{ path: '/test/CHANGELOG.md', original: null, content: '# Changelog\n' },
+		{ path: '/test/package.json', original: '{}\n', content: '{}\n' },
+	]);
+
+	// Assess
+	expect(mocks.writeFileSync).toHaveBeenCalledTimes(1);
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/CHANGELOG.md.bump-n-go.tmp',
+		'# Changelog\n',
+		'utf-8'
+	);
+	expect(mocks.renameSync).toHaveBeenCalledWith(
+		'/test/CHANGELOG.md.bump-n-go.tmp',
+		'/test/CHANGELOG.md'
+	);
+});
+
+it('removes the temporary files and writes nothing when a write fails', () => {
+	// Prepare
+	mocks.writeFileSync.mockImplementationOnce(() => undefined);
+	mocks.writeFileSync.mockImplementationOnce(() => {
+		throw new Error('ENOSPC: no space left on device');
+	});
+
+	// Act & Assess
+	expect(() =>
+		applyChangeSet([
+			{ path: '/test/CHANGELOG.md', original: '', content: '# Changelog\n' },
+			{ path: '/test/package.json', original: '{}\n', content: '{ }\n' },
+		])
+	).toThrow('ENOSPC: no space left on device');
+	expect(mocks.rmSync).toHaveBeenCalledWith(
+		'/test/CHANGELOG.md.bump-n-go.tmp',
+		{ force: true }
+	);
+	expect(mocks.renameSync).not.toHaveBeenCalled();
+});
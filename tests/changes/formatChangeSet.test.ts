@@ -0,0 +1,46 @@
+import { expect, it } from 'vitest';
+import { formatChangeSet } from '../../src/changes.js';
+
+const changes = [
+	{ path: '/test/CHANGELOG.md', original: null, content: '# Changelog\n' },
+	{ path: '/test/package.json', original: '{}\n', content: '{}\n' },
+	{
+		path: '/test/packages/core/package.json',
+		original: '{ "version": "1.0.0" }\n',
+		content: '{ "version": "1.1.0" }\n',
+	},
+];
+
+it('renders the diff of every changed file relative to the root', () => {
+	// Act
+	const result = formatChangeSet('/test', changes, false);
+
+	// Assess
+	expect(result).toBe(
+		[
+			'--- /dev/null',
+			'+++ b/CHANGELOG.md',
+			'@@ -0,0 +1,1 @@',
+			'+# Changelog',
+			'--- a/packages/core/package.json',
+			'+++ b/packages/core/package.json',
+			'@@ -1,1 +1,1 @@',
+			'-{ "version": "1.0.0" }',
+			'+{ "version": "1.1.0" }',
+			'',
+		].join('\n')
+	);
+});
+
+it('colours the diff when requested', () => {
+	// Act
+	const result = formatChangeSet('/test', changes, true);
+
+	// Assess
+	expect(result).toContain('\x1b[32m+{ "version": "1.1.0" }\x1b[0m');
+});
+
+it('returns an empty string when no file changes', () => {
+	// Act & Assess
+	expect(formatChangeSet('/test', [], false)).toBe('');
+});
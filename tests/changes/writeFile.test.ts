@@ -0,0 +1,70 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { endChangeSet, startChangeSet, writeFile } from '../../src/changes.js';
+
+const mocks = vi.hoisted(() => ({
+	existsSync: vi.fn(),
+	readFileSync: vi.fn(),
+	writeFileSync: vi.fn(),
+}));
+
+vi.mock('node:fs', () => ({
+	existsSync: mocks.existsSync,
+	readFileSync: mocks.readFileSync,
+	writeFileSync: mocks.writeFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+	endChangeSet();
+});
+
+it('writes the file to disk when no change set is recorded', () => {
+	// Act
+	writeFile('/test/package.json', '{}\n');
+
+	// Assess
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/package.json',
+		'{}\n',
+		'utf-8'
+	);
+});
+
+it('records writes with the original content while a change set is recorded', () => {
+	// Prepare
+	mocks.existsSync.mockImplementation(
+		(path: string) => path === '/test/package.json'
+	);
+	mocks.readFileSync.mockReturnValue('{}\n');
+	startChangeSet();
+
+	// Act
+	writeFile('/test/package.json', '{ "version": "1.0.1" }\n');
+	writeFile('/test/package.json', '{ "version": "1.1.0" }\n');
+	writeFile('/test/CHANGELOG.md', '# Changelog\n');
+	const changes = endChangeSet();
+
+	// Assess
+	expect(mocks.writeFileSync).not.toHaveBeenCalled();
+	expect(mocks.readFileSync).toHaveBeenCalledTimes(1);
+	expect(changes).toEqual([
+		{
+			path: '/test/package.json',
+			original: '{}\n',
+			content: '{ "version": "1.1.0" }\n',
+		},
+		{ path: '/test/CHANGELOG.md', original: null, content: '# Changelog\n' },
+	]);
+});
+
+it('writes to disk again once the change set ends', () => {
+	// Prepare
+	startChangeSet();
+	endChangeSet();
+
+	// Act
+	writeFile('/test/CHANGELOG.md', '# Changelog\n');
+
+	// Assess
+	expect(mocks.writeFileSync).toHaveBeenCalledTimes(1);
+});
@@ -33,6 +33,7 @@ it('returns affected workspaces with production dependency changes', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -43,6 +44,7 @@ it('returns affected workspaces with production dependency changes', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1, 'workspace-b': workspace2 };
@@ -107,6 +109,7 @@ it('filters out non-package.json files', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -117,6 +120,7 @@ it('filters out non-package.json files', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1, 'workspace-b': workspace2 };
@@ -162,6 +166,7 @@ it('skips root package.json', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -206,6 +211,7 @@ it('skips private workspaces', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: true,
 	};
 	const workspaces = { 'private-workspace': privateWorkspace };
@@ -238,6 +244,7 @@ it('returns empty array when no matching workspaces found', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -268,6 +275,7 @@ it('excludes workspaces without production dependency changes', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -311,6 +319,7 @@ it('handles empty changed files array', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -345,6 +354,7 @@ it('handles multiple workspaces with mixed results', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -355,6 +365,7 @@ it('handles multiple workspaces with mixed results', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const privateWorkspace: Workspace = {
@@ -365,6 +376,7 @@ it('handles multiple workspaces with mixed results', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: true,
 	};
 	const workspaces = {
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getClosedIssues } from '../../src/commits.js';
+
+describe('getClosedIssues', () => {
+	it('extracts the issues following a closing keyword', () => {
+		// Act
+		const result = getClosedIssues(
+			'Details of the change\n\nFixes #1, closes: #2\nRESOLVES owner/repo#3\nResolved #4'
+		);
+
+		// Assess
+		expect(result).toEqual([
+			{ number: 1 },
+			{ number: 2 },
+			{ number: 3, repository: 'owner/repo' },
+			{ number: 4 },
+		]);
+	});
+
+	it('lists an issue closed several times once', () => {
+		// Act & Assess
+		expect(getClosedIssues('Fixes #1\nCloses #1')).toEqual([{ number: 1 }]);
+	});
+
+	it.each(['', 'Related to #1', 'See prefixes #1', 'Fixes the parser'])(
+		'ignores references without closing keyword: %j',
+		(body) => {
+			// Act & Assess
+			expect(getClosedIssues(body)).toEqual([]);
+		}
+	);
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { getCoAuthors } from '../../src/commits.js';
+
+describe('getCoAuthors', () => {
+	it('extracts the co-authors from the trailers of a commit body', () => {
+		// Act
+		const result = getCoAuthors(
+			'Details of the change\n\nCo-authored-by: Jane Doe <jane@example.com>\nco-authored-by: John Smith <john@example.com>'
+		);
+
+		// Assess
+		expect(result).toEqual([
+			{ name: 'Jane Doe', email: 'jane@example.com' },
+			{ name: 'John Smith', email: 'john@example.com' },
+		]);
+	});
+
+	it.each([
+		'',
+		'Details of the change',
+		'Co-authored-by: Jane Doe',
+		'Mentions Co-authored-by: Jane Doe <jane@example.com> in a sentence',
+	])('ignores bodies without co-author trailers: %j', (body) => {
+		// Act & Assess
+		expect(getCoAuthors(body)).toEqual([]);
+	});
+});
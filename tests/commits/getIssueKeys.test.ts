@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getIssueKeys } from '../../src/commits.js';
+
+describe('getIssueKeys', () => {
+	const jira = {
+		pattern: '[A-Z]+-\\d+',
+		url: 'https://jira.example.com/browse/{key}',
+	};
+
+	it('extracts the keys of every issue tracker once', () => {
+		// Act
+		const result = getIssueKeys(
+			'fix rounding for PAY-1234\n\nRefs: PAY-1234, OPS-7 and ENG-42',
+			[
+				jira,
+				{ pattern: 'ENG-\\d+', url: 'https://linear.app/acme/issue/{key}' },
+			]
+		);
+
+		// Assess
+		expect(result).toEqual(['PAY-1234', 'OPS-7', 'ENG-42']);
+	});
+
+	it('matches keys as whole words', () => {
+		// Act & Assess
+		expect(getIssueKeys('see XPAY-1234-2 and utf-8 and pay-1', [jira])).toEqual(
+			[]
+		);
+	});
+
+	it('returns no keys without issue trackers', () => {
+		// Act & Assess
+		expect(getIssueKeys('fix rounding for PAY-1234', [])).toEqual([]);
+	});
+});
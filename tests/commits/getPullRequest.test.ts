@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { getPullRequest } from '../../src/commits.js';
+
+describe('getPullRequest', () => {
+	it('extracts the pull request from the end of the subject', () => {
+		// Act & Assess
+		expect(getPullRequest('add dark mode (#1234)')).toEqual({
+			subject: 'add dark mode',
+			pr: { number: 1234 },
+		});
+	});
+
+	it('extracts cross-repository pull requests', () => {
+		// Act & Assess
+		expect(getPullRequest('sync fork (owner/repo.js#12)')).toEqual({
+			subject: 'sync fork',
+			pr: { number: 12, repository: 'owner/repo.js' },
+		});
+	});
+
+	it.each([
+		'add dark mode',
+		'fix #12 in parser',
+		'add dark mode (#1234) for settings',
+		'add dark mode (see #1234)',
+	])(
+		'leaves subjects without trailing pull request unchanged: %s',
+		(subject) => {
+			// Act & Assess
+			expect(getPullRequest(subject)).toEqual({ subject });
+		}
+	);
+});
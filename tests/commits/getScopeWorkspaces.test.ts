@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getScopeWorkspaces } from '../../src/commits.js';
+import type { Workspace } from '../../src/types.js';
+
+const createWorkspace = (shortName: string): Workspace => ({
+	name: `@scope/${shortName}`,
+	shortName,
+	path: `/test/packages/${shortName}`,
+	version: '1.0.0',
+	changed: false,
+	commits: [],
+	dependencyNames: [],
+	dependenciesByType: {},
+	isPrivate: false,
+});
+
+describe('getScopeWorkspaces', () => {
+	const workspaces = {
+		server: createWorkspace('server'),
+		client: createWorkspace('client'),
+	};
+
+	it('matches the workspace with the same short name', () => {
+		// Act & Assess
+		expect(getScopeWorkspaces('server', workspaces)).toEqual([
+			workspaces.server,
+		]);
+	});
+
+	it('resolves aliases to one or more workspaces', () => {
+		// Prepare
+		const aliases = { api: 'server', shared: ['server', 'client', 'missing'] };
+
+		// Act & Assess
+		expect(getScopeWorkspaces('api', workspaces, aliases)).toEqual([
+			workspaces.server,
+		]);
+		expect(getScopeWorkspaces('shared', workspaces, aliases)).toEqual([
+			workspaces.server,
+			workspaces.client,
+		]);
+	});
+
+	it('ignores scopes aliased to no workspace', () => {
+		// Act & Assess
+		expect(getScopeWorkspaces('server', workspaces, { server: [] })).toEqual(
+			[]
+		);
+	});
+
+	it.each([undefined, null, '', 'unknown'])(
+		'returns no workspace for scope %j',
+		(scope) => {
+			expect(getScopeWorkspaces(scope, workspaces)).toEqual([]);
+		}
+	);
+});
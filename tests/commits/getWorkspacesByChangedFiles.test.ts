@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { getWorkspacesByChangedFiles } from '../../src/commits.js';
+import type { Workspace } from '../../src/types.js';
+
+const createWorkspace = (shortName: string, path: string): Workspace => ({
+	name: `@scope/${shortName}`,
+	shortName,
+	path,
+	version: '1.0.0',
+	changed: false,
+	commits: [],
+	dependencyNames: [],
+	dependenciesByType: {},
+	isPrivate: false,
+});
+
+describe('getWorkspacesByChangedFiles', () => {
+	const workspaces = {
+		core: createWorkspace('core', '/test/packages/core'),
+		plugin: createWorkspace('plugin', '/test/packages/core/plugin'),
+		utils: createWorkspace('utils', '/test/packages/utils'),
+		root: createWorkspace('root', '/test'),
+	};
+
+	it('returns every workspace whose directory was touched', () => {
+		// Act
+		const result = getWorkspacesByChangedFiles(
+			['packages/utils/src/index.ts', 'packages/core/README.md'],
+			workspaces,
+			'/test'
+		);
+
+		// Assess
+		expect(result).toEqual([workspaces.core, workspaces.utils]);
+	});
+
+	it('attributes files of nested workspaces to the innermost one', () => {
+		// Act
+		const result = getWorkspacesByChangedFiles(
+			['packages/core/plugin/index.ts'],
+			workspaces,
+			'/test'
+		);
+
+		// Assess
+		expect(result).toEqual([workspaces.plugin]);
+	});
+
+	it('ignores files outside of workspace directories', () => {
+		// Act
+		const result = getWorkspacesByChangedFiles(
+			['package.json', 'packages/core-legacy/index.ts'],
+			workspaces,
+			'/test'
+		);
+
+		// Assess
+		expect(result).toEqual([]);
+	});
+});
@@ -45,3 +45,12 @@ describe('isAllowedType', () => {
 		});
 	});
 });
+
+describe('isAllowedType with custom change types', () => {
+	it('accepts configured types and rejects the others', () => {
+		const changeTypes = { security: 'patch' } as const;
+
+		expect(isAllowedType('security', changeTypes)).toBe(true);
+		expect(isAllowedType('feat', changeTypes)).toBe(false);
+	});
+});
@@ -25,3 +25,19 @@ describe('isVersionBumpCommit', () => {
 		}
 	);
 });
+
+describe('isVersionBumpCommit with custom configuration', () => {
+	const versionBumpCommit = { type: 'release', subjectPrefix: 'publish' };
+
+	it('identifies commits matching the configured type and prefix', () => {
+		expect(
+			isVersionBumpCommit('release', 'publish 1.0.0', versionBumpCommit)
+		).toBe(true);
+	});
+
+	it('rejects the default release commit', () => {
+		expect(
+			isVersionBumpCommit('chore', 'bump version to 1.0.0', versionBumpCommit)
+		).toBe(false);
+	});
+});
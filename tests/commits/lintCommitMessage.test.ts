@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { lintCommitMessage } from '../../src/commits.js';
+import { DefaultConfig } from '../../src/constants.js';
+import type { Workspace } from '../../src/types.js';
+
+const createWorkspace = (shortName: string, path: string): Workspace => ({
+	name: `@scope/${shortName}`,
+	shortName,
+	path,
+	version: '1.0.0',
+	changed: false,
+	commits: [],
+	dependencyNames: [],
+	dependenciesByType: {},
+	isPrivate: false,
+});
+
+const workspaces = {
+	core: createWorkspace('core', '/test/packages/core'),
+	utils: createWorkspace('utils', '/test/packages/utils'),
+};
+
+describe('lintCommitMessage', () => {
+	it.each([
+		'feat(core): add option',
+		'fix!: drop support for Node 18',
+		'docs: update readme\n\nDetails\n\nBREAKING CHANGE: none',
+		'chore(deps): bump semver from 7.6.0 to 7.7.0',
+		'fix(utils): handle empty input (#12)',
+	])('accepts a valid message: %s', (message) => {
+		// Act & Assess
+		expect(lintCommitMessage(message, workspaces, '/test')).toEqual([]);
+	});
+
+	it.each([
+		'Merge branch "main" into feature',
+		'Revert "feat(core): add option"',
+		'fixup! feat(core): add option',
+	])('ignores messages generated by git: %s', (message) => {
+		// Act & Assess
+		expect(lintCommitMessage(message, workspaces, '/test')).toEqual([]);
+	});
+
+	it('reports messages that are not conventional commits', () => {
+		// Act & Assess
+		expect(lintCommitMessage('Add option', workspaces, '/test')).toEqual([
+			'Header "Add option" does not follow the "type(scope): subject" format',
+		]);
+		expect(lintCommitMessage('feat:add option', workspaces, '/test')).toEqual([
+			'Header "feat:add option" does not follow the "type(scope): subject" format',
+		]);
+		expect(lintCommitMessage('\n\n', workspaces, '/test')).toEqual([
+			'Commit message is empty',
+		]);
+	});
+
+	it('reports every problem of a message', () => {
+		// Act
+		const result = lintCommitMessage('feet(cor): (#12)', workspaces, '/test', {
+			...DefaultConfig,
+			changeTypes: { feat: 'minor', fix: 'patch' },
+			skippedTypes: ['docs'],
+			scopeAliases: { api: ['core'] },
+		});
+
+		// Assess
+		expect(result).toEqual([
+			'Type "feet" is not allowed, use one of feat, fix, docs',
+			'Scope "cor" is not a workspace or scope alias, use one of core, utils, api, deps',
+			'Subject is empty',
+		]);
+	});
+
+	it('accepts any scope when scopes do not select workspaces', () => {
+		// Prepare
+		const message = 'feat(parser): add option';
+
+		// Act & Assess
+		expect(
+			lintCommitMessage(
+				message,
+				{ root: createWorkspace('root', '/test') },
+				'/test'
+			)
+		).toEqual([]);
+		expect(
+			lintCommitMessage(message, workspaces, '/test', {
+				...DefaultConfig,
+				commitAttribution: 'path',
+			})
+		).toEqual([]);
+	});
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { markNewContributors } from '../../src/commits.js';
+import type { ParsedCommit, Workspace } from '../../src/types.js';
+
+const createWorkspace = (
+	shortName: string,
+	commits: ParsedCommit[]
+): Workspace => ({
+	name: `@scope/${shortName}`,
+	shortName,
+	path: `/test/packages/${shortName}`,
+	version: '1.0.0',
+	changed: true,
+	commits,
+	dependencyNames: [],
+	dependenciesByType: {},
+	isPrivate: false,
+});
+
+const createCommit = (
+	hash: string,
+	email: string,
+	date: string,
+	coAuthors?: ParsedCommit['coAuthors']
+): ParsedCommit => ({
+	type: 'feat',
+	scope: '',
+	subject: `change ${hash}`,
+	notes: [],
+	breaking: false,
+	hash,
+	author: { name: email.split('@')[0] ?? '', email },
+	date,
+	coAuthors,
+});
+
+describe('markNewContributors', () => {
+	it('records each new contributor on their earliest commit', () => {
+		// Prepare
+		const latest = createCommit(
+			'c3',
+			'jane@example.com',
+			'2024-05-03T00:00:00Z'
+		);
+		const earliest = createCommit(
+			'c1',
+			'jane@example.com',
+			'2024-05-01T00:00:00Z'
+		);
+		const known = createCommit(
+			'c2',
+			'john@example.com',
+			'2024-05-02T00:00:00Z'
+		);
+		const workspaces = {
+			core: createWorkspace('core', [latest, known, earliest]),
+		};
+
+		// Act
+		markNewContributors(workspaces, new Set(['john@example.com']));
+
+		// Assess
+		expect(earliest.newContributors).toEqual([
+			{ name: 'jane', email: 'jane@example.com' },
+		]);
+		expect(latest.newContributors).toBeUndefined();
+		expect(known.newContributors).toBeUndefined();
+	});
+
+	it('counts co-authors and compares emails regardless of case', () => {
+		// Prepare
+		const commit = createCommit(
+			'c1',
+			'John@Example.com',
+			'2024-05-01T00:00:00Z',
+			[{ name: 'Alice', email: 'alice@example.com' }]
+		);
+		const workspaces = { core: createWorkspace('core', [commit]) };
+
+		// Act
+		markNewContributors(workspaces, new Set(['john@example.com']));
+
+		// Assess
+		expect(commit.newContributors).toEqual([
+			{ name: 'Alice', email: 'alice@example.com' },
+		]);
+	});
+
+	it('marks a commit attributed to several workspaces in each of them', () => {
+		// Prepare
+		const core = createCommit('c1', 'jane@example.com', '2024-05-01T00:00:00Z');
+		const utils = { ...core };
+		const workspaces = {
+			core: createWorkspace('core', [core]),
+			utils: createWorkspace('utils', [utils]),
+		};
+
+		// Act
+		markNewContributors(workspaces, new Set());
+
+		// Assess
+		expect(core.newContributors).toEqual([
+			{ name: 'jane', email: 'jane@example.com' },
+		]);
+		expect(utils.newContributors).toEqual(core.newContributors);
+	});
+});
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseCommits } from '../../src/commits.js';
+import { DefaultConfig } from '../../src/constants.js';
+import type { Config, RawCommit, Workspace } from '../../src/types.js';
+
+const mocks = vi.hoisted(() => ({
+	getChangedFiles: vi.fn(),
+	getFileDiff: vi.fn(),
+}));
+
+vi.mock('../../src/git.js', () => ({
+	getChangedFiles: mocks.getChangedFiles,
+	getFileDiff: mocks.getFileDiff,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+describe('parseCommits with path-based attribution', () => {
+	const rootPath = '/test';
+	const config: Config = { ...DefaultConfig, commitAttribution: 'path' };
+	let workspaces: Record<string, Workspace>;
+
+	const createWorkspace = (shortName: string): Workspace => ({
+		name: `@scope/${shortName}`,
+		shortName,
+		path: `${rootPath}/packages/${shortName}`,
+		version: '1.0.0',
+		changed: false,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	});
+
+	beforeEach(() => {
+		workspaces = {
+			server: createWorkspace('server'),
+			client: createWorkspace('client'),
+		};
+	});
+
+	it('attributes a commit to every workspace whose files it changed', () => {
+		// Prepare
+		const commits: RawCommit[] = [
+			{ hash: 'abc123', subject: 'feat: add endpoint', body: '' },
+		];
+		mocks.getChangedFiles.mockReturnValue([
+			'packages/server/src/routes.ts',
+			'packages/client/src/api.ts',
+			'README.md',
+		]);
+
+		// Act
+		const result = parseCommits(commits, workspaces, rootPath, config);
+
+		// Assess
+		expect(mocks.getChangedFiles).toHaveBeenCalledWith(rootPath, 'abc123');
+		expect(result.workspaceChanged).toBe(true);
+		expect(result.workspaces.server?.commits).toEqual([
+			{
+				subject: 'add endpoint',
+				type: 'feat',
+				scope: 'server',
+				notes: [],
+				breaking: false,
+				hash: 'abc123',
+			},
+		]);
+		expect(result.workspaces.client?.commits).toHaveLength(1);
+	});
+
+	it('uses the files retrieved with the commit without running git', () => {
+		// Prepare
+		const commits: RawCommit[] = [
+			{
+				hash: 'abc123',
+				subject: 'fix: handle timeouts',
+				body: '',
+				files: ['packages/client/src/api.ts'],
+			},
+		];
+
+		// Act
+		const result = parseCommits(commits, workspaces, rootPath, config);
+
+		// Assess
+		expect(mocks.getChangedFiles).not.toHaveBeenCalled();
+		expect(result.workspaces.client?.changed).toBe(true);
+		expect(result.workspaces.server?.changed).toBe(false);
+	});
+
+	it('falls back to the scope or its alias when no workspace file changed', () => {
+		// Prepare
+		const commits: RawCommit[] = [
+			{ hash: 'abc123', subject: 'fix(api): handle timeouts', body: '' },
+		];
+		mocks.getChangedFiles.mockReturnValue(['docs/api.md']);
+
+		// Act
+		const result = parseCommits(commits, workspaces, rootPath, {
+			...config,
+			scopeAliases: { api: 'server' },
+		});
+
+		// Assess
+		expect(result.workspaces.server?.commits).toEqual([
+			expect.objectContaining({ subject: 'handle timeouts', scope: 'api' }),
+		]);
+		expect(result.workspaces.client?.changed).toBe(false);
+	});
+
+	it('prefers the scope over changed files when scope override is enabled', () => {
+		// Prepare
+		const commits: RawCommit[] = [
+			{ hash: 'abc123', subject: 'feat(client): use endpoint', body: '' },
+		];
+		mocks.getChangedFiles.mockReturnValue([
+			'packages/server/src/routes.ts',
+			'packages/client/src/api.ts',
+		]);
+
+		// Act
+		const result = parseCommits(commits, workspaces, rootPath, {
+			...config,
+			scopeOverride: true,
+		});
+
+		// Assess
+		expect(mocks.getChangedFiles).not.toHaveBeenCalled();
+		expect(result.workspaces.client?.changed).toBe(true);
+		expect(result.workspaces.server?.changed).toBe(false);
+	});
+
+	it('ignores commits touching no workspace without a matching scope', () => {
+		// Prepare
+		const commits: RawCommit[] = [
+			{ hash: 'abc123', subject: 'fix: update root config', body: '' },
+		];
+		mocks.getChangedFiles.mockReturnValue(['tsconfig.json']);
+
+		// Act
+		const result = parseCommits(commits, workspaces, rootPath, config);
+
+		// Assess
+		expect(result.workspaceChanged).toBe(false);
+	});
+});
+
+describe('parseCommits with scope aliases', () => {
+	it('attributes aliased scopes to their workspaces', () => {
+		// Prepare
+		const workspaces: Record<string, Workspace> = {
+			server: {
+				name: '@scope/server',
+				shortName: 'server',
+				path: '/test/packages/server',
+				version: '1.0.0',
+				changed: false,
+				commits: [],
+				dependencyNames: [],
+				dependenciesByType: {},
+				isPrivate: false,
+			},
+		};
+		const commits: RawCommit[] = [
+			{ hash: 'abc123', subject: 'feat(api): add endpoint', body: '' },
+		];
+
+		// Act
+		const result = parseCommits(commits, workspaces, '/test', {
+			...DefaultConfig,
+			scopeAliases: { api: 'server' },
+		});
+
+		// Assess
+		expect(result.workspaces.server?.changed).toBe(true);
+		expect(mocks.getChangedFiles).not.toHaveBeenCalled();
+	});
+});
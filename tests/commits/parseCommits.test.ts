@@ -1,5 +1,6 @@
 import { beforeEach, expect, it, vi } from 'vitest';
 import { parseCommits } from '../../src/commits.js';
+import { DefaultConfig } from '../../src/constants.js';
 import type { RawCommit, Workspace } from '../../src/types.js';
 
 const mocks = vi.hoisted(() => ({
@@ -43,6 +44,7 @@ it('parses commits and updates matching workspaces', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -53,6 +55,7 @@ it('parses commits and updates matching workspaces', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1, 'workspace-b': workspace2 };
@@ -107,6 +110,7 @@ it('ignores commits with invalid format', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -144,6 +148,7 @@ it('ignores commits with disallowed types', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -176,6 +181,7 @@ it('ignores commits for non-existent workspaces', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -207,6 +213,7 @@ it('detects breaking changes from notes', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -223,6 +230,77 @@ it('detects breaking changes from notes', () => {
 	);
 });
 
+it('detects breaking changes from plural and hyphenated footers', () => {
+	// Prepare
+	const commits: RawCommit[] = [
+		{
+			hash: 'abc123',
+			subject: 'feat(workspace-a): remove option',
+			body: 'BREAKING CHANGES: The `legacy` option is removed.',
+		},
+		{
+			hash: 'def456',
+			subject: 'fix(workspace-a): rename export',
+			body: 'BREAKING-CHANGE: The `run` export is renamed.',
+		},
+	];
+	const workspaces: Record<string, Workspace> = {
+		'workspace-a': {
+			name: 'workspace-a',
+			shortName: 'workspace-a',
+			path: '/test/packages/workspace-a',
+			version: '1.0.0',
+			changed: false,
+			commits: [],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+	};
+
+	// Act
+	const result = parseCommits(commits, workspaces, '/test');
+
+	// Assess
+	expect(
+		result.workspaces['workspace-a'].commits.map((commit) => commit.breaking)
+	).toEqual([true, true]);
+});
+
+it('adds a breaking change note with the subject for breaking headers without footer', () => {
+	// Prepare
+	const commits: RawCommit[] = [
+		{
+			hash: 'abc123',
+			subject: 'feat(workspace-a)!: drop support for Node.js 18',
+			body: '',
+		},
+	];
+	const workspaces: Record<string, Workspace> = {
+		'workspace-a': {
+			name: 'workspace-a',
+			shortName: 'workspace-a',
+			path: '/test/packages/workspace-a',
+			version: '1.0.0',
+			changed: false,
+			commits: [],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+	};
+
+	// Act
+	const result = parseCommits(commits, workspaces, '/test');
+
+	// Assess
+	expect(result.workspaces['workspace-a'].commits[0]).toMatchObject({
+		subject: 'drop support for Node.js 18',
+		breaking: true,
+		notes: [{ title: 'BREAKING CHANGE', text: 'drop support for Node.js 18' }],
+	});
+});
+
 it('handles dependabot group commits', () => {
 	// Prepare
 	const commits: RawCommit[] = [
@@ -240,6 +318,7 @@ it('handles dependabot group commits', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -282,6 +361,7 @@ it('handles individual dependency updates', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: ['lodash', 'react'],
+		dependenciesByType: { dependencies: ['lodash', 'react'] },
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -292,6 +372,7 @@ it('handles individual dependency updates', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: ['axios'],
+		dependenciesByType: { dependencies: ['axios'] },
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1, 'workspace-b': workspace2 };
@@ -325,6 +406,7 @@ it('skips private workspaces for dependency updates', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: ['lodash'],
+		dependenciesByType: { dependencies: ['lodash'] },
 		isPrivate: true,
 	};
 	const workspaces = { 'private-workspace': privateWorkspace };
@@ -356,6 +438,7 @@ it('returns false for workspaceChanged when no workspaces are affected', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -385,6 +468,7 @@ it('handles commits with breaking change indicator in header', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -408,6 +492,7 @@ it('handles empty commits array', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1 };
@@ -470,6 +555,7 @@ it("excludes commits that don''t affect end-user functionality", () => {
 			changed: false,
 			commits: [],
 			dependencyNames: [],
+			dependenciesByType: {},
 			isPrivate: false,
 		},
 	};
@@ -517,6 +603,7 @@ it('skips commits without scope in multi-package repos', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -527,6 +614,7 @@ it('skips commits without scope in multi-package repos', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1, 'workspace-b': workspace2 };
@@ -550,3 +638,117 @@ it('skips commits without scope in multi-package repos', () => {
 		.map((c) => c.subject);
 	expect(allCommitSubjects).not.toContain('add new feature with no scope');
 });
+
+it('uses the configured change types and skipped types', () => {
+	// Prepare
+	const commits: RawCommit[] = [
+		{ hash: 'abc123', subject: 'security: patch vulnerability', body: '' },
+		{ hash: 'def456', subject: 'docs: update readme', body: '' },
+		{ hash: 'ghi789', subject: 'chore: tidy up', body: '' },
+	];
+	const workspace: Workspace = {
+		name: 'my-package',
+		shortName: 'my-package',
+		path: '/test',
+		version: '1.0.0',
+		changed: false,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	};
+	const config = {
+		...DefaultConfig,
+		changeTypes: { ...DefaultConfig.changeTypes, security: 'patch' as const },
+		skippedTypes: ['chore'],
+	};
+
+	// Act
+	const result = parseCommits(
+		commits,
+		{ 'my-package': workspace },
+		'/test',
+		config
+	);
+
+	// Assess
+	expect(
+		result.workspaces['my-package'].commits.map((commit) => commit.type)
+	).toEqual(['security', 'docs']);
+});
+
+it('records the pull request of squash merges and the issues they close', () => {
+	// Prepare
+	const commits: RawCommit[] = [
+		{
+			hash: 'abc123',
+			subject: 'feat: add dark mode (#1234)',
+			body: 'Closes #55\nFixes owner/repo#12',
+		},
+	];
+	const workspace: Workspace = {
+		name: 'my-package',
+		shortName: 'my-package',
+		path: '/test',
+		version: '1.0.0',
+		changed: false,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	};
+
+	// Act
+	const result = parseCommits(commits, { 'my-package': workspace }, '/test');
+
+	// Assess
+	expect(result.workspaces['my-package'].commits[0]).toEqual(
+		expect.objectContaining({
+			subject: 'add dark mode',
+			pr: { number: 1234 },
+			closes: [{ number: 55 }, { number: 12, repository: 'owner/repo' }],
+		})
+	);
+});
+
+it('records the keys of the configured issue trackers', () => {
+	// Prepare
+	const commits: RawCommit[] = [
+		{
+			hash: 'abc123',
+			subject: 'fix: round amounts PAY-1234',
+			body: 'Refs: PAY-99',
+		},
+	];
+	const workspace: Workspace = {
+		name: 'my-package',
+		shortName: 'my-package',
+		path: '/test',
+		version: '1.0.0',
+		changed: false,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	};
+	const config = {
+		...DefaultConfig,
+		issueTrackers: [
+			{ pattern: 'PAY-\\d+', url: 'https://jira.example.com/browse/{key}' },
+		],
+	};
+
+	// Act
+	const result = parseCommits(
+		commits,
+		{ 'my-package': workspace },
+		'/test',
+		config
+	);
+
+	// Assess
+	expect(result.workspaces['my-package'].commits[0]?.issueKeys).toEqual([
+		'PAY-1234',
+		'PAY-99',
+	]);
+});
@@ -17,6 +17,7 @@ describe('parseCommits with version bump commits', () => {
 				changed: false,
 				commits: [],
 				dependencyNames: [],
+				dependenciesByType: {},
 				isPrivate: false,
 			},
 		};
@@ -75,6 +76,7 @@ describe('parseCommits with version bump commits', () => {
 				changed: false,
 				commits: [],
 				dependencyNames: [],
+				dependenciesByType: {},
 				isPrivate: false,
 			},
 		};
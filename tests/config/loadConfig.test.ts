@@ -0,0 +1,124 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, expect, it } from 'vitest';
+import { loadConfig } from '../../src/config.js';
+import { DefaultConfig } from '../../src/constants.js';
+
+let root: string;
+
+beforeEach(() => {
+	root = mkdtempSync(join(tmpdir(), 'bump-n-go-config-'));
+	writeFileSync(join(root, 'package.json'), JSON.stringify({ name: 'repo' }));
+});
+
+afterEach(() => {
+	rmSync(root, { recursive: true, force: true });
+});
+
+it('returns the defaults when no configuration exists', async () => {
+	// Act
+	const config = await loadConfig(root);
+
+	// Assess
+	expect(config).toEqual(DefaultConfig);
+});
+
+it('loads the configuration from a JSON file', async () => {
+	// Prepare
+	writeFileSync(
+		join(root, 'bump-n-go.config.json'),
+		JSON.stringify({
+			tagFormat: 'release-{version}',
+			changelogFile: 'HISTORY.md',
+		})
+	);
+
+	// Act
+	const config = await loadConfig(root);
+
+	// Assess
+	expect(config.tagFormat).toBe('release-{version}');
+	expect(config.changelogFile).toBe('HISTORY.md');
+	expect(config.changeTypes).toEqual(DefaultConfig.changeTypes);
+});
+
+it('loads the default export of a JavaScript module', async () => {
+	// Prepare
+	writeFileSync(
+		join(root, 'bump-n-go.config.mjs'),
+		'export default { independent: true };\n'
+	);
+
+	// Act
+	const config = await loadConfig(root);
+
+	// Assess
+	expect(config.independent).toBe(true);
+});
+
+it('prefers configuration files over the package.json key', async () => {
+	// Prepare
+	writeFileSync(
+		join(root, 'package.json'),
+		JSON.stringify({ name: 'repo', bumpNGo: { tagFormat: 'pkg-{version}' } })
+	);
+	writeFileSync(
+		join(root, 'bump-n-go.config.json'),
+		JSON.stringify({ tagFormat: 'file-{version}' })
+	);
+
+	// Act
+	const config = await loadConfig(root);
+
+	// Assess
+	expect(config.tagFormat).toBe('file-{version}');
+});
+
+it('loads the configuration from the bumpNGo key of package.json', async () => {
+	// Prepare
+	writeFileSync(
+		join(root, 'package.json'),
+		JSON.stringify({ name: 'repo', bumpNGo: { skippedTypes: ['ci'] } })
+	);
+
+	// Act
+	const config = await loadConfig(root);
+
+	// Assess
+	expect(config.skippedTypes).toEqual(['ci']);
+});
+
+it('reports invalid configuration with its source', async () => {
+	// Prepare
+	writeFileSync(
+		join(root, 'package.json'),
+		JSON.stringify({ name: 'repo', bumpNGo: { independent: 'yes' } })
+	);
+
+	// Act & Assess
+	await expect(loadConfig(root)).rejects.toThrow(
+		'Invalid configuration in the "bumpNGo" key of package.json:\n  - "independent" must be a boolean'
+	);
+});
+
+it('reports configuration files that cannot be parsed', async () => {
+	// Prepare
+	writeFileSync(join(root, 'bump-n-go.config.json'), '{ invalid');
+
+	// Act & Assess
+	await expect(loadConfig(root)).rejects.toThrow(
+		/^Failed to load configuration from bump-n-go.config.json: /
+	);
+});
+
+it('returns the defaults when the root has no package.json', async () => {
+	// Prepare
+	rmSync(join(root, 'package.json'));
+
+	// Act
+	const config = await loadConfig(root);
+
+	// Assess
+	expect(config).toEqual(DefaultConfig);
+});
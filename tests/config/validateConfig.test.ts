@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { resolveConfig, validateConfig } from '../../src/config.js';
+import { DefaultConfig } from '../../src/constants.js';
+
+describe('validateConfig', () => {
+	it('accepts a valid configuration', () => {
+		// Prepare
+		const input = {
+			changeTypes: { security: 'patch' },
+			changeTypeHeaders: { security: 'Security' },
+			skippedTypes: ['ci'],
+			versionBumpCommit: { type: 'release', subjectPrefix: 'v' },
+			tagFormat: '{version}',
+			packageTagFormat: '{name}-v{version}',
+			changelogFile: 'HISTORY.md',
+			dependencyTypes: ['dependencies'],
+			independent: true,
+			dependencyPropagationBump: 'none',
+			workspaceProtocol: 'resolve',
+			commitAttribution: 'path',
+			scopeOverride: true,
+			scopeAliases: { api: 'server', shared: ['server', 'client'] },
+			sectionOrder: ['Features', 'Bug Fixes'],
+			changelogTemplates: {
+				entry: '* {{subject}}{{#breaking}} (breaking){{/breaking}}',
+				versionHeader: ({ version }: { version: string }) => `# ${version}`,
+			},
+			forge: 'gitea',
+			forgeApiUrl: 'https://git.example.com/api/v1',
+			linkStyle: 'gitea',
+			issueTrackers: [
+				{
+					pattern: '[A-Z]+-\\d+',
+					url: 'https://jira.example.com/browse/{key}',
+				},
+			],
+			creditAuthors: true,
+			newContributors: true,
+			authorHandles: { 'jane@example.com': 'janedoe' },
+		};
+
+		// Act & Assess
+		expect(validateConfig(input, 'test')).toEqual(input);
+	});
+
+	it.each([null, 'string', 42, []])('rejects non-object input: %j', (input) => {
+		expect(() => validateConfig(input, 'bump-n-go.config.json')).toThrow(
+			/^Invalid configuration in bump-n-go.config.json: expected an object/
+		);
+	});
+
+	it('reports every problem at once', () => {
+		// Prepare
+		const input = {
+			changeTypes: { feat: 'huge' },
+			changeTypeHeaders: { feat: '' },
+			skippedTypes: 'ci',
+			versionBumpCommit: { type: 'chore' },
+			tagFormat: 'v',
+			packageTagFormat: 'v{version}',
+			changelogFile: '',
+			dependencyTypes: [1],
+			independent: 'yes',
+			dependencyPropagationBump: 'huge',
+			workspaceProtocol: 'strip',
+			commitAttribution: 'files',
+			scopeOverride: 'yes',
+			scopeAliases: { api: 1 },
+			sectionOrder: 'Features',
+			forge: 'bitbucket',
+			forgeApiUrl: 'not a url',
+			linkStyle: 'sourcehut',
+			issueTrackers: [
+				{ pattern: '[A-Z', url: 'https://jira.example.com/browse/' },
+				'PAY',
+			],
+			creditAuthors: 'yes',
+			newContributors: 1,
+			authorHandles: { 'jane@example.com': '' },
+			changelogTemplates: {
+				entry: '- {{subject}} by {{author}}',
+				sectionHeader: 1,
+				footer: '',
+			},
+			unknownOption: true,
+		};
+
+		// Act & Assess
+		expect(() => validateConfig(input, 'package.json')).toThrow(
+			[
+				'Invalid configuration in package.json:',
+				'  - "changeTypes.feat" must be one of major, minor, patch (got "huge")',
+				'  - "changeTypeHeaders.feat" must be a non-empty string',
+				'  - "skippedTypes" must be an array of strings',
+				'  - "versionBumpCommit" must be an object with string "type" and "subjectPrefix"',
+				'  - "tagFormat" must be a string containing {version}',
+				'  - "packageTagFormat" must be a string containing {name} and {version}',
+				'  - "changelogFile" must be a non-empty string',
+				'  - "dependencyTypes" must be an array of strings',
+				'  - "independent" must be a boolean',
+				'  - "dependencyPropagationBump" must be one of major, minor, patch, none (got "huge")',
+				'  - "workspaceProtocol" must be one of keep, resolve (got "strip")',
+				'  - "commitAttribution" must be one of scope, path (got "files")',
+				'  - "scopeOverride" must be a boolean',
+				'  - "scopeAliases.api" must be a workspace short name or an array of them',
+				'  - "sectionOrder" must be an array of strings',
+				'  - "forge" must be one of github, gitlab, gitea (got "bitbucket")',
+				'  - "forgeApiUrl" must be a URL',
+				'  - "linkStyle" must be one of auto, github, gitlab, bitbucket, gitea, azure (got "sourcehut")',
+				'  - "issueTrackers[0].pattern" must be a regular expression',
+				'  - "issueTrackers[0].url" must be a string containing {key}',
+				'  - "issueTrackers[1]" must be an object with "pattern" and "url"',
+				'  - "creditAuthors" must be a boolean',
+				'  - "newContributors" must be a boolean',
+				'  - "authorHandles.jane@example.com" must be a non-empty string',
+				'  - "changelogTemplates.entry" uses unknown placeholder {{author}} (available: subject, type, scope, breaking, hash, shortHash, commitUrl, package, workspace, authors, date, pr, prUrl, closes)',
+				'  - "changelogTemplates.sectionHeader" must be a string or a render function',
+				'  - "changelogTemplates.footer" is not a template (valid templates are: versionHeader, sectionHeader, entry, versionBumpOnly, breakingChange, contributor)',
+				'  - unknown option "unknownOption" (valid options are: changeTypes, changeTypeHeaders, skippedTypes, versionBumpCommit, releaseCommitMessage, tagFormat, packageTagFormat, changelogFile, dependencyTypes, independent, dependencyPropagationBump, workspaceProtocol, commitAttribution, scopeOverride, scopeAliases, sectionOrder, changelogTemplates, forge, forgeApiUrl, linkStyle, issueTrackers, creditAuthors, newContributors, authorHandles)',
+			].join('\n')
+		);
+	});
+
+	it('rejects non-object type mappings', () => {
+		expect(() =>
+			validateConfig(
+				{
+					changeTypes: [],
+					changeTypeHeaders: 'x',
+					scopeAliases: [],
+					changelogTemplates: 'x',
+				},
+				'test'
+			)
+		).toThrow(
+			[
+				'Invalid configuration in test:',
+				'  - "changeTypes" must be an object mapping commit types to bumps',
+				'  - "changeTypeHeaders" must be an object mapping commit types to section headers',
+				'  - "scopeAliases" must be an object mapping scopes to workspace short names',
+				'  - "changelogTemplates" must be an object mapping template names to templates',
+			].join('\n')
+		);
+	});
+});
+
+describe('resolveConfig', () => {
+	it('merges type mappings with the defaults', () => {
+		// Act
+		const config = resolveConfig(
+			{
+				changeTypes: { security: 'patch' },
+				changeTypeHeaders: { security: 'Security' },
+				skippedTypes: [],
+			},
+			'test'
+		);
+
+		// Assess
+		expect(config.changeTypes).toEqual({
+			...DefaultConfig.changeTypes,
+			security: 'patch',
+		});
+		expect(config.changeTypeHeaders.security).toBe('Security');
+		expect(config.changeTypeHeaders.feat).toBe('Features');
+		expect(config.skippedTypes).toEqual([]);
+		expect(config.tagFormat).toBe('v{version}');
+	});
+
+	it('merges changelog templates with the defaults', () => {
+		// Act
+		const config = resolveConfig(
+			{ changelogTemplates: { sectionHeader: '## {{title}}' } },
+			'test'
+		);
+
+		// Assess
+		expect(config.changelogTemplates).toEqual({
+			...DefaultConfig.changelogTemplates,
+			sectionHeader: '## {{title}}',
+		});
+	});
+
+	it('requires a section header for every change type', () => {
+		expect(() =>
+			resolveConfig({ changeTypes: { security: 'patch' } }, 'test')
+		).toThrow(
+			'Invalid configuration in test: missing "changeTypeHeaders" entry for commit types security'
+		);
+	});
+});
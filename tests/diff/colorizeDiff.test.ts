@@ -0,0 +1,27 @@
+import { expect, it } from 'vitest';
+import { colorizeDiff } from '../../src/diff.js';
+
+it('colours headers, hunks, removed and added lines', () => {
+	// Prepare
+	const diff = [
+		'--- a/package.json',
+		'+++ b/package.json',
+		'@@ -1,1 +1,1 @@',
+		'-  "version": "1.0.0"',
+		'+  "version": "1.1.0"',
+		' }',
+	].join('\n');
+
+	// Act
+	const result = colorizeDiff(diff);
+
+	// Assess
+	expect(result.split('\n')).toEqual([
+		'\x1b[1m--- a/package.json\x1b[0m',
+		'\x1b[1m+++ b/package.json\x1b[0m',
+		'\x1b[36m@@ -1,1 +1,1 @@\x1b[0m',
+		'\x1b[31m-  "version": "1.0.0"\x1b[0m',
+		'\x1b[32m+  "version": "1.1.0"\x1b[0m',
+		' }',
+	]);
+});
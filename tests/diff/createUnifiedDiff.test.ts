@@ -0,0 +1,74 @@
+import { expect, it } from 'vitest';
+import { createUnifiedDiff } from '../../src/diff.js';
+
+it('creates a hunk with context around the changed lines', () => {
+	// Prepare
+	const original = ['{', '  "name": "pkg",', '  "version": "1.0.0"', '}', ''];
+	const content = ['{', '  "name": "pkg",', '  "version": "1.1.0"', '}', ''];
+
+	// Act
+	const result = createUnifiedDiff(
+		'package.json',
+		original.join('\n'),
+		content.join('\n')
+	);
+
+	// Assess
+	expect(result).toBe(
+		[
+			'--- a/package.json',
+			'+++ b/package.json',
+			'@@ -1,4 +1,4 @@',
+			' {',
+			'   "name": "pkg",',
+			'-  "version": "1.0.0"',
+			'+  "version": "1.1.0"',
+			' }',
+			'',
+		].join('\n')
+	);
+});
+
+it('splits distant changes into separate hunks', () => {
+	// Prepare
+	const original = Array.from({ length: 20 }, (_, index) => `line ${index}`);
+	const content = [...original];
+	content[1] = 'changed 1';
+	content[18] = 'changed 18';
+
+	// Act
+	const result = createUnifiedDiff(
+		'file.txt',
+		original.join('\n'),
+		content.join('\n'),
+		2
+	);
+
+	// Assess
+	expect(result.split('\n').filter((line) => line.startsWith('@@'))).toEqual([
+		'@@ -1,4 +1,4 @@',
+		'@@ -17,4 +17,4 @@',
+	]);
+});
+
+it('shows created files against /dev/null', () => {
+	// Act
+	const result = createUnifiedDiff('CHANGELOG.md', null, '# Changelog\n');
+
+	// Assess
+	expect(result).toBe(
+		[
+			'--- /dev/null',
+			'+++ b/CHANGELOG.md',
+			'@@ -0,0 +1,1 @@',
+			'+# Changelog',
+			'',
+		].join('\n')
+	);
+});
+
+it('returns an empty string when the content is unchanged', () => {
+	// Act & Assess
+	expect(createUnifiedDiff('file.txt', 'a\n', 'a\n')).toBe('');
+	expect(createUnifiedDiff('file.txt', 'a\n', 'a')).toBe('');
+});
@@ -0,0 +1,49 @@
+import { expect, it } from 'vitest';
+import { diffLines } from '../../src/diff.js';
+
+it('marks every line as unchanged when the files are equal', () => {
+	// Act
+	const result = diffLines(['a', 'b'], ['a', 'b']);
+
+	// Assess
+	expect(result).toEqual([
+		{ type: ' ', line: 'a' },
+		{ type: ' ', line: 'b' },
+	]);
+});
+
+it('marks replaced lines as removed and added', () => {
+	// Act
+	const result = diffLines(['a', 'b', 'c'], ['a', 'x', 'c']);
+
+	// Assess
+	expect(result).toEqual([
+		{ type: ' ', line: 'a' },
+		{ type: '-', line: 'b' },
+		{ type: '+', line: 'x' },
+		{ type: ' ', line: 'c' },
+	]);
+});
+
+it('finds the shortest edit script for insertions and deletions', () => {
+	// Act
+	const result = diffLines(
+		['# Changelog', '', '## 1.0.0', '- fix'],
+		['# Changelog', '', '## 1.1.0', '- feat', '', '## 1.0.0', '- fix']
+	);
+
+	// Assess
+	expect(result.filter(({ type }) => type !== ' ')).toEqual([
+		{ type: '+', line: '## 1.1.0' },
+		{ type: '+', line: '- feat' },
+		{ type: '+', line: '' },
+	]);
+	expect(result).toHaveLength(7);
+});
+
+it('handles empty files', () => {
+	// Act & Assess
+	expect(diffLines([], ['a'])).toEqual([{ type: '+', line: 'a' }]);
+	expect(diffLines(['a'], [])).toEqual([{ type: '-', line: 'a' }]);
+	expect(diffLines([], [])).toEqual([]);
+});
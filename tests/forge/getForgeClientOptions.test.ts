@@ -0,0 +1,79 @@
+import { expect, it } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { getForgeClientOptions } from '../../src/forge.js';
+
+it('derives the GitHub API URL and repository from the repository URL', () => {
+	// Act
+	const result = getForgeClientOptions(
+		DefaultConfig,
+		'https://github.com/owner/repo',
+		{ GH_TOKEN: 'secret' }
+	);
+
+	// Assess
+	expect(result).toEqual({
+		forge: 'github',
+		apiUrl: 'https://api.github.com',
+		repository: 'owner/repo',
+		token: 'secret',
+	});
+});
+
+it('uses the API URL of self-hosted forge instances', () => {
+	// Act
+	const github = getForgeClientOptions(
+		DefaultConfig,
+		'https://github.example.com/owner/repo',
+		{ GITHUB_TOKEN: 'secret' }
+	);
+	const gitlab = getForgeClientOptions(
+		{ forge: 'gitlab', forgeApiUrl: '' },
+		'https://gitlab.example.com/group/subgroup/repo',
+		{ GITLAB_TOKEN: 'secret' }
+	);
+	const gitea = getForgeClientOptions(
+		{ forge: 'gitea', forgeApiUrl: '' },
+		'https://gitea.example.com/owner/repo',
+		{ GITEA_TOKEN: 'secret' }
+	);
+
+	// Assess
+	expect(github.apiUrl).toBe('https://github.example.com/api/v3');
+	expect(gitlab).toEqual(
+		expect.objectContaining({
+			apiUrl: 'https://gitlab.example.com/api/v4',
+			repository: 'group/subgroup/repo',
+		})
+	);
+	expect(gitea.apiUrl).toBe('https://gitea.example.com/api/v1');
+});
+
+it('prefers the configured API URL', () => {
+	// Act
+	const result = getForgeClientOptions(
+		{ forge: 'gitea', forgeApiUrl: 'http://localhost:3000/api/v1/' },
+		'https://gitea.example.com/owner/repo',
+		{ GITEA_TOKEN: 'secret' }
+	);
+
+	// Assess
+	expect(result.apiUrl).toBe('http://localhost:3000/api/v1');
+});
+
+it('throws when no token is set', () => {
+	// Act & Assess
+	expect(() =>
+		getForgeClientOptions(DefaultConfig, 'https://github.com/owner/repo', {})
+	).toThrow(
+		'Cannot create github releases without a token, set GITHUB_TOKEN or GH_TOKEN'
+	);
+});
+
+it('throws when the repository URL is missing', () => {
+	// Act & Assess
+	expect(() =>
+		getForgeClientOptions(DefaultConfig, '', { GITHUB_TOKEN: 'secret' })
+	).toThrow(
+		'Cannot create github releases without a valid repository URL in package.json (got "")'
+	);
+});
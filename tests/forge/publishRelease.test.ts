@@ -0,0 +1,295 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { publishRelease } from '../../src/forge.js';
+import type { ForgeClientOptions } from '../../src/types.js';
+
+type RecordedRequest = {
+	method: string;
+	url: string;
+	headers: IncomingMessage['headers'];
+	body: Record<string, unknown> | null;
+};
+
+/**
+ * A minimal stand-in for the release API of a forge, keeping releases by tag.
+ */
+const forgeServer = {
+	server: null as Server | null,
+	apiUrl: '',
+	requests: [] as RecordedRequest[],
+	releases: new Map<string, Record<string, unknown>>(),
+	failWith: null as number | null,
+};
+
+const readBody = async (
+	request: IncomingMessage
+): Promise<Record<string, unknown> | null> => {
+	let text = '';
+	for await (const chunk of request) text += chunk;
+	return text ? JSON.parse(text) : null;
+};
+
+beforeAll(async () => {
+	forgeServer.server = createServer(async (request, response) => {
+		const body = await readBody(request);
+		const url = request.url ?? '';
+		forgeServer.requests.push({
+			method: request.method ?? '',
+			url,
+			headers: request.headers,
+			body,
+		});
+		const send = (status: number, data?: Record<string, unknown>) => {
+			response.writeHead(status, { 'Content-Type': 'application/json' });
+			response.end(data ? JSON.stringify(data) : '');
+		};
+		if (forgeServer.failWith) {
+			return send(forgeServer.failWith, { message: 'Bad credentials' });
+		}
+
+		// GitHub and Gitea
+		const byTag = url.match(/^\/repos\/owner\/repo\/releases\/tags\/(.+)$/);
+		const byId = url.match(/^\/repos\/owner\/repo\/releases\/(\d+)$/);
+		// GitLab
+		const byTagName = url.match(
+			/^\/projects\/group%2Frepo\/releases\/([^/]+)$/
+		);
+		if (request.method === 'GET' && (byTag || byTagName)) {
+			const tag = decodeURIComponent((byTag ?? byTagName)?.[1] ?? '');
+			const release = forgeServer.releases.get(tag);
+			return release ? send(200, release) : send(404);
+		}
+		if (
+			request.method === 'POST' &&
+			/^\/(repos\/owner\/repo|projects\/group%2Frepo)\/releases$/.test(url)
+		) {
+			const tag = String(body?.tag_name);
+			const release = {
+				...body,
+				id: forgeServer.releases.size + 1,
+				html_url: `https://forge.test/owner/repo/releases/tag/${tag}`,
+				_links: { self: `https://forge.test/group/repo/-/releases/${tag}` },
+			};
+			forgeServer.releases.set(tag, release);
+			return send(201, release);
+		}
+		if (
+			(request.method === 'PATCH' && byId) ||
+			(request.method === 'PUT' && byTagName)
+		) {
+			const existing = byId
+				? [...forgeServer.releases.values()].find(
+						(release) => String(release.id) === byId[1]
+					)
+				: forgeServer.releases.get(decodeURIComponent(byTagName?.[1] ?? ''));
+			if (!existing) return send(404);
+			Object.assign(existing, body);
+			return send(200, existing);
+		}
+		return send(404);
+	});
+	await new Promise<void>((resolve) =>
+		forgeServer.server?.listen(0, '127.0.0.1', resolve)
+	);
+	const { port } = forgeServer.server.address() as AddressInfo;
+	forgeServer.apiUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => forgeServer.server?.close(resolve));
+});
+
+beforeEach(() => {
+	forgeServer.requests = [];
+	forgeServer.releases.clear();
+	forgeServer.failWith = null;
+});
+
+describe('github', () => {
+	const options = (): ForgeClientOptions => ({
+		forge: 'github',
+		apiUrl: forgeServer.apiUrl,
+		repository: 'owner/repo',
+		token: 'secret',
+	});
+
+	it('creates the release of a tag', async () => {
+		// Act
+		const result = await publishRelease(
+			{
+				tag: 'v1.1.0',
+				version: '1.1.0',
+				notes: '### Features\n\n- add feature\n',
+			},
+			options()
+		);
+
+		// Assess
+		expect(result).toEqual({
+			action: 'created',
+			url: 'https://forge.test/owner/repo/releases/tag/v1.1.0',
+		});
+		expect(
+			forgeServer.requests.map(({ method, url }) => `${method} ${url}`)
+		).toEqual([
+			'GET /repos/owner/repo/releases/tags/v1.1.0',
+			'POST /repos/owner/repo/releases',
+		]);
+		expect(forgeServer.requests[1]?.headers.authorization).toBe(
+			'Bearer secret'
+		);
+		expect(forgeServer.requests[1]?.body).toEqual({
+			tag_name: 'v1.1.0',
+			name: 'v1.1.0',
+			body: '### Features\n\n- add feature\n',
+			prerelease: false,
+		});
+	});
+
+	it('marks releases of prerelease versions as prereleases', async () => {
+		// Act
+		await publishRelease(
+			{ tag: 'v2.0.0-beta.1', version: '2.0.0-beta.1', notes: '' },
+			options()
+		);
+
+		// Assess
+		expect(forgeServer.requests[1]?.body).toEqual(
+			expect.objectContaining({ prerelease: true })
+		);
+	});
+
+	it('encodes per-package tags in the release path', async () => {
+		// Act
+		await publishRelease(
+			{ tag: '@scope/core@1.0.0', version: '1.0.0', notes: '' },
+			options()
+		);
+
+		// Assess
+		expect(forgeServer.requests[0]?.url).toBe(
+			'/repos/owner/repo/releases/tags/%40scope%2Fcore%401.0.0'
+		);
+		expect(forgeServer.releases.has('@scope/core@1.0.0')).toBe(true);
+	});
+
+	it('leaves an up-to-date release untouched when rerun', async () => {
+		// Prepare
+		const release = {
+			tag: 'v1.1.0',
+			version: '1.1.0',
+			notes: '- add feature\n',
+		};
+		await publishRelease(release, options());
+		forgeServer.requests = [];
+
+		// Act
+		const result = await publishRelease(release, options());
+
+		// Assess
+		expect(result).toEqual({
+			action: 'unchanged',
+			url: 'https://forge.test/owner/repo/releases/tag/v1.1.0',
+		});
+		expect(forgeServer.requests).toHaveLength(1);
+	});
+
+	it('updates a release whose notes changed', async () => {
+		// Prepare
+		await publishRelease(
+			{ tag: 'v1.1.0', version: '1.1.0', notes: '- add feature\n' },
+			options()
+		);
+
+		// Act
+		const result = await publishRelease(
+			{ tag: 'v1.1.0', version: '1.1.0', notes: '- add feature\n- fix bug\n' },
+			options()
+		);
+
+		// Assess
+		expect(result.action).toBe('updated');
+		expect(forgeServer.requests.at(-1)?.method).toBe('PATCH');
+		expect(forgeServer.requests.at(-1)?.url).toBe(
+			'/repos/owner/repo/releases/1'
+		);
+		expect(forgeServer.releases.get('v1.1.0')?.body).toBe(
+			'- add feature\n- fix bug\n'
+		);
+	});
+
+	it('throws a descriptive error when the forge rejects the request', async () => {
+		// Prepare
+		forgeServer.failWith = 401;
+
+		// Act & Assess
+		await expect(
+			publishRelease({ tag: 'v1.1.0', version: '1.1.0', notes: '' }, options())
+		).rejects.toThrow(
+			'Failed to publish github release v1.1.0: GET /repos/owner/repo/releases/tags/v1.1.0 failed with 401 Unauthorized: {"message":"Bad credentials"}'
+		);
+	});
+});
+
+describe('gitlab', () => {
+	const options = (): ForgeClientOptions => ({
+		forge: 'gitlab',
+		apiUrl: forgeServer.apiUrl,
+		repository: 'group/repo',
+		token: 'secret',
+	});
+
+	it('creates and updates releases with the project path', async () => {
+		// Act
+		const created = await publishRelease(
+			{ tag: 'v1.1.0', version: '1.1.0-rc.0', notes: '- add feature\n' },
+			options()
+		);
+		const unchanged = await publishRelease(
+			{ tag: 'v1.1.0', version: '1.1.0-rc.0', notes: '- add feature\n' },
+			options()
+		);
+		const updated = await publishRelease(
+			{ tag: 'v1.1.0', version: '1.1.0-rc.0', notes: '- fix bug\n' },
+			options()
+		);
+
+		// Assess
+		expect([created.action, unchanged.action, updated.action]).toEqual([
+			'created',
+			'unchanged',
+			'updated',
+		]);
+		expect(created.url).toBe('https://forge.test/group/repo/-/releases/v1.1.0');
+		expect(forgeServer.requests[1]?.headers['private-token']).toBe('secret');
+		expect(forgeServer.requests[1]?.body).toEqual({
+			tag_name: 'v1.1.0',
+			name: 'v1.1.0',
+			description: '- add feature\n',
+		});
+		expect(forgeServer.requests.at(-1)?.method).toBe('PUT');
+		expect(forgeServer.requests.at(-1)?.url).toBe(
+			'/projects/group%2Frepo/releases/v1.1.0'
+		);
+	});
+});
+
+describe('gitea', () => {
+	it('creates releases with a token authorization', async () => {
+		// Act
+		const result = await publishRelease(
+			{ tag: 'v1.1.0', version: '1.1.0', notes: '' },
+			{
+				forge: 'gitea',
+				apiUrl: forgeServer.apiUrl,
+				repository: 'owner/repo',
+				token: 'secret',
+			}
+		);
+
+		// Assess
+		expect(result.action).toBe('created');
+		expect(forgeServer.requests[1]?.headers.authorization).toBe('token secret');
+	});
+});
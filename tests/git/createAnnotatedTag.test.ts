@@ -0,0 +1,75 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { createAnnotatedTag } from '../../src/git.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('creates an annotated tag keeping the message verbatim', () => {
+	// Act
+	createAnnotatedTag(
+		'/test/path',
+		'v1.2.0',
+		'v1.2.0\n\n### Features\n\n- add feature\n'
+	);
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['tag', '--annotate', 'v1.2.0', '--cleanup=verbatim', '--file=-'],
+		{
+			cwd: '/test/path',
+			input: 'v1.2.0\n\n### Features\n\n- add feature\n',
+		}
+	);
+});
+
+it('passes tag names with shell characters to git verbatim', () => {
+	// Act
+	createAnnotatedTag('/tmp/r$x dir', 'release $HOME 1.2.0', 'notes');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		[
+			'tag',
+			'--annotate',
+			'release $HOME 1.2.0',
+			'--cleanup=verbatim',
+			'--file=-',
+		],
+		{ cwd: '/tmp/r$x dir', input: 'notes' }
+	);
+});
+
+it('throws a descriptive error when the tag cannot be created', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw new Error("tag 'v1.2.0' already exists");
+	});
+
+	// Act & Assess
+	expect(() => createAnnotatedTag('/test/path', 'v1.2.0', '')).toThrow(
+		"Failed to create tag v1.2.0 in /test/path: tag 'v1.2.0' already exists"
+	);
+});
+
+it('handles non-Error exceptions', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw 'String error';
+	});
+
+	// Act & Assess
+	expect(() => createAnnotatedTag('/test/path', 'v1.2.0', '')).toThrow(
+		'Failed to create tag v1.2.0 in /test/path: String error'
+	);
+});
@@ -0,0 +1,78 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { createCommit } from '../../src/git.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('stages only the given files and commits them', () => {
+	// Act
+	createCommit(
+		'/test/path',
+		['/test/path/CHANGELOG.md', '/test/path/package.json'],
+		'chore: bump version to 1.2.0'
+	);
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenNthCalledWith(
+		1,
+		'git',
+		['add', '--', '/test/path/CHANGELOG.md', '/test/path/package.json'],
+		{ cwd: '/test/path' }
+	);
+	expect(mocks.execFileSync).toHaveBeenNthCalledWith(
+		2,
+		'git',
+		['commit', '--file=-'],
+		{ cwd: '/test/path', input: 'chore: bump version to 1.2.0' }
+	);
+});
+
+it('passes paths with shell characters to git verbatim', () => {
+	// Act
+	createCommit(
+		'/tmp/r$x dir',
+		['/tmp/r$x dir/CHANGELOG.md', '/tmp/r$x dir/`pkg`.json'],
+		'chore: release'
+	);
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenNthCalledWith(
+		1,
+		'git',
+		['add', '--', '/tmp/r$x dir/CHANGELOG.md', '/tmp/r$x dir/`pkg`.json'],
+		{ cwd: '/tmp/r$x dir' }
+	);
+});
+
+it('throws a descriptive error when committing fails', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw new Error('nothing to commit');
+	});
+
+	// Act & Assess
+	expect(() => createCommit('/test/path', [], 'message')).toThrow(
+		'Failed to create commit in /test/path: nothing to commit'
+	);
+});
+
+it('handles non-Error exceptions', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw 'String error';
+	});
+
+	// Act & Assess
+	expect(() => createCommit('/test/path', [], 'message')).toThrow(
+		'Failed to create commit in /test/path: String error'
+	);
+});
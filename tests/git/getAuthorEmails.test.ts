@@ -0,0 +1,59 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { getAuthorEmails } from '../../src/git.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('returns the lowercased emails of the authors and co-authors of a ref', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(
+		Buffer.from(
+			'Jane@Example.com\n\njohn@example.com\nAlice <alice@example.com>\n\njane@example.com\n\n'
+		)
+	);
+
+	// Act
+	const result = getAuthorEmails('/test/path', 'v1.0.0');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['log', 'v1.0.0', '--format=%ae%n%(trailers:key=Co-authored-by,valueonly)'],
+		expect.objectContaining({ cwd: '/test/path' })
+	);
+	expect(result).toEqual(
+		new Set(['jane@example.com', 'john@example.com', 'alice@example.com'])
+	);
+});
+
+it('returns an empty set without a ref', () => {
+	// Act
+	const result = getAuthorEmails('/test/path', null);
+
+	// Assess
+	expect(result).toEqual(new Set());
+	expect(mocks.execFileSync).not.toHaveBeenCalled();
+});
+
+it('returns an empty set when git fails', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw new Error('fatal: bad revision');
+	});
+
+	// Act
+	const result = getAuthorEmails('/test/path', 'v1.0.0');
+
+	// Assess
+	expect(result).toEqual(new Set());
+	expect(console.error).toHaveBeenCalled();
+});
@@ -1,29 +1,31 @@
 import { beforeEach, expect, it, vi } from 'vitest';
-import { getChangedFiles } from '../../src/git.js';
+import { clearGitCache, getChangedFiles } from '../../src/git.js';
 
 const mocks = vi.hoisted(() => ({
-	execSync: vi.fn(),
+	execFileSync: vi.fn(),
 }));
 
 vi.mock('node:child_process', () => ({
-	execSync: mocks.execSync,
+	execFileSync: mocks.execFileSync,
 }));
 
 beforeEach(() => {
 	vi.clearAllMocks();
+	clearGitCache();
 });
 
 it('returns array of changed files', () => {
 	// Prepare
 	const mockOutput = 'src/file1.ts\nsrc/file2.ts\nREADME.md\n';
-	mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+	mocks.execFileSync.mockReturnValue(Buffer.from(mockOutput));
 
 	// Act
 	const result = getChangedFiles('/test/path', 'abc123');
 
 	// Assess
-	expect(mocks.execSync).toHaveBeenCalledWith(
-		'git show --name-only --pretty=format: abc123',
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['show', '--name-only', '--pretty=format:', 'abc123'],
 		{ cwd: '/test/path' }
 	);
 	expect(result).toEqual(['src/file1.ts', 'src/file2.ts', 'README.md']);
@@ -32,7 +34,7 @@ it('returns array of changed files', () => {
 it('filters out empty lines in changed files', () => {
 	// Prepare
 	const mockOutput = 'src/file1.ts\n\n\nsrc/file2.ts\n\n';
-	mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+	mocks.execFileSync.mockReturnValue(Buffer.from(mockOutput));
 
 	// Act
 	const result = getChangedFiles('/test/path', 'abc123');
@@ -43,7 +45,7 @@ it('filters out empty lines in changed files', () => {
 
 it('returns empty array when getChangedFiles command fails', () => {
 	// Prepare
-	mocks.execSync.mockImplementation(() => {
+	mocks.execFileSync.mockImplementation(() => {
 		throw new Error('Git command failed');
 	});
 
@@ -56,7 +58,7 @@ it('returns empty array when getChangedFiles command fails', () => {
 
 it('handles empty output for changed files', () => {
 	// Prepare
-	mocks.execSync.mockReturnValue(Buffer.from(''));
+	mocks.execFileSync.mockReturnValue(Buffer.from(''));
 
 	// Act
 	const result = getChangedFiles('/test/path', 'abc123');
@@ -68,7 +70,7 @@ it('handles empty output for changed files', () => {
 it('filters lines with only whitespace in changed files', () => {
 	// Prepare
 	const mockOutput = 'src/file1.ts\n   \n\t\n  \nsrc/file2.ts';
-	mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+	mocks.execFileSync.mockReturnValue(Buffer.from(mockOutput));
 
 	// Act
 	const result = getChangedFiles('/test/path', 'abc123');
@@ -79,7 +81,7 @@ it('filters lines with only whitespace in changed files', () => {
 
 it('handles non-Error exceptions', () => {
 	// Prepare
-	mocks.execSync.mockImplementation(() => {
+	mocks.execFileSync.mockImplementation(() => {
 		throw 'String error';
 	});
 
@@ -89,3 +91,32 @@ it('handles non-Error exceptions', () => {
 	// Assess
 	expect(result).toEqual([]);
 });
+
+it('runs git only once per commit', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(Buffer.from('src/file1.ts\n'));
+
+	// Act
+	getChangedFiles('/test/path', 'abc123');
+	const result = getChangedFiles('/test/path', 'abc123');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledTimes(1);
+	expect(result).toEqual(['src/file1.ts']);
+});
+
+it('does not cache failures', () => {
+	// Prepare
+	mocks.execFileSync
+		.mockImplementationOnce(() => {
+			throw new Error('Git command failed');
+		})
+		.mockReturnValueOnce(Buffer.from('src/file1.ts\n'));
+
+	// Act
+	getChangedFiles('/test/path', 'abc123');
+	const result = getChangedFiles('/test/path', 'abc123');
+
+	// Assess
+	expect(result).toEqual(['src/file1.ts']);
+});
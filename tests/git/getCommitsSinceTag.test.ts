@@ -1,37 +1,71 @@
+import { EventEmitter } from 'node:events';
+import { Readable } from 'node:stream';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { getCommitsSinceTag } from '../../src/git.js';
+import {
+	clearGitCache,
+	getChangedFiles,
+	getCommitsSinceTag,
+} from '../../src/git.js';
 import { createRawCommit } from '../helpers';
 
 // Mocks need to be hoisted to the top level
 const mocks = vi.hoisted(() => ({
-	execSync: vi.fn(),
+	execFileSync: vi.fn(),
+	spawn: vi.fn(),
 }));
 
 // Mock must be at the top level
 vi.mock('node:child_process', () => ({
-	execSync: mocks.execSync,
+	execFileSync: mocks.execFileSync,
+	spawn: mocks.spawn,
 }));
 
+/**
+ * Creates a fake git process that writes the given output and then exits.
+ */
+const createGitProcess = (
+	output: string,
+	{ code = 0, stderr = '' }: { code?: number; stderr?: string } = {}
+) => {
+	const child = Object.assign(new EventEmitter(), {
+		stdout: Readable.from([output]),
+		stderr: Readable.from(stderr ? [stderr] : []),
+	});
+	child.stdout.on('end', () => setImmediate(() => child.emit('close', code)));
+	return child;
+};
+
+const gitLogArgs = (range: string[]) => [
+	'-c',
+	'core.quotePath=false',
+	'log',
+	...range,
+	'--name-status',
+	'--pretty=format:\x1e%H%x00%an%x00%ae%x00%aI%n%s%n%b%n\x1f',
+];
+
 describe('getCommitsSinceTag', () => {
 	const testPath = '/test/path';
 
 	beforeEach(() => {
 		vi.clearAllMocks();
+		clearGitCache();
 	});
 
 	describe('successful git operations', () => {
-		it('parses commits correctly with tag', () => {
+		it('parses commits correctly with tag', async () => {
 			// Prepare
 			const mockOutput =
-				'abc123\nfeat: add new feature\nDetailed description\nof the feature\n==END==\ndef456\nfix: bug fix\nBug description\n==END==\n';
-			mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+				'\x1eabc123\nfeat: add new feature\nDetailed description\nof the feature\n\n\x1f\nM\tsrc/feature.ts\n\n\x1edef456\nfix: bug fix\nBug description\n\n\x1f\nM\tsrc/bug.ts';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
 
 			// Act
-			const result = getCommitsSinceTag(testPath, 'v1.0.0');
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
 
 			// Assess
-			expect(mocks.execSync).toHaveBeenCalledWith(
-				'git log v1.0.0..HEAD --pretty=format:"%H%n%s%n%b%n==END=="',
+			expect(mocks.spawn).toHaveBeenCalledWith(
+				'git',
+				gitLogArgs(['v1.0.0..HEAD']),
 				{ cwd: testPath }
 			);
 			expect(result).toEqual([
@@ -39,47 +73,95 @@ describe('getCommitsSinceTag', () => {
 					hash: 'abc123',
 					subject: 'feat: add new feature',
 					body: 'Detailed description\nof the feature',
+					files: ['src/feature.ts'],
 				}),
 				createRawCommit({
 					hash: 'def456',
 					subject: 'fix: bug fix',
 					body: 'Bug description',
+					files: ['src/bug.ts'],
 				}),
 			]);
 		});
 
-		it('parses commits correctly without tag (all commits)', () => {
+		it('parses commits correctly without tag (all commits)', async () => {
 			// Prepare
 			const mockOutput =
-				'abc123\nfeat: initial commit\nFirst commit\n==END==\n';
-			mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+				'\x1eabc123\nfeat: initial commit\nFirst commit\n\n\x1f\nA\tREADME.md';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
 
 			// Act
-			const result = getCommitsSinceTag(testPath, null);
+			const result = await getCommitsSinceTag(testPath, null);
 
 			// Assess
-			expect(mocks.execSync).toHaveBeenCalledWith(
-				'git log  --pretty=format:"%H%n%s%n%b%n==END=="',
-				{ cwd: testPath }
-			);
+			expect(mocks.spawn).toHaveBeenCalledWith('git', gitLogArgs(['HEAD']), {
+				cwd: testPath,
+			});
 			expect(result).toEqual([
 				createRawCommit({
 					hash: 'abc123',
 					subject: 'feat: initial commit',
 					body: 'First commit',
+					files: ['README.md'],
+				}),
+			]);
+		});
+
+		it('gets the commits up to the given ref', async () => {
+			// Prepare
+			mocks.spawn.mockReturnValue(createGitProcess(''));
+			mocks.spawn.mockReturnValueOnce(createGitProcess(''));
+
+			// Act
+			await getCommitsSinceTag(testPath, 'v1.0.0', 'release/1.x');
+			await getCommitsSinceTag(testPath, null, 'abc123');
+
+			// Assess
+			expect(mocks.spawn).toHaveBeenNthCalledWith(
+				1,
+				'git',
+				gitLogArgs(['v1.0.0..release/1.x']),
+				{ cwd: testPath }
+			);
+			expect(mocks.spawn).toHaveBeenNthCalledWith(
+				2,
+				'git',
+				gitLogArgs(['abc123']),
+				{ cwd: testPath }
+			);
+		});
+
+		it('parses the author and date of commits', async () => {
+			// Prepare
+			const mockOutput =
+				'\x1eabc123\x00Jane Doe\x00jane@example.com\x002024-05-01T10:00:00+02:00\nfeat: add feature\n\n\x1f\nM\tsrc/feature.ts';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
+
+			// Act
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
+
+			// Assess
+			expect(result).toEqual([
+				createRawCommit({
+					hash: 'abc123',
+					subject: 'feat: add feature',
+					body: '',
+					files: ['src/feature.ts'],
+					author: { name: 'Jane Doe', email: 'jane@example.com' },
+					date: '2024-05-01T10:00:00+02:00',
 				}),
 			]);
 		});
 	});
 
 	describe('commit body handling', () => {
-		it('handles commits with no body', () => {
+		it('handles commits with no body', async () => {
 			// Prepare
-			const mockOutput = 'abc123\nfeat: simple commit\n\n==END==\n';
-			mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+			const mockOutput = '\x1eabc123\nfeat: simple commit\n\n\x1f\n';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
 
 			// Act
-			const result = getCommitsSinceTag(testPath, 'v1.0.0');
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
 
 			// Assess
 			expect(result).toEqual([
@@ -87,18 +169,19 @@ describe('getCommitsSinceTag', () => {
 					hash: 'abc123',
 					subject: 'feat: simple commit',
 					body: '',
+					files: [],
 				}),
 			]);
 		});
 
-		it('handles commits with multiline body', () => {
+		it('handles commits with multiline body', async () => {
 			// Prepare
 			const mockOutput =
-				'abc123\nfeat: complex feature\n\nThis is a detailed\nmultiline description\n\nwith multiple paragraphs\n==END==\n';
-			mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+				'\x1eabc123\nfeat: complex feature\n\nThis is a detailed\nmultiline description\n\nwith multiple paragraphs\n\n\x1f\n';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
 
 			// Act
-			const result = getCommitsSinceTag(testPath, 'v1.0.0');
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
 
 			// Assess
 			expect(result).toEqual([
@@ -106,54 +189,102 @@ describe('getCommitsSinceTag', () => {
 					hash: 'abc123',
 					subject: 'feat: complex feature',
 					body: 'This is a detailed\nmultiline description\n\nwith multiple paragraphs',
+					files: [],
 				}),
 			]);
 		});
-	});
 
-	describe('edge cases', () => {
-		it('filters out empty chunks', () => {
+		it('keeps body lines that look like file statuses', async () => {
 			// Prepare
 			const mockOutput =
-				'abc123\nfeat: commit\nbody\n==END==\n\n==END==\ndef456\nfix: another\nbody2\n==END==\n';
-			mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+				'\x1eabc123\nfix: commit\nM\tnot/a/file.ts\n\x1f\nM\tsrc/file.ts\n';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
 
 			// Act
-			const result = getCommitsSinceTag(testPath, 'v1.0.0');
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
 
 			// Assess
 			expect(result).toEqual([
 				createRawCommit({
 					hash: 'abc123',
-					subject: 'feat: commit',
-					body: 'body',
-				}),
-				createRawCommit({
-					hash: 'def456',
-					subject: 'fix: another',
-					body: 'body2',
+					subject: 'fix: commit',
+					body: 'M\tnot/a/file.ts',
+					files: ['src/file.ts'],
 				}),
 			]);
 		});
+	});
 
-		it('handles empty git log output', () => {
+	describe('changed files', () => {
+		it('lists added, modified and deleted files', async () => {
 			// Prepare
-			mocks.execSync.mockReturnValue(Buffer.from(''));
+			const mockOutput =
+				'\x1eabc123\nfeat: commit\n\n\x1f\nA\tpackages/a/new.ts\nM\tpackages/a/index.ts\nD\tpackages/b/old.ts\n';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
+
+			// Act
+			const [commit] = await getCommitsSinceTag(testPath, 'v1.0.0');
+
+			// Assess
+			expect(commit?.files).toEqual([
+				'packages/a/new.ts',
+				'packages/a/index.ts',
+				'packages/b/old.ts',
+			]);
+		});
+
+		it('lists both paths of renamed files and the new path of copied files', async () => {
+			// Prepare
+			const mockOutput =
+				'\x1eabc123\nrefactor: move files\n\n\x1f\nR100\tpackages/a/util.ts\tpackages/b/util.ts\nC075\tpackages/a/base.ts\tpackages/c/base.ts\n';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
 
 			// Act
-			const result = getCommitsSinceTag(testPath, 'v1.0.0');
+			const [commit] = await getCommitsSinceTag(testPath, 'v1.0.0');
+
+			// Assess
+			expect(commit?.files).toEqual([
+				'packages/a/util.ts',
+				'packages/b/util.ts',
+				'packages/c/base.ts',
+			]);
+		});
+
+		it('caches the changed files of each commit', async () => {
+			// Prepare
+			const mockOutput =
+				'\x1eabc123\nfeat: commit\n\n\x1f\nM\tpackages/a/index.ts\n';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
+
+			// Act
+			await getCommitsSinceTag(testPath, 'v1.0.0');
+			const files = getChangedFiles(testPath, 'abc123');
+
+			// Assess
+			expect(files).toEqual(['packages/a/index.ts']);
+			expect(mocks.execFileSync).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('edge cases', () => {
+		it('handles empty git log output', async () => {
+			// Prepare
+			mocks.spawn.mockReturnValue(createGitProcess(''));
+
+			// Act
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
 
 			// Assess
 			expect(result).toEqual([]);
 		});
 
-		it('handles commits with empty subjects', () => {
+		it('handles commits with empty subjects', async () => {
 			// Prepare
-			const mockOutput = 'abc123\n\nEmpty subject commit\n==END==\n';
-			mocks.execSync.mockReturnValue(Buffer.from(mockOutput));
+			const mockOutput = '\x1eabc123\n\nEmpty subject commit\n\x1f\n';
+			mocks.spawn.mockReturnValue(createGitProcess(mockOutput));
 
 			// Act
-			const result = getCommitsSinceTag(testPath, 'v1.0.0');
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
 
 			// Assess
 			expect(result).toEqual([
@@ -161,67 +292,105 @@ describe('getCommitsSinceTag', () => {
 					hash: 'abc123',
 					subject: '',
 					body: 'Empty subject commit',
+					files: [],
 				}),
 			]);
 		});
-	});
 
-	describe('error handling', () => {
-		it('returns empty array when git command fails with tag', () => {
+		it('parses output split across chunks', async () => {
 			// Prepare
-			mocks.execSync.mockImplementation(() => {
-				throw new Error('Git command failed');
+			const child = Object.assign(new EventEmitter(), {
+				stdout: Readable.from([
+					'\x1eabc1',
+					'23\nfeat: com',
+					'mit\n\n\x1f\nM\tsrc/',
+					'file.ts\n',
+				]),
+				stderr: Readable.from([]),
 			});
+			child.stdout.on('end', () => setImmediate(() => child.emit('close', 0)));
+			mocks.spawn.mockReturnValue(child);
 
 			// Act
-			const result = getCommitsSinceTag(testPath, 'v1.0.0');
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
 
 			// Assess
-			expect(mocks.execSync).toHaveBeenCalledWith(
-				'git log v1.0.0..HEAD --pretty=format:"%H%n%s%n%b%n==END=="',
-				{ cwd: testPath }
+			expect(result).toEqual([
+				createRawCommit({
+					hash: 'abc123',
+					subject: 'feat: commit',
+					body: '',
+					files: ['src/file.ts'],
+				}),
+			]);
+		});
+	});
+
+	describe('error handling', () => {
+		it('returns empty array when git exits with an error with tag', async () => {
+			// Prepare
+			mocks.spawn.mockReturnValue(
+				createGitProcess('', {
+					code: 128,
+					stderr: "fatal: ambiguous argument 'v1.0.0..HEAD'",
+				})
 			);
+
+			// Act
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
+
+			// Assess
 			expect(result).toEqual([]);
+			expect(console.error).toHaveBeenCalledWith(
+				expect.stringContaining(
+					"Failed to get commits since tag v1.0.0 in /test/path: fatal: ambiguous argument 'v1.0.0..HEAD'"
+				)
+			);
 		});
 
-		it('returns empty array when git command fails without tag', () => {
+		it('returns empty array when git exits with an error without tag', async () => {
 			// Prepare
-			mocks.execSync.mockImplementation(() => {
-				throw new Error('Git command failed');
-			});
+			mocks.spawn.mockReturnValue(createGitProcess('', { code: 128 }));
 
 			// Act
-			const result = getCommitsSinceTag(testPath, null);
+			const result = await getCommitsSinceTag(testPath, null);
 
 			// Assess
-			expect(mocks.execSync).toHaveBeenCalledWith(
-				'git log  --pretty=format:"%H%n%s%n%b%n==END=="',
-				{ cwd: testPath }
-			);
 			expect(result).toEqual([]);
+			expect(console.error).toHaveBeenCalledWith(
+				expect.stringContaining(
+					'Failed to get commits from beginning in /test/path: git exited with code 128'
+				)
+			);
 		});
 
-		it('handles non-Error exceptions with tag', () => {
+		it('returns empty array when git cannot be started', async () => {
 			// Prepare
-			mocks.execSync.mockImplementation(() => {
-				throw 'String error';
-			});
+			const child = createGitProcess('');
+			child.stdout.removeAllListeners('end');
+			child.stdout.on('end', () =>
+				setImmediate(() => child.emit('error', new Error('spawn git ENOENT')))
+			);
+			mocks.spawn.mockReturnValue(child);
 
 			// Act
-			const result = getCommitsSinceTag(testPath, 'v1.0.0');
+			const result = await getCommitsSinceTag(testPath, 'v1.0.0');
 
 			// Assess
 			expect(result).toEqual([]);
+			expect(console.error).toHaveBeenCalledWith(
+				expect.stringContaining('spawn git ENOENT')
+			);
 		});
 
-		it('handles non-Error exceptions without tag', () => {
+		it('handles non-Error exceptions', async () => {
 			// Prepare
-			mocks.execSync.mockImplementation(() => {
+			mocks.spawn.mockImplementation(() => {
 				throw 'String error';
 			});
 
 			// Act
-			const result = getCommitsSinceTag(testPath, null);
+			const result = await getCommitsSinceTag(testPath, null);
 
 			// Assess
 			expect(result).toEqual([]);
@@ -1,29 +1,31 @@
 import { beforeEach, expect, it, vi } from 'vitest';
-import { getFileDiff } from '../../src/git.js';
+import { clearGitCache, getChangedFiles, getFileDiff } from '../../src/git.js';
 
 const mocks = vi.hoisted(() => ({
-	execSync: vi.fn(),
+	execFileSync: vi.fn(),
 }));
 
 vi.mock('node:child_process', () => ({
-	execSync: mocks.execSync,
+	execFileSync: mocks.execFileSync,
 }));
 
 beforeEach(() => {
 	vi.clearAllMocks();
+	clearGitCache();
 });
 
 it('returns file diff content', () => {
 	// Prepare
 	const mockDiff = 'diff --git a/file.ts b/file.ts\n+added line\n-removed line';
-	mocks.execSync.mockReturnValue(Buffer.from(mockDiff));
+	mocks.execFileSync.mockReturnValue(Buffer.from(mockDiff));
 
 	// Act
 	const result = getFileDiff('/test/path', 'abc123', 'src/file.ts');
 
 	// Assess
-	expect(mocks.execSync).toHaveBeenCalledWith(
-		'git show abc123 -- "src/file.ts"',
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['show', 'abc123', '--', 'src/file.ts'],
 		{
 			cwd: '/test/path',
 		}
@@ -33,7 +35,7 @@ it('returns file diff content', () => {
 
 it('returns empty string when getFileDiff command fails', () => {
 	// Prepare
-	mocks.execSync.mockImplementation(() => {
+	mocks.execFileSync.mockImplementation(() => {
 		throw new Error('Git command failed');
 	});
 
@@ -47,14 +49,15 @@ it('returns empty string when getFileDiff command fails', () => {
 it('properly quotes file path with spaces', () => {
 	// Prepare
 	const mockDiff = 'diff content';
-	mocks.execSync.mockReturnValue(Buffer.from(mockDiff));
+	mocks.execFileSync.mockReturnValue(Buffer.from(mockDiff));
 
 	// Act
 	const result = getFileDiff('/test/path', 'abc123', 'src/file with spaces.ts');
 
 	// Assess
-	expect(mocks.execSync).toHaveBeenCalledWith(
-		'git show abc123 -- "src/file with spaces.ts"',
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['show', 'abc123', '--', 'src/file with spaces.ts'],
 		{
 			cwd: '/test/path',
 		}
@@ -64,7 +67,7 @@ it('properly quotes file path with spaces', () => {
 
 it('handles empty diff output', () => {
 	// Prepare
-	mocks.execSync.mockReturnValue(Buffer.from(''));
+	mocks.execFileSync.mockReturnValue(Buffer.from(''));
 
 	// Act
 	const result = getFileDiff('/test/path', 'abc123', 'src/file.ts');
@@ -75,7 +78,7 @@ it('handles empty diff output', () => {
 
 it('handles non-Error exceptions', () => {
 	// Prepare
-	mocks.execSync.mockImplementation(() => {
+	mocks.execFileSync.mockImplementation(() => {
 		throw 'String error';
 	});
 
@@ -85,3 +88,58 @@ it('handles non-Error exceptions', () => {
 	// Assess
 	expect(result).toBe('');
 });
+
+it('runs git only once per commit and file', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(
+		Buffer.from('diff --git a/file.ts b/file.ts')
+	);
+
+	// Act
+	getFileDiff('/test/path', 'abc123', 'src/file.ts');
+	const result = getFileDiff('/test/path', 'abc123', 'src/file.ts');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledTimes(1);
+	expect(result).toBe('diff --git a/file.ts b/file.ts');
+});
+
+it('retrieves the diffs of files with the same name in the commit at once', () => {
+	// Prepare
+	mocks.execFileSync
+		.mockReturnValueOnce(
+			Buffer.from(
+				'packages/a/package.json\npackages/b/package.json\nREADME.md\n'
+			)
+		)
+		.mockReturnValueOnce(
+			Buffer.from(
+				'commit abc123\n\n    chore(deps): bump\n\ndiff --git a/packages/a/package.json b/packages/a/package.json\n-a\n+a2\ndiff --git a/packages/b/package.json b/packages/b/package.json\n-b\n+b2\n'
+			)
+		);
+	getChangedFiles('/test/path', 'abc123');
+
+	// Act
+	const first = getFileDiff('/test/path', 'abc123', 'packages/a/package.json');
+	const second = getFileDiff('/test/path', 'abc123', 'packages/b/package.json');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledTimes(2);
+	expect(mocks.execFileSync).toHaveBeenLastCalledWith(
+		'git',
+		[
+			'show',
+			'abc123',
+			'--',
+			'packages/a/package.json',
+			'packages/b/package.json',
+		],
+		{ cwd: '/test/path' }
+	);
+	expect(first).toBe(
+		'diff --git a/packages/a/package.json b/packages/a/package.json\n-a\n+a2\n'
+	);
+	expect(second).toBe(
+		'diff --git a/packages/b/package.json b/packages/b/package.json\n-b\n+b2\n'
+	);
+});
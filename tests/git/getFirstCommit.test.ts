@@ -2,11 +2,11 @@ import { beforeEach, expect, it, vi } from 'vitest';
 import { getFirstCommit } from '../../src/git.js';
 
 const mocks = vi.hoisted(() => ({
-	execSync: vi.fn(),
+	execFileSync: vi.fn(),
 }));
 
 vi.mock('node:child_process', () => ({
-	execSync: mocks.execSync,
+	execFileSync: mocks.execFileSync,
 }));
 
 beforeEach(() => {
@@ -15,14 +15,15 @@ beforeEach(() => {
 
 it('returns the first commit hash when available', () => {
 	// Prepare
-	mocks.execSync.mockReturnValue(Buffer.from('abc123def456\n'));
+	mocks.execFileSync.mockReturnValue(Buffer.from('abc123def456\n'));
 
 	// Act
 	const result = getFirstCommit('/test/path');
 
 	// Assess
-	expect(mocks.execSync).toHaveBeenCalledWith(
-		'git rev-list --max-parents=0 HEAD',
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['rev-list', '--max-parents=0', 'HEAD'],
 		{
 			cwd: '/test/path',
 		}
@@ -32,7 +33,7 @@ it('returns the first commit hash when available', () => {
 
 it('returns null when getFirstCommit command fails', () => {
 	// Prepare
-	mocks.execSync.mockImplementation(() => {
+	mocks.execFileSync.mockImplementation(() => {
 		throw new Error('Git command failed');
 	});
 
@@ -40,8 +41,9 @@ it('returns null when getFirstCommit command fails', () => {
 	const result = getFirstCommit('/test/path');
 
 	// Assess
-	expect(mocks.execSync).toHaveBeenCalledWith(
-		'git rev-list --max-parents=0 HEAD',
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['rev-list', '--max-parents=0', 'HEAD'],
 		{
 			cwd: '/test/path',
 		}
@@ -51,7 +53,7 @@ it('returns null when getFirstCommit command fails', () => {
 
 it('trims whitespace from commit hash', () => {
 	// Prepare
-	mocks.execSync.mockReturnValue(Buffer.from('  def789ghi012  \n'));
+	mocks.execFileSync.mockReturnValue(Buffer.from('  def789ghi012  \n'));
 
 	// Act
 	const result = getFirstCommit('/test/path');
@@ -62,7 +64,7 @@ it('trims whitespace from commit hash', () => {
 
 it('handles non-Error exceptions', () => {
 	// Prepare
-	mocks.execSync.mockImplementation(() => {
+	mocks.execFileSync.mockImplementation(() => {
 		throw 'String error';
 	});
 
@@ -0,0 +1,103 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { getTags } from '../../src/git.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('returns the tags reachable from HEAD', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(
+		Buffer.from('v1.2.3\nv1.3.0\n@scope/core@1.0.0\n')
+	);
+
+	// Act
+	const result = getTags('/test/path');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['tag', '--merged', 'HEAD'],
+		{
+			cwd: '/test/path',
+		}
+	);
+	expect(result).toEqual(['v1.2.3', 'v1.3.0', '@scope/core@1.0.0']);
+});
+
+it('returns the tags reachable from the given ref', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(Buffer.from('v1.2.3\n'));
+
+	// Act
+	const result = getTags('/test/path', 'release/1.x');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['tag', '--merged', 'release/1.x'],
+		{
+			cwd: '/test/path',
+		}
+	);
+	expect(result).toEqual(['v1.2.3']);
+});
+
+it('returns an empty array when there are no tags', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(Buffer.from(''));
+
+	// Act
+	const result = getTags('/test/path');
+
+	// Assess
+	expect(result).toEqual([]);
+});
+
+it('trims whitespace from tag output', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(Buffer.from('  v2.0.0  \n\t  \n'));
+
+	// Act
+	const result = getTags('/test/path');
+
+	// Assess
+	expect(result).toEqual(['v2.0.0']);
+});
+
+it('returns an empty array when git fails', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw new Error('not a git repository');
+	});
+
+	// Act
+	const result = getTags('/test/path');
+
+	// Assess
+	expect(result).toEqual([]);
+	expect(console.error).toHaveBeenCalledWith(
+		expect.stringContaining('Failed to get tags in /test/path')
+	);
+});
+
+it('handles non-Error exceptions', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw 'String error';
+	});
+
+	// Act
+	const result = getTags('/test/path');
+
+	// Assess
+	expect(result).toEqual([]);
+});
@@ -0,0 +1,51 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { getUncommittedFiles } from '../../src/git.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('returns the absolute paths of the changed and untracked files', () => {
+	// Prepare
+	mocks.execFileSync
+		.mockReturnValueOnce(Buffer.from('/test/repo\n'))
+		.mockReturnValueOnce(
+			Buffer.from(
+				' M CHANGELOG.md\0M  packages/core/package.json\0R  docs/new.md\0docs/old.md\0?? packages/core/CHANGELOG.md\0'
+			)
+		);
+
+	// Act
+	const result = getUncommittedFiles('/test/repo/packages');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['status', '--porcelain', '-z', '--untracked-files=all'],
+		{ cwd: '/test/repo/packages' }
+	);
+	expect(result).toEqual([
+		'/test/repo/CHANGELOG.md',
+		'/test/repo/packages/core/package.json',
+		'/test/repo/docs/new.md',
+		'/test/repo/packages/core/CHANGELOG.md',
+	]);
+});
+
+it('returns no files when the working tree is clean', () => {
+	// Prepare
+	mocks.execFileSync
+		.mockReturnValueOnce(Buffer.from('/test/repo\n'))
+		.mockReturnValueOnce(Buffer.from(''));
+
+	// Act & Assess
+	expect(getUncommittedFiles('/test/repo')).toEqual([]);
+});
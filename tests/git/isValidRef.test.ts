@@ -0,0 +1,58 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { isValidRef } from '../../src/git.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('returns true when the ref points to a commit', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(Buffer.from('abc123\n'));
+
+	// Act
+	const result = isValidRef('/test/path', 'v1.0.0');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['rev-parse', '--verify', '--quiet', 'v1.0.0^{commit}'],
+		{ cwd: '/test/path', stdio: 'ignore' }
+	);
+	expect(result).toBe(true);
+});
+
+it('returns false when the ref does not exist', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw new Error('Command failed');
+	});
+
+	// Act
+	const result = isValidRef('/test/path', 'v9.9.9');
+
+	// Assess
+	expect(result).toBe(false);
+});
+
+it('passes the ref to git without a shell', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(Buffer.from(''));
+
+	// Act
+	isValidRef('/test/path', 'main"; touch pwned; "');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['rev-parse', '--verify', '--quiet', 'main"; touch pwned; "^{commit}'],
+		{ cwd: '/test/path', stdio: 'ignore' }
+	);
+});
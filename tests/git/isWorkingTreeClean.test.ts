@@ -0,0 +1,45 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { isWorkingTreeClean } from '../../src/git.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('returns true when git status reports no changes', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(Buffer.from('\n'));
+
+	// Act
+	const result = isWorkingTreeClean('/test/path');
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['status', '--porcelain'],
+		{
+			cwd: '/test/path',
+		}
+	);
+	expect(result).toBe(true);
+});
+
+it('returns false when there are uncommitted or untracked files', () => {
+	// Prepare
+	mocks.execFileSync.mockReturnValue(
+		Buffer.from(' M package.json\n?? notes.txt\n')
+	);
+
+	// Act
+	const result = isWorkingTreeClean('/test/path');
+
+	// Assess
+	expect(result).toBe(false);
+});
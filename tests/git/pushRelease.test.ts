@@ -0,0 +1,57 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { pushRelease } from '../../src/git.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+it('pushes the current branch and the release tags atomically', () => {
+	// Act
+	pushRelease('/test/path', ['@scope/core@1.2.0', '@scope/ui@0.3.0']);
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		[
+			'push',
+			'--atomic',
+			'origin',
+			'HEAD',
+			'refs/tags/@scope/core@1.2.0',
+			'refs/tags/@scope/ui@0.3.0',
+		],
+		{ cwd: '/test/path' }
+	);
+});
+
+it('passes tag names with shell characters to git verbatim', () => {
+	// Act
+	pushRelease('/tmp/r$x dir', ['release $HOME 1.2.0']);
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'git',
+		['push', '--atomic', 'origin', 'HEAD', 'refs/tags/release $HOME 1.2.0'],
+		{ cwd: '/tmp/r$x dir' }
+	);
+});
+
+it('throws a descriptive error when the push is rejected', () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw new Error('! [rejected] HEAD -> main (fetch first)');
+	});
+
+	// Act & Assess
+	expect(() => pushRelease('/test/path', ['v1.2.0'])).toThrow(
+		'Failed to push release in /test/path: ! [rejected] HEAD -> main (fetch first)'
+	);
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { addDependencyUpdates } from '../../src/graph.js';
+import type { Workspace } from '../../src/types.js';
+
+const createWorkspace = (): Workspace => ({
+	name: '@scope/utils',
+	shortName: 'utils',
+	path: '/repo/packages/utils',
+	version: '1.0.0',
+	changed: false,
+	commits: [],
+	dependencyNames: ['@scope/core'],
+	dependenciesByType: { dependencies: ['@scope/core'] },
+	isPrivate: false,
+});
+
+describe('addDependencyUpdates', () => {
+	it('marks the workspace as changed with one entry per updated dependency', () => {
+		// Prepare
+		const workspace = createWorkspace();
+
+		// Act
+		addDependencyUpdates(
+			workspace,
+			[{ name: '@scope/core', version: '1.1.0' }],
+			DefaultConfig
+		);
+
+		// Assess
+		expect(workspace.changed).toBe(true);
+		expect(workspace.commits).toEqual([
+			{
+				subject: 'updated dependency @scope/core to 1.1.0',
+				type: 'chore',
+				scope: 'deps',
+				breaking: false,
+				notes: [],
+				bump: 'patch',
+			},
+		]);
+	});
+
+	it('uses the configured propagation bump', () => {
+		// Prepare
+		const workspace = createWorkspace();
+
+		// Act
+		addDependencyUpdates(
+			workspace,
+			[{ name: '@scope/core', version: '2.0.0' }],
+			{ ...DefaultConfig, dependencyPropagationBump: 'minor' }
+		);
+
+		// Assess
+		expect(workspace.commits[0]?.bump).toBe('minor');
+	});
+
+	it('does nothing when propagation is disabled', () => {
+		// Prepare
+		const workspace = createWorkspace();
+
+		// Act
+		addDependencyUpdates(
+			workspace,
+			[{ name: '@scope/core', version: '1.1.0' }],
+			{ ...DefaultConfig, dependencyPropagationBump: 'none' }
+		);
+
+		// Assess
+		expect(workspace.changed).toBe(false);
+		expect(workspace.commits).toEqual([]);
+	});
+});
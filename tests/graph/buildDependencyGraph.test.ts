@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { buildDependencyGraph } from '../../src/graph.js';
+import type { Workspace } from '../../src/types.js';
+
+const workspace = (shortName: string, dependencyNames: string[] = []) => ({
+	name: `@scope/${shortName}`,
+	shortName,
+	path: `/repo/packages/${shortName}`,
+	version: '1.0.0',
+	changed: false,
+	commits: [],
+	dependencyNames,
+	dependenciesByType: { dependencies: dependencyNames },
+	isPrivate: false,
+});
+
+const toRecord = (...workspaces: Workspace[]): Record<string, Workspace> =>
+	Object.fromEntries(workspaces.map((ws) => [ws.shortName, ws]));
+
+describe('buildDependencyGraph', () => {
+	it('sorts workspaces so that dependencies come first', () => {
+		// Prepare
+		const workspaces = toRecord(
+			workspace('cli', ['@scope/utils', 'chalk']),
+			workspace('utils', ['@scope/core']),
+			workspace('core')
+		);
+
+		// Act
+		const graph = buildDependencyGraph(workspaces);
+
+		// Assess
+		expect(graph.order).toEqual(['core', 'utils', 'cli']);
+		expect(graph.dependencies.get('cli')).toEqual(['utils']);
+		expect(graph.dependents.get('core')).toEqual(['utils']);
+		expect(graph.dependents.get('cli')).toEqual([]);
+	});
+
+	it('keeps the workspace order when there are no dependencies', () => {
+		// Prepare
+		const workspaces = toRecord(workspace('b'), workspace('a'));
+
+		// Act
+		const graph = buildDependencyGraph(workspaces);
+
+		// Assess
+		expect(graph.order).toEqual(['b', 'a']);
+	});
+
+	it('throws with the cycle when workspaces depend on each other', () => {
+		// Prepare
+		const workspaces = toRecord(
+			workspace('a', ['@scope/b']),
+			workspace('b', ['@scope/c']),
+			workspace('c', ['@scope/a'])
+		);
+
+		// Act & Assess
+		expect(() => buildDependencyGraph(workspaces)).toThrow(
+			'Circular dependency detected between workspaces: @scope/a -> @scope/b -> @scope/c -> @scope/a'
+		);
+	});
+
+	it('links workspaces through peer and dev dependencies', () => {
+		// Prepare
+		const workspaces = toRecord(
+			{
+				...workspace('plugin'),
+				dependenciesByType: { peerDependencies: ['@scope/core'] },
+			},
+			{
+				...workspace('core'),
+				dependenciesByType: { devDependencies: ['@scope/testing'] },
+			},
+			workspace('testing')
+		);
+
+		// Act
+		const graph = buildDependencyGraph(workspaces);
+
+		// Assess
+		expect(graph.order).toEqual(['testing', 'core', 'plugin']);
+		expect(graph.dependents.get('core')).toEqual(['plugin']);
+	});
+
+	it('only links workspaces through the given dependency types', () => {
+		// Prepare
+		const workspaces = toRecord(
+			{
+				...workspace('plugin'),
+				dependenciesByType: {
+					dependencies: ['@scope/utils'],
+					peerDependencies: ['@scope/core'],
+				},
+			},
+			workspace('core'),
+			workspace('utils')
+		);
+
+		// Act
+		const graph = buildDependencyGraph(workspaces, ['dependencies']);
+
+		// Assess
+		expect(graph.dependencies.get('plugin')).toEqual(['utils']);
+		expect(graph.dependents.get('core')).toEqual([]);
+	});
+
+	it('ignores a workspace depending on itself', () => {
+		// Prepare
+		const workspaces = toRecord(workspace('a', ['@scope/a']));
+
+		// Act
+		const graph = buildDependencyGraph(workspaces);
+
+		// Assess
+		expect(graph.order).toEqual(['a']);
+		expect(graph.dependencies.get('a')).toEqual([]);
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { buildDependencyGraph, getPropagatedChanges } from '../../src/graph.js';
+import type { Workspace } from '../../src/types.js';
+
+const workspace = (
+	shortName: string,
+	dependencyNames: string[] = [],
+	changed = false
+) => ({
+	name: `@scope/${shortName}`,
+	shortName,
+	path: `/repo/packages/${shortName}`,
+	version: '1.0.0',
+	changed,
+	commits: [],
+	dependencyNames,
+	dependenciesByType: { dependencies: dependencyNames },
+	isPrivate: false,
+});
+
+const toRecord = (...workspaces: Workspace[]): Record<string, Workspace> =>
+	Object.fromEntries(workspaces.map((ws) => [ws.shortName, ws]));
+
+describe('getPropagatedChanges', () => {
+	it('propagates changes to direct and transitive dependents', () => {
+		// Prepare
+		const workspaces = toRecord(
+			workspace('cli', ['@scope/utils']),
+			workspace('utils', ['@scope/core']),
+			workspace('core', [], true),
+			workspace('docs')
+		);
+
+		// Act
+		const propagated = getPropagatedChanges(
+			workspaces,
+			buildDependencyGraph(workspaces)
+		);
+
+		// Assess
+		expect([...propagated]).toEqual([
+			['utils', ['core']],
+			['cli', ['utils']],
+		]);
+	});
+
+	it('returns an empty map when no workspace depends on a changed one', () => {
+		// Prepare
+		const workspaces = toRecord(
+			workspace('core', [], true),
+			workspace('utils', ['@scope/core'], true),
+			workspace('docs')
+		);
+
+		// Act
+		const propagated = getPropagatedChanges(
+			workspaces,
+			buildDependencyGraph(workspaces)
+		);
+
+		// Assess
+		expect([...propagated]).toEqual([['utils', ['core']]]);
+		expect(propagated.has('docs')).toBe(false);
+	});
+});
@@ -0,0 +1,78 @@
+import { execFileSync } from 'node:child_process';
+import {
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, expect, it } from 'vitest';
+import { processMonorepo, tagRelease } from '../src/index.js';
+
+let testDir: string;
+let root: string;
+
+const git = (...args: string[]): string =>
+	execFileSync('git', args, { cwd: root }).toString().trim();
+
+beforeEach(() => {
+	testDir = mkdtempSync(join(tmpdir(), 'bump-n-go-e2e-'));
+	// Shell metacharacters in the repository path must reach git verbatim
+	root = join(testDir, 'r$x `id` "a b"');
+	mkdirSync(root);
+	git('init', '--quiet');
+	git('config', 'user.name', 'Jane Doe');
+	git('config', 'user.email', 'jane@example.com');
+	git('config', 'commit.gpgsign', 'false');
+	git('config', 'tag.gpgsign', 'false');
+	writeFileSync(
+		join(root, 'package.json'),
+		'{\n  "name": "single",\n  "version": "1.0.0"\n}\n'
+	);
+	git('add', '--all');
+	git('commit', '--quiet', '--message', 'feat: initial release');
+	git('tag', 'v1.0.0');
+	writeFileSync(join(root, 'index.js'), 'export {};\n');
+	git('add', '--all');
+	git('commit', '--quiet', '--message', 'feat: add entry point');
+});
+
+afterEach(() => {
+	rmSync(testDir, { recursive: true, force: true });
+});
+
+it('commits and tags a release in a root with shell metacharacters', async () => {
+	// Act
+	const result = await processMonorepo({ root, commit: true, tag: true });
+
+	// Assess
+	expect(result).toBe(true);
+	expect(git('status', '--porcelain')).toBe('');
+	expect(git('log', '-1', '--format=%s')).toBe('chore: bump version to 1.1.0');
+	expect(git('show', '--name-only', '--format=', 'HEAD').split('\n')).toEqual([
+		'CHANGELOG.md',
+		'package.json',
+	]);
+	expect(git('tag', '--points-at', 'HEAD')).toBe('v1.1.0');
+	expect(JSON.parse(readFileSync(join(root, 'package.json'), 'utf-8'))).toEqual(
+		{ name: 'single', version: '1.1.0' }
+	);
+});
+
+it('tags a release prepared step by step in a root with shell metacharacters', async () => {
+	// Prepare
+	await processMonorepo({ root });
+
+	// Act
+	const result = await tagRelease({ root });
+
+	// Assess
+	expect(result).toBe(true);
+	expect(git('status', '--porcelain')).toBe('');
+	expect(git('tag', '--points-at', 'HEAD')).toBe('v1.1.0');
+	expect(git('tag', '--list', '--format=%(contents)', 'v1.1.0')).toContain(
+		'add entry point'
+	);
+});
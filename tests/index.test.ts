@@ -1,19 +1,41 @@
-import { afterEach, beforeEach, expect, it, vi } from 'vitest';
-import { processMonorepo } from '../src/index.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { writeFile } from '../src/changes.js';
+import { DefaultConfig } from '../src/constants.js';
+import { processMonorepo, tagRelease } from '../src/index.js';
 import type { RawCommit, Workspace } from '../src/types.js';
 
 const mocks = vi.hoisted(() => ({
 	readFileSync: vi.fn(),
 	appendFileSync: vi.fn(),
+	existsSync: vi.fn(),
+	writeFileSync: vi.fn(),
+	renameSync: vi.fn(),
 	join: vi.fn(),
-	getLastTag: vi.fn(),
+	relative: vi.fn(),
+	basename: vi.fn(),
+	getTags: vi.fn(),
+	getUncommittedFiles: vi.fn(),
+	isValidRef: vi.fn(),
 	getCommitsSinceTag: vi.fn(),
+	getAuthorEmails: vi.fn(),
 	getFirstCommit: vi.fn(),
+	isWorkingTreeClean: vi.fn(),
+	createCommit: vi.fn(),
+	createAnnotatedTag: vi.fn(),
+	pushRelease: vi.fn(),
+	getForgeClientOptions: vi.fn(),
+	publishRelease: vi.fn(),
+	generateReleaseNotes: vi.fn(),
+	generateVersionHeader: vi.fn(),
+	getVersionNotes: vi.fn(),
 	readWorkspaces: vi.fn(),
 	parseCommits: vi.fn(),
+	markNewContributors: vi.fn(),
 	determineVersionBumpType: vi.fn(),
 	updateChangelogs: vi.fn(),
+	updateChangelogsIndependently: vi.fn(),
 	bumpVersions: vi.fn(),
+	loadConfig: vi.fn(),
 	configureLogger: vi.fn(),
 	logger: {
 		error: vi.fn(),
@@ -26,16 +48,33 @@ const mocks = vi.hoisted(() => ({
 vi.mock('node:fs', () => ({
 	readFileSync: mocks.readFileSync,
 	appendFileSync: mocks.appendFileSync,
+	existsSync: mocks.existsSync,
+	writeFileSync: mocks.writeFileSync,
+	renameSync: mocks.renameSync,
 }));
 
 vi.mock('node:path', () => ({
 	join: mocks.join,
+	relative: mocks.relative,
+	basename: mocks.basename,
 }));
 
 vi.mock('../src/git.js', () => ({
-	getLastTag: mocks.getLastTag,
+	getTags: mocks.getTags,
+	getUncommittedFiles: mocks.getUncommittedFiles,
+	isValidRef: mocks.isValidRef,
 	getCommitsSinceTag: mocks.getCommitsSinceTag,
+	getAuthorEmails: mocks.getAuthorEmails,
 	getFirstCommit: mocks.getFirstCommit,
+	isWorkingTreeClean: mocks.isWorkingTreeClean,
+	createCommit: mocks.createCommit,
+	createAnnotatedTag: mocks.createAnnotatedTag,
+	pushRelease: mocks.pushRelease,
+}));
+
+vi.mock('../src/forge.js', () => ({
+	getForgeClientOptions: mocks.getForgeClientOptions,
+	publishRelease: mocks.publishRelease,
 }));
 
 vi.mock('../src/workspace.js', () => ({
@@ -44,20 +83,30 @@ vi.mock('../src/workspace.js', () => ({
 
 vi.mock('../src/commits.js', () => ({
 	parseCommits: mocks.parseCommits,
+	markNewContributors: mocks.markNewContributors,
 }));
 
-vi.mock('../src/bump.js', () => ({
+vi.mock('../src/bump.js', async (importOriginal) => ({
+	...(await importOriginal<typeof import('../src/bump.js')>()),
 	determineVersionBumpType: mocks.determineVersionBumpType,
 }));
 
 vi.mock('../src/changelog.js', () => ({
 	updateChangelogs: mocks.updateChangelogs,
+	updateChangelogsIndependently: mocks.updateChangelogsIndependently,
+	generateReleaseNotes: mocks.generateReleaseNotes,
+	generateVersionHeader: mocks.generateVersionHeader,
+	getVersionNotes: mocks.getVersionNotes,
 }));
 
 vi.mock('../src/version.js', () => ({
 	bumpVersions: mocks.bumpVersions,
 }));
 
+vi.mock('../src/config.js', () => ({
+	loadConfig: mocks.loadConfig,
+}));
+
 vi.mock('../src/logger.js', () => ({
 	configureLogger: mocks.configureLogger,
 	logger: mocks.logger,
@@ -65,6 +114,8 @@ vi.mock('../src/logger.js', () => ({
 
 beforeEach(() => {
 	vi.clearAllMocks();
+	mocks.loadConfig.mockResolvedValue(DefaultConfig);
+	mocks.generateReleaseNotes.mockReturnValue('');
 });
 
 afterEach(() => {
@@ -72,7 +123,7 @@ afterEach(() => {
 	delete process.env.GITHUB_OUTPUT;
 });
 
-it('returns early for invalid version bump type', async () => {
+it('throws for invalid version bump type', async () => {
 	// Prepare
 	const options = {
 		root: '/test',
@@ -80,14 +131,11 @@ it('returns early for invalid version bump type', async () => {
 		verbose: false,
 	};
 
-	// Act
-	await processMonorepo(options);
-
-	// Assess
-	expect(mocks.logger.error).toHaveBeenCalledWith(
+	// Act & Assess
+	await expect(processMonorepo(options)).rejects.toThrow(
 		'Invalid type provided: invalid. Valid types are: major, minor, patch'
 	);
-	expect(mocks.getLastTag).not.toHaveBeenCalled();
+	expect(mocks.getTags).not.toHaveBeenCalled();
 });
 
 it('returns early when no changes detected and no type provided', async () => {
@@ -99,7 +147,7 @@ it('returns early when no changes detected and no type provided', async () => {
 	const commits: RawCommit[] = [];
 	const workspaces: Record<string, Workspace> = {};
 
-	mocks.getLastTag.mockReturnValue('v1.0.0');
+	mocks.getTags.mockReturnValue(['v1.0.0']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -108,9 +156,10 @@ it('returns early when no changes detected and no type provided', async () => {
 	});
 
 	// Act
-	await processMonorepo(options);
+	const released = await processMonorepo(options);
 
 	// Assess
+	expect(released).toBe(false);
 	expect(mocks.logger.info).toHaveBeenCalledWith(
 		'No changes detected in workspaces and no version bump type provided; skipping version bump'
 	);
@@ -129,13 +178,15 @@ it('handles dry run mode correctly', async () => {
 	const commits: RawCommit[] = [];
 	const workspaces: Record<string, Workspace> = {};
 
-	mocks.getLastTag.mockReturnValue('v1.0.0');
+	mocks.getTags.mockReturnValue(['v1.0.0']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
 		workspaceChanged: true,
 		workspaces,
 	});
+	mocks.join.mockReturnValue('/test/package.json');
+	mocks.readFileSync.mockReturnValue(JSON.stringify({ version: '1.0.0' }));
 
 	// Act
 	await processMonorepo(options);
@@ -145,8 +196,92 @@ it('handles dry run mode correctly', async () => {
 	expect(mocks.logger.info).toHaveBeenCalledWith(
 		'Dry run enabled, no changes will be made'
 	);
-	expect(mocks.updateChangelogs).not.toHaveBeenCalled();
-	expect(mocks.bumpVersions).not.toHaveBeenCalled();
+	expect(mocks.logger.info).toHaveBeenCalledWith('No files would change');
+	expect(mocks.writeFileSync).not.toHaveBeenCalled();
+});
+
+it('prints a diff of the changed files in dry run mode without writing them', async () => {
+	// Prepare
+	const workspaces: Record<string, Workspace> = {};
+	mocks.getTags.mockReturnValue(['v1.0.0']);
+	mocks.getCommitsSinceTag.mockReturnValue([]);
+	mocks.readWorkspaces.mockReturnValue(workspaces);
+	mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+	mocks.existsSync.mockReturnValue(true);
+	mocks.readFileSync.mockImplementation((path: string) =>
+		path === '/test/package.json'
+			? '{\n  "version": "1.0.0"\n}\n'
+			: JSON.stringify({ version: '1.0.0' })
+	);
+	mocks.join.mockImplementation((...paths: string[]) => paths.join('/'));
+	mocks.relative.mockReturnValue('package.json');
+	mocks.updateChangelogs.mockReturnValue([]);
+	mocks.bumpVersions.mockImplementation(() => {
+		writeFile('/test/package.json', '{\n  "version": "1.0.1"\n}\n');
+		return ['/test/package.json'];
+	});
+
+	// Act
+	await processMonorepo({ root: '/test', dryRun: true, type: 'patch' });
+
+	// Assess
+	expect(console.log).toHaveBeenCalledWith(
+		[
+			'--- a/package.json',
+			'+++ b/package.json',
+			'@@ -1,3 +1,3 @@',
+			' {',
+			'-  "version": "1.0.0"',
+			'+  "version": "1.0.1"',
+			' }',
+		].join('\n')
+	);
+	expect(mocks.writeFileSync).not.toHaveBeenCalled();
+	expect(mocks.renameSync).not.toHaveBeenCalled();
+	expect(mocks.logger.info).toHaveBeenCalledWith('Would update changelogs');
+	expect(mocks.logger.info).toHaveBeenCalledWith(
+		'Would bump all package versions to 1.0.1'
+	);
+});
+
+it('writes the changed files only after every update succeeded', async () => {
+	// Prepare
+	const workspaces: Record<string, Workspace> = {};
+	mocks.getTags.mockReturnValue(['v1.0.0']);
+	mocks.getCommitsSinceTag.mockReturnValue([]);
+	mocks.readWorkspaces.mockReturnValue(workspaces);
+	mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+	mocks.existsSync.mockReturnValue(false);
+	mocks.join.mockReturnValue('/test/package.json');
+	mocks.readFileSync.mockReturnValue(JSON.stringify({ version: '1.0.0' }));
+	mocks.updateChangelogs.mockImplementation(() => {
+		writeFile('/test/CHANGELOG.md', '# Changelog\n');
+		return ['/test/CHANGELOG.md'];
+	});
+	mocks.bumpVersions.mockImplementationOnce(() => {
+		throw new Error('Failed to update package.json');
+	});
+
+	// Act & Assess
+	await expect(
+		processMonorepo({ root: '/test', type: 'patch' })
+	).rejects.toThrow('Failed to update package.json');
+	expect(mocks.writeFileSync).not.toHaveBeenCalled();
+
+	// Act
+	mocks.bumpVersions.mockReturnValue([]);
+	await processMonorepo({ root: '/test', type: 'patch' });
+
+	// Assess
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/CHANGELOG.md.bump-n-go.tmp',
+		'# Changelog\n',
+		'utf-8'
+	);
+	expect(mocks.renameSync).toHaveBeenCalledWith(
+		'/test/CHANGELOG.md.bump-n-go.tmp',
+		'/test/CHANGELOG.md'
+	);
 });
 
 it('processes monorepo successfully with provided version type', async () => {
@@ -180,11 +315,12 @@ it('processes monorepo successfully with provided version type', async () => {
 			},
 		],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace };
 
-	mocks.getLastTag.mockReturnValue('v1.0.0');
+	mocks.getTags.mockReturnValue(['v1.0.0']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -202,9 +338,10 @@ it('processes monorepo successfully with provided version type', async () => {
 	);
 
 	// Act
-	await processMonorepo(options);
+	const released = await processMonorepo(options);
 
 	// Assess
+	expect(released).toBe(true);
 	expect(mocks.logger.info).toHaveBeenCalledWith(
 		'Version bump type provided: minor'
 	);
@@ -214,9 +351,15 @@ it('processes monorepo successfully with provided version type', async () => {
 		workspaces,
 		'1.1.0',
 		'https://github.com/user/repo/compare/v1.0.0...v1.1.0',
-		'https://github.com/user/repo'
+		'https://github.com/user/repo',
+		DefaultConfig
+	);
+	expect(mocks.bumpVersions).toHaveBeenCalledWith(
+		'/test',
+		workspaces,
+		'1.1.0',
+		DefaultConfig
 	);
-	expect(mocks.bumpVersions).toHaveBeenCalledWith('/test', workspaces, '1.1.0');
 	expect(mocks.logger.info).toHaveBeenCalledWith('Updated changelogs');
 	expect(mocks.logger.info).toHaveBeenCalledWith(
 		'Bumped all package versions to 1.1.0'
@@ -238,6 +381,7 @@ it('determines version bump type from commits when not provided', async () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -248,11 +392,12 @@ it('determines version bump type from commits when not provided', async () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'workspace-a': workspace1, 'workspace-b': workspace2 };
 
-	mocks.getLastTag.mockReturnValue('v1.0.0');
+	mocks.getTags.mockReturnValue(['v1.0.0']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -293,7 +438,7 @@ it('handles prerelease versions correctly', async () => {
 	const commits: RawCommit[] = [];
 	const workspaces: Record<string, Workspace> = {};
 
-	mocks.getLastTag.mockReturnValue('v1.0.0-alpha.1');
+	mocks.getTags.mockReturnValue(['v1.0.0-alpha.1']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -314,7 +459,109 @@ it('handles prerelease versions correctly', async () => {
 	await processMonorepo(options);
 
 	// Assess
-	expect(mocks.logger.info).toHaveBeenCalledWith('New version: 1.1.0-alpha');
+	expect(mocks.logger.info).toHaveBeenCalledWith('New version: 1.0.0-alpha.2');
+});
+
+describe('prereleases', () => {
+	const workspaces: Record<string, Workspace> = {};
+
+	beforeEach(() => {
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.updateChangelogs.mockReturnValue([]);
+		mocks.bumpVersions.mockReturnValue([]);
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				repository: { url: 'https://github.com/user/repo.git' },
+			})
+		);
+	});
+
+	it('enters a prerelease channel', async () => {
+		// Prepare
+		mocks.getTags.mockReturnValue(['v1.2.3']);
+
+		// Act
+		await processMonorepo({ root: '/test', type: 'major', prerelease: 'beta' });
+
+		// Assess
+		expect(mocks.logger.info).toHaveBeenCalledWith('New version: 2.0.0-beta.0');
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			'v1.2.3',
+			undefined
+		);
+	});
+
+	it('graduates a prerelease with all changes since the last release', async () => {
+		// Prepare
+		mocks.getTags.mockReturnValue(['v1.2.3', 'v2.0.0-rc.2', 'v2.0.0-rc.3']);
+
+		// Act
+		await processMonorepo({ root: '/test', type: 'patch', graduate: true });
+
+		// Assess
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Graduating v2.0.0-rc.3 with all changes since v1.2.3'
+		);
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			'v1.2.3',
+			undefined
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith('New version: 2.0.0');
+		expect(mocks.updateChangelogs).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			'2.0.0',
+			'https://github.com/user/repo/compare/v1.2.3...v2.0.0',
+			'https://github.com/user/repo',
+			DefaultConfig
+		);
+	});
+
+	it('warns when graduating a regular release', async () => {
+		// Prepare
+		mocks.getTags.mockReturnValue(['v1.2.3']);
+
+		// Act
+		await processMonorepo({ root: '/test', type: 'patch', graduate: true });
+
+		// Assess
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			'v1.2.3',
+			undefined
+		);
+		expect(mocks.logger.warn).toHaveBeenCalledWith(
+			'1.2.3 is not a prerelease; releasing a regular version'
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith('New version: 1.2.4');
+	});
+
+	it.each([
+		{
+			options: { prerelease: 'beta.1' },
+			error:
+				'Invalid prerelease identifier provided: beta.1. Identifiers may only contain alphanumerics and hyphens',
+		},
+		{
+			options: { prerelease: 'beta', graduate: true },
+			error:
+				'A prerelease identifier cannot be provided when graduating a prerelease',
+		},
+	])(
+		'rejects invalid prerelease options $options',
+		async ({ options, error }) => {
+			// Act & Assess
+			await expect(
+				processMonorepo({ root: '/test', ...options })
+			).rejects.toThrow(error);
+			expect(mocks.getTags).not.toHaveBeenCalled();
+		}
+	);
 });
 
 it('handles no last tag scenario', async () => {
@@ -327,7 +574,7 @@ it('handles no last tag scenario', async () => {
 	const commits: RawCommit[] = [];
 	const workspaces: Record<string, Workspace> = {};
 
-	mocks.getLastTag.mockReturnValue(null);
+	mocks.getTags.mockReturnValue([]);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -355,7 +602,8 @@ it('handles no last tag scenario', async () => {
 		workspaces,
 		'0.0.1',
 		'https://github.com/user/repo/compare/abc123...v0.0.1',
-		'https://github.com/user/repo'
+		'https://github.com/user/repo',
+		DefaultConfig
 	);
 });
 
@@ -369,7 +617,7 @@ it('handles no first commit scenario', async () => {
 	const commits: RawCommit[] = [];
 	const workspaces: Record<string, Workspace> = {};
 
-	mocks.getLastTag.mockReturnValue(null);
+	mocks.getTags.mockReturnValue([]);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -396,7 +644,8 @@ it('handles no first commit scenario', async () => {
 		workspaces,
 		'0.0.1',
 		'https://github.com/user/repo/releases/tag/v0.0.1',
-		'https://github.com/user/repo'
+		'https://github.com/user/repo',
+		DefaultConfig
 	);
 });
 
@@ -410,7 +659,7 @@ it('handles repository URL cleanup correctly', async () => {
 	const commits: RawCommit[] = [];
 	const workspaces: Record<string, Workspace> = {};
 
-	mocks.getLastTag.mockReturnValue('v1.0.0');
+	mocks.getTags.mockReturnValue(['v1.0.0']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -436,7 +685,8 @@ it('handles repository URL cleanup correctly', async () => {
 		workspaces,
 		'1.0.1',
 		'https://github.com/user/repo/compare/v1.0.0...v1.0.1',
-		'https://github.com/user/repo'
+		'https://github.com/user/repo',
+		DefaultConfig
 	);
 });
 
@@ -450,7 +700,7 @@ it('handles missing repository URL', async () => {
 	const commits: RawCommit[] = [];
 	const workspaces: Record<string, Workspace> = {};
 
-	mocks.getLastTag.mockReturnValue('v1.0.0');
+	mocks.getTags.mockReturnValue(['v1.0.0']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -473,7 +723,37 @@ it('handles missing repository URL', async () => {
 		workspaces,
 		'1.0.1',
 		'/compare/v1.0.0...v1.0.1',
-		''
+		'',
+		DefaultConfig
+	);
+});
+
+it('builds the links of the forge hosting the repository', async () => {
+	// Prepare
+	const workspaces: Record<string, Workspace> = {};
+	mocks.getTags.mockReturnValue(['v1.0.0']);
+	mocks.getCommitsSinceTag.mockReturnValue([]);
+	mocks.readWorkspaces.mockReturnValue(workspaces);
+	mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+	mocks.join.mockReturnValue('/test/package.json');
+	mocks.readFileSync.mockReturnValue(
+		JSON.stringify({
+			name: 'test-monorepo',
+			repository: 'git@gitlab.com:group/repo.git',
+		})
+	);
+
+	// Act
+	await processMonorepo({ root: '/test', type: 'patch' });
+
+	// Assess
+	expect(mocks.updateChangelogs).toHaveBeenCalledWith(
+		'/test',
+		workspaces,
+		'1.0.1',
+		'https://gitlab.com/group/repo/-/compare/v1.0.0...v1.0.1',
+		'https://gitlab.com/group/repo',
+		DefaultConfig
 	);
 });
 
@@ -492,6 +772,7 @@ it('skips unchanged workspaces when determining bump type', async () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const unchangedWorkspace: Workspace = {
@@ -502,6 +783,7 @@ it('skips unchanged workspaces when determining bump type', async () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = {
@@ -509,7 +791,7 @@ it('skips unchanged workspaces when determining bump type', async () => {
 		'workspace-b': unchangedWorkspace,
 	};
 
-	mocks.getLastTag.mockReturnValue('v1.0.0');
+	mocks.getTags.mockReturnValue(['v1.0.0']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -548,7 +830,7 @@ it('skips version bump when no workspace changes and no type provided', async ()
 	];
 	const workspaces: Record<string, Workspace> = {};
 
-	mocks.getLastTag.mockReturnValue(null);
+	mocks.getTags.mockReturnValue([]);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -578,7 +860,7 @@ it('writes to GITHUB_OUTPUT when environment variable is set', async () => {
 	const workspaces: Record<string, Workspace> = {};
 	process.env.GITHUB_OUTPUT = '/path/to/github/output';
 
-	mocks.getLastTag.mockReturnValue('v1.0.0');
+	mocks.getTags.mockReturnValue(['v1.0.0']);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -606,6 +888,64 @@ it('writes to GITHUB_OUTPUT when environment variable is set', async () => {
 	expect(mocks.logger.info).toHaveBeenCalledWith('New version: 1.0.1');
 });
 
+it('writes the issue keys of the release to GITHUB_OUTPUT when issue trackers are configured', async () => {
+	// Prepare
+	const workspaces: Record<string, Workspace> = {
+		core: {
+			name: '@scope/core',
+			shortName: 'core',
+			path: '/test/packages/core',
+			version: '1.0.0',
+			changed: true,
+			commits: [
+				{
+					hash: 'abc1234',
+					subject: 'fix rounding',
+					type: 'fix',
+					scope: 'core',
+					breaking: false,
+					notes: [],
+					issueKeys: ['PAY-1234', 'PAY-99'],
+				},
+				{
+					hash: 'def5678',
+					subject: 'fix totals',
+					type: 'fix',
+					scope: 'core',
+					breaking: false,
+					notes: [],
+					issueKeys: ['PAY-1234'],
+				},
+			],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+	};
+	process.env.GITHUB_OUTPUT = '/path/to/github/output';
+	mocks.loadConfig.mockResolvedValue({
+		...DefaultConfig,
+		issueTrackers: [
+			{ pattern: 'PAY-\\d+', url: 'https://jira.example.com/browse/{key}' },
+		],
+	});
+	mocks.getTags.mockReturnValue(['v1.0.0']);
+	mocks.getCommitsSinceTag.mockReturnValue([]);
+	mocks.readWorkspaces.mockReturnValue(workspaces);
+	mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+	mocks.join.mockReturnValue('/test/package.json');
+	mocks.readFileSync.mockReturnValue(JSON.stringify({ version: '1.0.0' }));
+
+	// Act
+	await processMonorepo({ root: '/test', type: 'patch' });
+
+	// Assess
+	expect(mocks.appendFileSync).toHaveBeenCalledWith(
+		'/path/to/github/output',
+		'issue_keys=["PAY-1234","PAY-99"]\n'
+	);
+});
+
 it('handles invalid version string in package.json by falling back to 0.0.0', async () => {
 	// Prepare
 	const options = {
@@ -617,7 +957,7 @@ it('handles invalid version string in package.json by falling back to 0.0.0', as
 	const workspaces: Record<string, Workspace> = {};
 
 	// No last tag, so it will fall back to package.json version
-	mocks.getLastTag.mockReturnValue(null);
+	mocks.getTags.mockReturnValue([]);
 	mocks.getCommitsSinceTag.mockReturnValue(commits);
 	mocks.readWorkspaces.mockReturnValue(workspaces);
 	mocks.parseCommits.mockReturnValue({
@@ -652,6 +992,1527 @@ it('handles invalid version string in package.json by falling back to 0.0.0', as
 		workspaces,
 		'0.0.1',
 		'https://github.com/user/repo/compare/abc123...v0.0.1',
-		'https://github.com/user/repo'
+		'https://github.com/user/repo',
+		DefaultConfig
 	);
 });
+
+describe('independent versioning', () => {
+	const createWorkspace = (overrides: Partial<Workspace>): Workspace => ({
+		name: '@scope/workspace-a',
+		shortName: 'workspace-a',
+		path: '/test/packages/workspace-a',
+		version: '1.0.0',
+		changed: true,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		mocks.getTags.mockReturnValue(['v1.0.0']);
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				name: 'test-monorepo',
+				repository: {
+					url: 'git+https://github.com/user/repo.git',
+				},
+			})
+		);
+	});
+
+	it('bumps each changed workspace from its own version', async () => {
+		// Prepare
+		const workspaces = {
+			'workspace-a': createWorkspace({ version: '1.2.0' }),
+			'workspace-b': createWorkspace({
+				name: '@scope/workspace-b',
+				shortName: 'workspace-b',
+				path: '/test/packages/workspace-b',
+				version: '0.4.1',
+			}),
+			'workspace-c': createWorkspace({
+				name: '@scope/workspace-c',
+				shortName: 'workspace-c',
+				path: '/test/packages/workspace-c',
+				version: '3.0.0',
+				changed: false,
+			}),
+		};
+		mocks.getTags.mockReturnValue([
+			'@scope/workspace-a@1.1.0',
+			'@scope/workspace-a@1.2.0',
+			'@scope/workspace-c@3.0.0',
+		]);
+		mocks.getFirstCommit.mockReturnValue('abc123');
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType
+			.mockReturnValueOnce('minor')
+			.mockReturnValueOnce('patch');
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true });
+
+		// Assess
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			'@scope/workspace-a@1.2.0',
+			undefined
+		);
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			null,
+			undefined
+		);
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			'@scope/workspace-c@3.0.0',
+			undefined
+		);
+		expect(mocks.parseCommits).toHaveBeenCalledWith(
+			[],
+			{ 'workspace-b': workspaces['workspace-b'] },
+			'/test',
+			DefaultConfig
+		);
+		expect(mocks.determineVersionBumpType).toHaveBeenCalledTimes(2);
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'New version for @scope/workspace-a: 1.3.0 (minor)'
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'New version for @scope/workspace-b: 0.4.2 (patch)'
+		);
+		expect(mocks.updateChangelogsIndependently).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			{
+				'workspace-a': {
+					version: '1.3.0',
+					versionLink:
+						'https://github.com/user/repo/compare/@scope/workspace-a@1.2.0...@scope/workspace-a@1.3.0',
+				},
+				'workspace-b': {
+					version: '0.4.2',
+					versionLink:
+						'https://github.com/user/repo/compare/abc123...@scope/workspace-b@0.4.2',
+				},
+			},
+			'https://github.com/user/repo',
+			DefaultConfig
+		);
+		expect(mocks.bumpVersions).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			{
+				'workspace-a': '1.3.0',
+				'workspace-b': '0.4.2',
+			},
+			DefaultConfig
+		);
+		expect(mocks.updateChangelogs).not.toHaveBeenCalled();
+	});
+
+	it('starts workspaces without a package tag from the last repository release', async () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace({
+				name: '@scope/core',
+				shortName: 'core',
+				path: '/test/packages/core',
+				version: '2.0.0',
+			}),
+			utils: createWorkspace({
+				name: '@scope/utils',
+				shortName: 'utils',
+				path: '/test/packages/utils',
+				version: '2.0.0',
+			}),
+		};
+		// Released with fixed versioning until v2.0.0, then utils on its own
+		mocks.getTags.mockReturnValue(['v1.0.0', 'v2.0.0', '@scope/utils@2.0.1']);
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('patch');
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true });
+
+		// Assess
+		expect(mocks.getCommitsSinceTag.mock.calls).toEqual([
+			['/test', 'v2.0.0', undefined],
+			['/test', '@scope/utils@2.0.1', undefined],
+		]);
+		expect(mocks.getFirstCommit).not.toHaveBeenCalled();
+		expect(mocks.updateChangelogsIndependently).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			expect.objectContaining({
+				core: {
+					version: '2.0.1',
+					versionLink:
+						'https://github.com/user/repo/compare/v2.0.0...@scope/core@2.0.1',
+				},
+			}),
+			'https://github.com/user/repo',
+			DefaultConfig
+		);
+	});
+
+	it('applies the provided bump type to every changed workspace', async () => {
+		// Prepare
+		const workspaces = {
+			'workspace-a': createWorkspace({ version: '1.2.0-beta.1' }),
+		};
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true, type: 'major' });
+
+		// Assess
+		expect(mocks.determineVersionBumpType).not.toHaveBeenCalled();
+		expect(mocks.bumpVersions).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			{ 'workspace-a': '2.0.0-beta.0' },
+			DefaultConfig
+		);
+	});
+
+	it('skips the release when no workspace changed', async () => {
+		// Prepare
+		const workspaces = {
+			'workspace-a': createWorkspace({ changed: false }),
+		};
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({
+			workspaceChanged: false,
+			workspaces,
+		});
+
+		// Act
+		const released = await processMonorepo({
+			root: '/test',
+			independent: true,
+			type: 'patch',
+		});
+
+		// Assess
+		expect(released).toBe(false);
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'No changed workspaces to release; skipping version bump'
+		);
+		expect(mocks.bumpVersions).not.toHaveBeenCalled();
+	});
+
+	it('writes per-package versions to GITHUB_OUTPUT and honours dry run', async () => {
+		// Prepare
+		process.env.GITHUB_OUTPUT = '/path/to/github/output';
+		const workspaces = {
+			'workspace-a': createWorkspace({}),
+		};
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('patch');
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true, dryRun: true });
+
+		// Assess
+		expect(mocks.appendFileSync).toHaveBeenCalledWith(
+			'/path/to/github/output',
+			'new_versions={"@scope/workspace-a":"1.0.1"}\n'
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Dry run enabled, no changes will be made'
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith('Would update changelogs');
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Would bump versions of 1 changed workspaces'
+		);
+		expect(mocks.writeFileSync).not.toHaveBeenCalled();
+	});
+
+	it('falls back to 0.0.0 when a workspace has no valid version', async () => {
+		// Prepare
+		const workspaces = {
+			'workspace-a': createWorkspace({ version: 'not-a-version' }),
+		};
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('minor');
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true });
+
+		// Assess
+		expect(mocks.bumpVersions).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			{ 'workspace-a': '0.1.0' },
+			DefaultConfig
+		);
+	});
+});
+
+it('applies the configured tag format to tags and links', async () => {
+	// Prepare
+	const workspaces: Record<string, Workspace> = {};
+	mocks.loadConfig.mockResolvedValue({
+		...DefaultConfig,
+		tagFormat: 'release-{version}',
+	});
+	mocks.getTags.mockReturnValue(['release-1.0.0', 'v9.0.0', 'docs-2024']);
+	mocks.getCommitsSinceTag.mockReturnValue([]);
+	mocks.readWorkspaces.mockReturnValue(workspaces);
+	mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+	mocks.join.mockReturnValue('/test/package.json');
+	mocks.readFileSync.mockReturnValue(
+		JSON.stringify({
+			repository: { url: 'https://github.com/user/repo.git' },
+		})
+	);
+
+	// Act
+	await processMonorepo({ root: '/test', type: 'minor' });
+
+	// Assess
+	expect(mocks.loadConfig).toHaveBeenCalledWith('/test');
+	expect(mocks.updateChangelogs).toHaveBeenCalledWith(
+		'/test',
+		workspaces,
+		'1.1.0',
+		'https://github.com/user/repo/compare/release-1.0.0...release-1.1.0',
+		'https://github.com/user/repo',
+		expect.objectContaining({ tagFormat: 'release-{version}' })
+	);
+});
+
+it('uses independent mode when enabled in the configuration', async () => {
+	// Prepare
+	const workspaces: Record<string, Workspace> = {};
+	mocks.loadConfig.mockResolvedValue({ ...DefaultConfig, independent: true });
+	mocks.getTags.mockReturnValue(['v1.0.0']);
+	mocks.getCommitsSinceTag.mockReturnValue([]);
+	mocks.readWorkspaces.mockReturnValue(workspaces);
+	mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+
+	// Act
+	await processMonorepo({ root: '/test', type: 'minor' });
+
+	// Assess
+	expect(mocks.logger.info).toHaveBeenCalledWith(
+		'No changed workspaces to release; skipping version bump'
+	);
+	expect(mocks.updateChangelogs).not.toHaveBeenCalled();
+});
+
+describe('release commit and tag', () => {
+	const workspaces: Record<string, Workspace> = {
+		core: {
+			name: '@scope/core',
+			shortName: 'core',
+			path: '/test/packages/core',
+			version: '1.0.0',
+			changed: true,
+			commits: [],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+	};
+
+	beforeEach(() => {
+		mocks.isWorkingTreeClean.mockReturnValue(true);
+		mocks.getTags.mockReturnValue(['v1.0.0']);
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('minor');
+		mocks.updateChangelogs.mockReturnValue(['/test/CHANGELOG.md']);
+		mocks.updateChangelogsIndependently.mockReturnValue(['/test/CHANGELOG.md']);
+		mocks.bumpVersions.mockReturnValue([
+			'/test/packages/core/package.json',
+			'/test/package-lock.json',
+		]);
+		mocks.generateReleaseNotes.mockReturnValue('### Features\n\n- feat\n');
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				repository: { url: 'https://github.com/user/repo.git' },
+			})
+		);
+	});
+
+	it('commits only the files written by the release', async () => {
+		// Act
+		await processMonorepo({ root: '/test', commit: true });
+
+		// Assess
+		expect(mocks.createCommit).toHaveBeenCalledWith(
+			'/test',
+			[
+				'/test/CHANGELOG.md',
+				'/test/packages/core/package.json',
+				'/test/package-lock.json',
+			],
+			'chore: bump version to 1.1.0'
+		);
+		expect(mocks.createAnnotatedTag).not.toHaveBeenCalled();
+	});
+
+	it('creates an annotated tag with the release notes', async () => {
+		// Act
+		await processMonorepo({ root: '/test', tag: true });
+
+		// Assess
+		expect(mocks.createCommit).toHaveBeenCalledTimes(1);
+		expect(mocks.createAnnotatedTag).toHaveBeenCalledWith(
+			'/test',
+			'v1.1.0',
+			'v1.1.0\n\n### Features\n\n- feat\n'
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith('Created tag v1.1.0');
+	});
+
+	it('uses the configured commit message template', async () => {
+		// Prepare
+		mocks.loadConfig.mockResolvedValue({
+			...DefaultConfig,
+			releaseCommitMessage: 'release: {version} ({version})',
+		});
+
+		// Act
+		await processMonorepo({ root: '/test', commit: true });
+
+		// Assess
+		expect(mocks.createCommit).toHaveBeenCalledWith(
+			'/test',
+			expect.any(Array),
+			'release: 1.1.0 (1.1.0)'
+		);
+	});
+
+	it('creates one tag per released workspace in independent mode', async () => {
+		// Act
+		await processMonorepo({ root: '/test', independent: true, tag: true });
+
+		// Assess
+		expect(mocks.createCommit).toHaveBeenCalledWith(
+			'/test',
+			[
+				'/test/CHANGELOG.md',
+				'/test/packages/core/package.json',
+				'/test/package-lock.json',
+			],
+			'chore: bump version to @scope/core@1.1.0'
+		);
+		expect(mocks.generateReleaseNotes).toHaveBeenCalledWith(
+			workspaces,
+			'https://github.com/user/repo',
+			DefaultConfig,
+			'core'
+		);
+		expect(mocks.createAnnotatedTag).toHaveBeenCalledWith(
+			'/test',
+			'@scope/core@1.1.0',
+			'@scope/core@1.1.0\n\n### Features\n\n- feat\n'
+		);
+	});
+
+	it('uses the configured package tag format in independent mode', async () => {
+		// Prepare
+		mocks.loadConfig.mockResolvedValue({
+			...DefaultConfig,
+			packageTagFormat: '{name}/v{version}',
+		});
+		mocks.getTags.mockReturnValue([
+			'@scope/core@1.0.0',
+			'@scope/core/v1.0.0',
+			'@scope/core/v1.1.0-rc.0',
+		]);
+
+		// Act
+		await processMonorepo({
+			root: '/test',
+			independent: true,
+			tag: true,
+			graduate: true,
+		});
+
+		// Assess
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			'@scope/core/v1.0.0',
+			undefined
+		);
+		expect(mocks.createAnnotatedTag).toHaveBeenCalledWith(
+			'/test',
+			'@scope/core/v1.1.0',
+			expect.any(String)
+		);
+	});
+
+	it('commits without tagging in independent mode', async () => {
+		// Act
+		await processMonorepo({ root: '/test', independent: true, commit: true });
+
+		// Assess
+		expect(mocks.createCommit).toHaveBeenCalledTimes(1);
+		expect(mocks.createAnnotatedTag).not.toHaveBeenCalled();
+	});
+
+	it('refuses to run on a dirty working tree', async () => {
+		// Prepare
+		mocks.isWorkingTreeClean.mockReturnValue(false);
+
+		// Act & Assess
+		await expect(
+			processMonorepo({ root: '/test', commit: true })
+		).rejects.toThrow(
+			'Working tree has uncommitted changes; commit or stash them before using --commit or --tag'
+		);
+		expect(mocks.updateChangelogs).not.toHaveBeenCalled();
+		expect(mocks.createCommit).not.toHaveBeenCalled();
+	});
+
+	it('does not check the working tree or commit in dry run mode', async () => {
+		// Act
+		await processMonorepo({ root: '/test', tag: true, dryRun: true });
+
+		// Assess
+		expect(mocks.isWorkingTreeClean).not.toHaveBeenCalled();
+		expect(mocks.createCommit).not.toHaveBeenCalled();
+	});
+});
+
+describe('dependency propagation', () => {
+	const createWorkspace = (
+		shortName: string,
+		overrides: Partial<Workspace> = {}
+	): Workspace => ({
+		name: `@scope/${shortName}`,
+		shortName,
+		path: `/test/packages/${shortName}`,
+		version: '1.0.0',
+		changed: false,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		mocks.getTags.mockReturnValue(['v1.0.0']);
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				name: 'test-monorepo',
+				repository: {
+					url: 'git+https://github.com/user/repo.git',
+				},
+			})
+		);
+	});
+
+	it('releases dependents of changed workspaces in independent mode', async () => {
+		// Prepare
+		const workspaces = {
+			cli: createWorkspace('cli', {
+				dependencyNames: ['@scope/core'],
+				dependenciesByType: { dependencies: ['@scope/core'] },
+			}),
+			core: createWorkspace('core', { changed: true }),
+		};
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType
+			.mockReturnValueOnce('minor')
+			.mockReturnValueOnce('patch');
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true });
+
+		// Assess
+		expect(mocks.logger.info).toHaveBeenNthCalledWith(
+			1,
+			'New version for @scope/core: 1.1.0 (minor)'
+		);
+		expect(mocks.logger.info).toHaveBeenNthCalledWith(
+			2,
+			'New version for @scope/cli: 1.0.1 (patch)'
+		);
+		expect(workspaces.cli.changed).toBe(true);
+		expect(workspaces.cli.commits).toEqual([
+			expect.objectContaining({
+				subject: 'updated dependency @scope/core to 1.1.0',
+				bump: 'patch',
+			}),
+		]);
+		expect(mocks.bumpVersions).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			{ core: '1.1.0', cli: '1.0.1' },
+			DefaultConfig
+		);
+	});
+
+	it('releases dependents through peer dependencies, whose ranges are updated too', async () => {
+		// Prepare
+		const workspaces = {
+			plugin: createWorkspace('plugin', {
+				dependenciesByType: { peerDependencies: ['@scope/core'] },
+			}),
+			core: createWorkspace('core', { changed: true }),
+		};
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType
+			.mockReturnValueOnce('minor')
+			.mockReturnValueOnce('patch');
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true });
+
+		// Assess
+		expect(workspaces.plugin.commits).toEqual([
+			expect.objectContaining({
+				subject: 'updated dependency @scope/core to 1.1.0',
+			}),
+		]);
+		expect(mocks.bumpVersions).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			{ core: '1.1.0', plugin: '1.0.1' },
+			DefaultConfig
+		);
+	});
+
+	it('adds dependency updates and the propagation bump in fixed mode', async () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', { changed: true }),
+			cli: createWorkspace('cli', {
+				dependencyNames: ['@scope/core'],
+				dependenciesByType: { dependencies: ['@scope/core'] },
+			}),
+		};
+		const config = { ...DefaultConfig, dependencyPropagationBump: 'minor' };
+		mocks.loadConfig.mockResolvedValue(config);
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('patch');
+
+		// Act
+		await processMonorepo({ root: '/test' });
+
+		// Assess
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Determined version bump type: minor'
+		);
+		expect(workspaces.cli.commits).toEqual([
+			expect.objectContaining({
+				subject: 'updated dependency @scope/core to 1.1.0',
+			}),
+		]);
+	});
+
+	it('does not propagate changes when disabled', async () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core', { changed: true }),
+			cli: createWorkspace('cli', {
+				dependencyNames: ['@scope/core'],
+				dependenciesByType: { dependencies: ['@scope/core'] },
+			}),
+		};
+		mocks.loadConfig.mockResolvedValue({
+			...DefaultConfig,
+			dependencyPropagationBump: 'none',
+		});
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('patch');
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true });
+
+		// Assess
+		expect(workspaces.cli.changed).toBe(false);
+		expect(mocks.bumpVersions).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			{ core: '1.0.1' },
+			expect.anything()
+		);
+	});
+
+	it('fails on circular dependencies between workspaces', async () => {
+		// Prepare
+		mocks.readWorkspaces.mockReturnValue({
+			a: createWorkspace('a', {
+				dependencyNames: ['@scope/b'],
+				dependenciesByType: { dependencies: ['@scope/b'] },
+			}),
+			b: createWorkspace('b', {
+				dependencyNames: ['@scope/a'],
+				dependenciesByType: { dependencies: ['@scope/a'] },
+			}),
+		});
+
+		// Act & Assess
+		await expect(processMonorepo({ root: '/test' })).rejects.toThrow(
+			'Circular dependency detected between workspaces: @scope/a -> @scope/b -> @scope/a'
+		);
+		expect(mocks.parseCommits).not.toHaveBeenCalled();
+	});
+});
+
+describe('release plan output', () => {
+	const createWorkspaces = (): Record<string, Workspace> => ({
+		core: {
+			name: '@scope/core',
+			shortName: 'core',
+			path: '/test/packages/core',
+			version: '1.0.0',
+			changed: true,
+			commits: [
+				{
+					hash: 'abc1234',
+					subject: 'add feature',
+					type: 'feat',
+					scope: 'core',
+					breaking: false,
+					notes: [],
+					issueKeys: ['PAY-1234'],
+				},
+			],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+		utils: {
+			name: '@scope/utils',
+			shortName: 'utils',
+			path: '/test/packages/utils',
+			version: '1.0.0',
+			changed: false,
+			commits: [],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: true,
+		},
+	});
+	const getPrintedPlan = () =>
+		JSON.parse(vi.mocked(console.log).mock.calls[0]?.[0] as string);
+
+	beforeEach(() => {
+		mocks.isWorkingTreeClean.mockReturnValue(true);
+		mocks.getTags.mockReturnValue(['v1.0.0']);
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.determineVersionBumpType.mockReturnValue('minor');
+		mocks.updateChangelogs.mockReturnValue(['/test/CHANGELOG.md']);
+		mocks.updateChangelogsIndependently.mockReturnValue(['/test/CHANGELOG.md']);
+		mocks.bumpVersions.mockReturnValue(['/test/packages/core/package.json']);
+		mocks.generateVersionHeader.mockImplementation(
+			(version: string) => `## ${version}\n\n`
+		);
+		mocks.generateReleaseNotes.mockReturnValue('### Features\n\n- feat\n');
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				repository: { url: 'https://github.com/user/repo.git' },
+			})
+		);
+	});
+
+	it('prints the release plan and routes logs to stderr', async () => {
+		// Prepare
+		const workspaces = createWorkspaces();
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+
+		// Act
+		await processMonorepo({ root: '/test', json: true });
+
+		// Assess
+		expect(mocks.configureLogger).toHaveBeenCalledWith(false, true);
+		expect(console.log).toHaveBeenCalledTimes(1);
+		expect(getPrintedPlan()).toEqual({
+			dryRun: false,
+			independent: false,
+			lastTag: 'v1.0.0',
+			bump: 'minor',
+			newVersion: '1.1.0',
+			newVersions: { '@scope/core': '1.1.0', '@scope/utils': '1.1.0' },
+			commits: [
+				{
+					hash: 'abc1234',
+					subject: 'add feature',
+					type: 'feat',
+					scope: 'core',
+					breaking: false,
+					workspaces: ['@scope/core'],
+					issueKeys: ['PAY-1234'],
+				},
+			],
+			workspaces: [
+				{
+					name: '@scope/core',
+					path: '/test/packages/core',
+					private: false,
+					changed: true,
+					bump: 'minor',
+					currentVersion: '1.0.0',
+					newVersion: '1.1.0',
+				},
+				{
+					name: '@scope/utils',
+					path: '/test/packages/utils',
+					private: true,
+					changed: false,
+					bump: null,
+					currentVersion: '1.0.0',
+					newVersion: '1.1.0',
+				},
+			],
+			files: ['/test/CHANGELOG.md', '/test/packages/core/package.json'],
+			changelog: '## 1.1.0\n\n### Features\n\n- feat\n',
+			issueKeys: ['PAY-1234'],
+		});
+	});
+
+	it('plans the files of a dry run without committing', async () => {
+		// Prepare
+		const workspaces = createWorkspaces();
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+
+		// Act
+		await processMonorepo({
+			root: '/test',
+			dryRun: true,
+			json: true,
+			tag: true,
+		});
+
+		// Assess
+		expect(mocks.updateChangelogs).toHaveBeenCalled();
+		expect(mocks.bumpVersions).toHaveBeenCalled();
+		expect(mocks.createCommit).not.toHaveBeenCalled();
+		expect(mocks.createAnnotatedTag).not.toHaveBeenCalled();
+		expect(getPrintedPlan()).toEqual(
+			expect.objectContaining({
+				dryRun: true,
+				files: ['/test/CHANGELOG.md', '/test/packages/core/package.json'],
+			})
+		);
+	});
+
+	it('prints an empty plan when there is nothing to release', async () => {
+		// Prepare
+		const workspaces = createWorkspaces();
+		workspaces.core = { ...workspaces.core, changed: false, commits: [] };
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: false, workspaces });
+
+		// Act
+		await processMonorepo({ root: '/test', json: true });
+
+		// Assess
+		expect(getPrintedPlan()).toEqual(
+			expect.objectContaining({
+				bump: null,
+				newVersion: null,
+				newVersions: {},
+				commits: [],
+				files: [],
+				changelog: '',
+			})
+		);
+	});
+
+	it('lists the released packages in independent mode', async () => {
+		// Prepare
+		const workspaces = createWorkspaces();
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true, json: true });
+
+		// Assess
+		const plan = getPrintedPlan();
+		expect(plan.independent).toBe(true);
+		expect(plan.newVersion).toBeNull();
+		expect(plan.newVersions).toEqual({ '@scope/core': '1.1.0' });
+		expect(plan.workspaces[1]).toEqual(
+			expect.objectContaining({ name: '@scope/utils', newVersion: null })
+		);
+		expect(plan.changelog).toBe(
+			'## @scope/core@1.1.0\n\n### Features\n\n- feat\n'
+		);
+	});
+});
+
+describe('single release steps', () => {
+	const workspaces: Record<string, Workspace> = {
+		core: {
+			name: '@scope/core',
+			shortName: 'core',
+			path: '/test/packages/core',
+			version: '1.0.0',
+			changed: true,
+			commits: [],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+	};
+
+	beforeEach(() => {
+		mocks.getTags.mockReturnValue(['v1.0.0']);
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('minor');
+		mocks.updateChangelogs.mockReturnValue(['/test/CHANGELOG.md']);
+		mocks.updateChangelogsIndependently.mockReturnValue([
+			'/test/packages/core/CHANGELOG.md',
+		]);
+		mocks.bumpVersions.mockReturnValue(['/test/package.json']);
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				repository: { url: 'https://github.com/user/repo.git' },
+			})
+		);
+	});
+
+	it('only updates the changelogs', async () => {
+		// Act
+		const released = await processMonorepo({
+			root: '/test',
+			only: 'changelog',
+			dryRun: true,
+			json: true,
+		});
+
+		// Assess
+		expect(released).toBe(true);
+		expect(mocks.updateChangelogs).toHaveBeenCalled();
+		expect(mocks.bumpVersions).not.toHaveBeenCalled();
+		expect(
+			JSON.parse(vi.mocked(console.log).mock.calls[0]?.[0] as string).files
+		).toEqual(['/test/CHANGELOG.md']);
+	});
+
+	it('only bumps the versions', async () => {
+		// Act
+		const released = await processMonorepo({ root: '/test', only: 'version' });
+
+		// Assess
+		expect(released).toBe(true);
+		expect(mocks.updateChangelogs).not.toHaveBeenCalled();
+		expect(mocks.bumpVersions).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			'1.1.0',
+			DefaultConfig
+		);
+		expect(mocks.logger.info).not.toHaveBeenCalledWith('Updated changelogs');
+	});
+
+	it('runs a single step in independent mode', async () => {
+		// Act
+		const released = await processMonorepo({
+			root: '/test',
+			independent: true,
+			only: 'changelog',
+		});
+
+		// Assess
+		expect(released).toBe(true);
+		expect(mocks.updateChangelogsIndependently).toHaveBeenCalled();
+		expect(mocks.bumpVersions).not.toHaveBeenCalled();
+	});
+});
+
+describe('commit range', () => {
+	const workspaces: Record<string, Workspace> = {
+		core: {
+			name: '@scope/core',
+			shortName: 'core',
+			path: '/test/packages/core',
+			version: '1.0.0',
+			changed: true,
+			commits: [],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+	};
+
+	beforeEach(() => {
+		mocks.isValidRef.mockReturnValue(true);
+		mocks.isWorkingTreeClean.mockReturnValue(true);
+		mocks.getTags.mockReturnValue(['v1.0.0', 'v1.1.0']);
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('patch');
+		mocks.updateChangelogs.mockReturnValue([]);
+		mocks.updateChangelogsIndependently.mockReturnValue([]);
+		mocks.bumpVersions.mockReturnValue([]);
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				version: '1.0.0',
+				repository: { url: 'https://github.com/user/repo.git' },
+			})
+		);
+	});
+
+	it('analyses the commits between the given refs', async () => {
+		// Act
+		await processMonorepo({ root: '/test', from: 'v1.0.0', to: 'hotfix/1.0' });
+
+		// Assess
+		expect(mocks.isValidRef).toHaveBeenCalledWith('/test', 'v1.0.0');
+		expect(mocks.isValidRef).toHaveBeenCalledWith('/test', 'hotfix/1.0');
+		expect(mocks.getTags).toHaveBeenCalledWith('/test', 'hotfix/1.0');
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			'v1.0.0',
+			'hotfix/1.0'
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Analysing commits from v1.0.0 to hotfix/1.0'
+		);
+		// The version is still bumped from the last tag of the range
+		expect(mocks.logger.info).toHaveBeenCalledWith('New version: 1.1.1');
+		expect(mocks.updateChangelogs).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			'1.1.1',
+			'https://github.com/user/repo/compare/v1.0.0...hotfix/1.0',
+			'https://github.com/user/repo',
+			DefaultConfig
+		);
+	});
+
+	it('compares the first commit with the end of the range on the first release', async () => {
+		// Prepare
+		mocks.getTags.mockReturnValue([]);
+		mocks.getFirstCommit.mockReturnValue('abc123');
+
+		// Act
+		await processMonorepo({ root: '/test', to: 'def456' });
+
+		// Assess
+		expect(mocks.getFirstCommit).toHaveBeenCalledWith('/test', 'def456');
+		expect(mocks.updateChangelogs).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			'1.0.1',
+			'https://github.com/user/repo/compare/abc123...def456',
+			'https://github.com/user/repo',
+			DefaultConfig
+		);
+	});
+
+	it('starts every workspace from the given ref in independent mode', async () => {
+		// Prepare
+		mocks.getTags.mockReturnValue(['@scope/core@1.0.0']);
+
+		// Act
+		await processMonorepo({
+			root: '/test',
+			independent: true,
+			from: 'abc123',
+		});
+
+		// Assess
+		expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+			'/test',
+			'abc123',
+			undefined
+		);
+		expect(mocks.updateChangelogsIndependently).toHaveBeenCalledWith(
+			'/test',
+			workspaces,
+			{
+				core: {
+					version: '1.0.1',
+					versionLink:
+						'https://github.com/user/repo/compare/abc123...@scope/core@1.0.1',
+				},
+			},
+			'https://github.com/user/repo',
+			DefaultConfig
+		);
+	});
+
+	it('throws for unknown refs', async () => {
+		// Prepare
+		mocks.isValidRef.mockReturnValue(false);
+
+		// Act & Assess
+		await expect(
+			processMonorepo({ root: '/test', from: 'v0.0.0' })
+		).rejects.toThrow('Unknown git ref: v0.0.0');
+		expect(mocks.getCommitsSinceTag).not.toHaveBeenCalled();
+	});
+
+	it('refuses to commit a release analysed up to another ref than HEAD', async () => {
+		// Act & Assess
+		await expect(
+			processMonorepo({ root: '/test', to: 'hotfix/1.0', tag: true })
+		).rejects.toThrow(
+			'--to cannot be combined with --commit, --tag or --release, which apply to HEAD'
+		);
+		expect(mocks.getCommitsSinceTag).not.toHaveBeenCalled();
+	});
+
+	it('marks the new contributors against the history of the base tag', async () => {
+		// Prepare
+		const knownEmails = new Set(['jane@example.com']);
+		mocks.getAuthorEmails.mockReturnValue(knownEmails);
+		mocks.loadConfig.mockResolvedValue({
+			...DefaultConfig,
+			newContributors: true,
+		});
+
+		// Act
+		await processMonorepo({ root: '/test' });
+
+		// Assess
+		expect(mocks.getAuthorEmails).toHaveBeenCalledWith('/test', 'v1.1.0');
+		expect(mocks.markNewContributors).toHaveBeenCalledWith(
+			workspaces,
+			knownEmails
+		);
+	});
+
+	it('does not look for new contributors by default', async () => {
+		// Act
+		await processMonorepo({ root: '/test' });
+
+		// Assess
+		expect(mocks.getAuthorEmails).not.toHaveBeenCalled();
+		expect(mocks.markNewContributors).not.toHaveBeenCalled();
+	});
+});
+
+describe('release notes', () => {
+	const workspaces: Record<string, Workspace> = {
+		core: {
+			name: '@scope/core',
+			shortName: 'core',
+			path: '/test/packages/core',
+			version: '1.0.0',
+			changed: true,
+			commits: [],
+			dependencyNames: [],
+			dependenciesByType: {},
+			isPrivate: false,
+		},
+	};
+	const notes = '### Features\n\n- **core** add feature\n';
+
+	beforeEach(() => {
+		mocks.getTags.mockReturnValue(['v1.0.0']);
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.determineVersionBumpType.mockReturnValue('minor');
+		mocks.updateChangelogs.mockReturnValue([]);
+		mocks.updateChangelogsIndependently.mockReturnValue([]);
+		mocks.bumpVersions.mockReturnValue([]);
+		mocks.generateVersionHeader.mockImplementation(
+			(version: string) => `## ${version}\n\n`
+		);
+		mocks.generateReleaseNotes.mockReturnValue(notes);
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				repository: { url: 'https://github.com/user/repo.git' },
+			})
+		);
+	});
+
+	it('writes the release notes to the given file', async () => {
+		// Act
+		await processMonorepo({ root: '/test', releaseNotes: 'RELEASE_NOTES.md' });
+
+		// Assess
+		expect(mocks.generateReleaseNotes).toHaveBeenCalledWith(
+			workspaces,
+			'https://github.com/user/repo',
+			DefaultConfig
+		);
+		expect(mocks.writeFileSync).toHaveBeenCalledWith('RELEASE_NOTES.md', notes);
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Wrote release notes to RELEASE_NOTES.md'
+		);
+	});
+
+	it('does not write the release notes file in dry run mode', async () => {
+		// Act
+		await processMonorepo({
+			root: '/test',
+			dryRun: true,
+			releaseNotes: 'RELEASE_NOTES.md',
+		});
+
+		// Assess
+		expect(mocks.writeFileSync).not.toHaveBeenCalled();
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Release notes would be written to RELEASE_NOTES.md'
+		);
+	});
+
+	it('writes the release notes as a multi-line GITHUB_OUTPUT value', async () => {
+		// Prepare
+		process.env.GITHUB_OUTPUT = '/path/to/github/output';
+
+		// Act
+		await processMonorepo({ root: '/test' });
+
+		// Assess
+		const output = mocks.appendFileSync.mock.calls.find(([, value]) =>
+			String(value).startsWith('release_notes<<')
+		)?.[1];
+		expect(output).toMatch(
+			/^release_notes<<(ghadelimiter_[\da-f-]+)\n### Features\n\n- \*\*core\*\* add feature\n\1\n$/
+		);
+		expect(mocks.writeFileSync).not.toHaveBeenCalledWith(
+			expect.anything(),
+			notes
+		);
+	});
+
+	it('heads the notes of each package with its version in independent mode', async () => {
+		// Prepare
+		process.env.GITHUB_OUTPUT = '/path/to/github/output';
+
+		// Act
+		await processMonorepo({
+			root: '/test',
+			independent: true,
+			releaseNotes: 'RELEASE_NOTES.md',
+		});
+
+		// Assess
+		expect(mocks.writeFileSync).toHaveBeenCalledWith(
+			'RELEASE_NOTES.md',
+			`## @scope/core@1.1.0\n\n${notes}`
+		);
+		expect(mocks.appendFileSync).toHaveBeenCalledWith(
+			'/path/to/github/output',
+			expect.stringContaining(`\n## @scope/core@1.1.0\n\n${notes}`)
+		);
+	});
+});
+
+describe('forge releases', () => {
+	const forge = {
+		forge: 'github',
+		apiUrl: 'https://api.github.com',
+		repository: 'user/repo',
+		token: 'secret',
+	};
+	const createWorkspace = (shortName: string): Workspace => ({
+		name: `@scope/${shortName}`,
+		shortName,
+		path: `/test/packages/${shortName}`,
+		version: '1.0.0',
+		changed: true,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	});
+
+	beforeEach(() => {
+		mocks.isWorkingTreeClean.mockReturnValue(true);
+		mocks.getTags.mockReturnValue(['v1.0.0']);
+		mocks.getCommitsSinceTag.mockReturnValue([]);
+		mocks.determineVersionBumpType.mockReturnValue('minor');
+		mocks.updateChangelogs.mockReturnValue(['/test/CHANGELOG.md']);
+		mocks.updateChangelogsIndependently.mockReturnValue(['/test/CHANGELOG.md']);
+		mocks.bumpVersions.mockReturnValue([]);
+		mocks.generateReleaseNotes.mockReturnValue('### Features\n\n- feat\n');
+		mocks.getForgeClientOptions.mockReturnValue(forge);
+		mocks.publishRelease.mockResolvedValue({
+			action: 'created',
+			url: 'https://github.com/user/repo/releases/tag/v1.1.0',
+		});
+		mocks.join.mockReturnValue('/test/package.json');
+		mocks.readFileSync.mockReturnValue(
+			JSON.stringify({
+				repository: { url: 'git+https://github.com/user/repo.git' },
+			})
+		);
+	});
+
+	it('tags and pushes the release before creating the forge release', async () => {
+		// Prepare
+		const workspaces = { core: createWorkspace('core') };
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+
+		// Act
+		await processMonorepo({ root: '/test', release: true });
+
+		// Assess
+		expect(mocks.getForgeClientOptions).toHaveBeenCalledWith(
+			DefaultConfig,
+			'https://github.com/user/repo'
+		);
+		expect(mocks.createAnnotatedTag).toHaveBeenCalledWith(
+			'/test',
+			'v1.1.0',
+			'v1.1.0\n\n### Features\n\n- feat\n'
+		);
+		expect(mocks.pushRelease).toHaveBeenCalledWith('/test', ['v1.1.0']);
+		expect(mocks.publishRelease).toHaveBeenCalledWith(
+			{ tag: 'v1.1.0', version: '1.1.0', notes: '### Features\n\n- feat\n' },
+			forge
+		);
+		expect(mocks.pushRelease.mock.invocationCallOrder[0]).toBeLessThan(
+			mocks.publishRelease.mock.invocationCallOrder[0] as number
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Created github release v1.1.0: https://github.com/user/repo/releases/tag/v1.1.0'
+		);
+	});
+
+	it('creates one forge release per released package in independent mode', async () => {
+		// Prepare
+		const workspaces = {
+			core: createWorkspace('core'),
+			ui: createWorkspace('ui'),
+		};
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+		mocks.publishRelease.mockResolvedValue({
+			action: 'unchanged',
+			url: 'https://github.com/user/repo/releases',
+		});
+
+		// Act
+		await processMonorepo({ root: '/test', independent: true, release: true });
+
+		// Assess
+		expect(mocks.pushRelease).toHaveBeenCalledWith('/test', [
+			'@scope/core@1.1.0',
+			'@scope/ui@1.1.0',
+		]);
+		expect(mocks.publishRelease).toHaveBeenCalledTimes(2);
+		expect(mocks.publishRelease).toHaveBeenCalledWith(
+			expect.objectContaining({ tag: '@scope/ui@1.1.0', version: '1.1.0' }),
+			forge
+		);
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Kept up-to-date github release @scope/ui@1.1.0: https://github.com/user/repo/releases'
+		);
+	});
+
+	it('does not push or create releases in dry run mode', async () => {
+		// Prepare
+		const workspaces = { core: createWorkspace('core') };
+		mocks.readWorkspaces.mockReturnValue(workspaces);
+		mocks.parseCommits.mockReturnValue({ workspaceChanged: true, workspaces });
+
+		// Act
+		await processMonorepo({ root: '/test', release: true, dryRun: true });
+
+		// Assess
+		expect(mocks.getForgeClientOptions).not.toHaveBeenCalled();
+		expect(mocks.pushRelease).not.toHaveBeenCalled();
+		expect(mocks.publishRelease).not.toHaveBeenCalled();
+	});
+
+	it('fails before writing any file when the forge token is missing', async () => {
+		// Prepare
+		mocks.getForgeClientOptions.mockImplementation(() => {
+			throw new Error(
+				'Cannot create github releases without a token, set GITHUB_TOKEN or GH_TOKEN'
+			);
+		});
+
+		// Act & Assess
+		await expect(
+			processMonorepo({ root: '/test', release: true })
+		).rejects.toThrow('Cannot create github releases without a token');
+		expect(mocks.updateChangelogs).not.toHaveBeenCalled();
+		expect(mocks.createCommit).not.toHaveBeenCalled();
+	});
+});
+
+describe('tag command', () => {
+	const createWorkspace = (shortName: string, version: string): Workspace => ({
+		name: `@scope/${shortName}`,
+		shortName,
+		path: `/test/packages/${shortName}`,
+		version,
+		changed: false,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	});
+
+	beforeEach(() => {
+		mocks.join.mockImplementation((...paths: string[]) => paths.join('/'));
+		mocks.basename.mockImplementation((path: string) => path.split('/').pop());
+		mocks.readWorkspaces.mockReturnValue({
+			core: createWorkspace('core', '1.1.0'),
+			utils: createWorkspace('utils', '1.1.0'),
+		});
+		mocks.getTags.mockReturnValue(['v1.0.0']);
+		mocks.getUncommittedFiles.mockReturnValue([
+			'/test/CHANGELOG.md',
+			'/test/packages/core/package.json',
+			'/test/package-lock.json',
+		]);
+		mocks.getVersionNotes.mockReturnValue('### Features\n\n- feat\n');
+	});
+
+	it('commits the release files and tags the current version', async () => {
+		// Act
+		const result = await tagRelease({ root: '/test' });
+
+		// Assess
+		expect(result).toBe(true);
+		expect(mocks.getVersionNotes).toHaveBeenCalledWith(
+			'/test/CHANGELOG.md',
+			'1.1.0'
+		);
+		expect(mocks.createCommit).toHaveBeenCalledWith(
+			'/test',
+			[
+				'/test/CHANGELOG.md',
+				'/test/packages/core/package.json',
+				'/test/package-lock.json',
+			],
+			'chore: bump version to 1.1.0'
+		);
+		expect(mocks.createAnnotatedTag).toHaveBeenCalledWith(
+			'/test',
+			'v1.1.0',
+			'v1.1.0\n\n### Features\n\n- feat\n'
+		);
+	});
+
+	it('only tags the current version when it is already committed', async () => {
+		// Prepare
+		mocks.getUncommittedFiles.mockReturnValue([]);
+
+		// Act
+		await tagRelease({ root: '/test' });
+
+		// Assess
+		expect(mocks.createCommit).not.toHaveBeenCalled();
+		expect(mocks.createAnnotatedTag).toHaveBeenCalledTimes(1);
+	});
+
+	it('tags each workspace without a package tag in independent mode', async () => {
+		// Prepare
+		mocks.readWorkspaces.mockReturnValue({
+			core: createWorkspace('core', '2.0.0'),
+			utils: createWorkspace('utils', '1.0.1'),
+			docs: createWorkspace('docs', ''),
+		});
+		mocks.getTags.mockReturnValue(['@scope/utils@1.0.1']);
+
+		// Act
+		await tagRelease({ root: '/test', independent: true });
+
+		// Assess
+		expect(mocks.getVersionNotes).toHaveBeenCalledWith(
+			'/test/packages/core/CHANGELOG.md',
+			'2.0.0'
+		);
+		expect(mocks.createCommit).toHaveBeenCalledWith(
+			'/test',
+			expect.any(Array),
+			'chore: bump version to @scope/core@2.0.0'
+		);
+		expect(mocks.createAnnotatedTag.mock.calls).toEqual([
+			[
+				'/test',
+				'@scope/core@2.0.0',
+				'@scope/core@2.0.0\n\n### Features\n\n- feat\n',
+			],
+		]);
+	});
+
+	it('does nothing when every version is already tagged', async () => {
+		// Prepare
+		mocks.getTags.mockReturnValue(['v1.0.0', 'v1.1.0']);
+
+		// Act
+		const result = await tagRelease({ root: '/test' });
+
+		// Assess
+		expect(result).toBe(false);
+		expect(mocks.createCommit).not.toHaveBeenCalled();
+		expect(mocks.createAnnotatedTag).not.toHaveBeenCalled();
+		expect(mocks.logger.info).toHaveBeenCalledWith(
+			'Every version is already tagged'
+		);
+	});
+
+	it('logs the commit and tags in dry run mode', async () => {
+		// Act
+		const result = await tagRelease({ root: '/test', dryRun: true });
+		mocks.getUncommittedFiles.mockReturnValue([]);
+		await tagRelease({ root: '/test', dryRun: true });
+
+		// Assess
+		expect(result).toBe(true);
+		expect(mocks.createCommit).not.toHaveBeenCalled();
+		expect(mocks.createAnnotatedTag).not.toHaveBeenCalled();
+		expect(mocks.logger.info.mock.calls).toEqual([
+			['Would commit 3 release files'],
+			['Would create v1.1.0'],
+			['Would create v1.1.0'],
+		]);
+	});
+
+	it('refuses to commit other uncommitted changes', async () => {
+		// Prepare
+		mocks.getUncommittedFiles.mockReturnValue([
+			'/test/CHANGELOG.md',
+			'/test/src/index.ts',
+		]);
+
+		// Act & Assess
+		await expect(tagRelease({ root: '/test' })).rejects.toThrow(
+			'Working tree has uncommitted changes besides the release files (/test/src/index.ts); commit or stash them before tagging'
+		);
+		expect(mocks.createCommit).not.toHaveBeenCalled();
+	});
+
+	it('refuses to tag a fixed release of workspaces with different versions', async () => {
+		// Prepare
+		mocks.readWorkspaces.mockReturnValue({
+			core: createWorkspace('core', '1.1.0'),
+			utils: createWorkspace('utils', '1.0.0'),
+		});
+
+		// Act & Assess
+		await expect(tagRelease({ root: '/test' })).rejects.toThrow(
+			'Cannot tag a fixed release of workspaces with different versions (1.1.0, 1.0.0); use --independent to tag each workspace'
+		);
+	});
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { getLinkStyle, getRepositoryLinks } from '../../src/links.js';
+
+describe('getRepositoryLinks', () => {
+	const build = (baseUrl: string) => {
+		const links = getRepositoryLinks(baseUrl, DefaultConfig);
+		return {
+			issue: links.issue(12),
+			crossRepositoryIssue: links.issue(3, 'owner/other'),
+			pullRequest: links.pullRequest(34),
+			commit: links.commit('abc1234'),
+			compare: links.compare('v1.0.0', 'v1.1.0'),
+			release: links.release('v1.1.0'),
+		};
+	};
+
+	it('builds GitHub links', () => {
+		// Act & Assess
+		expect(build('https://github.com/owner/repo')).toEqual({
+			issue: 'https://github.com/owner/repo/issues/12',
+			crossRepositoryIssue: 'https://github.com/owner/other/issues/3',
+			pullRequest: 'https://github.com/owner/repo/pull/34',
+			commit: 'https://github.com/owner/repo/commit/abc1234',
+			compare: 'https://github.com/owner/repo/compare/v1.0.0...v1.1.0',
+			release: 'https://github.com/owner/repo/releases/tag/v1.1.0',
+		});
+	});
+
+	it('builds GitLab links', () => {
+		// Act & Assess
+		expect(build('https://gitlab.com/group/repo')).toEqual({
+			issue: 'https://gitlab.com/group/repo/-/issues/12',
+			crossRepositoryIssue: 'https://gitlab.com/owner/other/-/issues/3',
+			pullRequest: 'https://gitlab.com/group/repo/-/merge_requests/34',
+			commit: 'https://gitlab.com/group/repo/-/commit/abc1234',
+			compare: 'https://gitlab.com/group/repo/-/compare/v1.0.0...v1.1.0',
+			release: 'https://gitlab.com/group/repo/-/releases/v1.1.0',
+		});
+	});
+
+	it('builds Bitbucket links', () => {
+		// Act & Assess
+		expect(build('https://bitbucket.org/owner/repo')).toEqual({
+			issue: 'https://bitbucket.org/owner/repo/issues/12',
+			crossRepositoryIssue: 'https://bitbucket.org/owner/other/issues/3',
+			pullRequest: 'https://bitbucket.org/owner/repo/pull-requests/34',
+			commit: 'https://bitbucket.org/owner/repo/commits/abc1234',
+			compare:
+				'https://bitbucket.org/owner/repo/branches/compare/v1.1.0%0Dv1.0.0',
+			release: 'https://bitbucket.org/owner/repo/src/v1.1.0',
+		});
+	});
+
+	it('builds Gitea links', () => {
+		// Act & Assess
+		expect(build('https://codeberg.org/owner/repo')).toEqual({
+			issue: 'https://codeberg.org/owner/repo/issues/12',
+			crossRepositoryIssue: 'https://codeberg.org/owner/other/issues/3',
+			pullRequest: 'https://codeberg.org/owner/repo/pulls/34',
+			commit: 'https://codeberg.org/owner/repo/commit/abc1234',
+			compare: 'https://codeberg.org/owner/repo/compare/v1.0.0...v1.1.0',
+			release: 'https://codeberg.org/owner/repo/releases/tag/v1.1.0',
+		});
+	});
+
+	it('builds Azure DevOps links', () => {
+		// Prepare
+		const baseUrl = 'https://dev.azure.com/org/project/_git/repo';
+		const commit = 'a'.repeat(40);
+
+		// Act & Assess
+		expect(build(baseUrl)).toEqual({
+			issue: 'https://dev.azure.com/org/project/_workitems/edit/12',
+			crossRepositoryIssue:
+				'https://dev.azure.com/org/project/_workitems/edit/3',
+			pullRequest: 'https://dev.azure.com/org/project/_git/repo/pullrequest/34',
+			commit: 'https://dev.azure.com/org/project/_git/repo/commit/abc1234',
+			compare:
+				'https://dev.azure.com/org/project/_git/repo/branchCompare?baseVersion=GTv1.0.0&targetVersion=GTv1.1.0',
+			release: 'https://dev.azure.com/org/project/_git/repo?version=GTv1.1.0',
+		});
+		expect(
+			getRepositoryLinks(baseUrl, DefaultConfig).compare(
+				commit,
+				'@scope/core@1.0.0'
+			)
+		).toBe(
+			`${baseUrl}/branchCompare?baseVersion=GC${commit}&targetVersion=GT%40scope%2Fcore%401.0.0`
+		);
+	});
+});
+
+describe('getLinkStyle', () => {
+	it.each([
+		['https://github.com/owner/repo', 'github'],
+		['https://gitlab.com/group/repo', 'gitlab'],
+		['https://gitlab.example.com/group/repo', 'gitlab'],
+		['https://bitbucket.org/owner/repo', 'bitbucket'],
+		['https://gitea.example.com/owner/repo', 'gitea'],
+		['https://org.visualstudio.com/project/_git/repo', 'azure'],
+	])('detects the forge of %s', (baseUrl, expected) => {
+		// Act & Assess
+		expect(getLinkStyle(baseUrl, DefaultConfig)).toBe(expected);
+	});
+
+	it('falls back to the configured forge for unknown hosts', () => {
+		// Act & Assess
+		expect(
+			getLinkStyle('https://git.example.com/owner/repo', DefaultConfig)
+		).toBe('github');
+		expect(
+			getLinkStyle('https://git.example.com/owner/repo', {
+				linkStyle: 'auto',
+				forge: 'gitlab',
+			})
+		).toBe('gitlab');
+	});
+
+	it('uses the configured link style', () => {
+		// Act & Assess
+		expect(
+			getLinkStyle('https://github.com/owner/repo', {
+				linkStyle: 'gitea',
+				forge: 'github',
+			})
+		).toBe('gitea');
+	});
+});
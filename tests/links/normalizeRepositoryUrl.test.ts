@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeRepositoryUrl } from '../../src/links.js';
+
+describe('normalizeRepositoryUrl', () => {
+	it.each([
+		['https://github.com/owner/repo', 'https://github.com/owner/repo'],
+		['git+https://github.com/owner/repo.git', 'https://github.com/owner/repo'],
+		['https://github.com/owner/repo/', 'https://github.com/owner/repo'],
+		['git@github.com:owner/repo.git', 'https://github.com/owner/repo'],
+		[
+			'git+ssh://git@github.com/owner/repo.git',
+			'https://github.com/owner/repo',
+		],
+		[
+			'ssh://git@gitlab.example.com:2222/group/subgroup/repo.git',
+			'https://gitlab.example.com/group/subgroup/repo',
+		],
+		['git://github.com/owner/repo.git', 'https://github.com/owner/repo'],
+		[
+			'http://git.example.com:3000/owner/repo',
+			'http://git.example.com:3000/owner/repo',
+		],
+		[
+			'https://user@bitbucket.org/owner/repo.git',
+			'https://bitbucket.org/owner/repo',
+		],
+	])('normalises %s', (url, expected) => {
+		// Act & Assess
+		expect(normalizeRepositoryUrl(url)).toBe(expected);
+	});
+
+	it.each([
+		['github:owner/repo', 'https://github.com/owner/repo'],
+		['gitlab:group/subgroup/repo', 'https://gitlab.com/group/subgroup/repo'],
+		['bitbucket:owner/repo', 'https://bitbucket.org/owner/repo'],
+		['owner/repo', 'https://github.com/owner/repo'],
+	])('expands the npm shorthand %s', (url, expected) => {
+		// Act & Assess
+		expect(normalizeRepositoryUrl(url)).toBe(expected);
+	});
+
+	it.each([
+		[
+			'https://org@dev.azure.com/org/project/_git/repo',
+			'https://dev.azure.com/org/project/_git/repo',
+		],
+		[
+			'git@ssh.dev.azure.com:v3/org/project/repo',
+			'https://dev.azure.com/org/project/_git/repo',
+		],
+	])('normalises the Azure DevOps URL %s', (url, expected) => {
+		// Act & Assess
+		expect(normalizeRepositoryUrl(url)).toBe(expected);
+	});
+
+	it.each(['', 'not a url', 'file:///path/to/repo'])(
+		'returns an empty URL for %j',
+		(url) => {
+			// Act & Assess
+			expect(normalizeRepositoryUrl(url)).toBe('');
+		}
+	);
+});
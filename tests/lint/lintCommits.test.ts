@@ -0,0 +1,143 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { lintCommits } from '../../src/lint.js';
+import type { Workspace } from '../../src/types.js';
+
+const mocks = vi.hoisted(() => ({
+	readFileSync: vi.fn(),
+	loadConfig: vi.fn(),
+	readWorkspaces: vi.fn(),
+	getCommitsSinceTag: vi.fn(),
+	isValidRef: vi.fn(),
+}));
+
+vi.mock('node:fs', () => ({
+	readFileSync: mocks.readFileSync,
+}));
+
+vi.mock('../../src/config.js', () => ({
+	loadConfig: mocks.loadConfig,
+}));
+
+vi.mock('../../src/workspace.js', () => ({
+	readWorkspaces: mocks.readWorkspaces,
+}));
+
+vi.mock('../../src/git.js', () => ({
+	getCommitsSinceTag: mocks.getCommitsSinceTag,
+	isValidRef: mocks.isValidRef,
+}));
+
+const createWorkspace = (shortName: string): Workspace => ({
+	name: `@scope/${shortName}`,
+	shortName,
+	path: `/test/root/packages/${shortName}`,
+	version: '1.0.0',
+	changed: false,
+	commits: [],
+	dependencyNames: [],
+	dependenciesByType: {},
+	isPrivate: false,
+});
+
+beforeEach(() => {
+	vi.clearAllMocks();
+	mocks.loadConfig.mockResolvedValue(DefaultConfig);
+	mocks.readWorkspaces.mockReturnValue({
+		core: createWorkspace('core'),
+		utils: createWorkspace('utils'),
+	});
+	mocks.isValidRef.mockReturnValue(true);
+});
+
+it('lints the message of a commit message file without the comments added by git', async () => {
+	// Prepare
+	mocks.readFileSync.mockReturnValue(
+		'feat(cor): add option\n\n# Please enter the commit message\n# ------------------------ >8 ------------------------\n# Do not modify or remove the line above.\ndiff --git a/index.ts b/index.ts\n'
+	);
+
+	// Act
+	const result = await lintCommits({
+		root: '/test/root',
+		file: '/test/root/.git/COMMIT_EDITMSG',
+	});
+
+	// Assess
+	expect(mocks.readFileSync).toHaveBeenCalledWith(
+		'/test/root/.git/COMMIT_EDITMSG',
+		'utf-8'
+	);
+	expect(result).toEqual([
+		{
+			header: 'feat(cor): add option',
+			problems: [
+				'Scope "cor" is not a workspace or scope alias, use one of core, utils, deps',
+			],
+		},
+	]);
+	expect(console.error).toHaveBeenCalledWith('✖ feat(cor): add option');
+	expect(console.error).toHaveBeenCalledWith(
+		'  - Scope "cor" is not a workspace or scope alias, use one of core, utils, deps'
+	);
+});
+
+it('lints a message such as a pull request title', async () => {
+	// Act
+	const result = await lintCommits({
+		root: '/test/root',
+		message: 'fix(utils): handle empty input\n',
+	});
+
+	// Assess
+	expect(result).toEqual([
+		{ header: 'fix(utils): handle empty input', problems: [] },
+	]);
+	expect(console.error).not.toHaveBeenCalled();
+});
+
+it('lints the commits of a range', async () => {
+	// Prepare
+	mocks.getCommitsSinceTag.mockResolvedValue([
+		{ hash: 'abc1234567', subject: 'feat(core): add option', body: '' },
+		{ hash: 'def4567890', subject: 'update things', body: 'Details' },
+	]);
+
+	// Act
+	const result = await lintCommits({ root: '/test/root', from: 'origin/main' });
+
+	// Assess
+	expect(mocks.getCommitsSinceTag).toHaveBeenCalledWith(
+		'/test/root',
+		'origin/main',
+		undefined
+	);
+	expect(result).toEqual([
+		{ header: 'feat(core): add option', hash: 'abc1234567', problems: [] },
+		{
+			header: 'update things',
+			hash: 'def4567890',
+			problems: [
+				'Header "update things" does not follow the "type(scope): subject" format',
+			],
+		},
+	]);
+	expect(console.error).toHaveBeenCalledWith('✖ update things (def4567)');
+});
+
+it('throws when a ref of the range is unknown', async () => {
+	// Prepare
+	mocks.isValidRef.mockReturnValue(false);
+
+	// Act & Assess
+	await expect(
+		lintCommits({ root: '/test/root', from: 'v9.9.9' })
+	).rejects.toThrow('Unknown git ref: v9.9.9');
+	expect(mocks.getCommitsSinceTag).not.toHaveBeenCalled();
+});
+
+it('throws when there is no message to lint', async () => {
+	// Act & Assess
+	await expect(lintCommits({ root: '/test/root' })).rejects.toThrow(
+		'No commit message to lint, pass it on stdin, with --file or as a range with --from and --to'
+	);
+});
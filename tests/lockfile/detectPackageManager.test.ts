@@ -0,0 +1,71 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { detectPackageManager } from '../../src/lockfile.js';
+
+describe('detectPackageManager', () => {
+	let testDir: string;
+
+	beforeEach(() => {
+		testDir = mkdtempSync(join(tmpdir(), 'bump-n-go-test-'));
+	});
+
+	afterEach(() => {
+		rmSync(testDir, { recursive: true, force: true });
+	});
+
+	it.each([
+		['package-lock.json', 'npm'],
+		['pnpm-lock.yaml', 'pnpm'],
+		['yarn.lock', 'yarn'],
+		['bun.lock', 'bun'],
+	])('detects %s as %s', (fileName, packageManager) => {
+		// Prepare
+		writeFileSync(join(testDir, fileName), '');
+
+		// Act & Assess
+		expect(detectPackageManager(testDir)).toBe(packageManager);
+	});
+
+	it('uses the packageManager field when several lockfiles exist', () => {
+		// Prepare
+		writeFileSync(join(testDir, 'package-lock.json'), '');
+		writeFileSync(join(testDir, 'yarn.lock'), '');
+		writeFileSync(
+			join(testDir, 'package.json'),
+			JSON.stringify({ packageManager: 'yarn@4.5.0' })
+		);
+
+		// Act & Assess
+		expect(detectPackageManager(testDir)).toBe('yarn');
+	});
+
+	it('uses the packageManager field when there is no lockfile', () => {
+		// Prepare
+		writeFileSync(
+			join(testDir, 'package.json'),
+			JSON.stringify({ packageManager: 'pnpm@9.1.0+sha512.abc' })
+		);
+
+		// Act & Assess
+		expect(detectPackageManager(testDir)).toBe('pnpm');
+	});
+
+	it('falls back to the first lockfile found for unknown package managers', () => {
+		// Prepare
+		writeFileSync(join(testDir, 'package-lock.json'), '');
+		writeFileSync(join(testDir, 'bun.lock'), '');
+		writeFileSync(
+			join(testDir, 'package.json'),
+			JSON.stringify({ packageManager: 'deno@2.0.0' })
+		);
+
+		// Act & Assess
+		expect(detectPackageManager(testDir)).toBe('npm');
+	});
+
+	it('returns null when the package manager cannot be detected', () => {
+		expect(detectPackageManager(testDir)).toBeNull();
+	});
+});
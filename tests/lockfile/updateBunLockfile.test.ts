@@ -0,0 +1,81 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { updateBunLockfile } from '../../src/lockfile.js';
+import type { Config, LockfileUpdateContext } from '../../src/types.js';
+import { updateDependencyRange } from '../../src/version.js';
+
+const fixture = readFileSync(
+	join(import.meta.dirname, '../fixtures/lockfiles/bun.lock'),
+	'utf-8'
+);
+
+const createContext = (
+	versions: Record<string, string>,
+	workspacePaths: string[],
+	config: Config = DefaultConfig
+): LockfileUpdateContext => ({
+	workspacePaths: new Set(workspacePaths),
+	versions,
+	updateRange: (name, range) => {
+		const version = versions[name];
+		return version ? updateDependencyRange(range, version, config) : null;
+	},
+	dependencyTypes: config.dependencyTypes,
+});
+
+describe('updateBunLockfile', () => {
+	it('updates versions and dependency ranges of the updated workspaces', () => {
+		// Act
+		const result = updateBunLockfile(
+			fixture,
+			createContext({ '@scope/cli': '1.0.1', '@scope/core': '1.1.0' }, [
+				'packages/cli',
+				'packages/core',
+			])
+		);
+
+		// Assess
+		expect(result).toBe(
+			fixture
+				.replace(
+					'"name": "@scope/cli",\n      "version": "1.0.0",',
+					'"name": "@scope/cli",\n      "version": "1.0.1",'
+				)
+				.replace(
+					'"name": "@scope/core",\n      "version": "1.0.0",',
+					'"name": "@scope/core",\n      "version": "1.1.0",'
+				)
+				.replace('"@scope/core": "^1.0.0",', '"@scope/core": "^1.1.0",')
+		);
+	});
+
+	it('resolves workspace: aliases when configured', () => {
+		// Act
+		const result = updateBunLockfile(
+			fixture,
+			createContext({ '@scope/utils': '1.1.0' }, ['packages/cli'], {
+				...DefaultConfig,
+				workspaceProtocol: 'resolve',
+			})
+		);
+
+		// Assess
+		expect(result).toBe(
+			fixture.replace(
+				'"@scope/utils": "workspace:*",',
+				'"@scope/utils": "1.1.0",'
+			)
+		);
+	});
+
+	it('returns null when nothing changed', () => {
+		expect(
+			updateBunLockfile(
+				fixture,
+				createContext({ '@scope/utils': '1.0.0' }, ['packages/utils'])
+			)
+		).toBeNull();
+	});
+});
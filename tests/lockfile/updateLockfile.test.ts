@@ -0,0 +1,98 @@
+import {
+	copyFileSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { updateLockfile } from '../../src/lockfile.js';
+import type { Workspace } from '../../src/types.js';
+
+describe('updateLockfile', () => {
+	let testDir: string;
+
+	const createWorkspace = (shortName: string): Workspace => ({
+		name: `@scope/${shortName}`,
+		shortName,
+		path: join(testDir, 'packages', shortName),
+		version: '1.0.0',
+		changed: true,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	});
+
+	beforeEach(() => {
+		testDir = mkdtempSync(join(tmpdir(), 'bump-n-go-test-'));
+	});
+
+	afterEach(() => {
+		rmSync(testDir, { recursive: true, force: true });
+	});
+
+	it('updates the lockfile of the detected package manager', () => {
+		// Prepare
+		const lockPath = join(testDir, 'bun.lock');
+		copyFileSync(
+			join(import.meta.dirname, '../fixtures/lockfiles/bun.lock'),
+			lockPath
+		);
+
+		// Act
+		const result = updateLockfile(
+			testDir,
+			[createWorkspace('core')],
+			{ '@scope/core': '1.1.0' },
+			() => null,
+			['dependencies']
+		);
+
+		// Assess
+		expect(result).toBe(lockPath);
+		expect(readFileSync(lockPath, 'utf-8')).toContain(
+			'"name": "@scope/core",\n      "version": "1.1.0",'
+		);
+	});
+
+	it('does not write the lockfile when nothing changed', () => {
+		// Prepare
+		const lockPath = join(testDir, 'pnpm-lock.yaml');
+		writeFileSync(lockPath, 'lockfileVersion: 9.0\n');
+
+		// Act
+		const result = updateLockfile(
+			testDir,
+			[createWorkspace('core')],
+			{ '@scope/core': '1.1.0' },
+			() => null,
+			['dependencies']
+		);
+
+		// Assess
+		expect(result).toBeNull();
+		expect(readFileSync(lockPath, 'utf-8')).toBe('lockfileVersion: 9.0\n');
+	});
+
+	it('returns null when the detected lockfile does not exist', () => {
+		// Prepare
+		writeFileSync(
+			join(testDir, 'package.json'),
+			JSON.stringify({ packageManager: 'yarn@4.5.0' })
+		);
+
+		// Act & Assess
+		expect(
+			updateLockfile(testDir, [], {}, () => null, ['dependencies'])
+		).toBeNull();
+	});
+
+	it('returns null when the package manager cannot be detected', () => {
+		expect(
+			updateLockfile(testDir, [], {}, () => null, ['dependencies'])
+		).toBeNull();
+	});
+});
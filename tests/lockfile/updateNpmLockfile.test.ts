@@ -0,0 +1,110 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { updateNpmLockfile } from '../../src/lockfile.js';
+import type { Config, LockfileUpdateContext } from '../../src/types.js';
+import { updateDependencyRange } from '../../src/version.js';
+
+const fixture = readFileSync(
+	join(import.meta.dirname, '../fixtures/lockfiles/package-lock.json'),
+	'utf-8'
+);
+
+const createContext = (
+	workspacePaths: string[],
+	config: Config = DefaultConfig
+): LockfileUpdateContext => {
+	const versions = { '@scope/core': '2.1.0', '@scope/utils': '2.1.0' };
+	return {
+		workspacePaths: new Set(workspacePaths),
+		versions,
+		updateRange: (name, range) => {
+			const version = versions[name as keyof typeof versions];
+			return version ? updateDependencyRange(range, version, config) : null;
+		},
+		dependencyTypes: config.dependencyTypes,
+	};
+};
+
+describe('updateNpmLockfile', () => {
+	it('updates the versions of the updated workspaces', () => {
+		// Act
+		const result = updateNpmLockfile(fixture, {
+			workspacePaths: new Set(['packages/core']),
+			versions: { '@scope/core': '1.1.0' },
+			updateRange: () => null,
+			dependencyTypes: ['dependencies'],
+		});
+
+		// Assess
+		const lockfile = JSON.parse(result as string);
+		expect(lockfile.packages['packages/core'].version).toBe('1.1.0');
+		expect(lockfile.packages['packages/cli'].version).toBe('1.0.0');
+		expect(lockfile.packages[''].version).toBe('1.0.0');
+		expect(result).toBe(
+			fixture.replace(
+				'"name": "@scope/core",\n      "version": "1.0.0"',
+				'"name": "@scope/core",\n      "version": "1.1.0"'
+			)
+		);
+	});
+
+	it('updates the dependency ranges of the updated workspaces', () => {
+		// Act
+		const result = updateNpmLockfile(
+			fixture,
+			createContext(['packages/cli', 'packages/core', 'packages/utils'])
+		);
+
+		// Assess
+		expect(result).toBe(
+			fixture
+				.replaceAll('"@scope/core": "^1.0.0"', '"@scope/core": "^2.1.0"')
+				.replace('"@scope/utils": "~1.0.0"', '"@scope/utils": "~2.1.0"')
+				.replace(
+					'"name": "@scope/core",\n      "version": "1.0.0"',
+					'"name": "@scope/core",\n      "version": "2.1.0"'
+				)
+				.replace(
+					'"name": "@scope/utils",\n      "version": "1.0.0"',
+					'"name": "@scope/utils",\n      "version": "2.1.0"'
+				)
+		);
+	});
+
+	it('only updates the ranges of the configured dependency types', () => {
+		// Act
+		const result = updateNpmLockfile(
+			fixture,
+			createContext(['packages/cli', 'packages/utils'], {
+				...DefaultConfig,
+				dependencyTypes: ['dependencies'],
+			})
+		);
+
+		// Assess
+		const lockfile = JSON.parse(result as string);
+		expect(lockfile.packages['packages/cli'].dependencies).toEqual({
+			'@scope/core': '^2.1.0',
+			chalk: '^5.0.0',
+		});
+		expect(lockfile.packages['packages/cli'].devDependencies).toEqual({
+			'@scope/utils': '~1.0.0',
+		});
+		expect(lockfile.packages['packages/utils'].peerDependencies).toEqual({
+			'@scope/core': '^1.0.0',
+		});
+	});
+
+	it('returns null when no workspace is listed in the lockfile', () => {
+		expect(
+			updateNpmLockfile(fixture, {
+				workspacePaths: new Set(['packages/other']),
+				versions: { '@scope/other': '1.1.0' },
+				updateRange: () => null,
+				dependencyTypes: ['dependencies'],
+			})
+		).toBeNull();
+	});
+});
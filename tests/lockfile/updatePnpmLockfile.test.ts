@@ -0,0 +1,80 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { updatePnpmLockfile } from '../../src/lockfile.js';
+import type { Config, LockfileUpdateContext } from '../../src/types.js';
+import { updateDependencyRange } from '../../src/version.js';
+
+const fixture = readFileSync(
+	join(import.meta.dirname, '../fixtures/lockfiles/pnpm-lock.yaml'),
+	'utf-8'
+);
+
+const createContext = (
+	workspacePaths: string[],
+	config: Config = DefaultConfig
+): LockfileUpdateContext => {
+	const versions = { '@scope/core': '2.1.0', '@scope/utils': '2.1.0' };
+	return {
+		workspacePaths: new Set(workspacePaths),
+		versions,
+		updateRange: (name, range) => {
+			const version = versions[name as keyof typeof versions];
+			return version ? updateDependencyRange(range, version, config) : null;
+		},
+		dependencyTypes: config.dependencyTypes,
+	};
+};
+
+describe('updatePnpmLockfile', () => {
+	it('updates importer specifiers without reformatting the lockfile', () => {
+		// Act
+		const result = updatePnpmLockfile(
+			fixture,
+			createContext(['packages/cli', 'packages/core', 'packages/utils'])
+		);
+
+		// Assess
+		expect(result).toBe(
+			fixture
+				.replace('specifier: ^1.0.0', 'specifier: ^2.1.0')
+				.replace("specifier: '>=1.0.0'", "specifier: '>=2.1.0'")
+		);
+	});
+
+	it('resolves workspace: aliases when configured', () => {
+		// Act
+		const result = updatePnpmLockfile(
+			fixture,
+			createContext(['packages/cli'], {
+				...DefaultConfig,
+				workspaceProtocol: 'resolve',
+			})
+		);
+
+		// Assess
+		expect(result).toContain(
+			"'@scope/utils':\n        specifier: ^2.1.0\n        version: link:../utils"
+		);
+	});
+
+	it('only updates the importers of the updated workspaces', () => {
+		expect(
+			updatePnpmLockfile(fixture, createContext(['packages/core']))
+		).toBeNull();
+	});
+
+	it('only updates the configured dependency fields', () => {
+		// Act
+		const result = updatePnpmLockfile(fixture, {
+			...createContext(['packages/cli']),
+			dependencyTypes: ['devDependencies'],
+		});
+
+		// Assess
+		expect(result).toBe(
+			fixture.replace("specifier: '>=1.0.0'", "specifier: '>=2.1.0'")
+		);
+	});
+});
@@ -0,0 +1,92 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { updateYarnLockfile } from '../../src/lockfile.js';
+import type { Config, LockfileUpdateContext } from '../../src/types.js';
+import { updateDependencyRange } from '../../src/version.js';
+
+const fixture = readFileSync(
+	join(import.meta.dirname, '../fixtures/lockfiles/yarn.lock'),
+	'utf-8'
+);
+
+const createContext = (
+	workspacePaths: string[],
+	config: Config = DefaultConfig
+): LockfileUpdateContext => {
+	const versions = { '@scope/core': '2.1.0', '@scope/utils': '2.1.0' };
+	return {
+		workspacePaths: new Set(workspacePaths),
+		versions,
+		updateRange: (name, range) => {
+			const version = versions[name as keyof typeof versions];
+			return version ? updateDependencyRange(range, version, config) : null;
+		},
+		dependencyTypes: config.dependencyTypes,
+	};
+};
+
+describe('updateYarnLockfile', () => {
+	it('updates dependency ranges and entry descriptors of the updated workspaces', () => {
+		// Act
+		const result = updateYarnLockfile(
+			fixture,
+			createContext(['packages/cli', 'packages/core', 'packages/utils'])
+		);
+
+		// Assess
+		expect(result).toBe(
+			fixture
+				.replaceAll(
+					'"@scope/core": "npm:^1.0.0"',
+					'"@scope/core": "npm:^2.1.0"'
+				)
+				.replace(
+					'"@scope/core@npm:^1.0.0, @scope/core@workspace:packages/core":',
+					'"@scope/core@npm:^2.1.0, @scope/core@workspace:packages/core":'
+				)
+		);
+	});
+
+	it('keeps the descriptors still used by workspaces that were not updated', () => {
+		// Act
+		const result = updateYarnLockfile(fixture, createContext(['packages/cli']));
+
+		// Assess
+		expect(result).toBe(
+			fixture
+				.replace(
+					'"@scope/core": "npm:^1.0.0"\n    "@scope/utils"',
+					'"@scope/core": "npm:^2.1.0"\n    "@scope/utils"'
+				)
+				.replace(
+					'"@scope/core@npm:^1.0.0, @scope/core@workspace:packages/core":',
+					'"@scope/core@npm:^1.0.0, @scope/core@npm:^2.1.0, @scope/core@workspace:packages/core":'
+				)
+		);
+	});
+
+	it('resolves workspace: aliases to npm ranges when configured', () => {
+		// Act
+		const result = updateYarnLockfile(
+			fixture,
+			createContext(['packages/cli'], {
+				...DefaultConfig,
+				workspaceProtocol: 'resolve',
+			})
+		);
+
+		// Assess
+		expect(result).toContain('"@scope/utils": "npm:^2.1.0"');
+		expect(result).toContain(
+			'"@scope/utils@npm:^2.1.0, @scope/utils@workspace:packages/utils":'
+		);
+	});
+
+	it('returns null when no updated workspace depends on another', () => {
+		expect(
+			updateYarnLockfile(fixture, createContext(['packages/core']))
+		).toBeNull();
+	});
+});
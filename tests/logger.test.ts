@@ -127,3 +127,18 @@ it('can reconfigure verbosity during runtime', () => {
 	expect(console.debug).toHaveBeenCalledTimes(1);
 	expect(console.debug).toHaveBeenCalledWith('should log');
 });
+
+it('writes debug and info messages to stderr when configured', () => {
+	// Prepare
+	configureLogger(true, true);
+
+	// Act
+	logger.debug('debug message');
+	logger.info('info message');
+
+	// Assess
+	expect(console.error).toHaveBeenCalledWith('debug message');
+	expect(console.error).toHaveBeenCalledWith('info message');
+	expect(console.debug).not.toHaveBeenCalled();
+	expect(console.info).not.toHaveBeenCalled();
+});
@@ -0,0 +1,78 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, expect, it } from 'vitest';
+import { getPublishedVersions } from '../../src/publish.js';
+
+/**
+ * A minimal stand-in for the package metadata endpoint of an npm registry.
+ */
+const registry = {
+	server: null as Server | null,
+	url: '',
+	urls: [] as string[],
+	authorizations: [] as (string | undefined)[],
+};
+
+beforeAll(async () => {
+	registry.server = createServer((request, response) => {
+		registry.urls.push(request.url ?? '');
+		registry.authorizations.push(request.headers.authorization);
+		if (request.url === '/@scope%2Fcore') {
+			response.writeHead(200, { 'Content-Type': 'application/json' });
+			return response.end(
+				JSON.stringify({
+					name: '@scope/core',
+					versions: { '1.0.0': {}, '1.1.0-beta.0': {} },
+				})
+			);
+		}
+		if (request.url === '/broken') {
+			response.writeHead(500);
+			return response.end();
+		}
+		response.writeHead(404);
+		response.end();
+	});
+	await new Promise<void>((resolve) =>
+		registry.server?.listen(0, '127.0.0.1', resolve)
+	);
+	const { port } = registry.server.address() as AddressInfo;
+	registry.url = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => registry.server?.close(resolve));
+});
+
+it('returns the published versions of a scoped package', async () => {
+	// Act
+	const result = await getPublishedVersions('@scope/core', registry.url);
+
+	// Assess
+	expect(result).toEqual(['1.0.0', '1.1.0-beta.0']);
+	expect(registry.urls.at(-1)).toBe('/@scope%2Fcore');
+	expect(registry.authorizations.at(-1)).toBeUndefined();
+});
+
+it('authenticates with the given authorization', async () => {
+	// Act
+	await getPublishedVersions('@scope/core', registry.url, 'Bearer secret');
+
+	// Assess
+	expect(registry.authorizations.at(-1)).toBe('Bearer secret');
+});
+
+it('returns no versions for packages that were never published', async () => {
+	// Act
+	const result = await getPublishedVersions('unknown', registry.url);
+
+	// Assess
+	expect(result).toEqual([]);
+});
+
+it('throws a descriptive error when the registry fails', async () => {
+	// Act & Assess
+	await expect(getPublishedVersions('broken', registry.url)).rejects.toThrow(
+		`Failed to get published versions of broken from ${registry.url}: 500 Internal Server Error`
+	);
+});
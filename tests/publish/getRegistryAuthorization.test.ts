@@ -0,0 +1,140 @@
+import { beforeEach, expect, it, vi } from 'vitest';
+import { getRegistryAuthorization } from '../../src/publish.js';
+
+const mocks = vi.hoisted(() => ({
+	files: new Map<string, string>(),
+}));
+
+vi.mock('node:fs', () => ({
+	existsSync: (path: string) => mocks.files.has(path),
+	readFileSync: (path: string) => mocks.files.get(path),
+}));
+
+vi.mock('node:os', () => ({
+	homedir: () => '/home/user',
+}));
+
+beforeEach(() => {
+	mocks.files.clear();
+});
+
+it('reads the token of the registry from the .npmrc of the repository', () => {
+	// Prepare
+	mocks.files.set(
+		'/test/root/.npmrc',
+		'@scope:registry=https://npm.pkg.github.com\n//npm.pkg.github.com/:_authToken=secret\n'
+	);
+
+	// Act
+	const result = getRegistryAuthorization(
+		'/test/root',
+		'https://npm.pkg.github.com',
+		{}
+	);
+
+	// Assess
+	expect(result).toBe('Bearer secret');
+});
+
+it('expands environment variables in the token', () => {
+	// Prepare
+	mocks.files.set(
+		'/test/root/.npmrc',
+		`//registry.npmjs.org/:_authToken="\${NPM_TOKEN}"\n`
+	);
+
+	// Act
+	const result = getRegistryAuthorization(
+		'/test/root',
+		'https://registry.npmjs.org',
+		{ NPM_TOKEN: 'secret' }
+	);
+
+	// Assess
+	expect(result).toBe('Bearer secret');
+});
+
+it('reads the user configuration, overridden by the repository', () => {
+	// Prepare
+	mocks.files.set(
+		'/home/user/.npmrc',
+		'//registry.npmjs.org/:_authToken=user\n//npm.pkg.github.com/:_authToken=user\n'
+	);
+	mocks.files.set(
+		'/test/root/.npmrc',
+		'//npm.pkg.github.com/:_authToken=repo\n'
+	);
+
+	// Act
+	const npm = getRegistryAuthorization(
+		'/test/root',
+		'https://registry.npmjs.org',
+		{}
+	);
+	const github = getRegistryAuthorization(
+		'/test/root',
+		'https://npm.pkg.github.com',
+		{}
+	);
+
+	// Assess
+	expect(npm).toBe('Bearer user');
+	expect(github).toBe('Bearer repo');
+});
+
+it('reads the user configuration set by npm_config_userconfig', () => {
+	// Prepare
+	mocks.files.set(
+		'/ci/.npmrc',
+		'; written by setup-node\n//registry.npmjs.org/:_authToken=ci\n'
+	);
+
+	// Act
+	const result = getRegistryAuthorization(
+		'/test/root',
+		'https://registry.npmjs.org/',
+		{ npm_config_userconfig: '/ci/.npmrc' }
+	);
+
+	// Assess
+	expect(result).toBe('Bearer ci');
+});
+
+it('uses the credentials of the most specific registry path', () => {
+	// Prepare
+	mocks.files.set(
+		'/test/root/.npmrc',
+		[
+			'//nexus.example.com/:_authToken=host',
+			'//nexus.example.com/repository/npm/:_auth=dXNlcjpwYXNz',
+		].join('\n')
+	);
+
+	// Act
+	const result = getRegistryAuthorization(
+		'/test/root',
+		'https://nexus.example.com/repository/npm',
+		{}
+	);
+
+	// Assess
+	expect(result).toBe('Basic dXNlcjpwYXNz');
+});
+
+it('returns undefined when no credentials are configured for the registry', () => {
+	// Prepare
+	mocks.files.set(
+		'/test/root/.npmrc',
+		'//npm.pkg.github.com/:_authToken=secret\n'
+	);
+
+	// Act
+	const result = getRegistryAuthorization(
+		'/test/root',
+		'https://registry.npmjs.org',
+		{}
+	);
+
+	// Assess
+	expect(result).toBeUndefined();
+});
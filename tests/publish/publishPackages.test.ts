@@ -0,0 +1,464 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import { publishPackages } from '../../src/publish.js';
+import type { Workspace } from '../../src/types.js';
+
+const mocks = vi.hoisted(() => ({
+	execFileSync: vi.fn(),
+	readWorkspaces: vi.fn(),
+	files: new Map<string, string>(),
+}));
+
+vi.mock('node:child_process', () => ({
+	execFileSync: mocks.execFileSync,
+}));
+
+vi.mock('node:fs', () => ({
+	existsSync: (path: string) => mocks.files.has(path),
+	readFileSync: (path: string) => {
+		const content = mocks.files.get(path);
+		if (content === undefined) {
+			throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+		}
+		return content;
+	},
+}));
+
+vi.mock('../../src/workspace.js', () => ({
+	readWorkspaces: mocks.readWorkspaces,
+}));
+
+/**
+ * A minimal stand-in for an npm registry, keeping the published versions by package name.
+ */
+const registry = {
+	server: null as Server | null,
+	url: '',
+	packages: new Map<string, string[]>(),
+	authorizations: [] as (string | undefined)[],
+};
+
+const createWorkspace = (
+	name: string,
+	overrides: Partial<Workspace> = {}
+): Workspace => ({
+	name,
+	shortName: name.split('/').pop() ?? name,
+	path: `/test/root/packages/${name.split('/').pop()}`,
+	version: '1.1.0',
+	changed: false,
+	commits: [],
+	dependencyNames: [],
+	dependenciesByType: {},
+	isPrivate: false,
+	...overrides,
+});
+
+beforeAll(async () => {
+	registry.server = createServer((request, response) => {
+		registry.authorizations.push(request.headers.authorization);
+		const name = decodeURIComponent((request.url ?? '').slice(1));
+		const versions = registry.packages.get(name);
+		if (!versions) {
+			response.writeHead(404);
+			return response.end();
+		}
+		response.writeHead(200, { 'Content-Type': 'application/json' });
+		response.end(
+			JSON.stringify({
+				name,
+				versions: Object.fromEntries(versions.map((version) => [version, {}])),
+			})
+		);
+	});
+	await new Promise<void>((resolve) =>
+		registry.server?.listen(0, '127.0.0.1', resolve)
+	);
+	const { port } = registry.server.address() as AddressInfo;
+	registry.url = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => registry.server?.close(resolve));
+});
+
+beforeEach(() => {
+	vi.clearAllMocks();
+	vi.spyOn(console, 'info').mockImplementation(() => {});
+	registry.packages.clear();
+	registry.authorizations = [];
+	mocks.files.clear();
+	vi.stubEnv('npm_config_userconfig', '/home/user/.npmrc');
+	for (const name of ['cli', 'utils', 'core', 'docs']) {
+		mocks.files.set(
+			`/test/root/packages/${name}/package.json`,
+			JSON.stringify({ name: `@scope/${name}`, version: '1.1.0' })
+		);
+	}
+	mocks.readWorkspaces.mockReturnValue({
+		cli: createWorkspace('@scope/cli', {
+			dependencyNames: ['@scope/utils'],
+			dependenciesByType: { dependencies: ['@scope/utils'] },
+		}),
+		utils: createWorkspace('@scope/utils', {
+			dependencyNames: ['@scope/core'],
+			dependenciesByType: { dependencies: ['@scope/core'] },
+		}),
+		core: createWorkspace('@scope/core'),
+		docs: createWorkspace('@scope/docs', { isPrivate: true }),
+	});
+	// Publishing adds the version to the registry, like a real registry would
+	mocks.execFileSync.mockImplementation(
+		(_file: string, _args: string[], { cwd }) => {
+			const workspace = Object.values(
+				mocks.readWorkspaces() as Record<string, Workspace>
+			).find(({ path }) => path === cwd);
+			if (!workspace) return;
+			registry.packages.set(workspace.name, [
+				...(registry.packages.get(workspace.name) ?? []),
+				workspace.version,
+			]);
+		}
+	);
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+});
+
+it('publishes public workspaces in dependency order', async () => {
+	// Act
+	const result = await publishPackages({
+		root: '/test/root',
+		registry: `${registry.url}/`,
+	});
+
+	// Assess
+	expect(result).toEqual({
+		published: ['@scope/core@1.1.0', '@scope/utils@1.1.0', '@scope/cli@1.1.0'],
+		skipped: [],
+	});
+	expect(mocks.execFileSync.mock.calls).toEqual([
+		[
+			'npm',
+			['publish', '--registry', registry.url, '--tag', 'latest'],
+			{ cwd: '/test/root/packages/core', stdio: 'pipe' },
+		],
+		[
+			'npm',
+			['publish', '--registry', registry.url, '--tag', 'latest'],
+			{ cwd: '/test/root/packages/utils', stdio: 'pipe' },
+		],
+		[
+			'npm',
+			['publish', '--registry', registry.url, '--tag', 'latest'],
+			{ cwd: '/test/root/packages/cli', stdio: 'pipe' },
+		],
+	]);
+	expect(registry.packages.has('@scope/docs')).toBe(false);
+});
+
+it('skips versions already on the registry', async () => {
+	// Prepare
+	registry.packages.set('@scope/core', ['1.0.0', '1.1.0']);
+	registry.packages.set('@scope/utils', ['1.0.0']);
+
+	// Act
+	const result = await publishPackages({
+		root: '/test/root',
+		registry: registry.url,
+	});
+
+	// Assess
+	expect(result).toEqual({
+		published: ['@scope/utils@1.1.0', '@scope/cli@1.1.0'],
+		skipped: ['@scope/core@1.1.0'],
+	});
+	expect(console.info).toHaveBeenCalledWith(
+		`Skipping @scope/core@1.1.0, already published to ${registry.url}`
+	);
+});
+
+it('publishes nothing when rerun after a successful publish', async () => {
+	// Prepare
+	await publishPackages({ root: '/test/root', registry: registry.url });
+	mocks.execFileSync.mockClear();
+
+	// Act
+	const result = await publishPackages({
+		root: '/test/root',
+		registry: registry.url,
+	});
+
+	// Assess
+	expect(result.published).toEqual([]);
+	expect(result.skipped).toHaveLength(3);
+	expect(mocks.execFileSync).not.toHaveBeenCalled();
+	expect(console.info).toHaveBeenCalledWith('No packages to publish');
+});
+
+it('publishes prerelease versions with the next dist-tag', async () => {
+	// Prepare
+	mocks.readWorkspaces.mockReturnValue({
+		core: createWorkspace('@scope/core', { version: '2.0.0-beta.1' }),
+	});
+
+	// Act
+	await publishPackages({ root: '/test/root', registry: registry.url });
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'npm',
+		['publish', '--registry', registry.url, '--tag', 'next'],
+		expect.anything()
+	);
+});
+
+it('publishes with the requested dist-tag', async () => {
+	// Act
+	await publishPackages({
+		root: '/test/root',
+		registry: registry.url,
+		distTag: 'legacy',
+	});
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledTimes(3);
+	for (const [, args] of mocks.execFileSync.mock.calls) {
+		expect(args).toEqual([
+			'publish',
+			'--registry',
+			registry.url,
+			'--tag',
+			'legacy',
+		]);
+	}
+});
+
+it('uses the registry configured for npm when none is passed', async () => {
+	// Prepare
+	vi.stubEnv('npm_config_registry', registry.url);
+
+	// Act
+	await publishPackages({ root: '/test/root' });
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'npm',
+		['publish', '--registry', registry.url, '--tag', 'latest'],
+		expect.anything()
+	);
+});
+
+it('does not publish in dry run mode', async () => {
+	// Act
+	const result = await publishPackages({
+		root: '/test/root',
+		registry: registry.url,
+		dryRun: true,
+	});
+
+	// Assess
+	expect(result.published).toHaveLength(3);
+	expect(mocks.execFileSync).not.toHaveBeenCalled();
+	expect(console.info).toHaveBeenCalledWith(
+		`Would publish @scope/core@1.1.0 to ${registry.url} with tag latest`
+	);
+});
+
+it('throws a descriptive error when publishing fails', async () => {
+	// Prepare
+	mocks.execFileSync.mockImplementation(() => {
+		throw new Error('npm error code E403');
+	});
+
+	// Act & Assess
+	await expect(
+		publishPackages({ root: '/test/root', registry: registry.url })
+	).rejects.toThrow('Failed to publish @scope/core@1.1.0: npm error code E403');
+});
+
+it('publishes with pnpm when the repository uses pnpm', async () => {
+	// Prepare
+	mocks.files.set('/test/root/pnpm-lock.yaml', "lockfileVersion: '9.0'\n");
+
+	// Act
+	await publishPackages({ root: '/test/root', registry: registry.url });
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'pnpm',
+		['publish', '--registry', registry.url, '--tag', 'latest'],
+		{ cwd: '/test/root/packages/core', stdio: 'pipe' }
+	);
+});
+
+it('publishes with Yarn to the registry through its configuration', async () => {
+	// Prepare
+	mocks.files.set('/test/root/yarn.lock', '__metadata:\n  version: 8\n');
+
+	// Act
+	await publishPackages({ root: '/test/root', registry: registry.url });
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'yarn',
+		['npm', 'publish', '--tag', 'latest'],
+		{
+			cwd: '/test/root/packages/core',
+			stdio: 'pipe',
+			env: expect.objectContaining({ YARN_NPM_PUBLISH_REGISTRY: registry.url }),
+		}
+	);
+});
+
+it('refuses to publish with npm while workspace: ranges remain', async () => {
+	// Prepare
+	mocks.files.set(
+		'/test/root/packages/cli/package.json',
+		JSON.stringify({
+			name: '@scope/cli',
+			version: '1.1.0',
+			dependencies: { '@scope/utils': 'workspace:^' },
+			devDependencies: { '@scope/core': 'workspace:*' },
+		})
+	);
+
+	// Act & Assess
+	await expect(
+		publishPackages({ root: '/test/root', registry: registry.url })
+	).rejects.toThrow(
+		'Cannot publish with npm while dependencies use the workspace: protocol (@scope/utils@workspace:^); publish with pnpm, Yarn or Bun, or set "workspaceProtocol" to "resolve"'
+	);
+	expect(mocks.execFileSync).not.toHaveBeenCalled();
+});
+
+it('publishes workspace: ranges with a package manager replacing them', async () => {
+	// Prepare
+	mocks.files.set('/test/root/pnpm-lock.yaml', "lockfileVersion: '9.0'\n");
+	mocks.files.set(
+		'/test/root/packages/cli/package.json',
+		JSON.stringify({
+			name: '@scope/cli',
+			version: '1.1.0',
+			dependencies: { '@scope/utils': 'workspace:^' },
+		})
+	);
+
+	// Act
+	const result = await publishPackages({
+		root: '/test/root',
+		registry: registry.url,
+	});
+
+	// Assess
+	expect(result.published).toHaveLength(3);
+});
+
+it('authenticates registry requests with the credentials of .npmrc', async () => {
+	// Prepare
+	vi.stubEnv('NPM_TOKEN', 'secret');
+	mocks.files.set(
+		'/test/root/.npmrc',
+		`${registry.url.replace('http:', '')}/:_authToken=\${NPM_TOKEN}\n`
+	);
+
+	// Act
+	await publishPackages({ root: '/test/root', registry: registry.url });
+
+	// Assess
+	expect(registry.authorizations).toHaveLength(3);
+	expect(new Set(registry.authorizations)).toEqual(new Set(['Bearer secret']));
+});
+
+it('passes the registry and dist-tag to the package manager verbatim', async () => {
+	// Act
+	await publishPackages({
+		root: '/test/root',
+		registry: registry.url,
+		distTag: 'beta $HOME "x"',
+	});
+
+	// Assess
+	expect(mocks.execFileSync).toHaveBeenCalledWith(
+		'npm',
+		['publish', '--registry', registry.url, '--tag', 'beta $HOME "x"'],
+		{ cwd: '/test/root/packages/core', stdio: 'pipe' }
+	);
+});
+
+it('orders workspaces by the installed dependency fields, ignoring devDependencies', async () => {
+	// Prepare
+	mocks.readWorkspaces.mockReturnValue({
+		plugin: createWorkspace('@scope/plugin', {
+			dependenciesByType: { peerDependencies: ['@scope/core'] },
+		}),
+		core: createWorkspace('@scope/core', {
+			dependenciesByType: { devDependencies: ['@scope/testing'] },
+		}),
+		testing: createWorkspace('@scope/testing', {
+			dependenciesByType: { dependencies: ['@scope/core'] },
+		}),
+	});
+	for (const name of ['plugin', 'testing']) {
+		mocks.files.set(
+			`/test/root/packages/${name}/package.json`,
+			JSON.stringify({ name: `@scope/${name}`, version: '1.1.0' })
+		);
+	}
+
+	// Act
+	const result = await publishPackages({
+		root: '/test/root',
+		registry: registry.url,
+	});
+
+	// Assess
+	expect(result.published).toEqual([
+		'@scope/core@1.1.0',
+		'@scope/plugin@1.1.0',
+		'@scope/testing@1.1.0',
+	]);
+});
+
+it('orders workspaces by the dependency fields bumped by the configuration', async () => {
+	// Prepare
+	mocks.files.set(
+		'/test/root/package.json',
+		JSON.stringify({
+			name: 'root',
+			bumpNGo: { dependencyTypes: ['dependencies'] },
+		})
+	);
+	mocks.readWorkspaces.mockReturnValue({
+		plugin: createWorkspace('@scope/plugin', {
+			dependenciesByType: { peerDependencies: ['@scope/core'] },
+		}),
+		core: createWorkspace('@scope/core'),
+	});
+	mocks.files.set(
+		'/test/root/packages/plugin/package.json',
+		JSON.stringify({ name: '@scope/plugin', version: '1.1.0' })
+	);
+
+	// Act
+	const result = await publishPackages({
+		root: '/test/root',
+		registry: registry.url,
+	});
+
+	// Assess
+	expect(result.published).toEqual([
+		'@scope/plugin@1.1.0',
+		'@scope/core@1.1.0',
+	]);
+});
@@ -0,0 +1,41 @@
+import { expect, it } from 'vitest';
+import { findLastTag } from '../../src/tags.js';
+
+it('returns the tag with the highest version matching the format', () => {
+	// Prepare
+	const tags = ['v1.10.0', 'v1.9.0', 'docs-2024', 'v2.0.0-rc.1', 'latest'];
+
+	// Act
+	const result = findLastTag(tags, 'v{version}');
+
+	// Assess
+	expect(result).toBe('v2.0.0-rc.1');
+});
+
+it('skips prereleases when looking for the last stable release', () => {
+	// Prepare
+	const tags = ['v1.2.3', 'v2.0.0-rc.1', 'v2.0.0-rc.2'];
+
+	// Act
+	const result = findLastTag(tags, 'v{version}', { stable: true });
+
+	// Assess
+	expect(result).toBe('v1.2.3');
+});
+
+it('returns the last tag of the given package', () => {
+	// Prepare
+	const tags = ['@scope/core@1.4.0', '@scope/ui@2.0.0', '@scope/core@1.3.2'];
+
+	// Act
+	const result = findLastTag(tags, '{name}@{version}', {
+		name: '@scope/core',
+	});
+
+	// Assess
+	expect(result).toBe('@scope/core@1.4.0');
+});
+
+it('returns null when no tag matches', () => {
+	expect(findLastTag(['docs-2024', 'latest'], 'v{version}')).toBeNull();
+});
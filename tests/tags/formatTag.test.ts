@@ -0,0 +1,15 @@
+import { expect, it } from 'vitest';
+import { formatTag } from '../../src/tags.js';
+
+it.each([
+	{ format: 'v{version}', name: undefined, expected: 'v1.2.0' },
+	{ format: 'release-{version}', name: undefined, expected: 'release-1.2.0' },
+	{
+		format: '{name}@{version}',
+		name: '@scope/core',
+		expected: '@scope/core@1.2.0',
+	},
+	{ format: '{name}/v{version}', name: 'core', expected: 'core/v1.2.0' },
+])('formats $format as $expected', ({ format, name, expected }) => {
+	expect(formatTag(format, '1.2.0', name)).toBe(expected);
+});
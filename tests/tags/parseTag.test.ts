@@ -0,0 +1,36 @@
+import { expect, it } from 'vitest';
+import { parseTag } from '../../src/tags.js';
+
+it.each([
+	{ tag: 'v1.2.0', format: 'v{version}', expected: '1.2.0' },
+	{ tag: 'v2.0.0-rc.1', format: 'v{version}', expected: '2.0.0-rc.1' },
+	{ tag: 'release-1.2.0', format: 'release-{version}', expected: '1.2.0' },
+	{ tag: '1.2.0', format: '{version}', expected: '1.2.0' },
+])('extracts $expected from $tag', ({ tag, format, expected }) => {
+	expect(parseTag(tag, format)?.version).toBe(expected);
+});
+
+it.each([
+	{ tag: 'docs-2024', format: 'v{version}' },
+	{ tag: 'v1.2', format: 'v{version}' },
+	{ tag: 'vnext', format: 'v{version}' },
+	{ tag: 'release-1.2.0', format: 'v{version}' },
+	{ tag: 'xv1.2.0', format: 'v{version}' },
+	{ tag: 'v1.2.0', format: 'release.{version}' },
+])('ignores $tag not matching $format', ({ tag, format }) => {
+	expect(parseTag(tag, format)).toBeNull();
+});
+
+it('matches per-package tags of the given package only', () => {
+	// Act
+	const own = parseTag('@scope/core@1.2.0', '{name}@{version}', '@scope/core');
+	const other = parseTag('@scope/core@1.2.0', '{name}@{version}', '@scope/ui');
+
+	// Assess
+	expect(own?.version).toBe('1.2.0');
+	expect(other).toBeNull();
+});
+
+it('treats special characters of package names literally', () => {
+	expect(parseTag('a-b@1.0.0', '{name}@{version}', 'a.b')).toBeNull();
+});
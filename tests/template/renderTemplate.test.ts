@@ -0,0 +1,75 @@
+import { expect, it } from 'vitest';
+import { renderTemplate } from '../../src/template.js';
+
+it('replaces placeholders with their values', () => {
+	// Act
+	const result = renderTemplate('## [{{version}}]({{versionLink}})', {
+		version: '1.2.0',
+		versionLink: 'https://example.com',
+	});
+
+	// Assess
+	expect(result).toBe('## [1.2.0](https://example.com)');
+});
+
+it('renders unknown and empty values as empty strings', () => {
+	expect(renderTemplate('[{{missing}}][{{empty}}]', { empty: '' })).toBe(
+		'[][]'
+	);
+});
+
+it.each([
+	{ scope: 'core', expected: '**core:** add feature' },
+	{ scope: '', expected: 'add feature' },
+])(
+	'renders sections only for truthy values (scope: $scope)',
+	({ scope, expected }) => {
+		// Act
+		const result = renderTemplate(
+			'{{#scope}}**{{scope}}:** {{/scope}}{{subject}}',
+			{ scope, subject: 'add feature' }
+		);
+
+		// Assess
+		expect(result).toBe(expected);
+	}
+);
+
+it.each([
+	{ breaking: true, expected: '- add feature ⚠️' },
+	{ breaking: false, expected: '- add feature' },
+])(
+	'renders inverted sections only for falsy values (breaking: $breaking)',
+	({ breaking, expected }) => {
+		// Act
+		const result = renderTemplate(
+			'- {{subject}}{{^breaking}}{{/breaking}}{{#breaking}} ⚠️{{/breaking}}',
+			{ breaking, subject: 'add feature' }
+		);
+
+		// Assess
+		expect(result).toBe(expected);
+	}
+);
+
+it('renders nested sections', () => {
+	// Act
+	const result = renderTemplate(
+		'{{#hash}}({{#commitUrl}}[{{hash}}]({{commitUrl}}){{/commitUrl}}{{^commitUrl}}{{hash}}{{/commitUrl}}){{/hash}}',
+		{ hash: 'abc1234', commitUrl: '' }
+	);
+
+	// Assess
+	expect(result).toBe('(abc1234)');
+});
+
+it('calls render functions with the values', () => {
+	// Act
+	const result = renderTemplate(
+		({ version }: { version: string }) => `Release ${version}`,
+		{ version: '1.2.0' }
+	);
+
+	// Assess
+	expect(result).toBe('Release 1.2.0');
+});
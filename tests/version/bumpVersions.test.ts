@@ -19,8 +19,14 @@ vi.mock('node:path', () => ({
 	join: mocks.join,
 }));
 
+// Lockfiles other than package-lock.json are absent unless a test provides one
+const withoutOtherLockfiles = (path: string) =>
+	!/(pnpm-lock\.yaml|yarn\.lock|bun\.lock)$/.test(path);
+
 beforeEach(() => {
 	vi.clearAllMocks();
+	mocks.join.mockImplementation((...paths: string[]) => paths.join('/'));
+	mocks.existsSync.mockReturnValue(false);
 });
 
 it('bumps versions for all workspaces', () => {
@@ -33,6 +39,7 @@ it('bumps versions for all workspaces', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -43,6 +50,7 @@ it('bumps versions for all workspaces', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'package-a': workspace1, 'package-b': workspace2 };
@@ -51,7 +59,7 @@ it('bumps versions for all workspaces', () => {
 		.mockReturnValueOnce('/test/packages/package-a/package.json')
 		.mockReturnValueOnce('/test/packages/package-b/package.json')
 		.mockReturnValueOnce('/test/package-lock.json');
-	mocks.existsSync.mockReturnValue(true);
+	mocks.existsSync.mockImplementation(withoutOtherLockfiles);
 	mocks.readFileSync
 		.mockReturnValueOnce('{"name":"package-a","version":"1.0.0"}')
 		.mockReturnValueOnce('{"name":"package-b","version":"1.0.0"}')
@@ -83,6 +91,7 @@ it('updates package-lock.json after updating workspace packages', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'package-a': workspace };
@@ -96,7 +105,7 @@ it('updates package-lock.json after updating workspace packages', () => {
 	mocks.join
 		.mockReturnValueOnce('/test/packages/package-a/package.json')
 		.mockReturnValueOnce('/test/package-lock.json');
-	mocks.existsSync.mockReturnValue(true);
+	mocks.existsSync.mockImplementation(withoutOtherLockfiles);
 	mocks.readFileSync
 		.mockReturnValueOnce('{"name":"package-a","version":"1.0.0"}')
 		.mockReturnValueOnce(JSON.stringify(lockfile));
@@ -137,6 +146,7 @@ it('handles mixed workspace scenarios with private packages', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const privateWorkspace: Workspace = {
@@ -147,6 +157,7 @@ it('handles mixed workspace scenarios with private packages', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: true,
 	};
 	const workspaces = {
@@ -158,7 +169,7 @@ it('handles mixed workspace scenarios with private packages', () => {
 		.mockReturnValueOnce('/test/packages/public-package/package.json')
 		.mockReturnValueOnce('/test/packages/private-package/package.json')
 		.mockReturnValueOnce('/test/package-lock.json');
-	mocks.existsSync.mockReturnValue(true);
+	mocks.existsSync.mockImplementation(withoutOtherLockfiles);
 	mocks.readFileSync
 		.mockReturnValueOnce('{"name":"public-package","version":"1.0.0"}')
 		.mockReturnValueOnce(
@@ -195,3 +206,119 @@ it('handles empty workspace collection', () => {
 	// Assess
 	expect(mocks.writeFileSync).not.toHaveBeenCalled();
 });
+
+it('bumps only the listed workspaces when given independent versions', () => {
+	// Prepare
+	const core: Workspace = {
+		name: '@scope/core',
+		shortName: 'core',
+		path: '/test/packages/core',
+		version: '1.0.0',
+		changed: true,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	};
+	const utils: Workspace = {
+		name: '@scope/utils',
+		shortName: 'utils',
+		path: '/test/packages/utils',
+		version: '0.3.0',
+		changed: true,
+		commits: [],
+		dependencyNames: ['@scope/core'],
+		dependenciesByType: { dependencies: ['@scope/core'] },
+		isPrivate: false,
+	};
+	const untouched: Workspace = {
+		name: '@scope/untouched',
+		shortName: 'untouched',
+		path: '/test/packages/untouched',
+		version: '5.0.0',
+		changed: false,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	};
+	const workspaces = { core, utils, untouched };
+	const lockfile = {
+		name: 'root',
+		packages: {
+			'packages/core': { name: '@scope/core', version: '1.0.0' },
+			'packages/utils': { name: '@scope/utils', version: '0.3.0' },
+			'packages/untouched': { name: '@scope/untouched', version: '5.0.0' },
+		},
+	};
+
+	mocks.join
+		.mockReturnValueOnce('/test/packages/core/package.json')
+		.mockReturnValueOnce('/test/packages/utils/package.json')
+		.mockReturnValueOnce('/test/package-lock.json');
+	mocks.existsSync.mockImplementation(withoutOtherLockfiles);
+	mocks.readFileSync
+		.mockReturnValueOnce('{"name":"@scope/core","version":"1.0.0"}')
+		.mockReturnValueOnce(
+			'{"name":"@scope/utils","version":"0.3.0","dependencies":{"@scope/core":"^1.0.0","@scope/untouched":"^5.0.0"}}'
+		)
+		.mockReturnValueOnce(JSON.stringify(lockfile));
+
+	// Act
+	bumpVersions('/test', workspaces, { core: '1.1.0', utils: '0.3.1' });
+
+	// Assess
+	expect(mocks.writeFileSync).toHaveBeenCalledTimes(3);
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/packages/core/package.json',
+		'{\n\t"name": "@scope/core",\n\t"version": "1.1.0"\n}\n',
+		'utf-8'
+	);
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/packages/utils/package.json',
+		'{\n\t"name": "@scope/utils",\n\t"version": "0.3.1",\n\t"dependencies": {\n\t\t"@scope/core": "^1.1.0",\n\t\t"@scope/untouched": "^5.0.0"\n\t}\n}\n',
+		'utf-8'
+	);
+	const expectedLockfile = {
+		name: 'root',
+		packages: {
+			'packages/core': { name: '@scope/core', version: '1.1.0' },
+			'packages/utils': { name: '@scope/utils', version: '0.3.1' },
+			'packages/untouched': { name: '@scope/untouched', version: '5.0.0' },
+		},
+	};
+	expect(mocks.writeFileSync).toHaveBeenCalledWith(
+		'/test/package-lock.json',
+		`${JSON.stringify(expectedLockfile, null, 2)}\n`,
+		'utf-8'
+	);
+});
+
+it('returns the paths of the files written', () => {
+	// Prepare
+	const workspace: Workspace = {
+		name: 'package-a',
+		shortName: 'package-a',
+		path: '/test/packages/package-a',
+		version: '1.0.0',
+		changed: true,
+		commits: [],
+		dependencyNames: [],
+		dependenciesByType: {},
+		isPrivate: false,
+	};
+
+	mocks.join
+		.mockReturnValueOnce('/test/packages/package-a/package.json')
+		.mockReturnValueOnce('/test/package-lock.json');
+	mocks.existsSync.mockReturnValueOnce(true).mockReturnValueOnce(false);
+	mocks.readFileSync.mockReturnValueOnce(
+		'{"name":"package-a","version":"1.0.0"}'
+	);
+
+	// Act
+	const result = bumpVersions('/test', { 'package-a': workspace }, '1.1.0');
+
+	// Assess
+	expect(result).toEqual(['/test/packages/package-a/package.json']);
+});
@@ -28,6 +28,7 @@ describe('updateWorkspacePackageJson formatting preservation', () => {
 			changed: true,
 			commits: [],
 			dependencyNames: [],
+			dependenciesByType: {},
 			isPrivate: false,
 		};
 	});
@@ -169,6 +170,7 @@ describe('updateWorkspacePackageJson formatting preservation', () => {
 			changed: true,
 			commits: [],
 			dependencyNames: [],
+			dependenciesByType: {},
 			isPrivate: false,
 		};
 
@@ -183,6 +185,7 @@ describe('updateWorkspacePackageJson formatting preservation', () => {
 			changed: true,
 			commits: [],
 			dependencyNames: [],
+			dependenciesByType: {},
 			isPrivate: false,
 		};
 
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DefaultConfig } from '../../src/constants.js';
+import { updateDependencyRange } from '../../src/version.js';
+
+describe('updateDependencyRange', () => {
+	const resolveConfig = {
+		...DefaultConfig,
+		workspaceProtocol: 'resolve' as const,
+	};
+
+	it.each([
+		['^1.0.0', '^2.1.0'],
+		['~1.0.0', '~2.1.0'],
+		['1.0.0', '2.1.0'],
+	])('preserves the operator of %s', (currentRange, expected) => {
+		expect(updateDependencyRange(currentRange, '2.1.0')).toBe(expected);
+	});
+
+	it('skips file: dependencies', () => {
+		expect(updateDependencyRange('file:../core', '2.1.0')).toBeNull();
+	});
+
+	it.each(['workspace:*', 'workspace:^', 'workspace:~'])(
+		'keeps the %s alias by default',
+		(currentRange) => {
+			expect(updateDependencyRange(currentRange, '2.1.0')).toBeNull();
+		}
+	);
+
+	it('updates explicit workspace: ranges by default', () => {
+		expect(updateDependencyRange('workspace:^1.0.0', '2.1.0')).toBe(
+			'workspace:^2.1.0'
+		);
+	});
+
+	it.each([
+		['workspace:*', '2.1.0'],
+		['workspace:^', '^2.1.0'],
+		['workspace:~', '~2.1.0'],
+		['workspace:^1.0.0', '^2.1.0'],
+	])('resolves %s to %s when configured', (currentRange, expected) => {
+		expect(updateDependencyRange(currentRange, '2.1.0', resolveConfig)).toBe(
+			expected
+		);
+	});
+});
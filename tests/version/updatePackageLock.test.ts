@@ -19,8 +19,14 @@ vi.mock('node:path', () => ({
 	join: mocks.join,
 }));
 
+// Lockfiles other than package-lock.json are absent unless a test provides one
+const withoutOtherLockfiles = (path: string) =>
+	!/(pnpm-lock\.yaml|yarn\.lock|bun\.lock)$/.test(path);
+
 beforeEach(() => {
 	vi.clearAllMocks();
+	mocks.join.mockImplementation((...paths: string[]) => paths.join('/'));
+	mocks.existsSync.mockReturnValue(false);
 });
 
 it('updates workspace package versions in package-lock.json', () => {
@@ -33,6 +39,7 @@ it('updates workspace package versions in package-lock.json', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -43,6 +50,7 @@ it('updates workspace package versions in package-lock.json', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'package-a': workspace1, 'package-b': workspace2 };
@@ -61,7 +69,7 @@ it('updates workspace package versions in package-lock.json', () => {
 		.mockReturnValueOnce('/test/packages/package-a/package.json')
 		.mockReturnValueOnce('/test/packages/package-b/package.json')
 		.mockReturnValueOnce('/test/package-lock.json');
-	mocks.existsSync.mockReturnValue(true);
+	mocks.existsSync.mockImplementation(withoutOtherLockfiles);
 	mocks.readFileSync
 		.mockReturnValueOnce('{"name":"package-a","version":"1.0.0"}')
 		.mockReturnValueOnce('{"name":"package-b","version":"1.0.0"}')
@@ -99,6 +107,7 @@ it('skips root package when updating lockfile', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { root: workspace };
@@ -113,7 +122,7 @@ it('skips root package when updating lockfile', () => {
 	mocks.join
 		.mockReturnValueOnce('/test/package.json')
 		.mockReturnValueOnce('/test/package-lock.json');
-	mocks.existsSync.mockReturnValue(true);
+	mocks.existsSync.mockImplementation(withoutOtherLockfiles);
 	mocks.readFileSync
 		.mockReturnValueOnce('{"name":"root","version":"1.0.0"}')
 		.mockReturnValueOnce(JSON.stringify(lockfile));
@@ -144,6 +153,7 @@ it('skips non-existent package-lock.json', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'test-package': workspace };
@@ -179,6 +189,7 @@ it('only writes lockfile when updates are made', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'package-a': workspace };
@@ -194,7 +205,7 @@ it('only writes lockfile when updates are made', () => {
 	mocks.join
 		.mockReturnValueOnce('/test/packages/package-a/package.json')
 		.mockReturnValueOnce('/test/package-lock.json');
-	mocks.existsSync.mockReturnValue(true);
+	mocks.existsSync.mockImplementation(withoutOtherLockfiles);
 	mocks.readFileSync
 		.mockReturnValueOnce('{"name":"package-a","version":"1.0.0"}')
 		.mockReturnValueOnce(JSON.stringify(lockfile));
@@ -221,6 +232,7 @@ it('handles lockfile packages without name property', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'package-a': workspace };
@@ -237,7 +249,7 @@ it('handles lockfile packages without name property', () => {
 	mocks.join
 		.mockReturnValueOnce('/test/packages/package-a/package.json')
 		.mockReturnValueOnce('/test/package-lock.json');
-	mocks.existsSync.mockReturnValue(true);
+	mocks.existsSync.mockImplementation(withoutOtherLockfiles);
 	mocks.readFileSync
 		.mockReturnValueOnce('{"name":"package-a","version":"1.0.0"}')
 		.mockReturnValueOnce(JSON.stringify(lockfile));
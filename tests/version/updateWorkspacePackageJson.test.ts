@@ -33,6 +33,7 @@ it('updates workspace package version', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'test-package': workspace };
@@ -66,6 +67,7 @@ it('updates intra-project dependencies with preserved operators', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspace2: Workspace = {
@@ -76,6 +78,7 @@ it('updates intra-project dependencies with preserved operators', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'package-a': workspace1, 'package-b': workspace2 };
@@ -134,6 +137,7 @@ it('skips file: dependencies', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'package-a': workspace };
@@ -178,6 +182,7 @@ it('skips non-existent package.json files', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'test-package': workspace };
@@ -203,6 +208,7 @@ it('handles packages with no dependencies', () => {
 		changed: true,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	};
 	const workspaces = { 'test-package': workspace };
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parsePnpmWorkspacePatterns } from '../../src/workspace.js';
+
+describe('parsePnpmWorkspacePatterns', () => {
+	it('parses block sequences with quoted and unquoted patterns', () => {
+		// Prepare
+		const content = [
+			'# Workspaces',
+			'packages:',
+			"  - 'packages/*'",
+			'  - "apps/*" # applications',
+			'  - tools/cli',
+			"  - '!**/test/**'",
+			'',
+			'catalog:',
+			'  react: ^18.0.0',
+			'',
+		].join('\n');
+
+		// Act
+		const patterns = parsePnpmWorkspacePatterns(content);
+
+		// Assess
+		expect(patterns).toEqual([
+			'packages/*',
+			'apps/*',
+			'tools/cli',
+			'!**/test/**',
+		]);
+	});
+
+	it('parses flow sequences', () => {
+		// Act
+		const patterns = parsePnpmWorkspacePatterns(
+			'packages: [\'packages/*\', "!packages/internal"]\n'
+		);
+
+		// Assess
+		expect(patterns).toEqual(['packages/*', '!packages/internal']);
+	});
+
+	it('returns an empty list when there is no packages key', () => {
+		expect(
+			parsePnpmWorkspacePatterns('onlyBuiltDependencies:\n  - esbuild\n')
+		).toEqual([]);
+	});
+});
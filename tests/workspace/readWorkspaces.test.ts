@@ -71,6 +71,7 @@ it('reads workspaces from array format', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: ['dep1', 'dep2'],
+		dependenciesByType: { dependencies: ['dep1', 'dep2'] },
 		isPrivate: false,
 	});
 	expect(result['pkg-b']).toEqual({
@@ -81,6 +82,7 @@ it('reads workspaces from array format', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: { dependencies: [] },
 		isPrivate: true,
 	});
 });
@@ -147,6 +149,7 @@ it('reads workspaces from object format', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: { dependencies: [] },
 		isPrivate: true,
 	});
 });
@@ -160,6 +163,7 @@ it('handles empty or missing workspaces definition by treating root as workspace
 			version: '1.0.0',
 		})
 	);
+	mocks.existsSync.mockReturnValueOnce(false); // No pnpm-workspace.yaml
 	mocks.globSync.mockReturnValueOnce([]);
 
 	// Act
@@ -175,6 +179,7 @@ it('handles empty or missing workspaces definition by treating root as workspace
 			changed: false,
 			commits: [],
 			dependencyNames: [],
+			dependenciesByType: {},
 			isPrivate: false,
 		},
 	});
@@ -366,6 +371,7 @@ it('uses "root" as fallback when root package has no name', () => {
 	);
 
 	// No workspaces defined, so it falls back to treating root as workspace
+	mocks.existsSync.mockReturnValueOnce(false); // No pnpm-workspace.yaml
 	mocks.globSync.mockReturnValueOnce([]);
 
 	// Act
@@ -382,6 +388,92 @@ it('uses "root" as fallback when root package has no name', () => {
 		changed: false,
 		commits: [],
 		dependencyNames: [],
+		dependenciesByType: {},
 		isPrivate: false,
 	});
 });
+
+it('reads workspaces from pnpm-workspace.yaml when package.json defines none', () => {
+	// Prepare
+	const root = '/test/root';
+	mocks.readFileSync
+		.mockReturnValueOnce(JSON.stringify({ name: 'root-pkg' }))
+		.mockReturnValueOnce(
+			"packages:\n  - 'packages/*'\n  - '!packages/internal'\n"
+		)
+		.mockReturnValueOnce(
+			JSON.stringify({ name: '@scope/a', version: '1.0.0' })
+		);
+	mocks.globSync
+		.mockReturnValueOnce(['packages/a', 'packages/internal'])
+		.mockReturnValueOnce(['packages/internal']);
+
+	// Act
+	const result = readWorkspaces(root);
+
+	// Assess
+	expect(mocks.readFileSync).toHaveBeenNthCalledWith(
+		2,
+		'/test/root/pnpm-workspace.yaml',
+		'utf-8'
+	);
+	expect(mocks.globSync).toHaveBeenNthCalledWith(2, 'packages/internal', {
+		cwd: root,
+	});
+	expect(Object.keys(result)).toEqual(['a']);
+	expect(result.a?.path).toBe('/test/root/packages/a');
+});
+
+it('excludes directories matching negation patterns', () => {
+	// Prepare
+	const root = '/test/root';
+	mocks.readFileSync
+		.mockReturnValueOnce(
+			JSON.stringify({
+				name: 'root-pkg',
+				workspaces: ['packages/*', '!packages/b'],
+			})
+		)
+		.mockReturnValueOnce(JSON.stringify({ name: 'pkg-a', version: '1.0.0' }));
+	mocks.globSync
+		.mockReturnValueOnce(['packages/a', 'packages/b'])
+		.mockReturnValueOnce(['packages/b']);
+
+	// Act
+	const result = readWorkspaces(root);
+
+	// Assess
+	expect(mocks.readFileSync).toHaveBeenCalledTimes(2);
+	expect(Object.keys(result)).toEqual(['pkg-a']);
+});
+
+it('records the packages of each dependency field', () => {
+	// Prepare
+	const root = '/test/root';
+	mocks.readFileSync
+		.mockReturnValueOnce(
+			JSON.stringify({ name: 'root-pkg', workspaces: ['packages/*'] })
+		)
+		.mockReturnValueOnce(
+			JSON.stringify({
+				name: '@scope/plugin',
+				version: '1.0.0',
+				dependencies: { chalk: '^5.0.0' },
+				devDependencies: { '@scope/testing': 'workspace:*' },
+				peerDependencies: { '@scope/core': '^1.0.0' },
+				bundleDependencies: ['chalk'],
+			})
+		);
+	mocks.globSync.mockReturnValueOnce(['packages/plugin']);
+
+	// Act
+	const result = readWorkspaces(root);
+
+	// Assess
+	expect(result.plugin?.dependencyNames).toEqual(['chalk']);
+	expect(result.plugin?.dependenciesByType).toEqual({
+		dependencies: ['chalk'],
+		devDependencies: ['@scope/testing'],
+		peerDependencies: ['@scope/core'],
+	});
+});